@@ -0,0 +1,201 @@
+/**
+ * Tests for ContextManager.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { rm, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { ContextBuilder } from './context.js';
+import { ContextManager } from './context-manager.js';
+import { estimateTokens } from './tokens.js';
+import { Session } from '../session/manager.js';
+import type { LLMProvider, LLMResponse, ChatOptions } from '../providers/base.js';
+
+const MODEL = 'test-model';
+
+function createSummaryProvider(content: string | null, finishReason = 'stop'): LLMProvider {
+  return {
+    getDefaultModel: () => MODEL,
+    chat: vi.fn(
+      async (_options: ChatOptions): Promise<LLMResponse> => ({
+        content,
+        toolCalls: [],
+        finishReason,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      })
+    ),
+  };
+}
+
+function addTurns(session: Session, count: number): void {
+  for (let i = 0; i < count; i++) {
+    session.addMessage('user', `question ${i} ${'x'.repeat(400)}`);
+    session.addMessage('assistant', `answer ${i} ${'y'.repeat(400)}`);
+  }
+}
+
+describe('ContextManager', () => {
+  let testDir: string;
+  let builder: ContextBuilder;
+  let systemTokens: number;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `context-manager-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    builder = new ContextBuilder(testDir);
+    systemTokens = estimateTokens(await builder.buildSystemPrompt(), MODEL);
+  });
+
+  afterEach(async () => {
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  function createManager(provider: LLMProvider, historyBudget: number): ContextManager {
+    return new ContextManager({
+      provider,
+      context: builder,
+      model: MODEL,
+      contextWindow: systemTokens + historyBudget,
+      reserveTokens: 0,
+    });
+  }
+
+  it('should return full history when it fits', async () => {
+    const provider = createSummaryProvider('unused');
+    const manager = createManager(provider, 100_000);
+    const session = new Session({ key: 'test:fits' });
+    addTurns(session, 3);
+
+    const prepared = await manager.prepare(session, 'hi', []);
+
+    expect(prepared.history).toHaveLength(6);
+    expect(prepared.summary).toBeNull();
+    expect(provider.chat).not.toHaveBeenCalled();
+  });
+
+  it("should use the context window and summarizer of the turn's model", async () => {
+    const provider = createSummaryProvider('- user asked questions');
+    const manager = createManager(provider, 100_000);
+    const session = new Session({ key: 'test:model' });
+    addTurns(session, 40);
+
+    await manager.prepare(session, 'hi', []);
+    expect(provider.chat).not.toHaveBeenCalled();
+
+    // gpt-4 has an 8k context window
+    const prepared = await manager.prepare(session, 'hi', [], 'gpt-4');
+
+    expect(prepared.summary).toBe('- user asked questions');
+    expect(vi.mocked(provider.chat).mock.calls[0]?.[0].model).toBe('gpt-4');
+  });
+
+  it('should summarize old messages when over budget', async () => {
+    const provider = createSummaryProvider('- user asked questions');
+    const manager = createManager(provider, 1000);
+    const session = new Session({ key: 'test:over' });
+    addTurns(session, 10);
+
+    const prepared = await manager.prepare(session, 'hi', []);
+
+    expect(provider.chat).toHaveBeenCalledTimes(1);
+    expect(prepared.summary).toBe('- user asked questions');
+    expect(prepared.history.length).toBeGreaterThan(0);
+    expect(prepared.history.length).toBeLessThan(20);
+    expect(prepared.history[0]?.role).toBe('user');
+    expect(prepared.history.at(-1)?.content).toContain('answer 9');
+    expect(session.metadata['summary']).toBe('- user asked questions');
+    expect(session.metadata['summarizedCount']).toBe(20 - prepared.history.length);
+
+    const prompt = (vi.mocked(provider.chat).mock.calls[0]?.[0].messages[1]?.content ?? '') as string;
+    expect(prompt).toContain('User: question 0');
+    expect(prompt).not.toContain('answer 9');
+  });
+
+  it('should resume from the summarized count on later turns', async () => {
+    const provider = createSummaryProvider('- earlier');
+    const manager = createManager(provider, 1000);
+    const session = new Session({ key: 'test:resume' });
+    addTurns(session, 10);
+
+    await manager.prepare(session, 'hi', []);
+    session.addMessage('user', 'short');
+    session.addMessage('assistant', 'reply');
+    const prepared = await manager.prepare(session, 'next', []);
+
+    expect(provider.chat).toHaveBeenCalledTimes(1);
+    expect(prepared.summary).toBe('- earlier');
+    expect(prepared.history.at(-1)?.content).toBe('reply');
+  });
+
+  it('should include the previous summary when summarizing again', async () => {
+    const provider = createSummaryProvider('- newer');
+    const manager = createManager(provider, 1000);
+    const session = new Session({
+      key: 'test:rolling',
+      metadata: { summary: '- older facts', summarizedCount: 0 },
+    });
+    addTurns(session, 10);
+
+    await manager.prepare(session, 'hi', []);
+
+    const prompt = (vi.mocked(provider.chat).mock.calls[0]?.[0].messages[1]?.content ?? '') as string;
+    expect(prompt).toContain('- older facts');
+    expect(session.metadata['summary']).toBe('- newer');
+  });
+
+  it('should keep the old summary when summarization fails', async () => {
+    const provider = createSummaryProvider('Error calling LLM: boom', 'error');
+    const manager = createManager(provider, 1000);
+    const session = new Session({
+      key: 'test:error',
+      metadata: { summary: '- kept' },
+    });
+    addTurns(session, 10);
+
+    const prepared = await manager.prepare(session, 'hi', []);
+
+    expect(prepared.summary).toBe('- kept');
+    expect(session.metadata['summary']).toBe('- kept');
+    expect(prepared.history.length).toBeLessThan(20);
+  });
+
+  it('should not split a tool exchange', async () => {
+    const provider = createSummaryProvider('- summary');
+    const manager = createManager(provider, 600);
+    const session = new Session({ key: 'test:tools' });
+    addTurns(session, 4);
+    session.addMessage('user', 'list files');
+    session.addMessage('assistant', '', {
+      tool_calls: [
+        { id: 'call_1', type: 'function', function: { name: 'list_dir', arguments: '{}' } },
+      ],
+    });
+    session.addMessage('tool', 'z'.repeat(800), { tool_call_id: 'call_1', name: 'list_dir' });
+    session.addMessage('assistant', 'Here are the files.');
+
+    const prepared = await manager.prepare(session, 'hi', []);
+
+    expect(prepared.history[0]?.role).toBe('user');
+    expect(prepared.history.every((m) => m.role !== 'tool' || m.tool_call_id)).toBe(true);
+  });
+
+  it('should drop the summary after the session is cleared', async () => {
+    const provider = createSummaryProvider('unused');
+    const manager = createManager(provider, 100_000);
+    const session = new Session({
+      key: 'test:cleared',
+      metadata: { summary: '- stale', summarizedCount: 12 },
+    });
+    addTurns(session, 1);
+
+    const prepared = await manager.prepare(session, 'hi', []);
+
+    expect(prepared.summary).toBeNull();
+    expect(prepared.history).toHaveLength(2);
+    expect(session.metadata['summary']).toBeUndefined();
+  });
+});
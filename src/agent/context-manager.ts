@@ -0,0 +1,275 @@
+/**
+ * Token-budget-aware context window management.
+ */
+
+import type { LLMProvider, ToolDefinition } from '../providers/base.js';
+import type { HistoryMessage, Session } from '../session/manager.js';
+import type { ContextBuilder } from './context.js';
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  estimateToolTokens,
+  getContextWindow,
+} from './tokens.js';
+
+/**
+ * Session metadata key holding the rolling summary.
+ */
+export const SUMMARY_METADATA_KEY = 'summary';
+
+/**
+ * Session metadata key holding how many messages the summary covers.
+ */
+export const SUMMARIZED_COUNT_METADATA_KEY = 'summarizedCount';
+
+/**
+ * Fraction of the history budget kept after compaction, so the next
+ * turns don't immediately trigger another summarization.
+ */
+const KEEP_RATIO = 0.5;
+
+/**
+ * Maximum characters of a tool result included in the summarization input.
+ */
+const SUMMARY_TOOL_RESULT_CHARS = 300;
+
+/**
+ * Options for ContextManager.
+ */
+export interface ContextManagerOptions {
+  provider: LLMProvider;
+  context: ContextBuilder;
+  model: string;
+  /** Context window of `model` in tokens. Detected from the model if not set. */
+  contextWindow?: number;
+  /** Tokens reserved for the model's reply. */
+  reserveTokens?: number;
+}
+
+/**
+ * History prepared to fit the context window.
+ */
+export interface PreparedHistory {
+  /** Messages to replay, newest last */
+  history: HistoryMessage[];
+  /** Rolling summary of older messages, if any */
+  summary: string | null;
+}
+
+/**
+ * Keeps conversation history within the model's context window.
+ *
+ * The budget for history is what remains of the context window after the
+ * system prompt (bootstrap files, memory, skills), tool definitions, the
+ * new message and the reply reservation. When the unsummarized history
+ * exceeds it, the oldest messages are folded into a rolling summary via
+ * the LLM and the summary is stored in session metadata.
+ */
+export class ContextManager {
+  readonly provider: LLMProvider;
+  readonly context: ContextBuilder;
+  readonly model: string;
+  readonly contextWindow: number;
+  readonly reserveTokens: number;
+
+  constructor(options: ContextManagerOptions) {
+    this.provider = options.provider;
+    this.context = options.context;
+    this.model = options.model;
+    this.contextWindow = options.contextWindow ?? getContextWindow(options.model);
+    this.reserveTokens = options.reserveTokens ?? 4096;
+  }
+
+  /**
+   * Select the history for the next LLM call, summarizing if needed.
+   *
+   * @param session - The conversation session. Its metadata is updated
+   *   when a new summary is produced; the caller is responsible for saving.
+   * @param currentMessage - The new user message.
+   * @param tools - Tool definitions sent with the request.
+   * @param model - Model of the turn, if the chat uses another model;
+   *   its context window applies and it writes the summary.
+   * @returns History and summary to build the request from.
+   */
+  async prepare(
+    session: Session,
+    currentMessage: string,
+    tools: ToolDefinition[],
+    model: string = this.model
+  ): Promise<PreparedHistory> {
+    this.resetIfCleared(session);
+    const start = this.getSummarizedCount(session);
+    const summary = this.getSummary(session);
+    const history = session.getHistoryFrom(start);
+
+    const budget = await this.getHistoryBudget(model, currentMessage, tools, summary);
+    const sizes = history.map((m) => estimateMessageTokens(m, model));
+    const total = sizes.reduce((sum, n) => sum + n, 0);
+
+    if (total <= budget) {
+      return { history, summary };
+    }
+
+    const cut = this.findCut(history, sizes, Math.max(0, budget * KEEP_RATIO));
+    const newSummary = await this.summarize(model, summary, history.slice(0, cut));
+
+    if (newSummary !== null) {
+      session.metadata[SUMMARY_METADATA_KEY] = newSummary;
+    } else {
+      console.warn(
+        `[ContextManager] Summarization failed for ${session.key}, dropping ${cut} old messages`
+      );
+    }
+    session.metadata[SUMMARIZED_COUNT_METADATA_KEY] = start + cut;
+
+    return { history: history.slice(cut), summary: newSummary ?? summary };
+  }
+
+  /**
+   * Compute the tokens available for history.
+   */
+  private async getHistoryBudget(
+    model: string,
+    currentMessage: string,
+    tools: ToolDefinition[],
+    summary: string | null
+  ): Promise<number> {
+    const systemPrompt = await this.context.buildSystemPrompt(undefined, summary ?? undefined);
+    const fixed =
+      estimateTokens(systemPrompt, model) +
+      estimateToolTokens(tools, model) +
+      estimateTokens(currentMessage, model) +
+      this.reserveTokens;
+    return this.getContextWindow(model) - fixed;
+  }
+
+  /**
+   * Get the context window of a model: the configured one for the
+   * agent's model, detected for any other.
+   */
+  private getContextWindow(model: string): number {
+    return model === this.model ? this.contextWindow : getContextWindow(model);
+  }
+
+  /**
+   * Find the index where kept history starts.
+   *
+   * Keeps as many recent messages as fit in `target` tokens, then moves
+   * forward to a user message so a tool exchange is never split.
+   */
+  private findCut(history: HistoryMessage[], sizes: number[], target: number): number {
+    let kept = 0;
+    let cut = history.length;
+    for (let i = history.length - 1; i >= 0; i--) {
+      kept += sizes[i] ?? 0;
+      if (kept > target) {
+        break;
+      }
+      cut = i;
+    }
+
+    while (cut < history.length && history[cut]?.role !== 'user') {
+      cut++;
+    }
+    return cut;
+  }
+
+  /**
+   * Fold messages into the rolling summary.
+   *
+   * @returns The new summary, or null if the LLM call failed.
+   */
+  private async summarize(
+    model: string,
+    previous: string | null,
+    messages: HistoryMessage[]
+  ): Promise<string | null> {
+    if (messages.length === 0) {
+      return previous;
+    }
+
+    const transcript = messages.map(renderForSummary).join('\n\n');
+    const parts: string[] = [];
+    if (previous) {
+      parts.push(`## Summary so far\n\n${previous}`);
+    }
+    parts.push(`## New messages\n\n${transcript}`);
+
+    const response = await this.provider.chat({
+      messages: [
+        {
+          role: 'system',
+          content: `You maintain a running summary of a conversation between a user and an AI assistant.
+Update the summary so far with the new messages. Keep facts, decisions, user preferences,
+open tasks, file paths and command results that may matter later. Drop small talk.
+Write concise markdown bullet points. Reply with the updated summary only.`,
+        },
+        { role: 'user', content: parts.join('\n\n') },
+      ],
+      model,
+      temperature: 0,
+    });
+
+    if (response.finishReason === 'error' || !response.content) {
+      return null;
+    }
+    return response.content.trim();
+  }
+
+  /**
+   * Drop a stale summary when the session was cleared after summarizing.
+   */
+  private resetIfCleared(session: Session): void {
+    const count = session.metadata[SUMMARIZED_COUNT_METADATA_KEY];
+    if (typeof count === 'number' && count > session.messages.length) {
+      delete session.metadata[SUMMARY_METADATA_KEY];
+      delete session.metadata[SUMMARIZED_COUNT_METADATA_KEY];
+    }
+  }
+
+  /**
+   * Get the stored rolling summary.
+   */
+  private getSummary(session: Session): string | null {
+    const summary = session.metadata[SUMMARY_METADATA_KEY];
+    return typeof summary === 'string' && summary ? summary : null;
+  }
+
+  /**
+   * Get the number of messages covered by the summary.
+   */
+  private getSummarizedCount(session: Session): number {
+    const count = session.metadata[SUMMARIZED_COUNT_METADATA_KEY];
+    return typeof count === 'number' && count > 0 ? count : 0;
+  }
+}
+
+/**
+ * Render a message as plain text for the summarization prompt.
+ */
+function renderForSummary(message: HistoryMessage): string {
+  if (message.role === 'tool') {
+    const result =
+      message.content.length > SUMMARY_TOOL_RESULT_CHARS
+        ? `${message.content.slice(0, SUMMARY_TOOL_RESULT_CHARS)}...`
+        : message.content;
+    return `Tool result (${message.name ?? 'unknown'}): ${result}`;
+  }
+
+  const speaker = message.role === 'user' ? 'User' : 'Assistant';
+  const lines: string[] = [];
+  if (message.content) {
+    lines.push(`${speaker}: ${message.content}`);
+  }
+  for (const tc of message.tool_calls ?? []) {
+    lines.push(`${speaker} called ${tc.function.name}(${tc.function.arguments})`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Create a context manager.
+ */
+export function createContextManager(options: ContextManagerOptions): ContextManager {
+  return new ContextManager(options);
+}
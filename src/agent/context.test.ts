@@ -7,7 +7,7 @@ import { rm, mkdir, writeFile } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
-import { ContextBuilder } from './context.js';
+import { ContextBuilder, splitContentBlocks } from './context.js';
 
 describe('ContextBuilder', () => {
   let testDir: string;
@@ -41,10 +41,16 @@ describe('ContextBuilder', () => {
       expect(prompt).toContain(testDir);
     });
 
-    it('should include current time', async () => {
+    it('should stay the same between calls so it can be cached', async () => {
       const prompt = await builder.buildSystemPrompt();
-      // Should contain a date-like string
-      expect(prompt).toMatch(/\d{4}-\d{2}-\d{2}/);
+      expect(prompt).not.toMatch(/\d{4}-\d{2}-\d{2}/);
+      expect(await builder.buildSystemPrompt()).toBe(prompt);
+    });
+
+    it('should include conversation summary when given', async () => {
+      const prompt = await builder.buildSystemPrompt(undefined, '- user prefers metric units');
+      expect(prompt).toContain('# Conversation Summary');
+      expect(prompt).toContain('- user prefers metric units');
     });
 
     it('should load bootstrap files when present', async () => {
@@ -94,12 +100,75 @@ describe('ContextBuilder', () => {
       expect(messages[2]?.content).toBe('Previous response');
     });
 
-    it('should include current message', async () => {
+    it('should replay tool calls and results', async () => {
+      const history = [
+        { role: 'user', content: 'Read the file' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            {
+              id: 'call-1',
+              type: 'function' as const,
+              function: { name: 'read_file', arguments: '{"path":"a.txt"}' },
+            },
+          ],
+        },
+        { role: 'tool', content: 'file contents', tool_call_id: 'call-1', name: 'read_file' },
+        { role: 'assistant', content: 'Done' },
+      ];
+
+      const messages = await builder.buildMessages(history, 'Next');
+
+      expect(messages[2]?.tool_calls?.[0]?.function.name).toBe('read_file');
+      expect(messages[3]).toEqual({
+        role: 'tool',
+        content: 'file contents',
+        tool_call_id: 'call-1',
+        name: 'read_file',
+      });
+    });
+
+    it('should elide large tool results from older turns', async () => {
+      const b = new ContextBuilder(testDir, {
+        toolHistory: { fullResultTurns: 1, maxResultChars: 10 },
+      });
+      const big = 'x'.repeat(100);
+      const history = [
+        { role: 'user', content: 'Old turn' },
+        { role: 'tool', content: big, tool_call_id: 'call-1', name: 'exec' },
+        { role: 'assistant', content: 'Old reply' },
+        { role: 'user', content: 'Recent turn' },
+        { role: 'tool', content: big, tool_call_id: 'call-2', name: 'exec' },
+        { role: 'assistant', content: 'Recent reply' },
+      ];
+
+      const messages = await b.buildMessages(history, 'Next');
+
+      expect(messages[2]?.content).toContain('x'.repeat(10));
+      expect(messages[2]?.content).toContain('90 more chars elided');
+      expect(messages[5]?.content).toBe(big);
+    });
+
+    it('should include current message after the current time', async () => {
       const messages = await builder.buildMessages([], 'Hello world');
 
       const lastMessage = messages[messages.length - 1];
       expect(lastMessage?.role).toBe('user');
-      expect(lastMessage?.content).toBe('Hello world');
+      expect(lastMessage?.content).toMatch(
+        /^\[Current time: \d{4}-\d{2}-\d{2} \d{2}:\d{2} \(\w+\)\]\n\nHello world$/
+      );
+    });
+
+    it('should mark the system prompt and the end of the history for caching', async () => {
+      const history = [
+        { role: 'user', content: 'Previous message' },
+        { role: 'assistant', content: 'Previous response' },
+      ];
+
+      const messages = await builder.buildMessages(history, 'New message');
+
+      expect(messages.map((m) => m.cache === true)).toEqual([true, false, true, false]);
     });
   });
 
@@ -176,3 +245,21 @@ describe('createContextBuilder', () => {
     }
   });
 });
+
+describe('splitContentBlocks', () => {
+  it('should return plain text as is', () => {
+    expect(splitContentBlocks('Hello')).toEqual({ text: 'Hello', attachments: [] });
+  });
+
+  it('should turn image data URLs into attachments', () => {
+    expect(
+      splitContentBlocks([
+        { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,/9j/4AAQ' } },
+        { type: 'text', text: 'What is this?' },
+      ])
+    ).toEqual({
+      text: 'What is this?',
+      attachments: [{ mimeType: 'image/jpeg', data: '/9j/4AAQ' }],
+    });
+  });
+});
@@ -7,6 +7,8 @@ import { existsSync, readFileSync } from 'node:fs';
 import { join, resolve } from 'node:path';
 import { MemoryStore } from './memory.js';
 import { SkillsLoader } from './skills.js';
+import type { HistoryMessage } from '../session/manager.js';
+import type { MediaAttachment, ReasoningBlock, ToolCallRequest } from '../providers/base.js';
 
 /**
  * Content block for multimodal messages.
@@ -26,8 +28,12 @@ export interface ExtendedMessage {
   role: 'user' | 'assistant' | 'system' | 'tool';
   content: string | ContentBlock[];
   tool_calls?: ToolCallBlock[];
+  /** Reasoning that preceded the tool calls */
+  reasoning_blocks?: ReasoningBlock[];
   tool_call_id?: string;
   name?: string;
+  /** Cache breakpoint: the prompt up to here stays the same on later calls */
+  cache?: boolean;
 }
 
 /**
@@ -42,6 +48,73 @@ export interface ToolCallBlock {
   };
 }
 
+/**
+ * Convert a stored tool call block back into a tool call request.
+ */
+export function parseToolCallBlock(block: ToolCallBlock): ToolCallRequest {
+  let args: Record<string, unknown> = {};
+  try {
+    args = JSON.parse(block.function.arguments) as Record<string, unknown>;
+  } catch {
+    args = { raw: block.function.arguments };
+  }
+  return { id: block.id, name: block.function.name, arguments: args };
+}
+
+/**
+ * Split multimodal content into its text and inline attachments.
+ *
+ * Images are held as data URLs ("data:image/png;base64,...").
+ */
+export function splitContentBlocks(content: string | ContentBlock[]): {
+  text: string;
+  attachments: MediaAttachment[];
+} {
+  if (typeof content === 'string') {
+    return { text: content, attachments: [] };
+  }
+
+  const texts: string[] = [];
+  const attachments: MediaAttachment[] = [];
+  for (const block of content) {
+    if (block.type === 'text' && block.text) {
+      texts.push(block.text);
+    } else if (block.type === 'image_url' && block.image_url) {
+      const match = /^data:([^;,]+);base64,(.*)$/s.exec(block.image_url.url);
+      if (match?.[1] && match[2] !== undefined) {
+        attachments.push({ mimeType: match[1], data: match[2] });
+      }
+    }
+  }
+  return { text: texts.join('\n'), attachments };
+}
+
+/**
+ * Policy for replaying tool results from session history.
+ *
+ * Tool results from the last `fullResultTurns` user turns are replayed in
+ * full; older results longer than `maxResultChars` are cut down.
+ */
+export interface ToolHistoryPolicy {
+  fullResultTurns: number;
+  maxResultChars: number;
+}
+
+/**
+ * Options for ContextBuilder.
+ */
+export interface ContextBuilderOptions {
+  toolHistory?: ToolHistoryPolicy;
+}
+
+/**
+ * Default tool history policy.
+ */
+const DEFAULT_TOOL_HISTORY: ToolHistoryPolicy = {
+  fullResultTurns: 2,
+  maxResultChars: 500,
+};
+
 /**
  * Bootstrap files to load from workspace.
  */
@@ -57,20 +130,32 @@ export class ContextBuilder {
   readonly workspace: string;
   readonly memory: MemoryStore;
   readonly skills: SkillsLoader;
+  readonly toolHistory: ToolHistoryPolicy;
 
-  constructor(workspace: string) {
+  constructor(workspace: string, options: ContextBuilderOptions = {}) {
     this.workspace = resolve(workspace);
     this.memory = new MemoryStore(this.workspace);
     this.skills = new SkillsLoader(this.workspace);
+    this.toolHistory = options.toolHistory ?? DEFAULT_TOOL_HISTORY;
   }
 
   /**
    * Build the system prompt from bootstrap files, memory, and skills.
    *
+   * The prompt holds nothing that changes from call to call, so providers
+   * can cache it. Sections shared by every chat come first, so chats with
+   * different personas still share most of the prefix.
+   *
    * @param _skillNames - Optional list of skills to include (unused, for future).
+   * @param summary - Optional rolling summary of earlier conversation.
+   * @param persona - Optional extra instructions for this chat.
    * @returns Complete system prompt.
    */
-  async buildSystemPrompt(_skillNames?: string[]): Promise<string> {
+  async buildSystemPrompt(
+    _skillNames?: string[],
+    summary?: string,
+    persona?: string
+  ): Promise<string> {
     const parts: string[] = [];
 
     // Core identity
@@ -82,12 +167,6 @@ export class ContextBuilder {
       parts.push(bootstrap);
     }
 
-    // Memory context
-    const memory = await this.memory.getMemoryContext();
-    if (memory) {
-      parts.push(`# Memory\n\n${memory}`);
-    }
-
     // Skills - progressive loading
     // 1. Always-loaded skills: include full content
     const alwaysSkills = await this.skills.getAlwaysSkills();
@@ -109,6 +188,26 @@ Skills with available="false" need dependencies installed first - you can try in
 ${skillsSummary}`);
     }
 
+    // Memory context
+    const memory = await this.memory.getMemoryContext();
+    if (memory) {
+      parts.push(`# Memory\n\n${memory}`);
+    }
+
+    // Chat-specific instructions, set in config or with /persona
+    if (persona) {
+      parts.push(`# Persona\n\nIn this chat, follow these instructions:\n\n${persona}`);
+    }
+
+    // Summary of conversation that no longer fits in the history
+    if (summary) {
+      parts.push(`# Conversation Summary
+
+Earlier messages in this conversation were summarized to save context:
+
+${summary}`);
+    }
+
     return parts.join('\n\n---\n\n');
   }
 
@@ -116,10 +215,6 @@ ${skillsSummary}`);
    * Get the core identity section.
    */
   private getIdentity(): string {
-    const now = new Date();
-    const dateStr = now.toISOString().slice(0, 16).replace('T', ' ');
-    const dayName = now.toLocaleDateString('en-US', { weekday: 'long' });
-
     return `# ingenium
 
 You are ingenium, a helpful AI assistant. You have access to tools that allow you to:
@@ -130,7 +225,7 @@ You are ingenium, a helpful AI assistant. You have access to tools that allow yo
 - Spawn subagents for complex background tasks
 
 ## Current Time
-${dateStr} (${dayName})
+The current time is given at the start of each user message.
 
 ## Workspace
 Your workspace is at: ${this.workspace}
@@ -146,6 +241,19 @@ Always be helpful, accurate, and concise. When using tools, explain what you're
 When remembering something, write to ${this.workspace}/memory/MEMORY.md`;
   }
 
+  /**
+   * Get the current time, for the start of the user message.
+   *
+   * It is kept out of the system prompt, which would otherwise change
+   * every minute and never be served from the prompt cache.
+   */
+  private getCurrentTime(): string {
+    const now = new Date();
+    const dateStr = now.toISOString().slice(0, 16).replace('T', ' ');
+    const dayName = now.toLocaleDateString('en-US', { weekday: 'long' });
+    return `[Current time: ${dateStr} (${dayName})]`;
+  }
+
   /**
    * Load all bootstrap files from workspace.
    */
@@ -170,39 +278,100 @@ When remembering something, write to ${this.workspace}/memory/MEMORY.md`;
   /**
    * Build the complete message list for an LLM call.
    *
-   * @param history - Previous conversation messages.
+   * The system prompt and the end of the history are marked as cache
+   * breakpoints: both are sent unchanged on every call of the turn.
+   *
+   * @param history - Previous conversation messages, including tool calls and results.
    * @param currentMessage - The new user message.
    * @param skillNames - Optional skills to include.
    * @param media - Optional list of local file paths for images/media.
+   * @param summary - Optional rolling summary of earlier conversation.
+   * @param persona - Optional extra instructions for this chat.
    * @returns List of messages including system prompt.
    */
   async buildMessages(
-    history: Array<{ role: string; content: string }>,
+    history: HistoryMessage[],
     currentMessage: string,
     skillNames?: string[],
-    media?: string[]
+    media?: string[],
+    summary?: string,
+    persona?: string
   ): Promise<ExtendedMessage[]> {
     const messages: ExtendedMessage[] = [];
 
     // System prompt
-    const systemPrompt = await this.buildSystemPrompt(skillNames);
-    messages.push({ role: 'system', content: systemPrompt });
+    const systemPrompt = await this.buildSystemPrompt(skillNames, summary, persona);
+    messages.push({ role: 'system', content: systemPrompt, cache: true });
 
     // History
-    for (const h of history) {
-      messages.push({
-        role: h.role as 'user' | 'assistant' | 'system' | 'tool',
+    const oldTurnsEnd = this.findRecentTurnsStart(history);
+    history.forEach((h, index) => {
+      const msg: ExtendedMessage = {
+        role: h.role as ExtendedMessage['role'],
         content: h.content,
-      });
-    }
+      };
+      if (h.tool_calls && h.tool_calls.length > 0) {
+        msg.tool_calls = h.tool_calls;
+      }
+      if (h.reasoning_blocks) {
+        msg.reasoning_blocks = h.reasoning_blocks;
+      }
+      if (h.tool_call_id !== undefined) {
+        msg.tool_call_id = h.tool_call_id;
+      }
+      if (h.name !== undefined) {
+        msg.name = h.name;
+      }
+      if (h.role === 'tool' && index < oldTurnsEnd) {
+        msg.content = this.elideToolResult(h.content);
+      }
+      if (index === history.length - 1) {
+        msg.cache = true;
+      }
+      messages.push(msg);
+    });
 
     // Current message (with optional image attachments)
-    const userContent = this.buildUserContent(currentMessage, media);
+    const userContent = this.buildUserContent(
+      `${this.getCurrentTime()}\n\n${currentMessage}`,
+      media
+    );
     messages.push({ role: 'user', content: userContent });
 
     return messages;
   }
 
+  /**
+   * Find where the turns whose tool results are replayed in full begin.
+   */
+  private findRecentTurnsStart(history: HistoryMessage[]): number {
+    if (this.toolHistory.fullResultTurns <= 0) {
+      return history.length;
+    }
+
+    let turns = 0;
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i]?.role === 'user') {
+        turns++;
+        if (turns === this.toolHistory.fullResultTurns) {
+          return i;
+        }
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Cut an old tool result down to the configured size.
+   */
+  private elideToolResult(content: string): string {
+    const max = this.toolHistory.maxResultChars;
+    if (content.length <= max) {
+      return content;
+    }
+    return `${content.slice(0, max)}\n... (${content.length - max} more chars elided from an earlier turn)`;
+  }
+
   /**
    * Build user message content with optional base64-encoded images.
    */
@@ -262,6 +431,9 @@ When remembering something, write to ${this.workspace}/memory/MEMORY.md`;
   /**
    * Add a tool result to the message list.
    *
+   * The result is marked as a cache breakpoint, since the next iteration
+   * of the tool loop resends everything up to it.
+   *
    * @param messages - Current message list.
    * @param toolCallId - ID of the tool call.
    * @param toolName - Name of the tool.
@@ -279,6 +451,7 @@ When remembering something, write to ${this.workspace}/memory/MEMORY.md`;
       tool_call_id: toolCallId,
       name: toolName,
       content: result,
+      cache: true,
     });
     return messages;
   }
@@ -289,12 +462,14 @@ When remembering something, write to ${this.workspace}/memory/MEMORY.md`;
    * @param messages - Current message list.
    * @param content - Message content.
    * @param toolCalls - Optional tool calls.
+   * @param reasoningBlocks - Optional reasoning to send back with the tool calls.
    * @returns Updated message list.
    */
   addAssistantMessage(
     messages: ExtendedMessage[],
     content: string | null,
-    toolCalls?: ToolCallBlock[]
+    toolCalls?: ToolCallBlock[],
+    reasoningBlocks?: ReasoningBlock[]
   ): ExtendedMessage[] {
     const msg: ExtendedMessage = {
       role: 'assistant',
@@ -305,6 +480,10 @@ When remembering something, write to ${this.workspace}/memory/MEMORY.md`;
       msg.tool_calls = toolCalls;
     }
 
+    if (reasoningBlocks && reasoningBlocks.length > 0) {
+      msg.reasoning_blocks = reasoningBlocks;
+    }
+
     messages.push(msg);
     return messages;
   }
@@ -313,6 +492,9 @@ When remembering something, write to ${this.workspace}/memory/MEMORY.md`;
 /**
  * Create a context builder.
  */
-export function createContextBuilder(workspace: string): ContextBuilder {
-  return new ContextBuilder(workspace);
+export function createContextBuilder(
+  workspace: string,
+  options?: ContextBuilderOptions
+): ContextBuilder {
+  return new ContextBuilder(workspace, options);
 }
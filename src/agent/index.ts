@@ -6,5 +6,8 @@ export * from './tools/index.js';
 export * from './memory.js';
 export * from './skills.js';
 export * from './context.js';
+export * from './tokens.js';
+export * from './context-manager.js';
+export * from './overrides.js';
 export * from './subagent.js';
 export * from './loop.js';
@@ -9,7 +9,10 @@ import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { AgentLoop } from './loop.js';
 import { MessageBus } from '../bus/queue.js';
-import type { LLMProvider, LLMResponse, ChatOptions } from '../providers/base.js';
+import { UsageLedger, UsageTracker } from '../usage/index.js';
+import { CronService } from '../cron/service.js';
+import { HeartbeatDecisionSchema } from '../heartbeat/service.js';
+import type { LLMProvider, LLMResponse, ChatOptions, StreamEvent } from '../providers/base.js';
 
 // Mock provider factory
 function createMockProvider(responses: Array<Partial<LLMResponse>> = []): LLMProvider {
@@ -30,6 +33,28 @@ function createMockProvider(responses: Array<Partial<LLMResponse>> = []): LLMPro
   };
 }
 
+// Mock provider that streams a reply in chunks
+function createStreamingProvider(chunks: string[]): LLMProvider {
+  return {
+    getDefaultModel: () => 'test-model',
+    chat: vi.fn(),
+    chatStream: vi.fn(async function* (_options: ChatOptions): AsyncIterable<StreamEvent> {
+      for (const text of chunks) {
+        yield { type: 'text', text };
+      }
+      yield {
+        type: 'done',
+        response: {
+          content: chunks.join(''),
+          toolCalls: [],
+          finishReason: 'stop',
+          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        },
+      };
+    }),
+  };
+}
+
 describe('AgentLoop', () => {
   let testDir: string;
   let bus: MessageBus;
@@ -120,6 +145,57 @@ describe('AgentLoop', () => {
       expect(response?.chatId).toBe('direct');
     });
 
+    it('should address the reply to the message it answers', async () => {
+      const response = await loop.processMessage({
+        channel: 'http',
+        senderId: 'user',
+        chatId: 'c1',
+        content: 'Hello',
+        timestamp: new Date(),
+        media: [],
+        metadata: { messageId: 'req-1' },
+      });
+
+      expect(response?.replyTo).toBe('req-1');
+    });
+
+    it('should stop a turn its channel cancelled before running tools', async () => {
+      const l = new AgentLoop({
+        bus,
+        provider: {
+          getDefaultModel: () => 'test-model',
+          chat: vi.fn(async (): Promise<LLMResponse> => {
+            // The client goes away while the model is answering
+            bus.cancelTurn('req-1');
+            return {
+              content: null,
+              toolCalls: [{ id: 'call_1', name: 'list_dir', arguments: { path: '.' } }],
+              finishReason: 'tool_calls',
+              usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+            };
+          }),
+        },
+        workspace: testDir,
+      });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const executeTools = vi.spyOn(l.tools, 'executeAll');
+
+      const response = await l.processMessage({
+        channel: 'http',
+        senderId: 'user',
+        chatId: 'c1',
+        content: 'List the files',
+        timestamp: new Date(),
+        media: [],
+        metadata: { messageId: 'req-1' },
+      });
+
+      expect(response).toBeNull();
+      expect(l.provider.chat).toHaveBeenCalledTimes(1);
+      expect(executeTools).not.toHaveBeenCalled();
+      vi.restoreAllMocks();
+    });
+
     it('should save to session', async () => {
       await loop.processMessage({
         channel: 'telegram',
@@ -178,6 +254,77 @@ describe('AgentLoop', () => {
       expect(mockProvider.chat).toHaveBeenCalledTimes(2);
     });
 
+    it('should save tool calls and results to the session', async () => {
+      const mockProvider = createMockProvider([
+        {
+          content: null,
+          toolCalls: [{ id: 'call-1', name: 'list_dir', arguments: { path: testDir } }],
+          finishReason: 'tool_calls',
+          usage: { promptTokens: 50, completionTokens: 10, totalTokens: 60 },
+        },
+        {
+          content: 'I listed the directory.',
+          toolCalls: [],
+          finishReason: 'stop',
+          usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+        },
+      ]);
+
+      const l = new AgentLoop({
+        bus,
+        provider: mockProvider,
+        workspace: testDir,
+      });
+
+      await l.processMessage({
+        channel: 'telegram',
+        senderId: 'user',
+        chatId: 'transcript',
+        content: 'List the directory',
+        timestamp: new Date(),
+        media: [],
+        metadata: {},
+      });
+
+      const session = await l.sessions.getOrCreate('telegram:transcript');
+      const roles = session.messages.map((m) => m.role);
+      expect(roles).toEqual(['user', 'assistant', 'tool', 'assistant']);
+      expect(session.messages[1]?.['tool_calls']).toEqual([
+        {
+          id: 'call-1',
+          type: 'function',
+          function: { name: 'list_dir', arguments: JSON.stringify({ path: testDir }) },
+        },
+      ]);
+      expect(session.messages[2]?.['tool_call_id']).toBe('call-1');
+      await l.sessions.delete('telegram:transcript');
+    });
+
+    it('should pass tool calls from earlier iterations to the provider', async () => {
+      const mockProvider = createMockProvider([
+        {
+          content: null,
+          toolCalls: [{ id: 'call-1', name: 'list_dir', arguments: { path: testDir } }],
+          finishReason: 'tool_calls',
+          usage: { promptTokens: 50, completionTokens: 10, totalTokens: 60 },
+        },
+      ]);
+
+      const l = new AgentLoop({
+        bus,
+        provider: mockProvider,
+        workspace: testDir,
+      });
+
+      await l.processDirect('List the directory');
+
+      const secondCall = vi.mocked(mockProvider.chat).mock.calls[1]?.[0];
+      const assistant = secondCall?.messages.filter((m) => m.toolCalls).pop();
+      expect(assistant?.toolCalls).toEqual([
+        { id: 'call-1', name: 'list_dir', arguments: { path: testDir } },
+      ]);
+    });
+
     it('should respect max iterations', async () => {
       // Provider always returns tool calls (infinite loop scenario)
       const mockProvider = createMockProvider(
@@ -218,12 +365,489 @@ describe('AgentLoop', () => {
     });
   });
 
+  describe('streaming', () => {
+    it('should publish stream updates and mark the final reply', async () => {
+      const l = new AgentLoop({
+        bus,
+        provider: createStreamingProvider(['Hello', ' world']),
+        workspace: testDir,
+        streaming: true,
+      });
+
+      const response = await l.processMessage({
+        channel: 'telegram',
+        senderId: 'user',
+        chatId: '42',
+        content: 'Hi',
+        timestamp: new Date(),
+        media: [],
+        metadata: {},
+      });
+
+      // First delta is published immediately, later ones are throttled
+      expect(bus.outboundSize).toBe(1);
+      const update = await bus.consumeOutbound();
+      expect(update.content).toBe('Hello');
+      expect(update.stream?.done).toBe(false);
+
+      expect(response?.content).toBe('Hello world');
+      expect(response?.stream).toEqual({ id: update.stream?.id, done: true });
+    });
+
+    it('should not stream when disabled', async () => {
+      const streamingProvider = createStreamingProvider(['Hello']);
+      vi.mocked(streamingProvider.chat).mockResolvedValue({
+        content: 'Hello',
+        toolCalls: [],
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      });
+      const l = new AgentLoop({
+        bus,
+        provider: streamingProvider,
+        workspace: testDir,
+      });
+
+      const response = await l.processMessage({
+        channel: 'telegram',
+        senderId: 'user',
+        chatId: '42',
+        content: 'Hi',
+        timestamp: new Date(),
+        media: [],
+        metadata: {},
+      });
+
+      expect(streamingProvider.chatStream).not.toHaveBeenCalled();
+      expect(bus.outboundSize).toBe(0);
+      expect(response?.stream).toBeUndefined();
+    });
+
+    it('should not stream CLI messages', async () => {
+      const streamingProvider = createStreamingProvider(['Hello']);
+      vi.mocked(streamingProvider.chat).mockResolvedValue({
+        content: 'Hello',
+        toolCalls: [],
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      });
+      const l = new AgentLoop({
+        bus,
+        provider: streamingProvider,
+        workspace: testDir,
+        streaming: true,
+      });
+
+      const response = await l.processDirect('Hi');
+
+      expect(response).toBe('Hello');
+      expect(streamingProvider.chatStream).not.toHaveBeenCalled();
+    });
+  });
+
   describe('processDirect', () => {
     it('should process direct CLI message', async () => {
       const response = await loop.processDirect('Hello there');
 
       expect(response).toBe('Hello! How can I help?');
     });
+
+    it('should schedule cron jobs for the chat whose turn calls the tool', async () => {
+      const cron = new CronService({ storePath: join(testDir, 'jobs.json') });
+      let releaseChat: () => void = () => {};
+      const chatPaused = new Promise<void>((resolve) => {
+        releaseChat = resolve;
+      });
+      const done: LLMResponse = {
+        content: 'Done',
+        toolCalls: [],
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      };
+      const chat = vi.fn(async (options: ChatOptions): Promise<LLMResponse> => {
+        const last = options.messages.at(-1);
+        if (last?.role === 'user' && last.content.endsWith('Remind me at nine')) {
+          // A cron run starts while this chat turn waits for the model
+          await chatPaused;
+          return {
+            ...done,
+            content: null,
+            toolCalls: [
+              {
+                id: 'call_1',
+                name: 'cron',
+                arguments: { action: 'add', name: 'nine', message: 'Remind', cron: '0 9 * * *' },
+              },
+            ],
+            finishReason: 'tool_calls',
+          };
+        }
+        return done;
+      });
+      const l = new AgentLoop({
+        bus,
+        provider: { getDefaultModel: () => 'test-model', chat },
+        workspace: testDir,
+        cron,
+      });
+
+      const turn = l.processMessage({
+        channel: 'telegram',
+        senderId: 'user1',
+        chatId: '42',
+        content: 'Remind me at nine',
+        timestamp: new Date(),
+        media: [],
+        metadata: {},
+      });
+      await vi.waitFor(() => expect(chat).toHaveBeenCalled());
+      await l.processDirect('Check the feeds', 'cron:job1', 'cron');
+      releaseChat();
+      await turn;
+
+      const [job] = await cron.listJobs();
+      expect(job?.owner).toBe('telegram:42');
+      expect(job?.payload).toMatchObject({ deliver: true, channel: 'telegram', to: '42' });
+    });
+  });
+
+  describe('chat overrides', () => {
+    // Sessions are stored outside the test workspace, so each test uses its own chat
+    let chatId: string;
+
+    beforeEach(() => {
+      chatId = `overrides-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    });
+
+    afterEach(async () => {
+      await loop.sessions.delete(`telegram:${chatId}`);
+    });
+
+    function inbound(content: string) {
+      return {
+        channel: 'telegram',
+        senderId: 'user1',
+        chatId,
+        content,
+        timestamp: new Date(),
+        media: [],
+        metadata: {},
+      };
+    }
+
+    it('should pass temperature and maxTokens to the provider', async () => {
+      const l = new AgentLoop({ bus, provider, workspace: testDir, temperature: 0.3, maxTokens: 1024 });
+
+      await l.processDirect('Hi');
+
+      expect(provider.chat).toHaveBeenCalledWith(
+        expect.objectContaining({ temperature: 0.3, maxTokens: 1024 })
+      );
+    });
+
+    it('should apply channel and chat overrides from config', async () => {
+      const l = new AgentLoop({
+        bus,
+        provider,
+        workspace: testDir,
+        temperature: 0.7,
+        overrides: {
+          telegram: { model: 'channel-model', temperature: 0.1 },
+          [`telegram:${chatId}`]: { model: 'chat-model', systemPrompt: 'Answer in French.' },
+        },
+      });
+
+      await l.processMessage(inbound('Bonjour'));
+
+      const options = vi.mocked(provider.chat).mock.calls[0]?.[0];
+      expect(options?.model).toBe('chat-model');
+      expect(options?.temperature).toBe(0.1);
+      expect(options?.messages[0]?.content).toContain('Answer in French.');
+      expect(l.getChatSettings('telegram', '7').model).toBe('channel-model');
+    });
+
+    it('should switch the model with /model', async () => {
+      const l = new AgentLoop({ bus, provider, workspace: testDir, models: ['gpt-4o-mini'] });
+      const reply = await l.processMessage(inbound('/model gpt-4o-mini'));
+
+      expect(reply?.content).toBe('Model set to gpt-4o-mini for this chat.');
+      expect(provider.chat).not.toHaveBeenCalled();
+
+      await l.processMessage(inbound('Hello'));
+      expect(provider.chat).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4o-mini' }));
+
+      // Other chats keep the default
+      expect(l.getChatSettings('telegram', '7').model).toBe('test-model');
+    });
+
+    it('should only switch to configured models', async () => {
+      const l = new AgentLoop({
+        bus,
+        provider,
+        workspace: testDir,
+        overrides: { telegram: { model: 'channel-model' } },
+        models: ['gpt-4o-mini'],
+      });
+
+      const reply = await l.processMessage(inbound('/model gpt-5-typo'));
+
+      expect(reply?.content).toBe(
+        'Model gpt-5-typo is not available. Available: test-model, channel-model, gpt-4o-mini'
+      );
+      expect(l.getChatSettings('telegram', chatId).model).toBe('channel-model');
+    });
+
+    it('should add the persona from /persona to the system prompt', async () => {
+      await loop.processMessage(inbound('/persona You are a terse pirate.'));
+      await loop.processMessage(inbound('Hello'));
+
+      const options = vi.mocked(provider.chat).mock.calls[0]?.[0];
+      expect(options?.messages[0]?.content).toContain('You are a terse pirate.');
+    });
+
+    it('should only offer and run enabled tools', async () => {
+      const toolProvider = createMockProvider([
+        {
+          content: null,
+          toolCalls: [{ id: 'call_1', name: 'exec', arguments: { command: 'ls' } }],
+          finishReason: 'tool_calls',
+          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        },
+      ]);
+      const l = new AgentLoop({
+        bus,
+        provider: toolProvider,
+        workspace: testDir,
+        overrides: { telegram: { tools: ['read_file', 'list_dir'] } },
+      });
+
+      await l.processMessage(inbound('Run ls'));
+
+      const calls = vi.mocked(toolProvider.chat).mock.calls;
+      expect(calls[0]?.[0].tools?.map((t) => t.function.name)).toEqual(['read_file', 'list_dir']);
+      const toolResult = calls[1]?.[0].messages.find((m) => m.role === 'tool');
+      expect(toolResult?.content).toBe("Error: Tool 'exec' is not enabled in this chat");
+    });
+  });
+
+  describe('reasoning', () => {
+    let chatId: string;
+
+    beforeEach(() => {
+      chatId = `reasoning-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    });
+
+    afterEach(async () => {
+      await loop.sessions.delete(`telegram:${chatId}`);
+    });
+
+    function inbound(content: string) {
+      return {
+        channel: 'telegram',
+        senderId: 'user1',
+        chatId,
+        content,
+        timestamp: new Date(),
+        media: [],
+        metadata: {},
+      };
+    }
+
+    it('should request reasoning and send thinking back with tool calls', async () => {
+      const reasoningProvider = createMockProvider([
+        {
+          content: null,
+          toolCalls: [{ id: 'call-1', name: 'list_dir', arguments: { path: testDir } }],
+          finishReason: 'tool_calls',
+          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          reasoning: 'Look at the directory first',
+          reasoningBlocks: [{ text: 'Look at the directory first', signature: 'sig' }],
+        },
+      ]);
+      const l = new AgentLoop({
+        bus,
+        provider: reasoningProvider,
+        workspace: testDir,
+        reasoning: 'medium',
+      });
+
+      await l.processMessage(inbound('List the directory'));
+
+      const calls = vi.mocked(reasoningProvider.chat).mock.calls;
+      expect(calls[0]?.[0].reasoning).toEqual({ effort: 'medium' });
+      const assistant = calls[1]?.[0].messages.find((m) => m.toolCalls);
+      expect(assistant?.reasoningBlocks).toEqual([
+        { text: 'Look at the directory first', signature: 'sig' },
+      ]);
+
+      const session = await l.sessions.getOrCreate(`telegram:${chatId}`);
+      expect(session.messages[1]?.['reasoning_blocks']).toEqual([
+        { text: 'Look at the directory first', signature: 'sig' },
+      ]);
+    });
+
+    it('should not request reasoning by default', async () => {
+      await loop.processMessage(inbound('Hello'));
+
+      expect(vi.mocked(provider.chat).mock.calls[0]?.[0].reasoning).toBeUndefined();
+    });
+
+    it('should start replies with a reasoning summary when shown', async () => {
+      const reasoningProvider = createMockProvider([
+        {
+          content: 'Four',
+          toolCalls: [],
+          finishReason: 'stop',
+          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          reasoning: 'Two plus two\nis four',
+        },
+      ]);
+      const l = new AgentLoop({ bus, provider: reasoningProvider, workspace: testDir });
+
+      await l.processMessage(inbound('/reasoning show'));
+      const reply = await l.processMessage(inbound('What is 2+2?'));
+
+      expect(reply?.content).toBe('💭 Two plus two is four\n\nFour');
+      const session = await l.sessions.getOrCreate(`telegram:${chatId}`);
+      expect(session.messages.at(-1)?.content).toBe('Four');
+    });
+  });
+
+  describe('processStructured', () => {
+    it('should return the validated reply and record its usage', async () => {
+      const ledger = new UsageLedger(join(testDir, 'usage.jsonl'));
+      const l = new AgentLoop({
+        bus,
+        provider: createMockProvider([
+          {
+            content: '{"action":"run","tasks":"Send the report"}',
+            toolCalls: [],
+            finishReason: 'stop',
+            usage: { promptTokens: 20, completionTokens: 5, totalTokens: 25 },
+          },
+        ]),
+        workspace: testDir,
+        usage: new UsageTracker({ ledger }),
+      });
+
+      const decision = await l.processStructured(
+        'Anything to do?',
+        HeartbeatDecisionSchema,
+        'heartbeat',
+        'heartbeat'
+      );
+
+      expect(decision).toEqual({ action: 'run', tasks: 'Send the report' });
+      expect(l.provider.chat).toHaveBeenCalledWith(
+        expect.objectContaining({ output: { name: 'result', schema: HeartbeatDecisionSchema } })
+      );
+      expect((await ledger.read())[0]).toMatchObject({
+        sessionKey: 'heartbeat',
+        source: 'heartbeat',
+        promptTokens: 20,
+      });
+    });
+  });
+
+  describe('usage', () => {
+    it('should record usage with the message source', async () => {
+      const ledger = new UsageLedger(join(testDir, 'usage.jsonl'));
+      const l = new AgentLoop({
+        bus,
+        provider,
+        workspace: testDir,
+        usage: new UsageTracker({ ledger }),
+      });
+
+      await l.processDirect('Check the feeds', 'cron:job1', 'cron');
+
+      const records = await ledger.read();
+      expect(records).toHaveLength(1);
+      expect(records[0]).toMatchObject({
+        model: 'test-model',
+        sessionKey: 'cron:job1',
+        source: 'cron',
+        promptTokens: 50,
+        completionTokens: 10,
+        cost: null,
+      });
+    });
+
+    it('should record usage against the model that answered', async () => {
+      const ledger = new UsageLedger(join(testDir, 'usage.jsonl'));
+      const l = new AgentLoop({
+        bus,
+        provider: createMockProvider([
+          {
+            content: 'From the backup',
+            toolCalls: [],
+            finishReason: 'stop',
+            usage: { promptTokens: 50, completionTokens: 10, totalTokens: 60 },
+            model: 'gpt-4o',
+          },
+        ]),
+        workspace: testDir,
+        usage: new UsageTracker({ ledger }),
+      });
+
+      await l.processDirect('Hello');
+
+      expect((await ledger.read())[0]?.model).toBe('gpt-4o');
+    });
+
+    it('should refuse turns once the budget is spent', async () => {
+      const ledger = new UsageLedger(join(testDir, 'usage.jsonl'));
+      await ledger.append({
+        timestamp: new Date().toISOString(),
+        model: 'gpt-4o',
+        sessionKey: 'cli:direct',
+        source: 'user',
+        promptTokens: 1,
+        completionTokens: 1,
+        cost: 10,
+      });
+      const l = new AgentLoop({
+        bus,
+        provider,
+        workspace: testDir,
+        usage: new UsageTracker({ ledger, budget: { daily: 1 } }),
+      });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const response = await l.processDirect('Hello');
+
+      expect(response).toContain('daily usage budget of $1.00 has been reached');
+      expect(provider.chat).not.toHaveBeenCalled();
+      vi.restoreAllMocks();
+    });
+
+    it('should switch to the downgrade model once the budget is spent', async () => {
+      const ledger = new UsageLedger(join(testDir, 'usage.jsonl'));
+      await ledger.append({
+        timestamp: new Date().toISOString(),
+        model: 'gpt-4o',
+        sessionKey: 'cli:direct',
+        source: 'user',
+        promptTokens: 1,
+        completionTokens: 1,
+        cost: 10,
+      });
+      const l = new AgentLoop({
+        bus,
+        provider,
+        workspace: testDir,
+        usage: new UsageTracker({
+          ledger,
+          budget: { daily: 1, action: 'downgrade', downgradeModel: 'cheap-model' },
+        }),
+      });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await l.processDirect('Hello');
+
+      expect(provider.chat).toHaveBeenCalledWith(expect.objectContaining({ model: 'cheap-model' }));
+      vi.restoreAllMocks();
+    });
   });
 
   describe('run and stop', () => {
@@ -2,19 +2,71 @@
  * Agent loop: the core processing engine.
  */
 
-import { MessageBus, InboundMessage, OutboundMessage } from '../bus/index.js';
-import type { LLMProvider, ToolDefinition } from '../providers/base.js';
-import { ContextBuilder, type ExtendedMessage, type ToolCallBlock } from './context.js';
+import { randomUUID } from 'node:crypto';
+import type { z } from 'zod';
+import {
+  MessageBus,
+  InboundMessage,
+  OutboundMessage,
+  createReply,
+  getMessageId,
+} from '../bus/index.js';
+import type {
+  ChatOptions,
+  LLMProvider,
+  LLMResponse,
+  Message,
+  ToolCallRequest,
+  ToolDefinition,
+} from '../providers/base.js';
+import { createEmptyResponse } from '../providers/base.js';
+import { chatStructured } from '../providers/structured.js';
+import {
+  ContextBuilder,
+  type ExtendedMessage,
+  type ToolCallBlock,
+  type ToolHistoryPolicy,
+  parseToolCallBlock,
+  splitContentBlocks,
+} from './context.js';
+import { ContextManager, type ContextManagerOptions } from './context-manager.js';
 import { ToolRegistry } from './tools/registry.js';
-import { readFileTool, writeFileTool, editFileTool, listDirTool } from './tools/filesystem.js';
-import { ExecTool } from './tools/shell.js';
+import type { ToolCallContext } from './tools/base.js';
+import type { ApprovalHandler, ToolPolicy } from './tools/policy.js';
+import {
+  createReadFileTool,
+  createWriteFileTool,
+  createEditFileTool,
+  createListDirTool,
+} from './tools/filesystem.js';
+import { WorkspaceSandbox, type FilesystemAccessOptions } from './tools/sandbox.js';
+import { ExecTool, type ExecToolOptions } from './tools/shell.js';
+import { createExecBackend, type ExecOptions } from './tools/exec-backend.js';
+import {
+  ShellSessionManager,
+  createShellSessionTools,
+  type ShellSessionManagerOptions,
+} from './tools/shell-session.js';
 import { WebSearchTool, WebFetchTool } from './tools/web.js';
 import { MessageTool } from './tools/message.js';
 import { SpawnTool } from './tools/spawn.js';
+import { CronTool } from './tools/cron.js';
 import { SubagentManager } from './subagent.js';
-import { SessionManager } from '../session/manager.js';
+import { Session, SessionManager } from '../session/manager.js';
+import {
+  applyChatCommand,
+  getSessionOverrides,
+  parseChatCommand,
+  resolveChatSettings,
+  type ChatOverrides,
+  type ChatSettings,
+  type ReasoningLevel,
+} from './overrides.js';
 import { parseSessionKey } from '../utils/helpers.js';
 import { withTimeout } from '../utils/async-queue.js';
+import type { UsageSource, UsageTracker } from '../usage/index.js';
+import type { McpManager } from '../mcp/index.js';
+import type { CronService } from '../cron/index.js';
 
 /**
  * Options for creating an AgentLoop.
@@ -23,9 +75,175 @@ export interface AgentLoopOptions {
   bus: MessageBus;
   provider: LLMProvider;
   workspace: string;
+  /** Agent name, used to route subagent results back to this agent */
+  name?: string;
+  /** Where sessions are stored; ~/.ingenium/sessions if not set */
+  sessionsDir?: string;
   model?: string;
   maxIterations?: number;
+  /** Sampling temperature; provider default if not set */
+  temperature?: number;
+  /** Reply token limit; provider default if not set */
+  maxTokens?: number;
+  /** Extended thinking level; off if not set */
+  reasoning?: ReasoningLevel;
+  /** Start replies with a summary of the model's reasoning */
+  showReasoning?: boolean;
+  /** Extra instructions added to the system prompt in every chat */
+  systemPrompt?: string;
+  /** Names of the tools the agent may use; all tools if not set */
+  tools?: string[];
+  /** Settings keyed by channel ("telegram") or chat ("telegram:12345") */
+  overrides?: Record<string, ChatOverrides>;
+  /** Models chats may switch to with /model, besides the agent's and the overrides' models */
+  models?: string[];
+  /** Maximum parallel-safe tool calls running at once */
+  maxParallelTools?: number;
   braveApiKey?: string;
+  /** Stream replies to channels as they are generated */
+  streaming?: boolean;
+  /** How tool results from earlier turns are replayed */
+  toolHistory?: ToolHistoryPolicy;
+  /** Context window in tokens; detected from the model if not set */
+  contextWindow?: number;
+  /** Decides which tool calls need approval */
+  toolPolicy?: ToolPolicy;
+  /** Asks the originating chat to approve tool calls */
+  approvalHandler?: ApprovalHandler;
+  /** Which paths the filesystem tools may access */
+  filesystem?: FilesystemAccessOptions;
+  /** Where and how shell commands run */
+  exec?: ExecOptions;
+  /** Records token usage and enforces spending limits */
+  usage?: UsageTracker;
+  /** Provides the tools of external MCP servers */
+  mcp?: McpManager;
+  /** Lets the agent schedule jobs for the chat with the cron tool */
+  cron?: CronService;
+}
+
+/**
+ * Settings and usage attribution for the LLM calls of one turn.
+ */
+interface TurnOptions {
+  settings: ChatSettings;
+  sessionKey: string;
+  source: UsageSource;
+}
+
+/**
+ * Get where a message's usage is recorded. processDirect sets these in
+ * metadata for cron and heartbeat runs; other messages count as user turns.
+ */
+function getUsageAttribution(msg: InboundMessage): { sessionKey: string; source: UsageSource } {
+  const source = msg.metadata['usageSource'];
+  const sessionKey = msg.metadata['usageSessionKey'];
+  return {
+    sessionKey: typeof sessionKey === 'string' ? sessionKey : `${msg.channel}:${msg.chatId}`,
+    source: typeof source === 'string' ? (source as UsageSource) : 'user',
+  };
+}
+
+/**
+ * Longest reasoning summary shown in a reply, in characters.
+ */
+const MAX_REASONING_SUMMARY_CHARS = 500;
+
+/**
+ * Start a reply with a short summary of the reasoning behind it.
+ */
+export function addReasoningSummary(content: string, reasoning: string[]): string {
+  const text = reasoning.join(' ').replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return content;
+  }
+  const summary =
+    text.length > MAX_REASONING_SUMMARY_CHARS
+      ? `${text.slice(0, MAX_REASONING_SUMMARY_CHARS).trimEnd()}…`
+      : text;
+  return `💭 ${summary}\n\n${content}`;
+}
+
+/**
+ * Minimum interval between streamed reply updates, to stay within
+ * channel rate limits for message edits.
+ */
+const STREAM_UPDATE_INTERVAL_MS = 1000;
+
+/**
+ * Publishes a reply to the bus as throttled stream updates while it is
+ * being generated.
+ */
+class ReplyStream {
+  readonly id = randomUUID().slice(0, 8);
+  private text = '';
+  private lastPublishMs = 0;
+  private published = false;
+  private pendingSeparator = false;
+
+  constructor(
+    private readonly bus: MessageBus,
+    private readonly channel: string,
+    private readonly chatId: string,
+    private readonly replyTo: string | undefined
+  ) {}
+
+  /**
+   * Build a message to the chat the reply goes to.
+   */
+  private createMessage(content: string): OutboundMessage {
+    const msg: OutboundMessage = {
+      channel: this.channel,
+      chatId: this.chatId,
+      content,
+    };
+    if (this.replyTo !== undefined) {
+      msg.replyTo = this.replyTo;
+    }
+    return msg;
+  }
+
+  /**
+   * Append generated text, publishing an update if the interval elapsed.
+   */
+  async push(delta: string): Promise<void> {
+    if (this.pendingSeparator && this.text) {
+      this.text += '\n\n';
+    }
+    this.pendingSeparator = false;
+    this.text += delta;
+
+    const now = Date.now();
+    if (this.published && now - this.lastPublishMs < STREAM_UPDATE_INTERVAL_MS) {
+      return;
+    }
+
+    this.published = true;
+    this.lastPublishMs = now;
+    await this.bus.publishOutbound({
+      ...this.createMessage(this.text),
+      stream: { id: this.id, done: false },
+    });
+  }
+
+  /**
+   * Separate text of the next LLM call from what was streamed so far.
+   */
+  startSegment(): void {
+    this.pendingSeparator = true;
+  }
+
+  /**
+   * Build the final reply, marked as the end of the stream if any
+   * update was published.
+   */
+  finish(content: string): OutboundMessage {
+    const msg = this.createMessage(content);
+    if (this.published) {
+      msg.stream = { id: this.id, done: true };
+    }
+    return msg;
+  }
 }
 
 /**
@@ -42,14 +260,33 @@ export class AgentLoop {
   readonly bus: MessageBus;
   readonly provider: LLMProvider;
   readonly workspace: string;
+  readonly name: string;
   readonly model: string;
   readonly maxIterations: number;
+  readonly temperature: number | null;
+  readonly maxTokens: number | null;
+  readonly reasoning: ReasoningLevel;
+  readonly showReasoning: boolean;
+  readonly systemPrompt: string | null;
+  readonly enabledTools: string[] | null;
+  readonly overrides: Record<string, ChatOverrides>;
+  /** Models chats may switch to with /model */
+  readonly models: string[];
+  readonly maxParallelTools: number;
   readonly braveApiKey: string | null;
+  readonly streaming: boolean;
 
   readonly context: ContextBuilder;
+  readonly contextManager: ContextManager;
   readonly sessions: SessionManager;
   readonly tools: ToolRegistry;
+  readonly sandbox: WorkspaceSandbox;
   readonly subagents: SubagentManager;
+  readonly shellSessions: ShellSessionManager;
+  readonly usage: UsageTracker | null;
+  private readonly execOptions: ExecToolOptions;
+  private readonly mcp: McpManager | null;
+  private readonly cron: CronService | null;
 
   private running = false;
 
@@ -57,28 +294,101 @@ export class AgentLoop {
     this.bus = options.bus;
     this.provider = options.provider;
     this.workspace = options.workspace;
+    this.name = options.name ?? 'default';
     this.model = options.model ?? options.provider.getDefaultModel();
     this.maxIterations = options.maxIterations ?? 20;
+    this.temperature = options.temperature ?? null;
+    this.maxTokens = options.maxTokens ?? null;
+    this.reasoning = options.reasoning ?? 'off';
+    this.showReasoning = options.showReasoning ?? false;
+    this.systemPrompt = options.systemPrompt ?? null;
+    this.enabledTools = options.tools ?? null;
+    this.overrides = options.overrides ?? {};
+    this.models = [
+      ...new Set([
+        this.model,
+        ...Object.values(this.overrides).flatMap((o) => (o.model ? [o.model] : [])),
+        ...(options.models ?? []),
+      ]),
+    ];
+    this.maxParallelTools = options.maxParallelTools ?? 4;
     this.braveApiKey = options.braveApiKey ?? null;
+    this.streaming = options.streaming ?? false;
+    this.usage = options.usage ?? null;
+    this.mcp = options.mcp ?? null;
+    this.cron = options.cron ?? null;
 
-    this.context = new ContextBuilder(this.workspace);
-    this.sessions = new SessionManager(this.workspace);
+    this.context = new ContextBuilder(
+      this.workspace,
+      options.toolHistory ? { toolHistory: options.toolHistory } : {}
+    );
+    const contextManagerOptions: ContextManagerOptions = {
+      provider: this.provider,
+      context: this.context,
+      model: this.model,
+    };
+    if (options.contextWindow !== undefined) {
+      contextManagerOptions.contextWindow = options.contextWindow;
+    }
+    this.contextManager = new ContextManager(contextManagerOptions);
+    this.sessions = options.sessionsDir
+      ? new SessionManager(this.workspace, options.sessionsDir)
+      : new SessionManager(this.workspace);
     this.tools = new ToolRegistry();
+    this.sandbox = new WorkspaceSandbox({ ...options.filesystem, workspace: this.workspace });
+    this.execOptions = {
+      workingDir: this.workspace,
+      backend: createExecBackend(options.exec ?? {}, this.workspace),
+    };
+    if (options.exec?.timeout !== undefined) {
+      this.execOptions.timeout = options.exec.timeout * 1000;
+    }
+    const shellSessionOptions: ShellSessionManagerOptions = { workingDir: this.workspace };
+    if (this.execOptions.backend) {
+      shellSessionOptions.backend = this.execOptions.backend;
+    }
+    this.shellSessions = new ShellSessionManager(shellSessionOptions);
+    if (options.toolPolicy) {
+      this.tools.setPolicy(options.toolPolicy);
+    }
+    if (options.approvalHandler) {
+      this.tools.setApprovalHandler(options.approvalHandler);
+    }
     const subagentOptions: {
       provider: LLMProvider;
       workspace: string;
       bus: MessageBus;
+      agentName: string;
       model?: string;
       braveApiKey?: string;
+      maxParallelTools: number;
+      toolPolicy?: ToolPolicy;
+      approvalHandler?: ApprovalHandler;
+      sandbox: WorkspaceSandbox;
+      exec: ExecToolOptions;
+      usage?: UsageTracker;
     } = {
       provider: this.provider,
       workspace: this.workspace,
       bus: this.bus,
+      agentName: this.name,
       model: this.model,
+      maxParallelTools: this.maxParallelTools,
+      sandbox: this.sandbox,
+      exec: this.execOptions,
     };
     if (this.braveApiKey !== null) {
       subagentOptions.braveApiKey = this.braveApiKey;
     }
+    if (options.toolPolicy) {
+      subagentOptions.toolPolicy = options.toolPolicy;
+    }
+    if (options.approvalHandler) {
+      subagentOptions.approvalHandler = options.approvalHandler;
+    }
+    if (this.usage) {
+      subagentOptions.usage = this.usage;
+    }
     this.subagents = new SubagentManager(subagentOptions);
 
     this.registerDefaultTools();
@@ -88,14 +398,18 @@ export class AgentLoop {
    * Register the default set of tools.
    */
   private registerDefaultTools(): void {
-    // File tools (these are tool objects, not classes)
-    this.tools.register(readFileTool);
-    this.tools.register(writeFileTool);
-    this.tools.register(editFileTool);
-    this.tools.register(listDirTool);
+    // File tools, limited to the paths the sandbox allows
+    const fileToolOptions = { sandbox: this.sandbox };
+    this.tools.register(createReadFileTool(fileToolOptions));
+    this.tools.register(createWriteFileTool(fileToolOptions));
+    this.tools.register(createEditFileTool(fileToolOptions));
+    this.tools.register(createListDirTool(fileToolOptions));
 
-    // Shell tool
-    this.tools.register(new ExecTool({ workingDir: this.workspace }));
+    // Shell tools: one-off commands and persistent sessions
+    this.tools.register(new ExecTool(this.execOptions));
+    for (const tool of createShellSessionTools(this.shellSessions)) {
+      this.tools.register(tool);
+    }
 
     // Web tools
     const webSearchOptions: { apiKey?: string } = {};
@@ -116,6 +430,14 @@ export class AgentLoop {
     // Spawn tool (for subagents)
     const spawnTool = new SpawnTool({ manager: this.subagents });
     this.tools.register(spawnTool);
+
+    // Cron tool, scheduling jobs that report back to the chat
+    if (this.cron) {
+      this.tools.register(new CronTool({ service: this.cron, agent: this.name }));
+    }
+
+    // MCP server tools, kept up to date as servers reconnect
+    this.mcp?.attach(this.tools);
   }
 
   /**
@@ -139,11 +461,12 @@ export class AgentLoop {
         } catch (error) {
           console.error('[AgentLoop] Error processing message:', error);
           // Send error response
-          await this.bus.publishOutbound({
-            channel: msg.channel,
-            chatId: msg.chatId,
-            content: `Sorry, I encountered an error: ${error instanceof Error ? error.message : String(error)}`,
-          });
+          await this.bus.publishOutbound(
+            createReply(
+              msg,
+              `Sorry, I encountered an error: ${error instanceof Error ? error.message : String(error)}`
+            )
+          );
         }
       } catch (error) {
         // Timeout - continue loop
@@ -161,6 +484,7 @@ export class AgentLoop {
    */
   stop(): void {
     this.running = false;
+    this.shellSessions.killAll();
     console.log('[AgentLoop] Agent loop stopping');
   }
 
@@ -181,6 +505,22 @@ export class AgentLoop {
     // Get or create session
     const sessionKey = `${msg.channel}:${msg.chatId}`;
     const session = await this.sessions.getOrCreate(sessionKey);
+    const chatSettings = this.getChatSettings(msg.channel, msg.chatId, session);
+
+    // Chat commands (/model, /persona) change settings without an LLM call
+    const command = parseChatCommand(msg.content);
+    if (command) {
+      const content = applyChatCommand(command, session, chatSettings, this.models);
+      await this.sessions.save(session);
+      return createReply(msg, content);
+    }
+
+    // Pick the model, refusing the turn if the usage budget is spent
+    const settings = await this.applyBudget(chatSettings);
+    if ('refusal' in settings) {
+      return createReply(msg, settings.refusal);
+    }
+    const turn: TurnOptions = { settings, ...getUsageAttribution(msg) };
 
     // Update tool contexts
     const messageTool = this.tools.get('message');
@@ -193,27 +533,43 @@ export class AgentLoop {
       spawnTool.setContext(msg.channel, msg.chatId);
     }
 
-    // Build initial messages
+    // Build initial messages, summarizing history that no longer fits
+    const { history, summary } = await this.contextManager.prepare(
+      session,
+      msg.content,
+      this.getToolDefinitions(settings),
+      settings.model
+    );
     const messages = await this.context.buildMessages(
-      session.getHistory(),
+      history,
       msg.content,
       undefined,
-      msg.media.length > 0 ? msg.media : undefined
+      msg.media.length > 0 ? msg.media : undefined,
+      summary ?? undefined,
+      settings.systemPrompt
     );
+    const turnStart = messages.length;
+
+    const messageId = getMessageId(msg);
+    const stream = this.createReplyStream(msg.channel, msg.chatId, messageId);
 
     // Agent loop
     let iteration = 0;
     let finalContent: string | null = null;
+    const reasoning: string[] = [];
 
-    while (iteration < this.maxIterations) {
+    while (iteration < settings.maxToolIterations) {
       iteration++;
 
+      if (this.isTurnCancelled(messageId, sessionKey)) {
+        return null;
+      }
+
       // Call LLM
-      const response = await this.provider.chat({
-        messages: this.convertMessages(messages),
-        tools: this.tools.getDefinitions() as ToolDefinition[],
-        model: this.model,
-      });
+      const response = await this.callProvider(messages, stream, turn);
+      if (response.reasoning) {
+        reasoning.push(response.reasoning);
+      }
 
       // Handle tool calls
       if (response.toolCalls.length > 0) {
@@ -227,14 +583,26 @@ export class AgentLoop {
           },
         }));
 
-        this.context.addAssistantMessage(messages, response.content, toolCallDicts);
+        this.context.addAssistantMessage(
+          messages,
+          response.content,
+          toolCallDicts,
+          response.reasoningBlocks
+        );
 
-        // Execute tools
-        for (const toolCall of response.toolCalls) {
-          console.log(`[AgentLoop] Executing tool: ${toolCall.name}`);
-          const result = await this.tools.execute(toolCall.name, toolCall.arguments);
-          this.context.addToolResult(messages, toolCall.id, toolCall.name, result);
+        if (this.isTurnCancelled(messageId, sessionKey)) {
+          return null;
         }
+
+        // Execute tools; results keep the order of the calls
+        const results = await this.executeTools(
+          response.toolCalls,
+          { channel: msg.channel, chatId: msg.chatId, senderId: msg.senderId },
+          settings.tools
+        );
+        response.toolCalls.forEach((toolCall, i) => {
+          this.context.addToolResult(messages, toolCall.id, toolCall.name, results[i] ?? '');
+        });
       } else {
         // No tool calls, we're done
         finalContent = response.content;
@@ -246,16 +614,30 @@ export class AgentLoop {
       finalContent = "I've completed processing but have no response to give.";
     }
 
-    // Save to session
-    session.addMessage('user', msg.content);
-    session.addMessage('assistant', finalContent);
+    // Save to session, including intermediate tool calls and results
+    this.saveTurn(session, msg.content, messages.slice(turnStart), finalContent);
     await this.sessions.save(session);
 
-    return {
-      channel: msg.channel,
-      chatId: msg.chatId,
-      content: finalContent,
-    };
+    const reply = settings.showReasoning
+      ? addReasoningSummary(finalContent, reasoning)
+      : finalContent;
+    if (stream) {
+      return stream.finish(reply);
+    }
+
+    return createReply(msg, reply);
+  }
+
+  /**
+   * Check whether the channel cancelled a turn, e.g. because its client
+   * went away. Turns of messages without an ID cannot be cancelled.
+   */
+  private isTurnCancelled(messageId: string | undefined, sessionKey: string): boolean {
+    if (messageId === undefined || !this.bus.consumeCancellation(messageId)) {
+      return false;
+    }
+    console.log(`[AgentLoop] Turn for ${sessionKey} cancelled`);
+    return true;
   }
 
   /**
@@ -285,6 +667,14 @@ export class AgentLoop {
     const sessionKey = `${originChannel}:${originChatId}`;
     const session = await this.sessions.getOrCreate(sessionKey);
 
+    const settings = await this.applyBudget(
+      this.getChatSettings(originChannel, originChatId, session)
+    );
+    if ('refusal' in settings) {
+      return { channel: originChannel, chatId: originChatId, content: settings.refusal };
+    }
+    const turn: TurnOptions = { settings, sessionKey, source: 'subagent' };
+
     // Update tool contexts
     const messageTool = this.tools.get('message');
     if (messageTool instanceof MessageTool) {
@@ -297,20 +687,36 @@ export class AgentLoop {
     }
 
     // Build messages with the announce content
-    const messages = await this.context.buildMessages(session.getHistory(), msg.content);
+    const { history, summary } = await this.contextManager.prepare(
+      session,
+      msg.content,
+      this.getToolDefinitions(settings),
+      settings.model
+    );
+    const messages = await this.context.buildMessages(
+      history,
+      msg.content,
+      undefined,
+      undefined,
+      summary ?? undefined,
+      settings.systemPrompt
+    );
+    const turnStart = messages.length;
+
+    const stream = this.createReplyStream(originChannel, originChatId, undefined);
 
     // Agent loop (limited for announce handling)
     let iteration = 0;
     let finalContent: string | null = null;
+    const reasoning: string[] = [];
 
-    while (iteration < this.maxIterations) {
+    while (iteration < settings.maxToolIterations) {
       iteration++;
 
-      const response = await this.provider.chat({
-        messages: this.convertMessages(messages),
-        tools: this.tools.getDefinitions() as ToolDefinition[],
-        model: this.model,
-      });
+      const response = await this.callProvider(messages, stream, turn);
+      if (response.reasoning) {
+        reasoning.push(response.reasoning);
+      }
 
       if (response.toolCalls.length > 0) {
         const toolCallDicts: ToolCallBlock[] = response.toolCalls.map((tc) => ({
@@ -322,13 +728,21 @@ export class AgentLoop {
           },
         }));
 
-        this.context.addAssistantMessage(messages, response.content, toolCallDicts);
+        this.context.addAssistantMessage(
+          messages,
+          response.content,
+          toolCallDicts,
+          response.reasoningBlocks
+        );
 
-        for (const toolCall of response.toolCalls) {
-          console.log(`[AgentLoop] Executing tool: ${toolCall.name}`);
-          const result = await this.tools.execute(toolCall.name, toolCall.arguments);
-          this.context.addToolResult(messages, toolCall.id, toolCall.name, result);
-        }
+        const results = await this.executeTools(
+          response.toolCalls,
+          { channel: originChannel, chatId: originChatId },
+          settings.tools
+        );
+        response.toolCalls.forEach((toolCall, i) => {
+          this.context.addToolResult(messages, toolCall.id, toolCall.name, results[i] ?? '');
+        });
       } else {
         finalContent = response.content;
         break;
@@ -340,39 +754,240 @@ export class AgentLoop {
     }
 
     // Save to session (mark as system message in history)
-    session.addMessage('user', `[System: ${msg.senderId}] ${msg.content}`);
-    session.addMessage('assistant', finalContent);
+    this.saveTurn(
+      session,
+      `[System: ${msg.senderId}] ${msg.content}`,
+      messages.slice(turnStart),
+      finalContent
+    );
     await this.sessions.save(session);
 
+    const reply = settings.showReasoning
+      ? addReasoningSummary(finalContent, reasoning)
+      : finalContent;
+    if (stream) {
+      return stream.finish(reply);
+    }
+
     return {
       channel: originChannel,
       chatId: originChatId,
-      content: finalContent,
+      content: reply,
+    };
+  }
+
+  /**
+   * Record a completed turn in the session.
+   *
+   * @param session - The session to update.
+   * @param userContent - Text of the user message that started the turn.
+   * @param turnMessages - Assistant tool calls and tool results produced during the turn.
+   * @param finalContent - The final assistant reply.
+   */
+  private saveTurn(
+    session: Session,
+    userContent: string,
+    turnMessages: ExtendedMessage[],
+    finalContent: string
+  ): void {
+    session.addMessage('user', userContent);
+
+    for (const m of turnMessages) {
+      const content = typeof m.content === 'string' ? m.content : JSON.stringify(m.content);
+      if (m.role === 'assistant' && m.tool_calls) {
+        const extra: Record<string, unknown> = { tool_calls: m.tool_calls };
+        if (m.reasoning_blocks) {
+          extra['reasoning_blocks'] = m.reasoning_blocks;
+        }
+        session.addMessage('assistant', content, extra);
+      } else if (m.role === 'tool') {
+        session.addMessage('tool', content, {
+          tool_call_id: m.tool_call_id,
+          name: m.name,
+        });
+      }
+    }
+
+    session.addMessage('assistant', finalContent);
+  }
+
+  /**
+   * Create a reply stream for a chat, or null if streaming is disabled.
+   *
+   * CLI replies are returned directly, so they are never streamed.
+   */
+  private createReplyStream(
+    channel: string,
+    chatId: string,
+    replyTo: string | undefined
+  ): ReplyStream | null {
+    if (!this.streaming || !this.provider.chatStream || channel === 'cli') {
+      return null;
+    }
+    return new ReplyStream(this.bus, channel, chatId, replyTo);
+  }
+
+  /**
+   * Execute a turn's tool calls, running parallel-safe ones concurrently.
+   *
+   * @param enabled - Tools allowed in this chat; calls to others fail.
+   */
+  private async executeTools(
+    toolCalls: ToolCallRequest[],
+    context: ToolCallContext,
+    enabled?: string[]
+  ): Promise<string[]> {
+    console.log(`[AgentLoop] Executing tools: ${toolCalls.map((tc) => tc.name).join(', ')}`);
+    if (!enabled) {
+      return this.tools.executeAll(toolCalls, context, this.maxParallelTools);
+    }
+
+    const allowed = toolCalls.filter((tc) => enabled.includes(tc.name));
+    const results = await this.tools.executeAll(allowed, context, this.maxParallelTools);
+    let next = 0;
+    return toolCalls.map((tc) =>
+      enabled.includes(tc.name)
+        ? (results[next++] ?? '')
+        : `Error: Tool '${tc.name}' is not enabled in this chat`
+    );
+  }
+
+  /**
+   * Get the definitions of the tools enabled in a chat.
+   */
+  private getToolDefinitions(settings: ChatSettings): ToolDefinition[] {
+    const definitions = this.tools.getDefinitions() as ToolDefinition[];
+    const enabled = settings.tools;
+    return enabled ? definitions.filter((d) => enabled.includes(d.function.name)) : definitions;
+  }
+
+  /**
+   * Get the effective settings for a chat.
+   *
+   * The agent's settings are overridden by config for the channel, then
+   * config for the chat, then what was set in the chat with /model or /persona.
+   */
+  getChatSettings(channel: string, chatId: string, session?: Session): ChatSettings {
+    const defaults: ChatSettings = {
+      model: this.model,
+      maxToolIterations: this.maxIterations,
+      reasoning: this.reasoning,
+      showReasoning: this.showReasoning,
     };
+    if (this.temperature !== null) {
+      defaults.temperature = this.temperature;
+    }
+    if (this.maxTokens !== null) {
+      defaults.maxTokens = this.maxTokens;
+    }
+    if (this.systemPrompt !== null) {
+      defaults.systemPrompt = this.systemPrompt;
+    }
+    if (this.enabledTools !== null) {
+      defaults.tools = this.enabledTools;
+    }
+    return resolveChatSettings(defaults, [
+      this.overrides[channel],
+      this.overrides[`${channel}:${chatId}`],
+      session ? getSessionOverrides(session) : undefined,
+    ]);
+  }
+
+  /**
+   * Apply the usage budget to a turn's settings, downgrading the model if configured.
+   *
+   * @returns The settings to use, or a refusal to reply with instead of calling the LLM.
+   */
+  private async applyBudget(settings: ChatSettings): Promise<ChatSettings | { refusal: string }> {
+    if (!this.usage) {
+      return settings;
+    }
+    const selection = await this.usage.selectModel(settings.model);
+    if (selection.reason) {
+      console.warn(`[AgentLoop] ${selection.reason}`);
+    }
+    if (selection.model === null) {
+      return { refusal: selection.reason ?? 'The usage budget has been reached.' };
+    }
+    return { ...settings, model: selection.model };
+  }
+
+  /**
+   * Call the LLM, streaming text to the reply stream when one is given,
+   * and record the call's usage.
+   */
+  private async callProvider(
+    messages: ExtendedMessage[],
+    stream: ReplyStream | null,
+    turn: TurnOptions
+  ): Promise<LLMResponse> {
+    const { settings } = turn;
+    const options: ChatOptions = {
+      messages: this.convertMessages(messages),
+      tools: this.getToolDefinitions(settings),
+      model: settings.model,
+    };
+    if (settings.temperature !== undefined) {
+      options.temperature = settings.temperature;
+    }
+    if (settings.maxTokens !== undefined) {
+      options.maxTokens = settings.maxTokens;
+    }
+    if (settings.reasoning && settings.reasoning !== 'off') {
+      options.reasoning = { effort: settings.reasoning };
+    }
+
+    let response: LLMResponse | null = null;
+    if (!stream || !this.provider.chatStream) {
+      response = await this.provider.chat(options);
+    } else {
+      stream.startSegment();
+      for await (const event of this.provider.chatStream(options)) {
+        if (event.type === 'text') {
+          await stream.push(event.text);
+        } else if (event.type === 'done') {
+          response = event.response;
+        }
+      }
+      response ??= createEmptyResponse(null, 'error');
+    }
+
+    if (this.usage) {
+      await this.usage.record({
+        model: response.model ?? settings.model,
+        sessionKey: turn.sessionKey,
+        source: turn.source,
+        usage: response.usage,
+      });
+    }
+    return response;
   }
 
   /**
    * Convert ExtendedMessage[] to Message[] for the provider.
    */
-  private convertMessages(
-    messages: ExtendedMessage[]
-  ): Array<{ role: 'user' | 'assistant' | 'system' | 'tool'; content: string; toolCallId?: string; name?: string }> {
+  private convertMessages(messages: ExtendedMessage[]): Message[] {
     return messages.map((m) => {
-      const converted: {
-        role: 'user' | 'assistant' | 'system' | 'tool';
-        content: string;
-        toolCallId?: string;
-        name?: string;
-      } = {
-        role: m.role,
-        content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
-      };
+      const { text, attachments } = splitContentBlocks(m.content);
+      const converted: Message = { role: m.role, content: text };
+      if (attachments.length > 0) {
+        converted.attachments = attachments;
+      }
+      if (m.tool_calls && m.tool_calls.length > 0) {
+        converted.toolCalls = m.tool_calls.map(parseToolCallBlock);
+      }
+      if (m.reasoning_blocks) {
+        converted.reasoningBlocks = m.reasoning_blocks;
+      }
       if (m.tool_call_id !== undefined) {
         converted.toolCallId = m.tool_call_id;
       }
       if (m.name !== undefined) {
         converted.name = m.name;
       }
+      if (m.cache) {
+        converted.cache = true;
+      }
       return converted;
     });
   }
@@ -381,10 +996,15 @@ export class AgentLoop {
    * Process a message directly (for CLI usage).
    *
    * @param content - The message content.
-   * @param _sessionKey - Session identifier (unused, for compatibility).
+   * @param sessionKey - Session identifier, used to attribute usage.
+   * @param source - What triggered the message, for usage accounting.
    * @returns The agent's response.
    */
-  async processDirect(content: string, _sessionKey = 'cli:direct'): Promise<string> {
+  async processDirect(
+    content: string,
+    sessionKey = 'cli:direct',
+    source: UsageSource = 'user'
+  ): Promise<string> {
     const msg: InboundMessage = {
       channel: 'cli',
       senderId: 'user',
@@ -392,13 +1012,53 @@ export class AgentLoop {
       content,
       timestamp: new Date(),
       media: [],
-      metadata: {},
+      metadata: { usageSource: source, usageSessionKey: sessionKey },
     };
 
     const response = await this.processMessage(msg);
     return response?.content ?? '';
   }
 
+  /**
+   * Ask the agent's model for a reply matching a schema, without tools or
+   * a session. The usage budget applies as it does to turns.
+   *
+   * @param content - The prompt.
+   * @param schema - Schema the reply must match.
+   * @param sessionKey - Session identifier, used to attribute usage.
+   * @param source - What triggered the call, for usage accounting.
+   * @returns The reply, or null if the budget is spent or no valid reply came.
+   */
+  async processStructured<T extends z.ZodObject>(
+    content: string,
+    schema: T,
+    sessionKey: string,
+    source: UsageSource
+  ): Promise<z.infer<T> | null> {
+    const selection = this.usage ? await this.usage.selectModel(this.model) : { model: this.model };
+    if (selection.model === null) {
+      return null;
+    }
+
+    const result = await chatStructured(this.provider, {
+      model: selection.model,
+      messages: [{ role: 'user', content }],
+      schema,
+    });
+    if (this.usage) {
+      await this.usage.record({
+        model: result.response.model ?? selection.model,
+        sessionKey,
+        source,
+        usage: result.response.usage,
+      });
+    }
+    if (result.error) {
+      console.warn(`[AgentLoop] No structured reply: ${result.error}`);
+    }
+    return result.value;
+  }
+
   /**
    * Check if the agent loop is currently running.
    */
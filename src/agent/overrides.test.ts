@@ -0,0 +1,125 @@
+/**
+ * Tests for per-chat settings overrides.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Session } from '../session/manager.js';
+import {
+  applyChatCommand,
+  getSessionOverrides,
+  parseChatCommand,
+  resolveChatSettings,
+  type ChatCommand,
+  type ChatSettings,
+} from './overrides.js';
+
+const defaults: ChatSettings = { model: 'default-model', maxToolIterations: 20, temperature: 0.7 };
+const models = ['default-model', 'gpt-4o'];
+
+/**
+ * Apply a chat command with the test defaults and models.
+ */
+function runCommand(command: ChatCommand, session: Session, settings = defaults): string {
+  return applyChatCommand(command, session, settings, models);
+}
+
+describe('resolveChatSettings', () => {
+  it('should apply layers in order, skipping unset fields', () => {
+    const settings = resolveChatSettings(defaults, [
+      { model: 'channel-model', temperature: 0.2 },
+      undefined,
+      { model: 'chat-model', tools: ['read_file'] },
+    ]);
+
+    expect(settings).toEqual({
+      model: 'chat-model',
+      maxToolIterations: 20,
+      temperature: 0.2,
+      tools: ['read_file'],
+    });
+  });
+
+  it('should not modify the defaults', () => {
+    resolveChatSettings(defaults, [{ model: 'other' }]);
+    expect(defaults.model).toBe('default-model');
+  });
+});
+
+describe('parseChatCommand', () => {
+  it('should parse commands with and without arguments', () => {
+    expect(parseChatCommand('/model')).toEqual({ name: 'model', argument: '' });
+    expect(parseChatCommand('/model gpt-4o ')).toEqual({ name: 'model', argument: 'gpt-4o' });
+    expect(parseChatCommand('/persona@my_bot Be brief.\nUse emoji.')).toEqual({
+      name: 'persona',
+      argument: 'Be brief.\nUse emoji.',
+    });
+  });
+
+  it('should ignore other messages', () => {
+    expect(parseChatCommand('/models')).toBeNull();
+    expect(parseChatCommand('what is /model?')).toBeNull();
+    expect(parseChatCommand('/start')).toBeNull();
+  });
+});
+
+describe('applyChatCommand', () => {
+  it('should set, show and reset the model', () => {
+    const session = new Session({ key: 'telegram:1' });
+
+    expect(runCommand({ name: 'model', argument: 'gpt-4o' }, session)).toBe(
+      'Model set to gpt-4o for this chat.'
+    );
+    expect(getSessionOverrides(session)).toEqual({ model: 'gpt-4o' });
+
+    const current = resolveChatSettings(defaults, [getSessionOverrides(session)]);
+    expect(runCommand({ name: 'model', argument: '' }, session, current)).toBe(
+      'Model: gpt-4o (set for this chat; /model reset to undo)\nAvailable: default-model, gpt-4o'
+    );
+
+    runCommand({ name: 'model', argument: 'reset' }, session, current);
+    expect(session.metadata['overrides']).toBeUndefined();
+  });
+
+  it('should refuse models that are not available', () => {
+    const session = new Session({ key: 'telegram:1' });
+
+    expect(runCommand({ name: 'model', argument: 'gpt-4o-typo' }, session)).toBe(
+      'Model gpt-4o-typo is not available. Available: default-model, gpt-4o'
+    );
+    expect(getSessionOverrides(session)).toEqual({});
+  });
+
+  it('should set and reset the persona', () => {
+    const session = new Session({ key: 'telegram:1' });
+
+    runCommand({ name: 'persona', argument: 'Talk like a pirate.' }, session);
+    expect(getSessionOverrides(session)).toEqual({ systemPrompt: 'Talk like a pirate.' });
+
+    expect(runCommand({ name: 'persona', argument: '' }, session)).toContain(
+      'No persona set'
+    );
+    runCommand({ name: 'persona', argument: 'reset' }, session);
+    expect(getSessionOverrides(session)).toEqual({});
+  });
+
+  it('should set the reasoning level and summary visibility', () => {
+    const session = new Session({ key: 'telegram:1' });
+
+    expect(runCommand({ name: 'reasoning', argument: 'High' }, session)).toBe(
+      'Reasoning set to high for this chat.'
+    );
+    runCommand({ name: 'reasoning', argument: 'show' }, session);
+    expect(getSessionOverrides(session)).toEqual({ reasoning: 'high', showReasoning: true });
+
+    const current = resolveChatSettings(defaults, [getSessionOverrides(session)]);
+    expect(runCommand({ name: 'reasoning', argument: '' }, session, current)).toBe(
+      'Reasoning: high (summary shown)'
+    );
+    expect(runCommand({ name: 'reasoning', argument: 'lots' }, session, current)).toContain(
+      'Usage: /reasoning'
+    );
+
+    runCommand({ name: 'reasoning', argument: 'reset' }, session, current);
+    expect(getSessionOverrides(session)).toEqual({});
+  });
+});
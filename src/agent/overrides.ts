@@ -0,0 +1,215 @@
+/**
+ * Per-channel and per-chat agent settings.
+ */
+
+import type { Session } from '../session/manager.js';
+import type { ReasoningEffort } from '../providers/base.js';
+
+/**
+ * Extended thinking level, or 'off' to not request it.
+ */
+export type ReasoningLevel = 'off' | ReasoningEffort;
+
+/**
+ * Valid values of a reasoning level.
+ */
+const REASONING_LEVELS: ReasoningLevel[] = ['off', 'low', 'medium', 'high'];
+
+/**
+ * Settings a channel or chat can override. Unset fields fall through
+ * to the next layer.
+ */
+export interface ChatOverrides {
+  model?: string | undefined;
+  temperature?: number | undefined;
+  maxTokens?: number | undefined;
+  maxToolIterations?: number | undefined;
+  /** Extra instructions added to the system prompt (the persona) */
+  systemPrompt?: string | undefined;
+  /** Names of the tools the agent may use; all tools if not set */
+  tools?: string[] | undefined;
+  reasoning?: ReasoningLevel | undefined;
+  /** Whether replies start with a summary of the model's reasoning */
+  showReasoning?: boolean | undefined;
+}
+
+/**
+ * Effective settings for a turn in one chat.
+ */
+export interface ChatSettings {
+  model: string;
+  maxToolIterations: number;
+  /** Provider default if not set */
+  temperature?: number;
+  /** Provider default if not set */
+  maxTokens?: number;
+  systemPrompt?: string;
+  tools?: string[];
+  /** Off if not set */
+  reasoning?: ReasoningLevel;
+  showReasoning?: boolean;
+}
+
+/**
+ * Session metadata key for overrides set with chat commands.
+ */
+const OVERRIDES_METADATA_KEY = 'overrides';
+
+/**
+ * Apply override layers on top of defaults, later layers winning.
+ */
+export function resolveChatSettings(
+  defaults: ChatSettings,
+  layers: Array<ChatOverrides | undefined>
+): ChatSettings {
+  const settings: ChatSettings = { ...defaults };
+
+  for (const layer of layers) {
+    if (!layer) {
+      continue;
+    }
+    if (layer.model !== undefined) settings.model = layer.model;
+    if (layer.maxToolIterations !== undefined) settings.maxToolIterations = layer.maxToolIterations;
+    if (layer.temperature !== undefined) settings.temperature = layer.temperature;
+    if (layer.maxTokens !== undefined) settings.maxTokens = layer.maxTokens;
+    if (layer.systemPrompt !== undefined) settings.systemPrompt = layer.systemPrompt;
+    if (layer.tools !== undefined) settings.tools = layer.tools;
+    if (layer.reasoning !== undefined) settings.reasoning = layer.reasoning;
+    if (layer.showReasoning !== undefined) settings.showReasoning = layer.showReasoning;
+  }
+
+  return settings;
+}
+
+/**
+ * Get the overrides stored in a session by chat commands.
+ */
+export function getSessionOverrides(session: Session): ChatOverrides {
+  const overrides = session.metadata[OVERRIDES_METADATA_KEY];
+  return overrides && typeof overrides === 'object' ? (overrides as ChatOverrides) : {};
+}
+
+/**
+ * Store overrides in a session, removing the entry when none are left.
+ */
+export function setSessionOverrides(session: Session, overrides: ChatOverrides): void {
+  const kept = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+  if (Object.keys(kept).length === 0) {
+    delete session.metadata[OVERRIDES_METADATA_KEY];
+  } else {
+    session.metadata[OVERRIDES_METADATA_KEY] = kept;
+  }
+}
+
+/**
+ * A chat command that changes settings at runtime.
+ */
+export interface ChatCommand {
+  name: 'model' | 'persona' | 'reasoning';
+  /** Text after the command; empty to show the current value */
+  argument: string;
+}
+
+/**
+ * Parse a message as a chat command.
+ *
+ * Telegram adds the bot name in groups ("/model@my_bot"), which is ignored.
+ *
+ * @returns The command, or null if the message is not one.
+ */
+export function parseChatCommand(content: string): ChatCommand | null {
+  const match = /^\/(model|persona|reasoning)(?:@\S+)?(?:\s+([\s\S]*))?$/.exec(content.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    name: match[1] as ChatCommand['name'],
+    argument: (match[2] ?? '').trim(),
+  };
+}
+
+/**
+ * Apply a chat command to the session's overrides.
+ *
+ * @param settings - Current effective settings, for showing values.
+ * @param models - Models /model may switch to; others are refused.
+ * @returns The reply to send.
+ */
+export function applyChatCommand(
+  command: ChatCommand,
+  session: Session,
+  settings: ChatSettings,
+  models: readonly string[]
+): string {
+  const overrides = { ...getSessionOverrides(session) };
+  const reset = command.argument.toLowerCase() === 'reset';
+
+  if (command.name === 'model') {
+    if (!command.argument) {
+      const note = overrides.model ? ' (set for this chat; /model reset to undo)' : '';
+      return `Model: ${settings.model}${note}\nAvailable: ${models.join(', ')}`;
+    }
+    if (!reset && !models.includes(command.argument)) {
+      return `Model ${command.argument} is not available. Available: ${models.join(', ')}`;
+    }
+    overrides.model = reset ? undefined : command.argument;
+    setSessionOverrides(session, overrides);
+    return reset
+      ? 'Model reset to the default for this chat.'
+      : `Model set to ${command.argument} for this chat.`;
+  }
+
+  if (command.name === 'reasoning') {
+    return applyReasoningCommand(command.argument.toLowerCase(), session, settings);
+  }
+
+  if (!command.argument) {
+    return settings.systemPrompt
+      ? `Persona:\n${settings.systemPrompt}`
+      : 'No persona set. Use /persona <instructions> to set one.';
+  }
+  overrides.systemPrompt = reset ? undefined : command.argument;
+  setSessionOverrides(session, overrides);
+  return reset ? 'Persona reset to the default for this chat.' : 'Persona updated for this chat.';
+}
+
+/**
+ * Apply a /reasoning command: a level, show/hide for the summary, or reset.
+ */
+function applyReasoningCommand(
+  argument: string,
+  session: Session,
+  settings: ChatSettings
+): string {
+  const overrides = { ...getSessionOverrides(session) };
+
+  if (!argument) {
+    const summary = settings.showReasoning ? 'shown' : 'hidden';
+    return `Reasoning: ${settings.reasoning ?? 'off'} (summary ${summary})`;
+  }
+
+  if (argument === 'reset') {
+    overrides.reasoning = undefined;
+    overrides.showReasoning = undefined;
+    setSessionOverrides(session, overrides);
+    return 'Reasoning reset to the default for this chat.';
+  }
+
+  if (argument === 'show' || argument === 'hide') {
+    overrides.showReasoning = argument === 'show';
+    setSessionOverrides(session, overrides);
+    return argument === 'show'
+      ? 'Replies in this chat will start with a reasoning summary.'
+      : 'Reasoning summaries hidden in this chat.';
+  }
+
+  const level = REASONING_LEVELS.find((l) => l === argument);
+  if (!level) {
+    return 'Usage: /reasoning [off|low|medium|high|show|hide|reset]';
+  }
+  overrides.reasoning = level;
+  setSessionOverrides(session, overrides);
+  return `Reasoning set to ${level} for this chat.`;
+}
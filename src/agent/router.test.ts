@@ -0,0 +1,199 @@
+/**
+ * Tests for AgentRouter.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { rm, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { AgentLoop } from './loop.js';
+import { AgentRouter, matchesPattern, routeMatches } from './router.js';
+import { MessageBus } from '../bus/queue.js';
+import type { InboundMessage } from '../bus/index.js';
+import type { LLMProvider } from '../providers/base.js';
+import { createCronJob } from '../cron/types.js';
+
+function createMockProvider(): LLMProvider {
+  return {
+    getDefaultModel: () => 'test-model',
+    chat: vi.fn(async () => ({
+      content: 'Hello',
+      toolCalls: [],
+      finishReason: 'stop',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    })),
+  };
+}
+
+function createMessage(overrides: Partial<InboundMessage> = {}): InboundMessage {
+  return {
+    channel: 'telegram',
+    senderId: 'user1',
+    chatId: '123',
+    content: 'Hi',
+    timestamp: new Date(),
+    media: [],
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe('matchesPattern', () => {
+  it('should match exact values and wildcards', () => {
+    expect(matchesPattern('telegram', 'telegram')).toBe(true);
+    expect(matchesPattern('telegram', 'tele')).toBe(false);
+    expect(matchesPattern('12036@g.us', '*@g.us')).toBe(true);
+    expect(matchesPattern('12036@s.whatsapp.net', '*@g.us')).toBe(false);
+    expect(matchesPattern('anything', '*')).toBe(true);
+  });
+
+  it('should treat other characters literally', () => {
+    expect(matchesPattern('a.b', 'a.b')).toBe(true);
+    expect(matchesPattern('axb', 'a.b')).toBe(false);
+  });
+});
+
+describe('routeMatches', () => {
+  it('should require all given patterns to match', () => {
+    const route = { agent: 'work', channel: 'telegram', senderId: 'user1' };
+    expect(routeMatches(route, { channel: 'telegram', chatId: '1', senderId: 'user1' })).toBe(true);
+    expect(routeMatches(route, { channel: 'telegram', chatId: '1', senderId: 'user2' })).toBe(false);
+    expect(routeMatches({ agent: 'any' }, { channel: 'cli', chatId: 'x', senderId: 'y' })).toBe(
+      true
+    );
+  });
+});
+
+describe('AgentRouter', () => {
+  let testDir: string;
+  let bus: MessageBus;
+  let agents: Map<string, AgentLoop>;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `router-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+
+    bus = new MessageBus();
+    agents = new Map();
+    for (const name of ['default', 'home', 'work']) {
+      agents.set(
+        name,
+        new AgentLoop({
+          bus,
+          provider: createMockProvider(),
+          workspace: join(testDir, name),
+          sessionsDir: join(testDir, 'sessions', name),
+          name,
+        })
+      );
+    }
+  });
+
+  afterEach(async () => {
+    for (const agent of agents.values()) {
+      agent.stop();
+    }
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should use the first matching route', () => {
+    const router = new AgentRouter({
+      bus,
+      agents,
+      routes: [
+        { agent: 'home', channel: 'whatsapp', chatId: '*@g.us' },
+        { agent: 'work', channel: 'telegram' },
+        { agent: 'home', channel: 'telegram' },
+      ],
+      defaultAgent: 'default',
+    });
+
+    expect(router.route(createMessage({ channel: 'telegram' })).name).toBe('work');
+    expect(router.route(createMessage({ channel: 'whatsapp', chatId: '1@g.us' })).name).toBe(
+      'home'
+    );
+  });
+
+  it('should fall back to the default agent', () => {
+    const router = new AgentRouter({
+      bus,
+      agents,
+      routes: [{ agent: 'work', channel: 'slack' }],
+      defaultAgent: 'default',
+    });
+
+    expect(router.route(createMessage()).name).toBe('default');
+  });
+
+  it('should send subagent results to the agent that spawned them', () => {
+    const router = new AgentRouter({
+      bus,
+      agents,
+      routes: [{ agent: 'work', channel: 'telegram' }],
+      defaultAgent: 'default',
+    });
+
+    const result = createMessage({
+      channel: 'system',
+      senderId: 'subagent',
+      chatId: 'telegram:123',
+      metadata: { agent: 'home' },
+    });
+    expect(router.route(result).name).toBe('home');
+
+    // Without the agent name, the origin chat is routed as usual
+    expect(router.route({ ...result, metadata: {} }).name).toBe('work');
+  });
+
+  it('should run cron jobs on the agent that scheduled them', () => {
+    const router = new AgentRouter({
+      bus,
+      agents,
+      routes: [{ agent: 'work', channel: 'telegram' }],
+      defaultAgent: 'default',
+    });
+    const job = createCronJob('abc123', 'standup');
+
+    expect(router.routeCronJob({ ...job, agent: 'home', owner: 'telegram:123' }).name).toBe('home');
+    expect(router.routeCronJob(job).name).toBe('default');
+    expect(() => router.routeCronJob({ ...job, agent: 'gone' })).toThrow(
+      "Agent 'gone' that scheduled job"
+    );
+  });
+
+  it('should ignore routes to unknown agents', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const router = new AgentRouter({
+      bus,
+      agents,
+      routes: [{ agent: 'missing', channel: 'telegram' }],
+      defaultAgent: 'default',
+    });
+
+    expect(router.routes).toEqual([]);
+    expect(router.route(createMessage()).name).toBe('default');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should throw for an unknown default agent', () => {
+    expect(() => new AgentRouter({ bus, agents, defaultAgent: 'missing' })).toThrow(
+      "Unknown default agent 'missing'"
+    );
+  });
+
+  it('should stop all agents', () => {
+    const router = new AgentRouter({ bus, agents, defaultAgent: 'default' });
+    const stops = [...agents.values()].map((agent) => vi.spyOn(agent, 'stop'));
+
+    router.stop();
+
+    expect(router.isRunning()).toBe(false);
+    for (const stop of stops) {
+      expect(stop).toHaveBeenCalled();
+    }
+  });
+});
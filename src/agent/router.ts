@@ -0,0 +1,198 @@
+/**
+ * Routes inbound messages to one of several named agents.
+ */
+
+import { createReply, type InboundMessage, type MessageBus } from '../bus/index.js';
+import { parseSessionKey } from '../utils/helpers.js';
+import { withTimeout } from '../utils/async-queue.js';
+import type { AgentLoop } from './loop.js';
+import type { CronJob } from '../cron/types.js';
+
+/**
+ * Binds messages matching all given patterns to an agent.
+ * Patterns may use * as a wildcard; omitted patterns match anything.
+ */
+export interface AgentRoute {
+  agent: string;
+  channel?: string | undefined;
+  chatId?: string | undefined;
+  senderId?: string | undefined;
+}
+
+/**
+ * Options for creating an AgentRouter.
+ */
+export interface AgentRouterOptions {
+  bus: MessageBus;
+  /** Agents by name */
+  agents: Map<string, AgentLoop>;
+  /** Checked in order; the first match wins */
+  routes?: AgentRoute[];
+  /** Agent for messages no route matches */
+  defaultAgent: string;
+}
+
+/**
+ * Check a value against a pattern where * matches any characters.
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`).test(value);
+}
+
+/**
+ * Check whether a route matches a message.
+ */
+export function routeMatches(
+  route: AgentRoute,
+  msg: Pick<InboundMessage, 'channel' | 'chatId' | 'senderId'>
+): boolean {
+  return (
+    (route.channel === undefined || matchesPattern(msg.channel, route.channel)) &&
+    (route.chatId === undefined || matchesPattern(msg.chatId, route.chatId)) &&
+    (route.senderId === undefined || matchesPattern(msg.senderId, route.senderId))
+  );
+}
+
+/**
+ * Consumes messages from the bus and hands each to the agent its route
+ * selects, publishing the agent's reply.
+ *
+ * Subagent results carry the name of the agent that spawned them and
+ * go back to that agent.
+ */
+export class AgentRouter {
+  readonly bus: MessageBus;
+  readonly agents: Map<string, AgentLoop>;
+  readonly routes: AgentRoute[];
+  readonly defaultAgent: AgentLoop;
+  private running = false;
+
+  constructor(options: AgentRouterOptions) {
+    this.bus = options.bus;
+    this.agents = options.agents;
+
+    const defaultAgent = options.agents.get(options.defaultAgent);
+    if (!defaultAgent) {
+      throw new Error(`Unknown default agent '${options.defaultAgent}'`);
+    }
+    this.defaultAgent = defaultAgent;
+
+    this.routes = [];
+    for (const route of options.routes ?? []) {
+      if (options.agents.has(route.agent)) {
+        this.routes.push(route);
+      } else {
+        console.warn(`[AgentRouter] Ignoring route to unknown agent '${route.agent}'`);
+      }
+    }
+  }
+
+  /**
+   * Select the agent for a message.
+   */
+  route(msg: InboundMessage): AgentLoop {
+    // Subagent results return to the agent that spawned the subagent
+    if (msg.channel === 'system') {
+      const name = msg.metadata['agent'];
+      const origin = typeof name === 'string' ? this.agents.get(name) : undefined;
+      if (origin) {
+        return origin;
+      }
+      try {
+        const { channel, chatId } = parseSessionKey(msg.chatId);
+        return this.match({ channel, chatId, senderId: msg.senderId });
+      } catch {
+        return this.defaultAgent;
+      }
+    }
+
+    return this.match(msg);
+  }
+
+  /**
+   * Select the agent that runs a cron job: the agent that scheduled it
+   * with its cron tool, or the default agent for jobs added from the CLI
+   * or the API.
+   *
+   * @throws Error if the agent that scheduled the job no longer exists,
+   * rather than running the job with another agent's tools
+   */
+  routeCronJob(job: CronJob): AgentLoop {
+    if (job.agent === undefined) {
+      return this.defaultAgent;
+    }
+    const agent = this.agents.get(job.agent);
+    if (!agent) {
+      throw new Error(`Agent '${job.agent}' that scheduled job ${job.id} no longer exists`);
+    }
+    return agent;
+  }
+
+  /**
+   * Find the agent of the first matching route.
+   */
+  private match(msg: Pick<InboundMessage, 'channel' | 'chatId' | 'senderId'>): AgentLoop {
+    for (const route of this.routes) {
+      if (routeMatches(route, msg)) {
+        return this.agents.get(route.agent) ?? this.defaultAgent;
+      }
+    }
+    return this.defaultAgent;
+  }
+
+  /**
+   * Run the router, processing messages from the bus.
+   */
+  async run(): Promise<void> {
+    this.running = true;
+    console.log(`[AgentRouter] Routing to agents: ${[...this.agents.keys()].join(', ')}`);
+
+    while (this.running) {
+      let msg: InboundMessage;
+      try {
+        msg = await withTimeout(this.bus.consumeInbound(), 1000);
+      } catch (error) {
+        // Timeout - continue loop
+        if (error instanceof Error && error.message.includes('timed out')) {
+          continue;
+        }
+        console.error('[AgentRouter] Error in main loop:', error);
+        continue;
+      }
+
+      const agent = this.route(msg);
+      try {
+        const response = await agent.processMessage(msg);
+        if (response) {
+          await this.bus.publishOutbound(response);
+        }
+      } catch (error) {
+        console.error(`[AgentRouter] Agent '${agent.name}' failed to process message:`, error);
+        await this.bus.publishOutbound(
+          createReply(
+            msg,
+            `Sorry, I encountered an error: ${error instanceof Error ? error.message : String(error)}`
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Stop the router and all agents.
+   */
+  stop(): void {
+    this.running = false;
+    for (const agent of this.agents.values()) {
+      agent.stop();
+    }
+  }
+
+  /**
+   * Check if the router is currently running.
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+}
@@ -6,9 +6,13 @@ import { randomUUID } from 'node:crypto';
 import { MessageBus, InboundMessage } from '../bus/index.js';
 import type { LLMProvider, ToolDefinition, Message } from '../providers/base.js';
 import { ToolRegistry } from './tools/registry.js';
-import { readFileTool, writeFileTool, listDirTool } from './tools/filesystem.js';
-import { ExecTool } from './tools/shell.js';
+import type { ApprovalHandler, ToolPolicy } from './tools/policy.js';
+import { parseToolCallBlock } from './context.js';
+import { createReadFileTool, createWriteFileTool, createListDirTool } from './tools/filesystem.js';
+import { WorkspaceSandbox } from './tools/sandbox.js';
+import { ExecTool, type ExecToolOptions } from './tools/shell.js';
 import { WebSearchTool, WebFetchTool } from './tools/web.js';
+import type { UsageTracker } from '../usage/index.js';
 
 /**
  * Origin information for routing subagent results.
@@ -39,8 +43,15 @@ export class SubagentManager {
   readonly provider: LLMProvider;
   readonly workspace: string;
   readonly bus: MessageBus;
+  readonly agentName: string;
   readonly model: string;
   readonly braveApiKey: string | null;
+  readonly maxParallelTools: number;
+  private readonly toolPolicy: ToolPolicy | null;
+  private readonly approvalHandler: ApprovalHandler | null;
+  private readonly sandbox: WorkspaceSandbox;
+  private readonly execOptions: ExecToolOptions;
+  private readonly usage: UsageTracker | null;
 
   private runningTasks: Map<string, RunningTask> = new Map();
 
@@ -48,14 +59,29 @@ export class SubagentManager {
     provider: LLMProvider;
     workspace: string;
     bus: MessageBus;
+    /** Agent the results are announced to */
+    agentName?: string;
     model?: string;
     braveApiKey?: string;
+    maxParallelTools?: number;
+    toolPolicy?: ToolPolicy;
+    approvalHandler?: ApprovalHandler;
+    sandbox?: WorkspaceSandbox;
+    exec?: ExecToolOptions;
+    usage?: UsageTracker;
   }) {
     this.provider = options.provider;
     this.workspace = options.workspace;
     this.bus = options.bus;
+    this.agentName = options.agentName ?? 'default';
     this.model = options.model ?? options.provider.getDefaultModel();
     this.braveApiKey = options.braveApiKey ?? null;
+    this.maxParallelTools = options.maxParallelTools ?? 4;
+    this.toolPolicy = options.toolPolicy ?? null;
+    this.approvalHandler = options.approvalHandler ?? null;
+    this.sandbox = options.sandbox ?? new WorkspaceSandbox({ workspace: options.workspace });
+    this.execOptions = options.exec ?? { workingDir: options.workspace };
+    this.usage = options.usage ?? null;
   }
 
   /**
@@ -114,18 +140,35 @@ export class SubagentManager {
     console.log(`[SubagentManager] Subagent [${taskId}] starting task: ${label}`);
 
     try {
+      // Usage counts against the chat that spawned the subagent
+      const sessionKey = `${origin.channel}:${origin.chatId}`;
+      let model = this.model;
+      if (this.usage) {
+        const selection = await this.usage.selectModel(this.model);
+        if (selection.model === null) {
+          throw new Error(selection.reason ?? 'The usage budget has been reached.');
+        }
+        model = selection.model;
+      }
+
       // Build subagent tools (no message tool, no spawn tool)
       const tools = new ToolRegistry();
-      tools.register(readFileTool);
-      tools.register(writeFileTool);
-      tools.register(listDirTool);
-      tools.register(new ExecTool({ workingDir: this.workspace }));
+      const fileToolOptions = { sandbox: this.sandbox };
+      tools.register(createReadFileTool(fileToolOptions));
+      tools.register(createWriteFileTool(fileToolOptions));
+      tools.register(createListDirTool(fileToolOptions));
+      tools.register(new ExecTool(this.execOptions));
       const webSearchOptions: { apiKey?: string } = {};
       if (this.braveApiKey !== null) {
         webSearchOptions.apiKey = this.braveApiKey;
       }
       tools.register(new WebSearchTool(webSearchOptions));
       tools.register(new WebFetchTool());
+      if (this.toolPolicy) {
+        tools.setPolicy(this.toolPolicy);
+      }
+      // Approval prompts go to the chat that spawned the subagent
+      tools.setApprovalHandler(this.approvalHandler);
 
       // Build messages with subagent-specific prompt
       const systemPrompt = this.buildSubagentPrompt(task);
@@ -158,6 +201,9 @@ export class SubagentManager {
               role: m.role,
               content: m.content,
             };
+            if (m.tool_calls !== undefined) {
+              converted.toolCalls = m.tool_calls.map(parseToolCallBlock);
+            }
             if (m.tool_call_id !== undefined) {
               converted.toolCallId = m.tool_call_id;
             }
@@ -167,8 +213,16 @@ export class SubagentManager {
             return converted;
           }),
           tools: tools.getDefinitions() as ToolDefinition[],
-          model: this.model,
+          model,
         });
+        if (this.usage) {
+          await this.usage.record({
+            model: response.model ?? model,
+            sessionKey,
+            source: 'subagent',
+            usage: response.usage,
+          });
+        }
 
         if (response.toolCalls.length > 0) {
           // Add assistant message with tool calls
@@ -187,17 +241,18 @@ export class SubagentManager {
             tool_calls: toolCallDicts,
           });
 
-          // Execute tools
-          for (const toolCall of response.toolCalls) {
-            console.log(`[SubagentManager] Subagent [${taskId}] executing: ${toolCall.name}`);
-            const result = await tools.execute(toolCall.name, toolCall.arguments);
+          // Execute tools; results keep the order of the calls
+          const names = response.toolCalls.map((tc) => tc.name).join(', ');
+          console.log(`[SubagentManager] Subagent [${taskId}] executing: ${names}`);
+          const results = await tools.executeAll(response.toolCalls, origin, this.maxParallelTools);
+          response.toolCalls.forEach((toolCall, i) => {
             messages.push({
               role: 'tool',
               tool_call_id: toolCall.id,
               name: toolCall.name,
-              content: result,
+              content: results[i] ?? '',
             });
-          }
+          });
         } else {
           finalResult = response.content;
           break;
@@ -247,7 +302,7 @@ Summarize this naturally for the user. Keep it brief (1-2 sentences). Do not men
       content: announceContent,
       timestamp: new Date(),
       media: [],
-      metadata: {},
+      metadata: { agent: this.agentName },
     };
 
     await this.bus.publishInbound(msg);
@@ -0,0 +1,78 @@
+/**
+ * Tests for token estimation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  estimateMessageTokens,
+  estimateTokens,
+  estimateToolTokens,
+  getContextWindow,
+} from './tokens.js';
+
+describe('getContextWindow', () => {
+  it('should detect known model families', () => {
+    expect(getContextWindow('anthropic/claude-opus-4-5')).toBe(200_000);
+    expect(getContextWindow('openai/gpt-4o')).toBe(128_000);
+    expect(getContextWindow('gpt-4.1-mini')).toBe(1_000_000);
+    expect(getContextWindow('gemini/gemini-2.5-pro')).toBe(1_000_000);
+  });
+
+  it('should fall back to the default for unknown models', () => {
+    expect(getContextWindow('some-local-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('should return 0 for empty text', () => {
+    expect(estimateTokens('', 'gpt-4o')).toBe(0);
+  });
+
+  it('should use per-model character ratios', () => {
+    const text = 'a'.repeat(700);
+    expect(estimateTokens(text, 'gpt-4o')).toBe(175);
+    expect(estimateTokens(text, 'claude-sonnet-4')).toBe(200);
+  });
+
+  it('should count wide characters as one token each', () => {
+    expect(estimateTokens('你好世界', 'gpt-4o')).toBe(4);
+  });
+});
+
+describe('estimateMessageTokens', () => {
+  it('should include tool calls and overhead', () => {
+    const plain = estimateMessageTokens({ role: 'assistant', content: 'ok' }, 'gpt-4o');
+    const withCall = estimateMessageTokens(
+      {
+        role: 'assistant',
+        content: 'ok',
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'read_file', arguments: '{"path":"/tmp/notes.txt"}' },
+          },
+        ],
+      },
+      'gpt-4o'
+    );
+
+    expect(plain).toBeGreaterThan(estimateTokens('ok', 'gpt-4o'));
+    expect(withCall).toBeGreaterThan(plain);
+  });
+});
+
+describe('estimateToolTokens', () => {
+  it('should grow with the number of tools', () => {
+    const tool = {
+      type: 'function' as const,
+      function: { name: 'exec', description: 'Run a command', parameters: { type: 'object' } },
+    };
+
+    expect(estimateToolTokens([], 'gpt-4o')).toBe(0);
+    expect(estimateToolTokens([tool, tool], 'gpt-4o')).toBeGreaterThan(
+      estimateToolTokens([tool], 'gpt-4o')
+    );
+  });
+});
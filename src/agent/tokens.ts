@@ -0,0 +1,97 @@
+/**
+ * Token estimation and model context window sizes.
+ *
+ * Exact tokenizers differ per provider and are not available offline, so
+ * counts are estimated from character counts with per-model ratios. The
+ * estimates err on the high side to leave headroom.
+ */
+
+import type { ToolDefinition } from '../providers/base.js';
+import type { HistoryMessage } from '../session/manager.js';
+
+/**
+ * Context window used when the model is not recognized.
+ */
+export const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+/**
+ * Fixed per-message overhead for role markers and separators.
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Known context window sizes, matched against the lowercased model name
+ * in order.
+ */
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/claude/, 200_000],
+  [/gpt-4\.1/, 1_000_000],
+  [/gpt-5/, 400_000],
+  [/gpt-4o|gpt-4-turbo/, 128_000],
+  [/(^|\/)o[134](-|$)/, 200_000],
+  [/gpt-4/, 8_192],
+  [/gpt-3\.5/, 16_385],
+  [/gemini/, 1_000_000],
+  [/glm/, 128_000],
+  [/llama|mistral|mixtral|qwen|deepseek/, 128_000],
+];
+
+/**
+ * Average characters per token for latin text, by model family.
+ */
+const CHARS_PER_TOKEN: Array<[RegExp, number]> = [
+  [/claude/, 3.5],
+  [/gpt|(^|\/)o[134](-|$)/, 4],
+  [/gemini/, 4],
+];
+
+/**
+ * Characters that usually take a token each (CJK, kana, hangul).
+ */
+const WIDE_CHARS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Get the context window size for a model.
+ */
+export function getContextWindow(model: string): number {
+  const lower = model.toLowerCase();
+  for (const [pattern, size] of CONTEXT_WINDOWS) {
+    if (pattern.test(lower)) {
+      return size;
+    }
+  }
+  return DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Estimate the number of tokens in a text for a model.
+ */
+export function estimateTokens(text: string, model: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  const lower = model.toLowerCase();
+  const ratio = CHARS_PER_TOKEN.find(([pattern]) => pattern.test(lower))?.[1] ?? 4;
+
+  const wide = text.match(WIDE_CHARS)?.length ?? 0;
+  return Math.ceil((text.length - wide) / ratio) + wide;
+}
+
+/**
+ * Estimate the tokens a history message takes in a request.
+ */
+export function estimateMessageTokens(message: HistoryMessage, model: string): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content, model);
+  for (const tc of message.tool_calls ?? []) {
+    tokens += estimateTokens(tc.function.name + tc.function.arguments, model);
+  }
+  return tokens;
+}
+
+/**
+ * Estimate the tokens taken by tool definitions.
+ */
+export function estimateToolTokens(tools: ToolDefinition[], model: string): number {
+  return tools.length > 0 ? estimateTokens(JSON.stringify(tools), model) : 0;
+}
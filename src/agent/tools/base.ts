@@ -13,6 +13,17 @@ export interface ToolParameters {
   required?: string[];
 }
 
+/**
+ * Where a tool call originates, used to ask for approval and by tools
+ * that act on the chat.
+ */
+export interface ToolCallContext {
+  channel: string;
+  chatId: string;
+  /** Sender of the message that started the turn, if someone sent one */
+  senderId?: string;
+}
+
 /**
  * Abstract interface for agent tools.
  *
@@ -35,13 +46,28 @@ export interface Tool {
    */
   readonly parameters: ToolParameters;
 
+  /**
+   * Whether calls can run concurrently with other parallel-safe calls.
+   * Only tools that do not change anything (reads, fetches) should set this.
+   */
+  readonly parallelSafe?: boolean;
+
   /**
    * Execute the tool with given parameters.
    *
    * @param params - Tool-specific parameters.
+   * @param context - The chat the call comes from, if known.
    * @returns String result of the tool execution.
    */
-  execute(params: Record<string, unknown>): Promise<string>;
+  execute(params: Record<string, unknown>, context?: ToolCallContext): Promise<string>;
+
+  /**
+   * Check whether a call needs human approval before it runs.
+   * Config rules take precedence over this check.
+   *
+   * @param params - Tool-specific parameters.
+   */
+  needsApproval?(params: Record<string, unknown>): boolean;
 }
 
 /**
@@ -65,7 +91,7 @@ export abstract class BaseTool implements Tool {
   abstract readonly name: string;
   abstract readonly description: string;
   abstract readonly parameters: ToolParameters;
-  abstract execute(params: Record<string, unknown>): Promise<string>;
+  abstract execute(params: Record<string, unknown>, context?: ToolCallContext): Promise<string>;
 
   toSchema(): ToolDefinition {
     return toolToSchema(this);
@@ -0,0 +1,137 @@
+/**
+ * Tests for cron tool.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { CronService } from '../../cron/service.js';
+import { CronTool } from './cron.js';
+import type { ToolCallContext } from './base.js';
+
+describe('CronTool', () => {
+  let testDir: string;
+  let service: CronService;
+  let tool: CronTool;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'cron-tool-test-'));
+    service = new CronService({ storePath: join(testDir, 'jobs.json') });
+    tool = new CronTool({ service, agent: 'home', channel: 'telegram', chatId: '42' });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function addJob(
+    params: Record<string, unknown>,
+    context?: ToolCallContext
+  ): Promise<string> {
+    const result = await tool.execute(
+      { action: 'add', name: 'standup', message: 'Ping', ...params },
+      context
+    );
+    return /^Scheduled job (\w+):/.exec(result)?.[1] ?? '';
+  }
+
+  it('should deliver jobs to the current chat', async () => {
+    const jobId = await addJob({ cron: '0 9 * * 1-5' });
+
+    const [job] = await service.listJobs();
+    expect(job?.id).toBe(jobId);
+    expect(job?.owner).toBe('telegram:42');
+    expect(job?.agent).toBe('home');
+    expect(job?.payload).toMatchObject({ deliver: true, channel: 'telegram', to: '42' });
+  });
+
+  it('should not deliver jobs from chats without a channel', async () => {
+    await addJob({ every_seconds: 60 }, { channel: 'cli', chatId: 'direct' });
+
+    const [job] = await service.listJobs();
+    expect(job?.owner).toBe('cli:direct');
+    expect(job?.payload.deliver).toBe(false);
+  });
+
+  it('should delete one-off jobs after they run', async () => {
+    const at = new Date(Date.now() + 60_000).toISOString();
+    await addJob({ at });
+
+    const [job] = await service.listJobs();
+    expect(job?.schedule).toEqual({ kind: 'at', atMs: new Date(at).getTime() });
+    expect(job?.deleteAfterRun).toBe(true);
+  });
+
+  it('should schedule jobs written in plain English and echo them back', async () => {
+    const result = await tool.execute({
+      action: 'add',
+      name: 'review',
+      message: 'Ask about the monthly review',
+      when: 'first Monday of each month at 18:00',
+      tz: 'Europe/Paris',
+    });
+
+    expect(result).toMatch(/^Scheduled job \w+: review - cron 0 18 \* \* 1#1 \(Europe\/Paris\)/);
+    expect(result).toMatch(/next run Mon \d{4}-\d{2}-0[1-7] 18:00 \+0[12]:00/);
+
+    const inFiveMinutes = await tool.execute({
+      action: 'add',
+      name: 'tea',
+      message: 'Tea is ready',
+      when: 'in 5 minutes',
+    });
+    expect(inFiveMinutes).toMatch(/^Scheduled job \w+: tea - once at/);
+    const tea = (await service.listJobs()).find((job) => job.name === 'tea');
+    expect(tea?.deleteAfterRun).toBe(true);
+  });
+
+  it('should pause, resume and remove jobs', async () => {
+    const jobId = await addJob({ every_seconds: 3600 });
+
+    expect(await tool.execute({ action: 'pause', job_id: jobId })).toContain('(paused)');
+    expect(await tool.execute({ action: 'list' })).toContain(`job ${jobId}: standup (paused)`);
+    expect(await tool.execute({ action: 'resume', job_id: jobId })).toMatch(/^Resumed job/);
+    expect(await tool.execute({ action: 'remove', job_id: jobId })).toBe(`Removed job ${jobId}`);
+    expect(await tool.execute({ action: 'list' })).toBe('No scheduled jobs for this chat');
+  });
+
+  it('should hide jobs of other chats', async () => {
+    const jobId = await addJob({ every_seconds: 3600 });
+    const other = { channel: 'telegram', chatId: '7' };
+
+    expect(await tool.execute({ action: 'list' }, other)).toBe('No scheduled jobs for this chat');
+    expect(await tool.execute({ action: 'remove', job_id: jobId }, other)).toBe(
+      `Error: No job ${jobId} in this chat`
+    );
+    expect(await tool.execute({ action: 'pause', job_id: jobId }, other)).toBe(
+      `Error: No job ${jobId} in this chat`
+    );
+    expect(await service.listJobs()).toHaveLength(1);
+  });
+
+  it('should reject invalid schedules', async () => {
+    const add = (params: Record<string, unknown>) =>
+      tool.execute({ action: 'add', name: 'x', message: 'y', ...params });
+
+    expect(await add({})).toBe('Error: Set exactly one of when, at, every_seconds or cron');
+    expect(await add({ every_seconds: 60, cron: '* * * * *' })).toBe(
+      'Error: Set exactly one of when, at, every_seconds or cron'
+    );
+    expect(await add({ every_seconds: -5 })).toBe('Error: every_seconds must be a positive integer');
+    expect(await add({ cron: '0 9 * *' })).toContain('expected 5 fields');
+    expect(await add({ cron: '0 25 * * *' })).toBe(
+      "Error: Invalid cron expression '0 25 * * *': hour value 25 is out of range (0-23)"
+    );
+    expect(await add({ cron: '0 9 * * *', tz: 'Nowhere/City' })).toBe(
+      "Error: Unknown timezone 'Nowhere/City'"
+    );
+    expect(await add({ at: 'someday' })).toBe('Error: Invalid date for at: someday');
+    expect(await add({ when: 'someday' })).toContain('Error: Could not understand "someday"');
+    expect(await add({ when: 'yesterday at noon', at: 'someday' })).toBe(
+      'Error: Set exactly one of when, at, every_seconds or cron'
+    );
+    expect(await add({ at: '2000-01-01T00:00:00Z' })).toContain('is in the past');
+    expect(await service.listJobs(true)).toHaveLength(0);
+  });
+});
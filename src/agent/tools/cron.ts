@@ -0,0 +1,295 @@
+/**
+ * Cron tool implementation.
+ */
+
+import type { ToolCallContext, ToolParameters } from './base.js';
+import { BaseTool } from './base.js';
+import type { CronService } from '../../cron/service.js';
+import { formatCronSchedule, type CronJob, type CronSchedule } from '../../cron/types.js';
+import {
+  CronExpressionError,
+  formatCronTime,
+  getLocalTimezone,
+  parseCronExpression,
+} from '../../cron/expression.js';
+import { ScheduleParseError, parseNaturalSchedule } from '../../cron/natural.js';
+
+/**
+ * Options for cron tool.
+ */
+export interface CronToolOptions {
+  /**
+   * The cron service jobs are stored in.
+   */
+  service: CronService;
+
+  /**
+   * Name of the agent using the tool; its jobs run on it.
+   */
+  agent?: string;
+
+  /**
+   * Channel of the chat jobs belong to when a call has no context.
+   */
+  channel?: string;
+
+  /**
+   * Chat ID of the chat jobs belong to when a call has no context.
+   */
+  chatId?: string;
+}
+
+/**
+ * Channels that can receive messages when a job fires. Replies to chats on
+ * other channels (the CLI, HTTP requests) have nowhere to go once the
+ * conversation is over.
+ */
+const DELIVERABLE_CHANNELS = new Set(['telegram', 'whatsapp']);
+
+/**
+ * Tool to let the agent schedule reminders and recurring tasks.
+ *
+ * Jobs belong to the chat that created them: they report back to that
+ * chat, and only that chat can see, pause or remove them.
+ */
+export class CronTool extends BaseTool {
+  readonly name = 'cron';
+  readonly description =
+    'Schedule reminders and recurring tasks for this chat. When a job fires, its message is ' +
+    'run as an instruction to you and your reply is sent to this chat. ' +
+    'Actions: list, add (with exactly one of when, at, every_seconds or cron), pause, resume, ' +
+    'remove. Tell the user the schedule and next run from the reply, so they can check it.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'add', 'pause', 'resume', 'remove'],
+        description: 'What to do',
+      },
+      name: {
+        type: 'string',
+        description: 'add: short name of the job',
+      },
+      message: {
+        type: 'string',
+        description:
+          'add: instruction to carry out when the job fires, e.g. "Remind the user to call the bank"',
+      },
+      when: {
+        type: 'string',
+        description:
+          'add: schedule in plain English, e.g. "in 20 minutes", "tomorrow 7:30", ' +
+          '"every weekday at 9am" or "first Monday of each month at 18:00"',
+      },
+      at: {
+        type: 'string',
+        description: 'add: ISO date-time to run once; local time unless it has an offset',
+      },
+      every_seconds: {
+        type: 'integer',
+        description: 'add: run repeatedly at this interval',
+      },
+      cron: {
+        type: 'string',
+        description:
+          'add: cron expression, e.g. "0 9 * * 1-5" for weekdays at 9:00, "0 18 L * *" for ' +
+          'the last day of the month, "0 10 * * MON#1" for the first Monday, or "@daily"',
+      },
+      tz: {
+        type: 'string',
+        description: 'add: IANA timezone of cron or when, e.g. "Europe/Paris"',
+      },
+      job_id: {
+        type: 'string',
+        description: 'pause, resume, remove: ID of the job',
+      },
+    },
+    required: ['action'],
+  };
+
+  private readonly service: CronService;
+  private readonly agent: string | undefined;
+  private readonly defaultContext: ToolCallContext;
+
+  constructor(options: CronToolOptions) {
+    super();
+    this.service = options.service;
+    this.agent = options.agent;
+    this.defaultContext = { channel: options.channel ?? 'cli', chatId: options.chatId ?? 'direct' };
+  }
+
+  /**
+   * Jobs are created for and managed from the chat of the call, taken
+   * from the call's context since turns of several chats can run at once.
+   */
+  async execute(params: Record<string, unknown>, context?: ToolCallContext): Promise<string> {
+    const chat = context ?? this.defaultContext;
+    const owner = `${chat.channel}:${chat.chatId}`;
+    switch (params['action']) {
+      case 'list':
+        return this.list(owner);
+      case 'add':
+        return this.add(chat, owner, params);
+      case 'pause':
+      case 'resume':
+      case 'remove':
+        return this.update(owner, params['action'], params['job_id']);
+      default:
+        return 'Error: action must be one of list, add, pause, resume, remove';
+    }
+  }
+
+  private async list(owner: string): Promise<string> {
+    const jobs = (await this.service.listJobs(true)).filter((job) => job.owner === owner);
+    if (jobs.length === 0) {
+      return 'No scheduled jobs for this chat';
+    }
+    return jobs.map(formatJob).join('\n');
+  }
+
+  private async add(
+    chat: ToolCallContext,
+    owner: string,
+    params: Record<string, unknown>
+  ): Promise<string> {
+    const name = params['name'];
+    const message = params['message'];
+    if (typeof name !== 'string' || !name.trim()) {
+      return 'Error: name is required to add a job';
+    }
+    if (typeof message !== 'string' || !message.trim()) {
+      return 'Error: message is required to add a job';
+    }
+
+    const schedule = parseSchedule(params);
+    if (typeof schedule === 'string') {
+      return schedule;
+    }
+
+    const jobOptions: Parameters<CronService['addJob']>[0] = {
+      name: name.trim(),
+      schedule,
+      message: message.trim(),
+      deleteAfterRun: schedule.kind === 'at',
+      owner,
+    };
+    if (this.agent !== undefined) {
+      jobOptions.agent = this.agent;
+    }
+    if (DELIVERABLE_CHANNELS.has(chat.channel)) {
+      jobOptions.deliver = true;
+      jobOptions.channel = chat.channel;
+      jobOptions.to = chat.chatId;
+    }
+
+    const job = await this.service.addJob(jobOptions);
+    if (job.state.nextRunAtMs === undefined) {
+      await this.service.removeJob(job.id);
+      return 'Error: The schedule never fires; check the expression or pick a time in the future';
+    }
+    return `Scheduled ${formatJob(job)}`;
+  }
+
+  private async update(owner: string, action: string, jobId: unknown): Promise<string> {
+    if (typeof jobId !== 'string' || !jobId) {
+      return `Error: job_id is required to ${action} a job`;
+    }
+    // Jobs of other chats are reported as missing, not as forbidden
+    const jobs = await this.service.listJobs(true);
+    if (!jobs.some((job) => job.id === jobId && job.owner === owner)) {
+      return `Error: No job ${jobId} in this chat`;
+    }
+
+    if (action === 'remove') {
+      await this.service.removeJob(jobId);
+      return `Removed job ${jobId}`;
+    }
+    const job = await this.service.enableJob(jobId, action === 'resume');
+    if (!job) {
+      return `Error: No job ${jobId} in this chat`;
+    }
+    return `${action === 'resume' ? 'Resumed' : 'Paused'} ${formatJob(job)}`;
+  }
+}
+
+/**
+ * Read the schedule of an add action.
+ *
+ * @returns The schedule, or an error message.
+ */
+function parseSchedule(params: Record<string, unknown>): CronSchedule | string {
+  const { when, at, cron, tz } = params;
+  const every = params['every_seconds'];
+  if ([when, at, every, cron].filter((v) => v !== undefined).length !== 1) {
+    return 'Error: Set exactly one of when, at, every_seconds or cron';
+  }
+
+  if (when !== undefined) {
+    if (typeof when !== 'string') {
+      return 'Error: when must be a string';
+    }
+    try {
+      return parseNaturalSchedule(when, typeof tz === 'string' && tz ? { tz } : {});
+    } catch (error) {
+      if (error instanceof ScheduleParseError) {
+        return `Error: ${error.message}`;
+      }
+      throw error;
+    }
+  }
+
+  if (every !== undefined) {
+    if (typeof every !== 'number' || !Number.isInteger(every) || every <= 0) {
+      return 'Error: every_seconds must be a positive integer';
+    }
+    return { kind: 'every', everyMs: every * 1000 };
+  }
+
+  if (cron !== undefined) {
+    if (typeof cron !== 'string') {
+      return 'Error: cron must be a string';
+    }
+    const schedule: CronSchedule = { kind: 'cron', expr: cron.trim() };
+    if (typeof tz === 'string' && tz) {
+      schedule.tz = tz;
+    }
+    try {
+      parseCronExpression(schedule.expr ?? '', schedule.tz);
+    } catch (error) {
+      if (error instanceof CronExpressionError) {
+        return `Error: ${error.message}`;
+      }
+      throw error;
+    }
+    return schedule;
+  }
+
+  const atMs = typeof at === 'string' ? new Date(at).getTime() : NaN;
+  if (isNaN(atMs)) {
+    return `Error: Invalid date for at: ${String(at)}`;
+  }
+  if (atMs <= Date.now()) {
+    return `Error: ${String(at)} is in the past`;
+  }
+  return { kind: 'at', atMs };
+}
+
+/**
+ * Describe a job for the model.
+ */
+function formatJob(job: CronJob): string {
+  const status = job.enabled ? '' : ' (paused)';
+  const tz = job.schedule.tz ?? getLocalTimezone();
+  const next = job.state.nextRunAtMs
+    ? `, next run ${formatCronTime(job.state.nextRunAtMs, tz)}`
+    : '';
+  return `job ${job.id}: ${job.name}${status} - ${formatCronSchedule(job.schedule)}${next}\n  ${job.payload.message}`;
+}
+
+/**
+ * Create a cron tool.
+ */
+export function createCronTool(options: CronToolOptions): CronTool {
+  return new CronTool(options);
+}
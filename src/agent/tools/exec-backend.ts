@@ -0,0 +1,431 @@
+/**
+ * Execution backends for the shell tool.
+ *
+ * A backend turns a shell command into the process to spawn: directly
+ * on the host, on the host with restrictions, or inside a container.
+ */
+
+import { spawn, spawnSync } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { isAbsolute, relative, resolve } from 'node:path';
+import { which } from '../../utils/helpers.js';
+
+/**
+ * Error thrown when a backend refuses to run a command.
+ */
+export class CommandNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandNotAllowedError';
+  }
+}
+
+/**
+ * A process to spawn for a command.
+ */
+export interface ExecSpawnSpec {
+  /** Executable, or the full command line when `shell` is set */
+  file: string;
+  args: string[];
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  /** Run `file` through the platform shell */
+  shell?: boolean;
+  /** Called when the command times out, to stop work the kill signal cannot reach */
+  onTimeout?: () => void;
+}
+
+/**
+ * Options for preparing a command.
+ */
+export interface ExecPrepareOptions {
+  /** Keep stdin connected, for shells that read commands from it */
+  interactive?: boolean;
+}
+
+/**
+ * Turns shell commands into processes to spawn.
+ */
+export interface ExecBackend {
+  /** Backend name (e.g. 'host', 'restricted', 'container') */
+  readonly name: string;
+
+  /**
+   * Check that a command may run.
+   *
+   * @throws CommandNotAllowedError if the command may not run.
+   */
+  check(command: string): void;
+
+  /**
+   * Prepare a command for spawning. Callers check the command first.
+   */
+  prepare(command: string, cwd: string, options?: ExecPrepareOptions): ExecSpawnSpec;
+}
+
+/**
+ * Runs commands directly on the host with the full environment.
+ */
+export class HostExecBackend implements ExecBackend {
+  readonly name = 'host';
+
+  check(_command: string): void {}
+
+  prepare(command: string, cwd: string): ExecSpawnSpec {
+    return { file: command, args: [], cwd, env: process.env, shell: true };
+  }
+}
+
+/**
+ * Resource limits for restricted commands. Zero disables a limit.
+ */
+export interface ExecResourceLimits {
+  /** CPU time in seconds */
+  cpuSeconds?: number;
+  /**
+   * Virtual memory in megabytes. Off by default: node, the JVM and other
+   * runtimes reserve far more address space than they use and fail to start.
+   */
+  memoryMb?: number;
+  /** Size of written files in megabytes */
+  fileSizeMb?: number;
+}
+
+/**
+ * Options for the restricted backend.
+ */
+export interface RestrictedExecOptions {
+  /** Programs that may run; empty allows all programs not denied */
+  allow?: string[];
+  /**
+   * Programs that may never run. This guards against mistakes, not a
+   * determined agent: interpreters (`python -c`) can still run them.
+   */
+  deny?: string[];
+  /** Environment variables passed through besides the basic ones */
+  envPassthrough?: string[];
+  /** Allow network access; otherwise isolate with unshare where available */
+  network?: boolean;
+  limits?: ExecResourceLimits;
+}
+
+/**
+ * Environment variables every restricted command gets.
+ */
+const BASE_ENV_VARS = ['PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'TERM', 'TZ', 'TMPDIR'];
+
+/**
+ * Default resource limits for restricted commands.
+ */
+const DEFAULT_LIMITS: Required<ExecResourceLimits> = {
+  cpuSeconds: 60,
+  memoryMb: 0,
+  fileSizeMb: 100,
+};
+
+/**
+ * Characters that start a new program in a shell command line.
+ */
+const COMMAND_SEPARATORS = /\$\(|[;&|\n()`]/;
+
+/**
+ * Characters that make a program name depend on quoting, escapes,
+ * expansions or globs, so it can't be checked before the shell runs.
+ * The test commands `[` and `[[` are the exception.
+ */
+const UNRESOLVED_PROGRAM = /^(?!\[\[?$).*[$\\'"*?[{~]/;
+
+/**
+ * Programs that run a command given in their arguments, hiding it from
+ * the allow and deny lists.
+ */
+const COMMAND_RUNNERS = new Set([
+  '.',
+  'bash',
+  'busybox',
+  'command',
+  'dash',
+  'env',
+  'eval',
+  'exec',
+  'ksh',
+  'nice',
+  'nohup',
+  'setsid',
+  'sh',
+  'source',
+  'stdbuf',
+  'sudo',
+  'time',
+  'timeout',
+  'xargs',
+  'zsh',
+]);
+
+/**
+ * Find the programs a shell command line runs.
+ *
+ * This looks at the first word of each pipeline segment, list element
+ * and substitution, skipping variable assignments and brace groups. It
+ * cannot see through programs that run other programs (`sh -c`, `xargs`,
+ * `env`), so those should be left out of an allow list.
+ */
+export function findCommandPrograms(command: string): string[] {
+  const programs: string[] = [];
+  for (const segment of command.split(COMMAND_SEPARATORS)) {
+    const words = segment.trim().split(/\s+/).filter(Boolean);
+    const word = words.find(
+      (w) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(w) && w !== '!' && w !== '{' && w !== '}'
+    );
+    if (word) {
+      // "/usr/bin/curl" and "'curl'" are still curl
+      const name = word.replace(/^['"]|['"]$/g, '').split('/').pop();
+      if (name) {
+        programs.push(name);
+      }
+    }
+  }
+  return programs;
+}
+
+/**
+ * Whether unshare can create a network namespace here, checked once.
+ */
+let networkIsolationAvailable: boolean | null = null;
+
+/**
+ * Check whether commands can be run without network access.
+ */
+function canIsolateNetwork(): boolean {
+  if (networkIsolationAvailable === null) {
+    networkIsolationAvailable =
+      process.platform === 'linux' &&
+      which('unshare') !== null &&
+      spawnSync('unshare', ['--user', '--map-root-user', '--net', 'true'], {
+        stdio: 'ignore',
+        timeout: 5000,
+      }).status === 0;
+    if (!networkIsolationAvailable) {
+      console.warn('[exec] unshare is not available; restricted commands keep network access');
+    }
+  }
+  return networkIsolationAvailable;
+}
+
+/**
+ * Runs commands on the host with a program allow/deny list, a stripped
+ * environment, resource limits and, where unshare works, no network.
+ */
+export class RestrictedExecBackend implements ExecBackend {
+  readonly name = 'restricted';
+  private readonly allow: Set<string>;
+  private readonly deny: Set<string>;
+  private readonly envVars: string[];
+  private readonly network: boolean;
+  private readonly limits: Required<ExecResourceLimits>;
+
+  constructor(options: RestrictedExecOptions = {}) {
+    this.allow = new Set(options.allow ?? []);
+    this.deny = new Set(options.deny ?? []);
+    this.envVars = [...BASE_ENV_VARS, ...(options.envPassthrough ?? [])];
+    this.network = options.network ?? false;
+    this.limits = { ...DEFAULT_LIMITS, ...options.limits };
+  }
+
+  check(command: string): void {
+    if (this.allow.size === 0 && this.deny.size === 0) {
+      return;
+    }
+    for (const program of findCommandPrograms(command)) {
+      if (UNRESOLVED_PROGRAM.test(program)) {
+        throw new CommandNotAllowedError(
+          `Command not allowed: can't tell which program '${program}' runs; write program names without quotes, escapes or variables`
+        );
+      }
+      if (this.deny.size > 0 && COMMAND_RUNNERS.has(program) && !this.allow.has(program)) {
+        throw new CommandNotAllowedError(
+          `Command not allowed: '${program}' runs other programs, which the deny list can't check`
+        );
+      }
+      if (this.deny.has(program)) {
+        throw new CommandNotAllowedError(`Command not allowed: '${program}' is on the deny list`);
+      }
+      if (this.allow.size > 0 && !this.allow.has(program)) {
+        throw new CommandNotAllowedError(
+          `Command not allowed: '${program}' is not on the allow list (${[...this.allow].join(', ')})`
+        );
+      }
+    }
+  }
+
+  prepare(command: string, cwd: string): ExecSpawnSpec {
+    const env: NodeJS.ProcessEnv = {};
+    for (const name of this.envVars) {
+      const value = process.env[name];
+      if (value !== undefined) {
+        env[name] = value;
+      }
+    }
+
+    // The command is passed as an argument, so it is not re-quoted
+    const script = [...this.buildLimitCommands(), 'eval "$1"'].join('; ');
+    const shellArgs = ['-c', script, 'sh', command];
+
+    if (!this.network && canIsolateNetwork()) {
+      return {
+        file: 'unshare',
+        args: ['--user', '--map-root-user', '--net', '--', '/bin/sh', ...shellArgs],
+        cwd,
+        env,
+      };
+    }
+    return { file: '/bin/sh', args: shellArgs, cwd, env };
+  }
+
+  /**
+   * Build the ulimit commands for the configured limits.
+   */
+  private buildLimitCommands(): string[] {
+    const commands: string[] = [];
+    if (this.limits.cpuSeconds > 0) {
+      commands.push(`ulimit -t ${this.limits.cpuSeconds}`);
+    }
+    if (this.limits.memoryMb > 0) {
+      commands.push(`ulimit -v ${this.limits.memoryMb * 1024}`);
+    }
+    if (this.limits.fileSizeMb > 0) {
+      // POSIX shells count file size in 512-byte blocks
+      commands.push(`ulimit -f ${this.limits.fileSizeMb * 2048}`);
+    }
+    return commands;
+  }
+}
+
+/**
+ * Options for the container backend.
+ */
+export interface ContainerExecOptions {
+  /** Host directory mounted as /workspace */
+  workspace: string;
+  /** Container runtime command; detects docker or podman if not set */
+  runtime?: string;
+  image?: string;
+  /** Allow network access */
+  network?: boolean;
+  /** Memory limit (e.g. "512m") */
+  memory?: string;
+  /** CPU limit */
+  cpus?: number;
+}
+
+/**
+ * Mount point of the workspace inside the container.
+ */
+const CONTAINER_WORKSPACE = '/workspace';
+
+/**
+ * Runs each command in a fresh container with only the workspace mounted.
+ */
+export class ContainerExecBackend implements ExecBackend {
+  readonly name = 'container';
+  private readonly workspace: string;
+  private readonly runtime: string | null;
+  private readonly image: string;
+  private readonly network: boolean;
+  private readonly memory: string;
+  private readonly cpus: number;
+
+  constructor(options: ContainerExecOptions) {
+    this.workspace = resolve(options.workspace);
+    this.runtime = options.runtime || which('docker') || which('podman');
+    this.image = options.image ?? 'debian:bookworm-slim';
+    this.network = options.network ?? false;
+    this.memory = options.memory ?? '512m';
+    this.cpus = options.cpus ?? 1;
+  }
+
+  check(_command: string): void {}
+
+  prepare(command: string, cwd: string, options: ExecPrepareOptions = {}): ExecSpawnSpec {
+    const runtime = this.runtime;
+    if (!runtime) {
+      throw new CommandNotAllowedError(
+        'No container runtime found. Install docker or podman, or set tools.exec.container.runtime.'
+      );
+    }
+
+    const name = `ingenium-exec-${randomUUID().slice(0, 8)}`;
+    const args = [
+      'run',
+      ...(options.interactive ? ['--interactive'] : []),
+      '--rm',
+      '--name',
+      name,
+      '--network',
+      this.network ? 'bridge' : 'none',
+      '--memory',
+      this.memory,
+      '--cpus',
+      String(this.cpus),
+      '--volume',
+      `${this.workspace}:${CONTAINER_WORKSPACE}`,
+      '--workdir',
+      this.containerPath(cwd),
+      this.image,
+      'sh',
+      '-c',
+      command,
+    ];
+
+    return {
+      file: runtime,
+      args,
+      cwd: this.workspace,
+      env: process.env,
+      // Killing the runtime client leaves the container running
+      onTimeout: () => {
+        spawn(runtime, ['kill', name], { stdio: 'ignore' }).on('error', () => {});
+      },
+    };
+  }
+
+  /**
+   * Map a host working directory to the container; directories outside
+   * the workspace fall back to the workspace root.
+   */
+  private containerPath(cwd: string): string {
+    const rel = relative(this.workspace, resolve(cwd));
+    if (rel === '' || rel.startsWith('..') || isAbsolute(rel)) {
+      return CONTAINER_WORKSPACE;
+    }
+    return `${CONTAINER_WORKSPACE}/${rel.split('\\').join('/')}`;
+  }
+}
+
+/**
+ * Shell execution settings, as set in configuration.
+ */
+export interface ExecOptions {
+  backend?: 'host' | 'restricted' | 'container';
+  /** Command timeout in seconds */
+  timeout?: number;
+  restricted?: RestrictedExecOptions;
+  container?: Omit<ContainerExecOptions, 'workspace'>;
+}
+
+/**
+ * Create the configured execution backend.
+ *
+ * @param options - Backend settings.
+ * @param workspace - Workspace directory, mounted by the container backend.
+ */
+export function createExecBackend(options: ExecOptions, workspace: string): ExecBackend {
+  switch (options.backend ?? 'host') {
+    case 'restricted':
+      return new RestrictedExecBackend(options.restricted);
+    case 'container':
+      return new ContainerExecBackend({ ...options.container, workspace });
+    default:
+      return new HostExecBackend();
+  }
+}
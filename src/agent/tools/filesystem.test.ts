@@ -11,7 +11,10 @@ import {
   writeFileTool,
   editFileTool,
   listDirTool,
+  createReadFileTool,
+  createWriteFileTool,
 } from './filesystem.js';
+import { WorkspaceSandbox } from './sandbox.js';
 
 describe('filesystem tools', () => {
   let tempDir: string;
@@ -166,4 +169,25 @@ describe('filesystem tools', () => {
       expect(result).toContain('Error: Not a directory');
     });
   });
+
+  describe('sandbox', () => {
+    it('should resolve relative paths against the workspace', async () => {
+      await writeFile(join(tempDir, 'notes.md'), 'Notes', 'utf-8');
+      const tool = createReadFileTool({ sandbox: new WorkspaceSandbox({ workspace: tempDir }) });
+
+      expect(await tool.execute({ path: 'notes.md' })).toBe('Notes');
+    });
+
+    it('should refuse paths outside the workspace when restricted', async () => {
+      const sandbox = new WorkspaceSandbox({ workspace: join(tempDir, 'ws'), restrictToWorkspace: true });
+      const tool = createWriteFileTool({ sandbox });
+
+      const result = await tool.execute({ path: '../escaped.txt', content: 'x' });
+
+      expect(result).toContain('Error: Access denied: ../escaped.txt is outside the workspace');
+      expect(await readFileTool.execute({ path: join(tempDir, 'escaped.txt') })).toContain(
+        'File not found'
+      );
+    });
+  });
 });
@@ -6,6 +6,15 @@ import { readFile, writeFile, mkdir, readdir, stat } from 'node:fs/promises';
 import { dirname, join } from 'node:path';
 import { homedir } from 'node:os';
 import type { Tool } from './base.js';
+import { PathAccessError, type WorkspaceSandbox } from './sandbox.js';
+
+/**
+ * Options for filesystem tools.
+ */
+export interface FilesystemToolOptions {
+  /** Restricts which paths the tool may access */
+  sandbox?: WorkspaceSandbox;
+}
 
 /**
  * Expand ~ to home directory.
@@ -18,217 +27,266 @@ function expandPath(path: string): string {
 }
 
 /**
- * Tool to read file contents.
+ * Resolve a tool path argument, through the sandbox if there is one.
+ */
+async function resolvePath(path: string, options: FilesystemToolOptions): Promise<string> {
+  return options.sandbox ? options.sandbox.resolve(path) : expandPath(path);
+}
+
+/**
+ * Create a tool to read file contents.
  */
-export const readFileTool: Tool = {
-  name: 'read_file',
-  description: 'Read the contents of a file at the given path.',
-  parameters: {
-    type: 'object',
-    properties: {
-      path: {
-        type: 'string',
-        description: 'The file path to read',
+export function createReadFileTool(options: FilesystemToolOptions = {}): Tool {
+  return {
+    name: 'read_file',
+    parallelSafe: true,
+    description: 'Read the contents of a file at the given path.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The file path to read',
+        },
       },
+      required: ['path'],
     },
-    required: ['path'],
-  },
-  async execute(params: Record<string, unknown>): Promise<string> {
-    const path = params['path'];
-    if (typeof path !== 'string') {
-      return 'Error: path must be a string';
-    }
-
-    try {
-      const filePath = expandPath(path);
-      const stats = await stat(filePath);
-      if (!stats.isFile()) {
-        return `Error: Not a file: ${path}`;
+    async execute(params: Record<string, unknown>): Promise<string> {
+      const path = params['path'];
+      if (typeof path !== 'string') {
+        return 'Error: path must be a string';
       }
-      const content = await readFile(filePath, 'utf-8');
-      return content;
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return `Error: File not found: ${path}`;
-      }
-      if ((error as NodeJS.ErrnoException).code === 'EACCES') {
-        return `Error: Permission denied: ${path}`;
+
+      try {
+        const filePath = await resolvePath(path, options);
+        const stats = await stat(filePath);
+        if (!stats.isFile()) {
+          return `Error: Not a file: ${path}`;
+        }
+        const content = await readFile(filePath, 'utf-8');
+        return content;
+      } catch (error) {
+        if (error instanceof PathAccessError) {
+          return `Error: ${error.message}`;
+        }
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return `Error: File not found: ${path}`;
+        }
+        if ((error as NodeJS.ErrnoException).code === 'EACCES') {
+          return `Error: Permission denied: ${path}`;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return `Error reading file: ${message}`;
       }
-      const message = error instanceof Error ? error.message : String(error);
-      return `Error reading file: ${message}`;
-    }
-  },
-};
+    },
+  };
+}
 
 /**
- * Tool to write content to a file.
+ * Create a tool to write content to a file.
  */
-export const writeFileTool: Tool = {
-  name: 'write_file',
-  description:
-    'Write content to a file at the given path. Creates parent directories if needed.',
-  parameters: {
-    type: 'object',
-    properties: {
-      path: {
-        type: 'string',
-        description: 'The file path to write to',
-      },
-      content: {
-        type: 'string',
-        description: 'The content to write',
+export function createWriteFileTool(options: FilesystemToolOptions = {}): Tool {
+  return {
+    name: 'write_file',
+    description:
+      'Write content to a file at the given path. Creates parent directories if needed.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The file path to write to',
+        },
+        content: {
+          type: 'string',
+          description: 'The content to write',
+        },
       },
+      required: ['path', 'content'],
     },
-    required: ['path', 'content'],
-  },
-  async execute(params: Record<string, unknown>): Promise<string> {
-    const path = params['path'];
-    const content = params['content'];
-    if (typeof path !== 'string') {
-      return 'Error: path must be a string';
-    }
-    if (typeof content !== 'string') {
-      return 'Error: content must be a string';
-    }
-
-    try {
-      const filePath = expandPath(path);
-      await mkdir(dirname(filePath), { recursive: true });
-      await writeFile(filePath, content, 'utf-8');
-      return `Successfully wrote ${content.length} bytes to ${path}`;
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'EACCES') {
-        return `Error: Permission denied: ${path}`;
+    async execute(params: Record<string, unknown>): Promise<string> {
+      const path = params['path'];
+      const content = params['content'];
+      if (typeof path !== 'string') {
+        return 'Error: path must be a string';
+      }
+      if (typeof content !== 'string') {
+        return 'Error: content must be a string';
       }
-      const message = error instanceof Error ? error.message : String(error);
-      return `Error writing file: ${message}`;
-    }
-  },
-};
+
+      try {
+        const filePath = await resolvePath(path, options);
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, content, 'utf-8');
+        return `Successfully wrote ${content.length} bytes to ${path}`;
+      } catch (error) {
+        if (error instanceof PathAccessError) {
+          return `Error: ${error.message}`;
+        }
+        if ((error as NodeJS.ErrnoException).code === 'EACCES') {
+          return `Error: Permission denied: ${path}`;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return `Error writing file: ${message}`;
+      }
+    },
+  };
+}
 
 /**
- * Tool to edit a file by replacing text.
+ * Create a tool to edit a file by replacing text.
  */
-export const editFileTool: Tool = {
-  name: 'edit_file',
-  description:
-    'Edit a file by replacing old_text with new_text. The old_text must exist exactly in the file.',
-  parameters: {
-    type: 'object',
-    properties: {
-      path: {
-        type: 'string',
-        description: 'The file path to edit',
-      },
-      old_text: {
-        type: 'string',
-        description: 'The exact text to find and replace',
-      },
-      new_text: {
-        type: 'string',
-        description: 'The text to replace with',
+export function createEditFileTool(options: FilesystemToolOptions = {}): Tool {
+  return {
+    name: 'edit_file',
+    description:
+      'Edit a file by replacing old_text with new_text. The old_text must exist exactly in the file.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The file path to edit',
+        },
+        old_text: {
+          type: 'string',
+          description: 'The exact text to find and replace',
+        },
+        new_text: {
+          type: 'string',
+          description: 'The text to replace with',
+        },
       },
+      required: ['path', 'old_text', 'new_text'],
     },
-    required: ['path', 'old_text', 'new_text'],
-  },
-  async execute(params: Record<string, unknown>): Promise<string> {
-    const path = params['path'];
-    const oldText = params['old_text'];
-    const newText = params['new_text'];
-    if (typeof path !== 'string') {
-      return 'Error: path must be a string';
-    }
-    if (typeof oldText !== 'string') {
-      return 'Error: old_text must be a string';
-    }
-    if (typeof newText !== 'string') {
-      return 'Error: new_text must be a string';
-    }
-
-    try {
-      const filePath = expandPath(path);
-      const content = await readFile(filePath, 'utf-8');
-
-      if (!content.includes(oldText)) {
-        return 'Error: old_text not found in file. Make sure it matches exactly.';
+    async execute(params: Record<string, unknown>): Promise<string> {
+      const path = params['path'];
+      const oldText = params['old_text'];
+      const newText = params['new_text'];
+      if (typeof path !== 'string') {
+        return 'Error: path must be a string';
       }
-
-      // Count occurrences
-      const count = content.split(oldText).length - 1;
-      if (count > 1) {
-        return `Warning: old_text appears ${count} times. Please provide more context to make it unique.`;
+      if (typeof oldText !== 'string') {
+        return 'Error: old_text must be a string';
       }
-
-      const newContent = content.replace(oldText, newText);
-      await writeFile(filePath, newContent, 'utf-8');
-      return `Successfully edited ${path}`;
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return `Error: File not found: ${path}`;
+      if (typeof newText !== 'string') {
+        return 'Error: new_text must be a string';
       }
-      if ((error as NodeJS.ErrnoException).code === 'EACCES') {
-        return `Error: Permission denied: ${path}`;
+
+      try {
+        const filePath = await resolvePath(path, options);
+        const content = await readFile(filePath, 'utf-8');
+
+        if (!content.includes(oldText)) {
+          return 'Error: old_text not found in file. Make sure it matches exactly.';
+        }
+
+        // Count occurrences
+        const count = content.split(oldText).length - 1;
+        if (count > 1) {
+          return `Warning: old_text appears ${count} times. Please provide more context to make it unique.`;
+        }
+
+        const newContent = content.replace(oldText, newText);
+        await writeFile(filePath, newContent, 'utf-8');
+        return `Successfully edited ${path}`;
+      } catch (error) {
+        if (error instanceof PathAccessError) {
+          return `Error: ${error.message}`;
+        }
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return `Error: File not found: ${path}`;
+        }
+        if ((error as NodeJS.ErrnoException).code === 'EACCES') {
+          return `Error: Permission denied: ${path}`;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return `Error editing file: ${message}`;
       }
-      const message = error instanceof Error ? error.message : String(error);
-      return `Error editing file: ${message}`;
-    }
-  },
-};
+    },
+  };
+}
 
 /**
- * Tool to list directory contents.
+ * Create a tool to list directory contents.
  */
-export const listDirTool: Tool = {
-  name: 'list_dir',
-  description: 'List the contents of a directory.',
-  parameters: {
-    type: 'object',
-    properties: {
-      path: {
-        type: 'string',
-        description: 'The directory path to list',
+export function createListDirTool(options: FilesystemToolOptions = {}): Tool {
+  return {
+    name: 'list_dir',
+    parallelSafe: true,
+    description: 'List the contents of a directory.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'The directory path to list',
+        },
       },
+      required: ['path'],
     },
-    required: ['path'],
-  },
-  async execute(params: Record<string, unknown>): Promise<string> {
-    const path = params['path'];
-    if (typeof path !== 'string') {
-      return 'Error: path must be a string';
-    }
-
-    try {
-      const dirPath = expandPath(path);
-      const stats = await stat(dirPath);
-      if (!stats.isDirectory()) {
-        return `Error: Not a directory: ${path}`;
+    async execute(params: Record<string, unknown>): Promise<string> {
+      const path = params['path'];
+      if (typeof path !== 'string') {
+        return 'Error: path must be a string';
       }
 
-      const entries = await readdir(dirPath, { withFileTypes: true });
-      if (entries.length === 0) {
-        return `Directory ${path} is empty`;
-      }
+      try {
+        const dirPath = await resolvePath(path, options);
+        const stats = await stat(dirPath);
+        if (!stats.isDirectory()) {
+          return `Error: Not a directory: ${path}`;
+        }
 
-      const items = entries
-        .sort((a, b) => a.name.localeCompare(b.name))
-        .map((entry) => {
-          const prefix = entry.isDirectory() ? '[DIR]' : '[FILE]';
-          return `${prefix} ${entry.name}`;
-        });
-
-      return items.join('\n');
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return `Error: Directory not found: ${path}`;
-      }
-      if ((error as NodeJS.ErrnoException).code === 'EACCES') {
-        return `Error: Permission denied: ${path}`;
+        const entries = await readdir(dirPath, { withFileTypes: true });
+        if (entries.length === 0) {
+          return `Directory ${path} is empty`;
+        }
+
+        const items = entries
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((entry) => {
+            const prefix = entry.isDirectory() ? '[DIR]' : '[FILE]';
+            return `${prefix} ${entry.name}`;
+          });
+
+        return items.join('\n');
+      } catch (error) {
+        if (error instanceof PathAccessError) {
+          return `Error: ${error.message}`;
+        }
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return `Error: Directory not found: ${path}`;
+        }
+        if ((error as NodeJS.ErrnoException).code === 'EACCES') {
+          return `Error: Permission denied: ${path}`;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return `Error listing directory: ${message}`;
       }
-      const message = error instanceof Error ? error.message : String(error);
-      return `Error listing directory: ${message}`;
-    }
-  },
-};
+    },
+  };
+}
+
+/**
+ * Tool to read file contents.
+ */
+export const readFileTool = createReadFileTool();
+
+/**
+ * Tool to write content to a file.
+ */
+export const writeFileTool = createWriteFileTool();
+
+/**
+ * Tool to edit a file by replacing text.
+ */
+export const editFileTool = createEditFileTool();
+
+/**
+ * Tool to list directory contents.
+ */
+export const listDirTool = createListDirTool();
 
 /**
  * All filesystem tools.
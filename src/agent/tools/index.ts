@@ -4,8 +4,13 @@
 
 export * from './base.js';
 export * from './registry.js';
+export * from './policy.js';
+export * from './sandbox.js';
 export * from './filesystem.js';
+export * from './exec-backend.js';
 export * from './shell.js';
+export * from './shell-session.js';
 export * from './message.js';
 export * from './web.js';
 export * from './spawn.js';
+export * from './cron.js';
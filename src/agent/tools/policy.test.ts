@@ -0,0 +1,64 @@
+/**
+ * Tests for tool policy.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ToolPolicy } from './policy.js';
+import type { Tool } from './base.js';
+
+function createMockTool(name: string, needsApproval?: (params: Record<string, unknown>) => boolean): Tool {
+  const tool: Tool = {
+    name,
+    description: 'A mock tool',
+    parameters: { type: 'object', properties: {} },
+    execute: async () => 'ok',
+  };
+  if (needsApproval) {
+    tool.needsApproval = needsApproval;
+  }
+  return tool;
+}
+
+describe('ToolPolicy', () => {
+  it('should allow calls by default', () => {
+    const policy = new ToolPolicy();
+    expect(policy.evaluate(createMockTool('read_file'), { path: '/tmp/x' })).toBe('allow');
+  });
+
+  it("should fall back to the tool's own check", () => {
+    const policy = new ToolPolicy();
+    const tool = createMockTool('exec', (params) => params['command'] === 'rm -rf /');
+
+    expect(policy.evaluate(tool, { command: 'rm -rf /' })).toBe('ask');
+    expect(policy.evaluate(tool, { command: 'ls' })).toBe('allow');
+  });
+
+  it('should apply the first matching rule', () => {
+    const policy = new ToolPolicy([
+      { tool: 'write_file', args: { path: '^/etc/' }, action: 'deny' },
+      { tool: 'write_file', action: 'ask' },
+    ]);
+    const tool = createMockTool('write_file');
+
+    expect(policy.evaluate(tool, { path: '/etc/hosts' })).toBe('deny');
+    expect(policy.evaluate(tool, { path: '/tmp/notes' })).toBe('ask');
+  });
+
+  it('should let rules override the tool check', () => {
+    const policy = new ToolPolicy([{ tool: 'exec', args: { command: '^git ' }, action: 'allow' }]);
+    const tool = createMockTool('exec', () => true);
+
+    expect(policy.evaluate(tool, { command: 'git push --force' })).toBe('allow');
+    expect(policy.evaluate(tool, { command: 'rm -rf build' })).toBe('ask');
+  });
+
+  it('should match camelCased config keys against snake_case parameters', () => {
+    const policy = new ToolPolicy([{ tool: '*', args: { workingDir: '^/srv' }, action: 'ask' }]);
+    expect(policy.evaluate(createMockTool('exec'), { working_dir: '/srv/app' })).toBe('ask');
+  });
+
+  it('should not match rules whose arguments are missing', () => {
+    const policy = new ToolPolicy([{ tool: 'exec', args: { command: '.*' }, action: 'deny' }]);
+    expect(policy.evaluate(createMockTool('exec'), {})).toBe('allow');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tool policy: which tool calls run, need approval, or are blocked.
+ */
+
+import type { ApprovalDecision, ApprovalRequest } from '../../bus/approvals.js';
+import { camelToSnake } from '../../config/loader.js';
+import type { Tool } from './base.js';
+
+/**
+ * What happens to a tool call.
+ */
+export type ToolPolicyAction = 'allow' | 'ask' | 'deny';
+
+/**
+ * A rule matching tool calls by tool name and argument patterns.
+ */
+export interface ToolPolicyRule {
+  /** Tool name, or "*" for any tool */
+  tool: string;
+  /** Regular expressions that string arguments must match, by argument name */
+  args?: Record<string, string>;
+  action: ToolPolicyAction;
+}
+
+/**
+ * Asks a human to approve a tool call.
+ */
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+/**
+ * Compiled form of a rule.
+ */
+interface CompiledRule {
+  tool: string;
+  args: Array<[string, RegExp]>;
+  action: ToolPolicyAction;
+}
+
+/**
+ * Decides whether tool calls are allowed, need approval, or are denied.
+ *
+ * Rules are checked in order and the first match wins. When no rule
+ * matches, the tool decides through its own `needsApproval` check.
+ */
+export class ToolPolicy {
+  private readonly rules: CompiledRule[];
+
+  constructor(rules: ToolPolicyRule[] = []) {
+    this.rules = rules.map((rule) => ({
+      tool: rule.tool,
+      args: Object.entries(rule.args ?? {}).map(([name, pattern]) => [name, new RegExp(pattern)]),
+      action: rule.action,
+    }));
+  }
+
+  /**
+   * Evaluate a tool call.
+   */
+  evaluate(tool: Tool, params: Record<string, unknown>): ToolPolicyAction {
+    for (const rule of this.rules) {
+      if (this.matches(rule, tool.name, params)) {
+        return rule.action;
+      }
+    }
+    return tool.needsApproval?.(params) ? 'ask' : 'allow';
+  }
+
+  /**
+   * Check whether a rule matches a tool call.
+   */
+  private matches(rule: CompiledRule, name: string, params: Record<string, unknown>): boolean {
+    if (rule.tool !== '*' && rule.tool !== name) {
+      return false;
+    }
+
+    return rule.args.every(([argName, pattern]) => {
+      // Config keys are camelCased on load; tool parameters are snake_case
+      const value = params[argName] ?? params[camelToSnake(argName)];
+      if (value === undefined) {
+        return false;
+      }
+      return pattern.test(typeof value === 'string' ? value : JSON.stringify(value));
+    });
+  }
+}
@@ -2,8 +2,9 @@
  * Tests for tool registry.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ToolRegistry, createTool } from './registry.js';
+import { ToolPolicy } from './policy.js';
 import type { Tool } from './base.js';
 
 describe('ToolRegistry', () => {
@@ -118,6 +119,145 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('executeAll', () => {
+    function createTrackedTool(name: string, parallelSafe: boolean, log: string[]): Tool {
+      return {
+        name,
+        description: name,
+        parameters: { type: 'object', properties: {} },
+        parallelSafe,
+        execute: async (params) => {
+          log.push(`start ${name}${String(params['n'])}`);
+          await new Promise((resolve) => setTimeout(resolve, Number(params['delay'] ?? 10)));
+          log.push(`end ${name}${String(params['n'])}`);
+          return `${name}${String(params['n'])}`;
+        },
+      };
+    }
+
+    it('should run parallel-safe calls concurrently and keep result order', async () => {
+      const log: string[] = [];
+      registry.register(createTrackedTool('fetch', true, log));
+
+      const results = await registry.executeAll(
+        [
+          { name: 'fetch', arguments: { n: 1, delay: 40 } },
+          { name: 'fetch', arguments: { n: 2, delay: 5 } },
+          { name: 'fetch', arguments: { n: 3, delay: 20 } },
+        ],
+        undefined,
+        4
+      );
+
+      expect(results).toEqual(['fetch1', 'fetch2', 'fetch3']);
+      expect(log.slice(0, 3)).toEqual(['start fetch1', 'start fetch2', 'start fetch3']);
+    });
+
+    it('should respect the concurrency limit', async () => {
+      const log: string[] = [];
+      registry.register(createTrackedTool('fetch', true, log));
+
+      await registry.executeAll(
+        [1, 2, 3].map((n) => ({ name: 'fetch', arguments: { n } })),
+        undefined,
+        2
+      );
+
+      expect(log.slice(0, 3)).toEqual(['start fetch1', 'start fetch2', 'end fetch1']);
+    });
+
+    it('should run other calls alone, in order', async () => {
+      const log: string[] = [];
+      registry.register(createTrackedTool('read', true, log));
+      registry.register(createTrackedTool('write', false, log));
+
+      const results = await registry.executeAll(
+        [
+          { name: 'read', arguments: { n: 1 } },
+          { name: 'write', arguments: { n: 2 } },
+          { name: 'read', arguments: { n: 3 } },
+          { name: 'read', arguments: { n: 4 } },
+        ],
+        undefined,
+        4
+      );
+
+      expect(results).toEqual(['read1', 'write2', 'read3', 'read4']);
+      expect(log).toEqual([
+        'start read1',
+        'end read1',
+        'start write2',
+        'end write2',
+        'start read3',
+        'start read4',
+        'end read3',
+        'end read4',
+      ]);
+    });
+
+    it('should include errors for unknown tools in place', async () => {
+      registry.register(mockTool);
+
+      const results = await registry.executeAll([
+        { name: 'missing', arguments: {} },
+        { name: 'mock_tool', arguments: { input: 'x' } },
+      ]);
+
+      expect(results).toEqual(["Error: Tool 'missing' not found", 'Received: x']);
+    });
+  });
+
+  describe('approval', () => {
+    const context = { channel: 'telegram', chatId: '42' };
+
+    beforeEach(() => {
+      registry.register(mockTool);
+      registry.setPolicy(new ToolPolicy([{ tool: 'mock_tool', args: { input: '^danger' }, action: 'ask' }]));
+    });
+
+    it('should run calls that need no approval without asking', async () => {
+      const handler = vi.fn();
+      registry.setApprovalHandler(handler);
+
+      expect(await registry.execute('mock_tool', { input: 'safe' }, context)).toBe('Received: safe');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should run approved calls', async () => {
+      const handler = vi.fn(async () => ({ approved: true }));
+      registry.setApprovalHandler(handler);
+
+      const result = await registry.execute('mock_tool', { input: 'danger zone' }, context);
+
+      expect(result).toBe('Received: danger zone');
+      expect(handler).toHaveBeenCalledWith({
+        tool: 'mock_tool',
+        params: { input: 'danger zone' },
+        channel: 'telegram',
+        chatId: '42',
+      });
+    });
+
+    it('should return a denial to the model', async () => {
+      registry.setApprovalHandler(async () => ({ approved: false, reason: 'Denied by the user' }));
+
+      const result = await registry.execute('mock_tool', { input: 'danger' }, context);
+
+      expect(result).toContain("Tool 'mock_tool' was not approved (Denied by the user)");
+    });
+
+    it('should deny calls when no one can approve', async () => {
+      const result = await registry.execute('mock_tool', { input: 'danger' }, context);
+      expect(result).toContain('requires approval');
+    });
+
+    it('should block calls denied by policy', async () => {
+      registry.setPolicy(new ToolPolicy([{ tool: '*', action: 'deny' }]));
+      const result = await registry.execute('mock_tool', { input: 'safe' });
+      expect(result).toContain('not allowed');
+    });
+  });
+
   describe('toolNames', () => {
     it('should return list of tool names', () => {
       registry.register(mockTool);
@@ -2,9 +2,15 @@
  * Tool registry for dynamic tool management.
  */
 
-import type { Tool, ToolParameters } from './base.js';
+import type { Tool, ToolCallContext, ToolParameters } from './base.js';
 import { toolToSchema } from './base.js';
-import type { ToolDefinition } from '../../providers/base.js';
+import { ToolPolicy, type ApprovalHandler } from './policy.js';
+import type { ToolCallRequest, ToolDefinition } from '../../providers/base.js';
+
+/**
+ * A tool call by name and arguments.
+ */
+type ToolCall = Pick<ToolCallRequest, 'name' | 'arguments'>;
 
 /**
  * Registry for agent tools.
@@ -13,6 +19,8 @@ import type { ToolDefinition } from '../../providers/base.js';
  */
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
+  private policy: ToolPolicy = new ToolPolicy();
+  private approvalHandler: ApprovalHandler | null = null;
 
   /**
    * Register a tool.
@@ -58,27 +66,121 @@ export class ToolRegistry {
     return Array.from(this.tools.values()).map(toolToSchema);
   }
 
+  /**
+   * Set the policy deciding which calls need approval.
+   */
+  setPolicy(policy: ToolPolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Set the handler that asks a human to approve calls.
+   * Without one, calls that need approval are denied.
+   */
+  setApprovalHandler(handler: ApprovalHandler | null): void {
+    this.approvalHandler = handler;
+  }
+
   /**
    * Execute a tool by name with given parameters.
    *
+   * Calls that the policy marks for approval wait for the approval
+   * handler; denied calls return an error result to the model.
+   *
    * @param name - Tool name.
    * @param params - Tool parameters.
+   * @param context - Where the call originates, for approval prompts and the tool.
    * @returns Tool execution result as string.
    */
-  async execute(name: string, params: Record<string, unknown>): Promise<string> {
+  async execute(
+    name: string,
+    params: Record<string, unknown>,
+    context?: ToolCallContext
+  ): Promise<string> {
     const tool = this.tools.get(name);
     if (!tool) {
       return `Error: Tool '${name}' not found`;
     }
 
+    const action = this.policy.evaluate(tool, params);
+    if (action === 'deny') {
+      return `Error: Tool '${name}' is not allowed with these arguments by the tool policy`;
+    }
+    if (action === 'ask') {
+      if (!this.approvalHandler || !context) {
+        return `Error: Tool '${name}' requires approval, but no one can approve it here`;
+      }
+      const decision = await this.approvalHandler({ tool: name, params, ...context });
+      if (!decision.approved) {
+        return `Error: Tool '${name}' was not approved (${decision.reason ?? 'denied'}). Do not retry it; ask the user how to proceed.`;
+      }
+    }
+
     try {
-      return await tool.execute(params);
+      return await tool.execute(params, context);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return `Error executing ${name}: ${message}`;
     }
   }
 
+  /**
+   * Execute several tool calls, running parallel-safe calls concurrently.
+   *
+   * Runs of consecutive parallel-safe calls execute together, at most
+   * `maxConcurrency` at a time; any other call waits for the calls
+   * before it and runs alone, so writes and commands keep their order
+   * relative to everything else.
+   *
+   * @param calls - Tool calls in the order the model made them.
+   * @param context - Where the calls originate, for approval prompts.
+   * @param maxConcurrency - Maximum calls running at once.
+   * @returns Results in the same order as the calls.
+   */
+  async executeAll(
+    calls: ToolCall[],
+    context?: ToolCallContext,
+    maxConcurrency = 1
+  ): Promise<string[]> {
+    const results: string[] = new Array<string>(calls.length);
+
+    let i = 0;
+    while (i < calls.length) {
+      // Collect the run of parallel-safe calls starting here
+      let end = i;
+      while (end < calls.length && this.isParallelSafe(calls[end]?.name ?? '')) {
+        end++;
+      }
+      if (end === i) {
+        end = i + 1;
+      }
+
+      const batch = calls.slice(i, end);
+      const start = i;
+      let next = 0;
+      const worker = async (): Promise<void> => {
+        while (next < batch.length) {
+          const index = next++;
+          const call = batch[index] as ToolCall;
+          results[start + index] = await this.execute(call.name, call.arguments, context);
+        }
+      };
+      const workers = Math.max(1, Math.min(maxConcurrency, batch.length));
+      await Promise.all(Array.from({ length: workers }, worker));
+
+      i = end;
+    }
+
+    return results;
+  }
+
+  /**
+   * Check whether a call may run concurrently with others.
+   */
+  private isParallelSafe(name: string): boolean {
+    return this.tools.get(name)?.parallelSafe === true;
+  }
+
   /**
    * Get list of registered tool names.
    */
@@ -0,0 +1,127 @@
+/**
+ * Tests for the workspace sandbox.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, symlink, realpath } from 'node:fs/promises';
+import { join } from 'node:path';
+import { homedir, tmpdir } from 'node:os';
+import { WorkspaceSandbox, PathAccessError, globToRegExp } from './sandbox.js';
+
+describe('globToRegExp', () => {
+  it('should match within a path segment', () => {
+    const regex = globToRegExp('/data/*.txt');
+    expect(regex.test('/data/a.txt')).toBe(true);
+    expect(regex.test('/data/sub/a.txt')).toBe(false);
+  });
+
+  it('should match across directories with **', () => {
+    const regex = globToRegExp('/data/**/*.env');
+    expect(regex.test('/data/x.txt')).toBe(false);
+    expect(regex.test('/data/x.env')).toBe(true);
+    expect(regex.test('/data/a/b/x.env')).toBe(true);
+  });
+
+  it('should escape regex characters', () => {
+    expect(globToRegExp('/a+b/(c)').test('/a+b/(c)')).toBe(true);
+    expect(globToRegExp('/a.b').test('/aXb')).toBe(false);
+  });
+});
+
+describe('WorkspaceSandbox', () => {
+  let root: string;
+  let workspace: string;
+  let outside: string;
+
+  beforeEach(async () => {
+    root = await realpath(await mkdtemp(join(tmpdir(), 'ingenium-sandbox-')));
+    workspace = join(root, 'workspace');
+    outside = join(root, 'outside');
+    await mkdir(workspace);
+    await mkdir(outside);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should resolve relative paths against the workspace', async () => {
+    const sandbox = new WorkspaceSandbox({ workspace });
+    expect(await sandbox.resolve('notes/today.md')).toBe(join(workspace, 'notes', 'today.md'));
+  });
+
+  it('should allow any path when not restricted', async () => {
+    const sandbox = new WorkspaceSandbox({ workspace });
+    expect(await sandbox.resolve(join(outside, 'a.txt'))).toBe(join(outside, 'a.txt'));
+  });
+
+  it('should reject paths outside the workspace when restricted', async () => {
+    const sandbox = new WorkspaceSandbox({ workspace, restrictToWorkspace: true });
+
+    await expect(sandbox.resolve(join(outside, 'a.txt'))).rejects.toThrow(PathAccessError);
+    await expect(sandbox.resolve('~/.ingenium/config.json')).rejects.toThrow(
+      'is outside the workspace'
+    );
+  });
+
+  it('should reject .. escapes', async () => {
+    const sandbox = new WorkspaceSandbox({ workspace, restrictToWorkspace: true });
+    await expect(sandbox.resolve('../outside/a.txt')).rejects.toThrow('is outside the workspace');
+    expect(await sandbox.resolve('sub/../a.txt')).toBe(join(workspace, 'a.txt'));
+  });
+
+  it('should reject symlinks that point outside the workspace', async () => {
+    await symlink(outside, join(workspace, 'link'));
+    const sandbox = new WorkspaceSandbox({ workspace, restrictToWorkspace: true });
+
+    await expect(sandbox.resolve('link/new-file.txt')).rejects.toThrow('resolves through a symlink');
+  });
+
+  it('should follow dangling symlinks to their target', async () => {
+    await symlink(join(outside, 'new-file.txt'), join(workspace, 'link.txt'));
+    await symlink(join(outside, 'missing-dir'), join(workspace, 'dir-link'));
+    await symlink('later.txt', join(workspace, 'inside-link.txt'));
+    const sandbox = new WorkspaceSandbox({ workspace, restrictToWorkspace: true });
+
+    await expect(sandbox.resolve('link.txt')).rejects.toThrow('resolves through a symlink');
+    await expect(sandbox.resolve('dir-link/a.txt')).rejects.toThrow('resolves through a symlink');
+    expect(await sandbox.resolve('inside-link.txt')).toBe(join(workspace, 'later.txt'));
+  });
+
+  it('should reject paths that cannot be resolved', async () => {
+    await symlink(join(workspace, 'loop-b'), join(workspace, 'loop-a'));
+    await symlink(join(workspace, 'loop-a'), join(workspace, 'loop-b'));
+    const sandbox = new WorkspaceSandbox({ workspace });
+
+    await expect(sandbox.resolve('loop-a')).rejects.toThrow(PathAccessError);
+  });
+
+  it('should allow paths matching an allow glob', async () => {
+    const sandbox = new WorkspaceSandbox({
+      workspace,
+      restrictToWorkspace: true,
+      allow: [join(outside, '*.txt')],
+    });
+
+    expect(await sandbox.resolve(join(outside, 'a.txt'))).toBe(join(outside, 'a.txt'));
+    await expect(sandbox.resolve(join(outside, 'a.md'))).rejects.toThrow(PathAccessError);
+  });
+
+  it('should reject denied paths, including everything below a denied directory', async () => {
+    const sandbox = new WorkspaceSandbox({ workspace, deny: ['secrets', '**/*.env', '~/.ssh'] });
+
+    await expect(sandbox.resolve('secrets/key.pem')).rejects.toThrow('"secrets"');
+    await expect(sandbox.resolve('app/prod.env')).rejects.toThrow('"**/*.env"');
+    await expect(sandbox.resolve(join(homedir(), '.ssh', 'id_rsa'))).rejects.toThrow(
+      'denied path pattern'
+    );
+    expect(await sandbox.resolve('app/main.ts')).toBe(join(workspace, 'app', 'main.ts'));
+  });
+
+  it('should check deny globs against symlink targets', async () => {
+    await symlink(outside, join(workspace, 'link'));
+    const sandbox = new WorkspaceSandbox({ workspace, deny: [outside] });
+
+    await expect(sandbox.resolve('link/a.txt')).rejects.toThrow('denied path pattern');
+  });
+});
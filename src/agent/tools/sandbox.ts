@@ -0,0 +1,249 @@
+/**
+ * Workspace sandbox for filesystem tools.
+ */
+
+import { lstat, readlink, realpath } from 'node:fs/promises';
+import { basename, dirname, isAbsolute, join, resolve, sep } from 'node:path';
+import { homedir } from 'node:os';
+
+/**
+ * Error thrown when a tool tries to access a path it is not allowed to.
+ */
+export class PathAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathAccessError';
+  }
+}
+
+/**
+ * Options for the workspace sandbox.
+ */
+export interface WorkspaceSandboxOptions {
+  /** Workspace directory; relative paths resolve against it */
+  workspace: string;
+  /** Only allow paths inside the workspace (and allowed paths) */
+  restrictToWorkspace?: boolean;
+  /** Globs for paths outside the workspace that are still allowed */
+  allow?: string[];
+  /** Globs for paths that are never allowed, checked first */
+  deny?: string[];
+}
+
+/**
+ * Sandbox options other than the workspace, as set in configuration.
+ */
+export type FilesystemAccessOptions = Omit<WorkspaceSandboxOptions, 'workspace'>;
+
+/**
+ * A compiled path glob.
+ */
+interface PathPattern {
+  glob: string;
+  regex: RegExp;
+}
+
+/**
+ * Expand a leading ~ to the home directory.
+ */
+function expandHome(path: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1));
+  }
+  return path;
+}
+
+/**
+ * Convert a path glob to a regular expression.
+ *
+ * Supports `**` (any number of directories), `*` (anything within one
+ * path segment) and `?` (one character within a segment).
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directories at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a path is the directory itself or inside it.
+ */
+function isInside(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(dir.endsWith(sep) ? dir : dir + sep);
+}
+
+/**
+ * Symlinks followed while resolving one path before giving up, as the
+ * kernel does with ELOOP.
+ */
+const MAX_SYMLINK_HOPS = 40;
+
+/**
+ * Read a path's link target if it is a symlink.
+ *
+ * @returns The target, or null if the path is not a symlink or does not exist.
+ */
+async function readSymlink(path: string): Promise<string | null> {
+  try {
+    const stats = await lstat(path);
+    return stats.isSymbolicLink() ? await readlink(path) : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve symlinks in a path that may not exist yet.
+ *
+ * The deepest existing ancestor is resolved and the missing segments
+ * are appended, so a new file under a symlinked directory still
+ * resolves to where it would actually be written. Dangling symlinks are
+ * followed to their target for the same reason: writing through one
+ * creates the target.
+ *
+ * @throws PathAccessError if the path cannot be resolved.
+ */
+async function realpathAllowMissing(path: string): Promise<string> {
+  const missing: string[] = [];
+  let current = path;
+  let hops = 0;
+
+  for (;;) {
+    try {
+      const real = await realpath(current);
+      return missing.length > 0 ? join(real, ...[...missing].reverse()) : real;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'ENOENT') {
+        throw new PathAccessError(`Access denied: cannot resolve ${path} (${code ?? 'unknown error'})`);
+      }
+    }
+
+    let target: string | null;
+    try {
+      target = await readSymlink(current);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      throw new PathAccessError(`Access denied: cannot resolve ${path} (${code ?? 'unknown error'})`);
+    }
+    if (target !== null) {
+      if (++hops > MAX_SYMLINK_HOPS) {
+        throw new PathAccessError(`Access denied: cannot resolve ${path} (too many symlinks)`);
+      }
+      current = resolve(dirname(current), target);
+      continue;
+    }
+
+    const parent = dirname(current);
+    if (parent === current) {
+      return path;
+    }
+    missing.push(basename(current));
+    current = parent;
+  }
+}
+
+/**
+ * Decides which paths the filesystem tools may touch.
+ *
+ * Paths are checked after resolving `~`, `..` and symlinks, so links
+ * inside the workspace cannot be used to reach files outside it. Deny
+ * globs always win; in restricted mode a path must be inside the
+ * workspace or match an allow glob. A glob matching a directory also
+ * covers everything below it.
+ */
+export class WorkspaceSandbox {
+  readonly workspace: string;
+  readonly restrictToWorkspace: boolean;
+  private readonly allow: PathPattern[];
+  private readonly deny: PathPattern[];
+
+  constructor(options: WorkspaceSandboxOptions) {
+    this.workspace = resolve(expandHome(options.workspace));
+    this.restrictToWorkspace = options.restrictToWorkspace ?? false;
+    this.allow = (options.allow ?? []).map((glob) => this.compile(glob));
+    this.deny = (options.deny ?? []).map((glob) => this.compile(glob));
+  }
+
+  /**
+   * Resolve a tool path argument to the real path the tool may access.
+   *
+   * @throws PathAccessError if the path is not allowed.
+   */
+  async resolve(path: string): Promise<string> {
+    const requested = resolve(this.workspace, expandHome(path));
+    const real = await realpathAllowMissing(requested);
+
+    const denied = this.findMatch(this.deny, [requested, real]);
+    if (denied) {
+      throw new PathAccessError(`Access denied: ${path} matches the denied path pattern "${denied}"`);
+    }
+
+    if (!this.restrictToWorkspace) {
+      return real;
+    }
+
+    const workspace = await realpathAllowMissing(this.workspace);
+    if (isInside(real, workspace) || this.findMatch(this.allow, [real])) {
+      return real;
+    }
+
+    if (isInside(requested, this.workspace) || isInside(requested, workspace)) {
+      throw new PathAccessError(
+        `Access denied: ${path} resolves through a symlink to ${real}, which is outside the workspace (${this.workspace})`
+      );
+    }
+    throw new PathAccessError(
+      `Access denied: ${path} is outside the workspace (${this.workspace}). Only files in the workspace can be accessed.`
+    );
+  }
+
+  /**
+   * Compile a glob, resolving it against the workspace like tool paths.
+   */
+  private compile(glob: string): PathPattern {
+    const expanded = expandHome(glob);
+    const absolute = isAbsolute(expanded) ? expanded : join(this.workspace, expanded);
+    return { glob, regex: globToRegExp(absolute.replace(/\/+$/, '')) };
+  }
+
+  /**
+   * Find the first pattern matching any of the paths or their ancestors.
+   */
+  private findMatch(patterns: PathPattern[], paths: string[]): string | null {
+    for (const pattern of patterns) {
+      for (const path of paths) {
+        for (let current = path; ; current = dirname(current)) {
+          if (pattern.regex.test(current)) {
+            return pattern.glob;
+          }
+          if (dirname(current) === current) {
+            break;
+          }
+        }
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Tests for persistent shell session tools.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, realpath } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  ShellSessionManager,
+  ShellStartTool,
+  ShellSendTool,
+  ShellReadTool,
+  ShellListTool,
+  ShellKillTool,
+  createShellSessionTools,
+} from './shell-session.js';
+import { RestrictedExecBackend } from './exec-backend.js';
+
+describe('shell session tools', () => {
+  let tempDir: string;
+  let manager: ShellSessionManager;
+  let start: ShellStartTool;
+  let send: ShellSendTool;
+  let read: ShellReadTool;
+
+  beforeEach(async () => {
+    tempDir = await realpath(await mkdtemp(join(tmpdir(), 'ingenium-shell-')));
+    manager = new ShellSessionManager({ workingDir: tempDir });
+    start = new ShellStartTool(manager);
+    send = new ShellSendTool(manager);
+    read = new ShellReadTool(manager);
+  });
+
+  afterEach(async () => {
+    manager.killAll();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep directory and variables between commands', async () => {
+    expect(await start.execute({ name: 'main' })).toContain(`Started session 'main'`);
+
+    await send.execute({
+      name: 'main',
+      input: 'mkdir sub && cd sub && export GREETING=hello',
+      wait_seconds: 0.2,
+    });
+    const result = await send.execute({ name: 'main', input: 'echo "$GREETING from $(pwd)"' });
+
+    expect(result).toContain(`hello from ${join(tempDir, 'sub')}`);
+    expect(result).toContain(`[session 'main' running; cursor`);
+  });
+
+  it('should read incremental output with a cursor', async () => {
+    await start.execute({ name: 'bg' });
+    await send.execute({ name: 'bg', input: '(sleep 0.3; echo done-1) &', wait_seconds: 0.1 });
+
+    const later = await read.execute({ name: 'bg', wait_seconds: 3 });
+    expect(later).toContain('done-1');
+
+    const again = await read.execute({ name: 'bg' });
+    expect(again).toContain('(no new output)');
+
+    const replay = await read.execute({ name: 'bg', cursor: 0 });
+    expect(replay).toContain('done-1');
+  });
+
+  it('should report exited sessions', async () => {
+    await start.execute({ name: 'short' });
+    await send.execute({ name: 'short', input: 'exit 3' });
+
+    expect(await read.execute({ name: 'short' })).toContain('exited with code 3');
+    expect(await send.execute({ name: 'short', input: 'ls' })).toContain('has exited with code 3');
+    expect(await start.execute({ name: 'short' })).toContain('Started');
+  });
+
+  it('should list and kill sessions', async () => {
+    const list = new ShellListTool(manager);
+    const kill = new ShellKillTool(manager);
+    expect(await list.execute({})).toBe('No shell sessions');
+
+    await start.execute({ name: 'server' });
+    expect(await list.execute({})).toMatch(/^server: running, pid \d+/);
+
+    expect(await kill.execute({ name: 'server' })).toBe("Killed session 'server'");
+    expect(await list.execute({})).toBe('No shell sessions');
+    expect(await kill.execute({ name: 'server' })).toContain("No session named 'server'");
+  });
+
+  it('should list and kill background jobs without ending the session', async () => {
+    const list = new ShellListTool(manager);
+    const kill = new ShellKillTool(manager);
+    await start.execute({ name: 'jobs' });
+    expect(await list.execute({ name: 'jobs' })).toBe("No processes running in session 'jobs'");
+
+    await send.execute({ name: 'jobs', input: 'sleep 300 & echo started', wait_seconds: 0.5 });
+    const [job] = await manager.processes('jobs');
+    expect(job?.command).toBe('sleep 300');
+    expect(await list.execute({ name: 'jobs' })).toContain(`pid ${job?.pid} `);
+
+    expect(await kill.execute({ name: 'jobs', pid: job?.pid })).toBe(
+      `Killed ${job?.pid} in session 'jobs'`
+    );
+    await expect.poll(() => manager.processes('jobs')).toEqual([]);
+    expect(await send.execute({ name: 'jobs', input: 'echo still here' })).toContain('still here');
+
+    expect(await kill.execute({ name: 'jobs', pid: process.pid })).toContain(
+      `Process ${process.pid} is not running in session 'jobs'`
+    );
+  });
+
+  it('should validate names and reject duplicates', async () => {
+    expect(await start.execute({ name: 'bad name!' })).toContain('Session name must be');
+
+    await start.execute({ name: 'dup' });
+    expect(await start.execute({ name: 'dup' })).toContain("Session 'dup' is already running");
+  });
+
+  it('should limit the number of sessions', async () => {
+    const limited = new ShellSessionManager({ workingDir: tempDir, maxSessions: 1 });
+    try {
+      limited.start('one');
+      expect(() => limited.start('two')).toThrow('Too many sessions');
+    } finally {
+      limited.killAll();
+    }
+  });
+
+  it('should check input against the backend', async () => {
+    const restricted = new ShellSessionManager({
+      workingDir: tempDir,
+      backend: new RestrictedExecBackend({ network: true, deny: ['curl'] }),
+    });
+    try {
+      const [restrictedStart, restrictedSend] = createShellSessionTools(restricted);
+      await restrictedStart?.execute({ name: 'r' });
+
+      const result = await restrictedSend?.execute({ name: 'r', input: 'curl example.com' });
+      expect(result).toBe("Error: Command not allowed: 'curl' is on the deny list");
+    } finally {
+      restricted.killAll();
+    }
+  });
+
+  it('should flag destructive input for approval', () => {
+    expect(send.needsApproval({ name: 'main', input: 'rm -rf build' })).toBe(true);
+    expect(send.needsApproval({ name: 'main', input: 'npm test' })).toBe(false);
+  });
+});
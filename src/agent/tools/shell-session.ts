@@ -0,0 +1,744 @@
+/**
+ * Persistent shell session tools.
+ *
+ * Unlike `exec`, a session keeps one shell process alive across calls,
+ * so the working directory, exported variables and background processes
+ * survive between commands.
+ */
+
+import { execFile, spawn, type ChildProcess } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { ToolParameters } from './base.js';
+import { BaseTool } from './base.js';
+import { CommandNotAllowedError, HostExecBackend, type ExecBackend } from './exec-backend.js';
+import { isDangerousCommand } from './shell.js';
+
+/**
+ * Error thrown for invalid session operations.
+ */
+export class ShellSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellSessionError';
+  }
+}
+
+/**
+ * Options for the session manager.
+ */
+export interface ShellSessionManagerOptions {
+  /** Where session shells run. Defaults to directly on the host. */
+  backend?: ExecBackend;
+  /** Default working directory for new sessions */
+  workingDir?: string;
+  /** Maximum number of sessions, running or exited */
+  maxSessions?: number;
+  /** Characters of output kept per session */
+  maxBufferLength?: number;
+}
+
+/**
+ * Summary of a session, for listing.
+ */
+export interface ShellSessionInfo {
+  name: string;
+  pid: number | null;
+  cwd: string;
+  running: boolean;
+  exitCode: number | null;
+  startedAt: Date;
+  /** Cursor at the end of the output so far */
+  cursor: number;
+}
+
+/**
+ * A process started in a session, such as a background job.
+ */
+export interface ShellProcessInfo {
+  pid: number;
+  /** Parent process id */
+  ppid: number;
+  command: string;
+}
+
+/**
+ * Output read from a session.
+ */
+export interface ShellSessionOutput {
+  output: string;
+  /** Cursor to pass to the next read */
+  cursor: number;
+  /** Characters between the requested cursor and the oldest kept output */
+  dropped: number;
+  /** Characters after the returned output that were not read yet */
+  remaining: number;
+}
+
+/**
+ * Starts a shell that reads commands from stdin, preferring bash so
+ * `source` and other bash-isms work.
+ */
+const SHELL_COMMAND = 'command -v bash >/dev/null 2>&1 && exec bash || exec sh';
+
+/**
+ * Session names usable as identifiers in tool calls.
+ */
+const SESSION_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * List the processes in a process group, using ps so it works on Linux
+ * and macOS alike.
+ */
+async function listProcessGroup(pgid: number): Promise<ShellProcessInfo[]> {
+  const { stdout } = await execFileAsync('ps', ['-A', '-o', 'pid=,ppid=,pgid=,args=']);
+  const processes: ShellProcessInfo[] = [];
+  for (const line of stdout.split('\n')) {
+    const match = /^\s*(\d+)\s+(\d+)\s+(\d+)\s+(.*)$/.exec(line);
+    if (match && Number(match[3]) === pgid) {
+      processes.push({ pid: Number(match[1]), ppid: Number(match[2]), command: match[4] ?? '' });
+    }
+  }
+  return processes;
+}
+
+/**
+ * A running or exited shell session.
+ */
+class ShellSession {
+  /** Absolute offset of the first kept character */
+  private bufferStart = 0;
+  private buffer = '';
+  readonly startedAt = new Date();
+  exitCode: number | null = null;
+  running = true;
+  /** Cursor of the last read, used when a read gives no cursor */
+  readCursor = 0;
+  private exitListeners: Array<() => void> = [];
+
+  constructor(
+    readonly name: string,
+    readonly cwd: string,
+    readonly child: ChildProcess,
+    private readonly maxBufferLength: number,
+    private readonly onKill: (() => void) | undefined
+  ) {
+    child.stdout?.on('data', (data: Buffer) => this.append(data.toString('utf-8')));
+    child.stderr?.on('data', (data: Buffer) => this.append(data.toString('utf-8')));
+    child.stdin?.on('error', () => {
+      // Writing to a shell that already exited; the exit is reported on read
+    });
+    child.on('close', (code, signal) => {
+      this.running = false;
+      this.exitCode = code ?? (signal ? 128 : null);
+      this.notify();
+    });
+    child.on('error', (error) => {
+      this.append(`\n[shell error: ${error.message}]\n`);
+      this.running = false;
+      this.notify();
+    });
+  }
+
+  /**
+   * Absolute offset just past the newest output.
+   */
+  get end(): number {
+    return this.bufferStart + this.buffer.length;
+  }
+
+  /**
+   * Write input to the shell.
+   */
+  write(input: string): void {
+    this.child.stdin?.write(input.endsWith('\n') ? input : `${input}\n`);
+  }
+
+  /**
+   * Read output from a cursor.
+   */
+  read(cursor: number, maxLength: number): ShellSessionOutput {
+    const from = Math.min(Math.max(cursor, this.bufferStart), this.end);
+    const output = this.buffer.slice(from - this.bufferStart, from - this.bufferStart + maxLength);
+    const next = from + output.length;
+    this.readCursor = next;
+    return {
+      output,
+      cursor: next,
+      dropped: Math.max(0, this.bufferStart - cursor),
+      remaining: this.end - next,
+    };
+  }
+
+  /**
+   * Wait until output has arrived and then stopped for `idleMs`, the
+   * shell exits, or `maxMs` passes.
+   */
+  async waitForIdle(idleMs: number, maxMs: number): Promise<void> {
+    const deadline = Date.now() + maxMs;
+    const startEnd = this.end;
+    let lastEnd = startEnd;
+    while (this.running && Date.now() < deadline) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(done, Math.min(idleMs, deadline - Date.now()));
+        function done(): void {
+          clearTimeout(timer);
+          resolve();
+        }
+        this.exitListeners.push(done);
+      });
+      this.exitListeners = [];
+      if (this.end !== startEnd && this.end === lastEnd) {
+        return;
+      }
+      lastEnd = this.end;
+    }
+  }
+
+  /**
+   * List the processes the shell started, not counting the shell itself.
+   * Job control is off in a session, so they share the shell's process group.
+   */
+  async listProcesses(): Promise<ShellProcessInfo[]> {
+    const pid = this.child.pid;
+    if (!this.running || pid === undefined || process.platform === 'win32') {
+      return [];
+    }
+    return (await listProcessGroup(pid)).filter((p) => p.pid !== pid);
+  }
+
+  /**
+   * Kill the shell and everything it started.
+   */
+  kill(): void {
+    if (!this.running) {
+      return;
+    }
+    const pid = this.child.pid;
+    try {
+      // The shell leads its own process group, which includes background jobs
+      if (pid !== undefined && process.platform !== 'win32') {
+        process.kill(-pid, 'SIGKILL');
+      } else {
+        this.child.kill('SIGKILL');
+      }
+    } catch {
+      this.child.kill('SIGKILL');
+    }
+    this.onKill?.();
+  }
+
+  private append(text: string): void {
+    this.buffer += text;
+    if (this.buffer.length > this.maxBufferLength) {
+      const drop = this.buffer.length - this.maxBufferLength;
+      this.buffer = this.buffer.slice(drop);
+      this.bufferStart += drop;
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.exitListeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Manages named persistent shell sessions.
+ */
+export class ShellSessionManager {
+  private readonly backend: ExecBackend;
+  private readonly workingDir: string;
+  private readonly maxSessions: number;
+  private readonly maxBufferLength: number;
+  private sessions: Map<string, ShellSession> = new Map();
+
+  constructor(options: ShellSessionManagerOptions = {}) {
+    this.backend = options.backend ?? new HostExecBackend();
+    this.workingDir = options.workingDir ?? process.cwd();
+    this.maxSessions = options.maxSessions ?? 8;
+    this.maxBufferLength = options.maxBufferLength ?? 1_000_000;
+  }
+
+  /**
+   * Start a named session. An exited session with the same name is replaced.
+   *
+   * @throws ShellSessionError if the name is invalid or taken, or too many sessions exist.
+   */
+  start(name: string, cwd?: string): ShellSessionInfo {
+    if (!SESSION_NAME_PATTERN.test(name)) {
+      throw new ShellSessionError(
+        'Session name must be 1-64 letters, digits, dots, dashes or underscores'
+      );
+    }
+    const existing = this.sessions.get(name);
+    if (existing?.running) {
+      throw new ShellSessionError(`Session '${name}' is already running`);
+    }
+    if (existing) {
+      this.sessions.delete(name);
+    }
+    if (this.sessions.size >= this.maxSessions) {
+      throw new ShellSessionError(
+        `Too many sessions (${this.maxSessions}). Kill a session before starting another.`
+      );
+    }
+
+    const workingDir = cwd ?? this.workingDir;
+    const spec = this.backend.prepare(SHELL_COMMAND, workingDir, { interactive: true });
+    const child = spawn(spec.file, spec.args, {
+      shell: spec.shell ?? false,
+      cwd: spec.cwd,
+      env: spec.env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32',
+    });
+
+    const session = new ShellSession(name, workingDir, child, this.maxBufferLength, spec.onTimeout);
+    this.sessions.set(name, session);
+    return this.describe(session);
+  }
+
+  /**
+   * Send input to a session.
+   *
+   * @throws ShellSessionError if the session does not exist or has exited.
+   * @throws CommandNotAllowedError if the backend refuses the input.
+   */
+  send(name: string, input: string): void {
+    const session = this.getRunning(name);
+    this.backend.check(input);
+    session.write(input);
+  }
+
+  /**
+   * Read output from a session, from the given cursor or the last read.
+   *
+   * @throws ShellSessionError if the session does not exist.
+   */
+  read(name: string, cursor: number | undefined, maxLength: number): ShellSessionOutput {
+    const session = this.getSession(name);
+    return session.read(cursor ?? session.readCursor, maxLength);
+  }
+
+  /**
+   * Wait for a session's output to settle.
+   */
+  async waitForIdle(name: string, idleMs: number, maxMs: number): Promise<void> {
+    await this.getSession(name).waitForIdle(idleMs, maxMs);
+  }
+
+  /**
+   * Get a session's summary.
+   *
+   * @throws ShellSessionError if the session does not exist.
+   */
+  info(name: string): ShellSessionInfo {
+    return this.describe(this.getSession(name));
+  }
+
+  /**
+   * List all sessions.
+   */
+  list(): ShellSessionInfo[] {
+    return [...this.sessions.values()].map((session) => this.describe(session));
+  }
+
+  /**
+   * List the processes running in a session, such as background jobs.
+   *
+   * @throws ShellSessionError if the session does not exist.
+   */
+  async processes(name: string): Promise<ShellProcessInfo[]> {
+    return this.getSession(name).listProcesses();
+  }
+
+  /**
+   * Kill one process in a session and the processes it started, leaving
+   * the shell running.
+   *
+   * @returns The ids of the killed processes.
+   * @throws ShellSessionError if the session does not exist or the
+   *   process is not one the session started.
+   */
+  async killProcess(name: string, pid: number): Promise<number[]> {
+    const processes = await this.getRunning(name).listProcesses();
+    if (!processes.some((p) => p.pid === pid)) {
+      throw new ShellSessionError(
+        `Process ${pid} is not running in session '${name}'. List its processes with shell_list.`
+      );
+    }
+
+    const killed = [pid];
+    for (let i = 0; i < killed.length; i++) {
+      for (const child of processes) {
+        if (child.ppid === killed[i] && !killed.includes(child.pid)) {
+          killed.push(child.pid);
+        }
+      }
+    }
+    for (const target of killed) {
+      try {
+        process.kill(target, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    }
+    return killed;
+  }
+
+  /**
+   * Kill a session and remove it.
+   *
+   * @throws ShellSessionError if the session does not exist.
+   */
+  kill(name: string): void {
+    this.getSession(name).kill();
+    this.sessions.delete(name);
+  }
+
+  /**
+   * Kill all sessions.
+   */
+  killAll(): void {
+    for (const session of this.sessions.values()) {
+      session.kill();
+    }
+    this.sessions.clear();
+  }
+
+  private getSession(name: string): ShellSession {
+    const session = this.sessions.get(name);
+    if (!session) {
+      throw new ShellSessionError(`No session named '${name}'. Start one with shell_start.`);
+    }
+    return session;
+  }
+
+  private getRunning(name: string): ShellSession {
+    const session = this.getSession(name);
+    if (!session.running) {
+      throw new ShellSessionError(
+        `Session '${name}' has exited with code ${session.exitCode}. Start it again with shell_start.`
+      );
+    }
+    return session;
+  }
+
+  private describe(session: ShellSession): ShellSessionInfo {
+    return {
+      name: session.name,
+      pid: session.child.pid ?? null,
+      cwd: session.cwd,
+      running: session.running,
+      exitCode: session.exitCode,
+      startedAt: session.startedAt,
+      cursor: session.end,
+    };
+  }
+}
+
+/**
+ * Maximum characters of output returned per call.
+ */
+const MAX_OUTPUT_LENGTH = 10000;
+
+/**
+ * Format session output with a status line for the model.
+ */
+function formatOutput(info: ShellSessionInfo, result: ShellSessionOutput): string {
+  const parts: string[] = [];
+  if (result.dropped > 0) {
+    parts.push(`... (${result.dropped} older chars no longer kept)`);
+  }
+  parts.push(result.output || '(no new output)');
+
+  const status = info.running ? 'running' : `exited with code ${info.exitCode}`;
+  let footer = `[session '${info.name}' ${status}; cursor ${result.cursor}`;
+  if (result.remaining > 0) {
+    footer += `; ${result.remaining} more chars, read again to continue`;
+  }
+  parts.push(`${footer}]`);
+  return parts.join('\n');
+}
+
+/**
+ * Run a session operation, turning expected errors into tool errors.
+ */
+async function runSessionOperation(operation: () => Promise<string>): Promise<string> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof ShellSessionError || error instanceof CommandNotAllowedError) {
+      return `Error: ${error.message}`;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return `Error: ${message}`;
+  }
+}
+
+/**
+ * Tool to start a persistent shell session.
+ */
+export class ShellStartTool extends BaseTool {
+  readonly name = 'shell_start';
+  readonly description =
+    'Start a named persistent shell. Unlike exec, the working directory, environment ' +
+    'variables and background processes survive between commands. Use it for dev servers, ' +
+    'watchers, long builds and virtualenvs.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Session name, e.g. "build" or "server"',
+      },
+      working_dir: {
+        type: 'string',
+        description: 'Optional starting directory',
+      },
+    },
+    required: ['name'],
+  };
+
+  constructor(private readonly manager: ShellSessionManager) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const name = params['name'];
+    const workingDir = params['working_dir'];
+    if (typeof name !== 'string') {
+      return 'Error: name must be a string';
+    }
+
+    return runSessionOperation(async () => {
+      const info = this.manager.start(
+        name,
+        typeof workingDir === 'string' ? workingDir : undefined
+      );
+      return `Started session '${info.name}' (pid ${info.pid}) in ${info.cwd}`;
+    });
+  }
+}
+
+/**
+ * Tool to send input to a shell session.
+ */
+export class ShellSendTool extends BaseTool {
+  readonly name = 'shell_send';
+  readonly description =
+    'Send a command or input line to a shell session, wait briefly, and return the new output. ' +
+    'For long-running commands, use shell_read later to poll for more output.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Session name',
+      },
+      input: {
+        type: 'string',
+        description: 'Command or input to send; a newline is added',
+      },
+      wait_seconds: {
+        type: 'number',
+        description: 'Maximum seconds to wait for output (default 2, max 30)',
+      },
+    },
+    required: ['name', 'input'],
+  };
+
+  constructor(private readonly manager: ShellSessionManager) {
+    super();
+  }
+
+  needsApproval(params: Record<string, unknown>): boolean {
+    const input = params['input'];
+    return typeof input === 'string' && isDangerousCommand(input);
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const name = params['name'];
+    const input = params['input'];
+    const waitSeconds = params['wait_seconds'];
+    if (typeof name !== 'string') {
+      return 'Error: name must be a string';
+    }
+    if (typeof input !== 'string') {
+      return 'Error: input must be a string';
+    }
+    const maxWaitMs = Math.min(typeof waitSeconds === 'number' ? waitSeconds : 2, 30) * 1000;
+
+    return runSessionOperation(async () => {
+      this.manager.send(name, input);
+      await this.manager.waitForIdle(name, 300, maxWaitMs);
+      const result = this.manager.read(name, undefined, MAX_OUTPUT_LENGTH);
+      return formatOutput(this.manager.info(name), result);
+    });
+  }
+}
+
+/**
+ * Tool to read output from a shell session.
+ */
+export class ShellReadTool extends BaseTool {
+  readonly name = 'shell_read';
+  readonly parallelSafe = true;
+  readonly description =
+    'Read output from a shell session. Without a cursor, returns output since the last read. ' +
+    'Pass the cursor from an earlier result to re-read from that point.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Session name',
+      },
+      cursor: {
+        type: 'number',
+        description: 'Optional output position to read from',
+      },
+      wait_seconds: {
+        type: 'number',
+        description: 'Seconds to wait for new output first (default 0, max 30)',
+      },
+    },
+    required: ['name'],
+  };
+
+  constructor(private readonly manager: ShellSessionManager) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const name = params['name'];
+    const cursor = params['cursor'];
+    const waitSeconds = params['wait_seconds'];
+    if (typeof name !== 'string') {
+      return 'Error: name must be a string';
+    }
+
+    return runSessionOperation(async () => {
+      if (typeof waitSeconds === 'number' && waitSeconds > 0) {
+        await this.manager.waitForIdle(name, 300, Math.min(waitSeconds, 30) * 1000);
+      }
+      const result = this.manager.read(
+        name,
+        typeof cursor === 'number' ? cursor : undefined,
+        MAX_OUTPUT_LENGTH
+      );
+      return formatOutput(this.manager.info(name), result);
+    });
+  }
+}
+
+/**
+ * Tool to list shell sessions.
+ */
+export class ShellListTool extends BaseTool {
+  readonly name = 'shell_list';
+  readonly parallelSafe = true;
+  readonly description =
+    'List shell sessions with their status and process ids. With a session name, list the ' +
+    'processes running in that session, such as background jobs, with their pids.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Optional session whose processes to list',
+      },
+    },
+  };
+
+  constructor(private readonly manager: ShellSessionManager) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const name = params['name'];
+    if (typeof name === 'string') {
+      return runSessionOperation(async () => {
+        const processes = await this.manager.processes(name);
+        if (processes.length === 0) {
+          return `No processes running in session '${name}'`;
+        }
+        return processes.map((p) => `pid ${p.pid} (parent ${p.ppid}): ${p.command}`).join('\n');
+      });
+    }
+
+    const sessions = this.manager.list();
+    if (sessions.length === 0) {
+      return 'No shell sessions';
+    }
+
+    return sessions
+      .map((info) => {
+        const status = info.running ? 'running' : `exited (${info.exitCode})`;
+        const started = info.startedAt.toISOString();
+        return `${info.name}: ${status}, pid ${info.pid}, cwd ${info.cwd}, started ${started}, cursor ${info.cursor}`;
+      })
+      .join('\n');
+  }
+}
+
+/**
+ * Tool to kill a shell session.
+ */
+export class ShellKillTool extends BaseTool {
+  readonly name = 'shell_kill';
+  readonly description =
+    'Kill a shell session and every process it started, and remove the session. ' +
+    'With a pid, kill only that process and its children and keep the session.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Session name',
+      },
+      pid: {
+        type: 'number',
+        description: 'Optional process in the session to kill, from shell_list',
+      },
+    },
+    required: ['name'],
+  };
+
+  constructor(private readonly manager: ShellSessionManager) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const name = params['name'];
+    const pid = params['pid'];
+    if (typeof name !== 'string') {
+      return 'Error: name must be a string';
+    }
+
+    return runSessionOperation(async () => {
+      if (typeof pid === 'number') {
+        const killed = await this.manager.killProcess(name, pid);
+        return `Killed ${killed.join(', ')} in session '${name}'`;
+      }
+      this.manager.kill(name);
+      return `Killed session '${name}'`;
+    });
+  }
+}
+
+/**
+ * Create the shell session tools sharing one manager.
+ */
+export function createShellSessionTools(manager: ShellSessionManager): BaseTool[] {
+  return [
+    new ShellStartTool(manager),
+    new ShellSendTool(manager),
+    new ShellReadTool(manager),
+    new ShellListTool(manager),
+    new ShellKillTool(manager),
+  ];
+}
@@ -5,6 +5,12 @@
 import { spawn } from 'node:child_process';
 import type { ToolParameters } from './base.js';
 import { BaseTool } from './base.js';
+import {
+  CommandNotAllowedError,
+  HostExecBackend,
+  type ExecBackend,
+  type ExecSpawnSpec,
+} from './exec-backend.js';
 
 /**
  * Options for shell tool.
@@ -24,25 +30,57 @@ export interface ExecToolOptions {
    * Maximum output length in characters.
    */
   maxOutputLength?: number;
+
+  /**
+   * Where commands run. Defaults to directly on the host.
+   */
+  backend?: ExecBackend;
+}
+
+/**
+ * Commands that need approval before they run: destructive file
+ * operations, privilege escalation, system control and piping
+ * downloads into a shell.
+ */
+const DANGEROUS_COMMAND_PATTERNS: RegExp[] = [
+  /\brm\s+(-[a-zA-Z]*[rf][a-zA-Z]*\s+)+/,
+  /\b(sudo|su|doas)\b/,
+  /\b(shutdown|reboot|halt|poweroff)\b/,
+  /\b(mkfs(\.\w+)?|fdisk|parted|wipefs)\b/,
+  /\bdd\b.*\bof=/,
+  /\bchmod\s+(-R\s+)?[0-7]*777\b/,
+  /\bchown\s+-R\b/,
+  /\b(curl|wget)\b[^|]*\|\s*(ba|z)?sh\b/,
+  /\bgit\s+push\b.*(--force|-f)\b/,
+  /\bgit\s+(reset\s+--hard|clean\s+-[a-zA-Z]*f)/,
+  /:\(\)\s*\{.*\};\s*:/,
+  />\s*\/dev\/sd[a-z]/,
+];
+
+/**
+ * Check whether a command should need approval before it runs.
+ */
+export function isDangerousCommand(command: string): boolean {
+  return DANGEROUS_COMMAND_PATTERNS.some((pattern) => pattern.test(command));
 }
 
 /**
- * Execute a shell command and return output.
+ * Run a prepared command and return output.
  */
 async function executeCommand(
-  command: string,
+  spec: ExecSpawnSpec,
   options: {
-    cwd?: string;
     timeout?: number;
     maxOutputLength?: number;
   }
 ): Promise<string> {
-  const { cwd, timeout = 60000, maxOutputLength = 10000 } = options;
+  const { timeout = 60000, maxOutputLength = 10000 } = options;
 
   return new Promise((resolve) => {
-    const child = spawn(command, {
-      shell: true,
-      cwd,
+    const child = spawn(spec.file, spec.args, {
+      shell: spec.shell ?? false,
+      cwd: spec.cwd,
+      env: spec.env,
       stdio: ['ignore', 'pipe', 'pipe'],
     });
 
@@ -53,6 +91,7 @@ async function executeCommand(
     const timer = setTimeout(() => {
       killed = true;
       child.kill('SIGKILL');
+      spec.onTimeout?.();
     }, timeout);
 
     child.stdout?.on('data', (data: Buffer) => {
@@ -127,12 +166,19 @@ export class ExecTool extends BaseTool {
   private timeout: number;
   private workingDir: string | undefined;
   private maxOutputLength: number;
+  private backend: ExecBackend;
 
   constructor(options: ExecToolOptions = {}) {
     super();
     this.timeout = options.timeout ?? 60000;
     this.workingDir = options.workingDir;
     this.maxOutputLength = options.maxOutputLength ?? 10000;
+    this.backend = options.backend ?? new HostExecBackend();
+  }
+
+  needsApproval(params: Record<string, unknown>): boolean {
+    const command = params['command'];
+    return typeof command === 'string' && isDangerousCommand(command);
   }
 
   async execute(params: Record<string, unknown>): Promise<string> {
@@ -148,8 +194,18 @@ export class ExecTool extends BaseTool {
         ? workingDir
         : this.workingDir ?? process.cwd();
 
-    return executeCommand(command, {
-      cwd,
+    let spec: ExecSpawnSpec;
+    try {
+      this.backend.check(command);
+      spec = this.backend.prepare(command, cwd);
+    } catch (error) {
+      if (error instanceof CommandNotAllowedError) {
+        return `Error: ${error.message}`;
+      }
+      throw error;
+    }
+
+    return executeCommand(spec, {
       timeout: this.timeout,
       maxOutputLength: this.maxOutputLength,
     });
@@ -85,6 +85,7 @@ export interface WebSearchToolOptions {
  */
 export class WebSearchTool extends BaseTool {
   readonly name = 'web_search';
+  readonly parallelSafe = true;
   readonly description = 'Search the web. Returns titles, URLs, and snippets.';
   readonly parameters: ToolParameters = {
     type: 'object',
@@ -186,6 +187,7 @@ export interface WebFetchToolOptions {
  */
 export class WebFetchTool extends BaseTool {
   readonly name = 'web_fetch';
+  readonly parallelSafe = true;
   readonly description =
     'Fetch URL and extract readable content (HTML to markdown/text).';
   readonly parameters: ToolParameters = {
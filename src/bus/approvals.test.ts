@@ -0,0 +1,115 @@
+/**
+ * Tests for tool call approvals.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ApprovalBroker, formatToolCall, parseApprovalReply } from './approvals.js';
+import type { OutboundMessage } from './events.js';
+
+const request = {
+  tool: 'exec',
+  params: { command: 'rm -rf build' },
+  channel: 'telegram',
+  chatId: '42',
+  senderId: '7|alice',
+};
+
+describe('parseApprovalReply', () => {
+  it('should recognize approvals and denials', () => {
+    expect(parseApprovalReply('Yes')).toBe(true);
+    expect(parseApprovalReply(' y ')).toBe(true);
+    expect(parseApprovalReply('no.')).toBe(false);
+    expect(parseApprovalReply('deny')).toBe(false);
+    expect(parseApprovalReply('yes, but first explain')).toBeNull();
+  });
+});
+
+describe('formatToolCall', () => {
+  it('should list arguments and truncate long values', () => {
+    const text = formatToolCall('write_file', { path: '/tmp/a', content: 'x'.repeat(600) });
+
+    expect(text).toContain('write_file\npath: /tmp/a');
+    expect(text).toContain('(100 more chars)');
+  });
+});
+
+describe('ApprovalBroker', () => {
+  function createBroker(): { broker: ApprovalBroker; sent: OutboundMessage[] } {
+    const sent: OutboundMessage[] = [];
+    const broker = new ApprovalBroker(async (msg) => {
+      sent.push(msg);
+    });
+    return { broker, sent };
+  }
+
+  it('should publish a prompt to the originating chat', async () => {
+    const { broker, sent } = createBroker();
+
+    void broker.request(request, 1000);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+
+    expect(sent[0]).toMatchObject({ channel: 'telegram', chatId: '42' });
+    expect(sent[0]?.content).toContain('command: rm -rf build');
+    expect(sent[0]?.metadata?.['approval']).toMatchObject({ tool: 'exec' });
+  });
+
+  it('should resolve from a button press', async () => {
+    const { broker, sent } = createBroker();
+
+    const decision = broker.request(request, 1000);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    const { id } = sent[0]?.metadata?.['approval'] as { id: string };
+
+    expect(broker.resolve(id, true, '7|alice')).toBe(true);
+    expect(await decision).toEqual({ approved: true });
+    expect(broker.resolve(id, false, '7|alice')).toBe(false);
+  });
+
+  it('should resolve from a text reply in the same chat only', async () => {
+    const { broker } = createBroker();
+
+    const decision = broker.request(request, 1000);
+
+    expect(broker.resolveFromReply('telegram', '99', '7|alice', 'yes')).toBe(false);
+    expect(broker.resolveFromReply('telegram', '42', '7|alice', 'what is this?')).toBe(false);
+    expect(broker.resolveFromReply('telegram', '42', '7|alice', 'no')).toBe(true);
+    expect(await decision).toEqual({ approved: false, reason: 'Denied by the user' });
+  });
+
+  it('should only accept decisions from the requesting sender or an approver', async () => {
+    const { broker, sent } = createBroker();
+
+    const decision = broker.request(request, 1000, ['9']);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    const { id } = sent[0]?.metadata?.['approval'] as { id: string };
+
+    // Someone else in the group chat
+    expect(broker.mayDecide(id, '8|mallory')).toBe(false);
+    expect(broker.resolve(id, true, '8|mallory')).toBe(false);
+    expect(broker.resolveFromReply('telegram', '42', '8|mallory', 'yes')).toBe(false);
+
+    // The sender matches on either part of their ID, approvers by config
+    expect(broker.mayDecide(id, '7')).toBe(true);
+    expect(broker.resolveFromReply('telegram', '42', '9|bob', 'yes')).toBe(true);
+    expect(await decision).toEqual({ approved: true });
+  });
+
+  it('should accept anyone in the chat when no sender is known', async () => {
+    const { broker } = createBroker();
+    const { senderId: _senderId, ...withoutSender } = request;
+
+    const decision = broker.request(withoutSender, 1000);
+
+    expect(broker.resolveFromReply('telegram', '42', '8|mallory', 'yes')).toBe(true);
+    expect(await decision).toEqual({ approved: true });
+  });
+
+  it('should deny when no decision arrives in time', async () => {
+    const { broker } = createBroker();
+
+    const decision = await broker.request(request, 10);
+
+    expect(decision.approved).toBe(false);
+    expect(decision.reason).toContain('timeout');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Approval requests for tool calls that need a human decision.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { OutboundMessage } from './events.js';
+
+/**
+ * A tool call waiting for a human decision.
+ */
+export interface ApprovalRequest {
+  /** Tool name */
+  tool: string;
+  /** Tool call arguments */
+  params: Record<string, unknown>;
+  /** Channel the request came from */
+  channel: string;
+  /** Chat the request came from */
+  chatId: string;
+  /** Sender whose message led to the call; anyone in the chat if not set */
+  senderId?: string;
+}
+
+/**
+ * Outcome of an approval request.
+ */
+export interface ApprovalDecision {
+  approved: boolean;
+  /** Why the call was not approved, shown to the model */
+  reason?: string;
+}
+
+/**
+ * Metadata attached to an approval prompt, so channels can render
+ * buttons instead of relying on a text reply.
+ */
+export interface ApprovalPromptMetadata {
+  id: string;
+  tool: string;
+}
+
+/**
+ * A pending approval.
+ */
+interface PendingApproval {
+  id: string;
+  channel: string;
+  chatId: string;
+  /** Senders who may decide; null if anyone in the chat may */
+  deciders: string[] | null;
+  resolve: (decision: ApprovalDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Maximum characters of an argument value shown in a prompt.
+ */
+const MAX_ARG_PREVIEW = 500;
+
+/**
+ * Replies accepted as approval or denial.
+ */
+const APPROVE_REPLIES = new Set(['y', 'yes', 'approve', 'ok', 'allow']);
+const DENY_REPLIES = new Set(['n', 'no', 'deny', 'reject', 'cancel']);
+
+/**
+ * Format a tool call for a human to review.
+ */
+export function formatToolCall(tool: string, params: Record<string, unknown>): string {
+  const lines = Object.entries(params).map(([key, value]) => {
+    let text = typeof value === 'string' ? value : JSON.stringify(value);
+    if (text.length > MAX_ARG_PREVIEW) {
+      text = `${text.slice(0, MAX_ARG_PREVIEW)}... (${text.length - MAX_ARG_PREVIEW} more chars)`;
+    }
+    return `${key}: ${text}`;
+  });
+  return lines.length > 0 ? `${tool}\n${lines.join('\n')}` : tool;
+}
+
+/**
+ * Parse a chat reply as an approval decision.
+ *
+ * @returns true to approve, false to deny, null if the text is not a decision.
+ */
+export function parseApprovalReply(text: string): boolean | null {
+  const normalized = text.trim().toLowerCase().replace(/[.!]+$/, '');
+  if (APPROVE_REPLIES.has(normalized)) {
+    return true;
+  }
+  if (DENY_REPLIES.has(normalized)) {
+    return false;
+  }
+  return null;
+}
+
+/**
+ * Check whether a sender is one of a list of senders. Composite IDs like
+ * "12345|username" match on either part.
+ */
+function isSenderIn(senderId: string, senders: string[]): boolean {
+  const parts = senderId.split('|').filter(Boolean);
+  return senders.some(
+    (sender) => sender === senderId || sender.split('|').some((part) => parts.includes(part))
+  );
+}
+
+/**
+ * Routes approval prompts to chats and decisions back to the agent.
+ *
+ * The agent asks by publishing a prompt to the originating chat and
+ * waiting. Channels resolve the request from a button press or from a
+ * yes/no reply, which they check before publishing the reply as a
+ * regular inbound message (the agent is busy waiting, so the reply
+ * would otherwise queue behind the request it answers).
+ *
+ * Only the sender whose message led to the call, or a configured
+ * approver, may decide; others in a group chat cannot.
+ */
+export class ApprovalBroker {
+  private pending: Map<string, PendingApproval> = new Map();
+
+  constructor(private readonly publish: (msg: OutboundMessage) => Promise<void>) {}
+
+  /**
+   * Ask the originating chat to approve a tool call.
+   *
+   * @param request - The tool call to approve.
+   * @param timeoutMs - How long to wait before denying.
+   * @param approvers - Senders who may decide besides the requesting sender.
+   */
+  async request(
+    request: ApprovalRequest,
+    timeoutMs: number,
+    approvers: string[] = []
+  ): Promise<ApprovalDecision> {
+    const id = randomUUID().slice(0, 8);
+
+    const decision = new Promise<ApprovalDecision>((resolve) => {
+      this.pending.set(id, {
+        id,
+        channel: request.channel,
+        chatId: request.chatId,
+        deciders: request.senderId !== undefined ? [request.senderId, ...approvers] : null,
+        resolve,
+        timer: setTimeout(() => {
+          this.settle(id, { approved: false, reason: 'No decision within the approval timeout' });
+        }, timeoutMs),
+      });
+    });
+
+    const metadata: ApprovalPromptMetadata = { id, tool: request.tool };
+    await this.publish({
+      channel: request.channel,
+      chatId: request.chatId,
+      content: `⚠️ Approval needed\n\n${formatToolCall(request.tool, request.params)}\n\nReply "yes" to approve or "no" to deny.`,
+      metadata: { approval: metadata },
+    });
+
+    return decision;
+  }
+
+  /**
+   * Check whether a sender may decide a request. Requests that are no
+   * longer pending report true, so that resolve() reports them expired.
+   */
+  mayDecide(id: string, senderId: string): boolean {
+    const pending = this.pending.get(id);
+    return !pending || pending.deciders === null || isSenderIn(senderId, pending.deciders);
+  }
+
+  /**
+   * Resolve a request by id (e.g. from a button press).
+   *
+   * @returns True if the request was pending and the sender may decide it.
+   */
+  resolve(id: string, approved: boolean, senderId: string): boolean {
+    if (!this.mayDecide(id, senderId)) {
+      return false;
+    }
+    return this.settle(id, approved ? { approved } : { approved, reason: 'Denied by the user' });
+  }
+
+  /**
+   * Resolve the oldest request for a chat that the sender may decide from
+   * a text reply.
+   *
+   * @returns True if the text was consumed as a decision.
+   */
+  resolveFromReply(channel: string, chatId: string, senderId: string, text: string): boolean {
+    const approved = parseApprovalReply(text);
+    if (approved === null) {
+      return false;
+    }
+
+    for (const pending of this.pending.values()) {
+      if (
+        pending.channel === channel &&
+        pending.chatId === chatId &&
+        this.mayDecide(pending.id, senderId)
+      ) {
+        return this.resolve(pending.id, approved, senderId);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Settle a pending request.
+   */
+  private settle(id: string, decision: ApprovalDecision): boolean {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return false;
+    }
+    clearTimeout(pending.timer);
+    this.pending.delete(id);
+    pending.resolve(decision);
+    return true;
+  }
+}
@@ -38,6 +38,21 @@ export interface OutboundMessage {
   media?: string[];
   /** Optional channel-specific metadata */
   metadata?: Record<string, unknown>;
+  /** Set when the message is part of a streamed reply */
+  stream?: OutboundStreamState;
+}
+
+/**
+ * Streaming state of an outbound message.
+ *
+ * A streamed reply is a series of messages sharing the same `id`, each
+ * carrying the full text so far. The last one has `done: true`.
+ */
+export interface OutboundStreamState {
+  /** Identifier shared by all updates of one reply */
+  id: string;
+  /** Whether this is the final update */
+  done: boolean;
 }
 
 /**
@@ -82,6 +97,7 @@ export function createOutboundMessage(
     replyTo?: string;
     media?: string[];
     metadata?: Record<string, unknown>;
+    stream?: OutboundStreamState;
   }
 ): OutboundMessage {
   const msg: OutboundMessage = {
@@ -101,6 +117,34 @@ export function createOutboundMessage(
   if (partial.metadata !== undefined) {
     msg.metadata = partial.metadata;
   }
+  if (partial.stream !== undefined) {
+    msg.stream = partial.stream;
+  }
 
   return msg;
 }
+
+/**
+ * Get the channel's ID of an inbound message, if it gave one.
+ */
+export function getMessageId(msg: InboundMessage): string | undefined {
+  const id = msg.metadata['messageId'];
+  return id !== undefined && id !== null ? String(id) : undefined;
+}
+
+/**
+ * Create the reply to an inbound message: sent to the same chat, with
+ * `replyTo` set to the message's ID when the channel gave one.
+ */
+export function createReply(msg: InboundMessage, content: string): OutboundMessage {
+  const partial: Parameters<typeof createOutboundMessage>[0] = {
+    channel: msg.channel,
+    chatId: msg.chatId,
+    content,
+  };
+  const messageId = getMessageId(msg);
+  if (messageId !== undefined) {
+    partial.replyTo = messageId;
+  }
+  return createOutboundMessage(partial);
+}
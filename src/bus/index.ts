@@ -4,3 +4,4 @@
 
 export * from './events.js';
 export * from './queue.js';
+export * from './approvals.js';
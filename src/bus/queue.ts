@@ -5,6 +5,7 @@
 import type { Logger } from '../types/index.js';
 import { AsyncQueue, withTimeout } from '../utils/async-queue.js';
 import type { InboundMessage, OutboundMessage } from './events.js';
+import { ApprovalBroker } from './approvals.js';
 
 /**
  * Callback type for outbound message subscribers.
@@ -20,8 +21,12 @@ export type OutboundSubscriber = (msg: OutboundMessage) => Promise<void>;
 export class MessageBus {
   readonly inbound = new AsyncQueue<InboundMessage>();
   readonly outbound = new AsyncQueue<OutboundMessage>();
+  /** Pending tool call approvals, answered from chats */
+  readonly approvals = new ApprovalBroker((msg) => this.publishOutbound(msg));
 
   private readonly outboundSubscribers = new Map<string, OutboundSubscriber[]>();
+  /** IDs of messages whose turns their channel has cancelled */
+  private readonly cancelledTurns = new Set<string>();
   private running = false;
 
   constructor(private readonly logger?: Logger) {}
@@ -54,6 +59,22 @@ export class MessageBus {
     return this.outbound.get();
   }
 
+  /**
+   * Cancel the agent turn answering a message, e.g. when the client that
+   * sent it has gone. The agent stops before its next LLM call or tool calls.
+   */
+  cancelTurn(messageId: string): void {
+    this.cancelledTurns.add(messageId);
+  }
+
+  /**
+   * Check whether the turn answering a message was cancelled, forgetting
+   * the cancellation once it is seen.
+   */
+  consumeCancellation(messageId: string): boolean {
+    return this.cancelledTurns.delete(messageId);
+  }
+
   /**
    * Subscribe to outbound messages for a specific channel.
    */
@@ -31,6 +31,18 @@ export interface Channel {
    */
   readonly isRunning: boolean;
 
+  /**
+   * Whether the channel can edit a sent message as a streamed reply grows.
+   * Channels without this only receive the final update of a stream.
+   */
+  readonly supportsStreaming?: boolean;
+
+  /**
+   * Whether the channel can show tool call approval prompts and pass
+   * the user's decision to the bus's approval broker.
+   */
+  readonly supportsApproval?: boolean;
+
   /**
    * Start the channel and begin listening for messages.
    */
@@ -52,6 +64,8 @@ export interface Channel {
  */
 export abstract class BaseChannel implements Channel {
   abstract readonly name: string;
+  readonly supportsStreaming: boolean = false;
+  readonly supportsApproval: boolean = false;
   protected _running = false;
   protected config: ChannelConfig;
   protected bus: MessageBus;
@@ -112,6 +126,19 @@ export abstract class BaseChannel implements Channel {
       return;
     }
 
+    // A yes/no reply to a pending approval prompt is a decision, not a message
+    if (
+      this.supportsApproval &&
+      this.bus.approvals.resolveFromReply(
+        this.name,
+        String(options.chatId),
+        String(options.senderId),
+        options.content
+      )
+    ) {
+      return;
+    }
+
     const msgOptions: Parameters<typeof createInboundMessage>[0] = {
       channel: this.name,
       senderId: String(options.senderId),
@@ -173,5 +173,107 @@ describe('ChannelManager', () => {
 
       await manager.stopAll();
     });
+
+    it('should only dispatch the final stream update to non-streaming channels', async () => {
+      const config = ConfigSchema.parse({});
+      const manager = new ChannelManager(config, bus);
+
+      const channel = new MockChannel('test');
+      manager.registerChannel(channel);
+
+      const startPromise = manager.startAll();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      await bus.publishOutbound({
+        channel: 'test',
+        chatId: '123',
+        content: 'Hel',
+        stream: { id: 's1', done: false },
+      });
+      await bus.publishOutbound({
+        channel: 'test',
+        chatId: '123',
+        content: 'Hello!',
+        stream: { id: 's1', done: true },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(channel.sentMessages).toHaveLength(1);
+      expect(channel.sentMessages[0]?.content).toBe('Hello!');
+
+      await manager.stopAll();
+    });
+
+    it('should dispatch every stream update to streaming channels', async () => {
+      const config = ConfigSchema.parse({});
+      const manager = new ChannelManager(config, bus);
+
+      const channel = Object.assign(new MockChannel('test'), { supportsStreaming: true });
+      manager.registerChannel(channel);
+
+      const startPromise = manager.startAll();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      await bus.publishOutbound({
+        channel: 'test',
+        chatId: '123',
+        content: 'Hel',
+        stream: { id: 's1', done: false },
+      });
+      await bus.publishOutbound({
+        channel: 'test',
+        chatId: '123',
+        content: 'Hello!',
+        stream: { id: 's1', done: true },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(channel.sentMessages).toHaveLength(2);
+
+      await manager.stopAll();
+    });
+  });
+
+  describe('requestApproval', () => {
+    const request = { tool: 'exec', params: { command: 'rm -rf build' }, channel: 'test', chatId: '123' };
+
+    it('should deny when the channel cannot show approval prompts', async () => {
+      const config = ConfigSchema.parse({});
+      const manager = new ChannelManager(config, bus);
+      manager.registerChannel(new MockChannel('test'));
+
+      const decision = await manager.requestApproval(request, 1000);
+
+      expect(decision.approved).toBe(false);
+      expect(decision.reason).toContain("'test' channel");
+    });
+
+    it('should ask through the approval broker', async () => {
+      const config = ConfigSchema.parse({});
+      const manager = new ChannelManager(config, bus);
+      manager.registerChannel(Object.assign(new MockChannel('test'), { supportsApproval: true }));
+
+      const decision = manager.requestApproval(request, 1000);
+      const prompt = await bus.consumeOutbound();
+      expect(bus.approvals.resolveFromReply('test', '123', 'user1', 'yes')).toBe(true);
+
+      expect(prompt.content).toContain('rm -rf build');
+      expect(await decision).toEqual({ approved: true });
+    });
+
+    it('should let configured approvers decide for the sender', async () => {
+      const config = ConfigSchema.parse({ tools: { approval: { approvers: ['admin'] } } });
+      const manager = new ChannelManager(config, bus);
+      manager.registerChannel(Object.assign(new MockChannel('test'), { supportsApproval: true }));
+
+      const decision = manager.requestApproval({ ...request, senderId: 'user1' }, 1000);
+      await bus.consumeOutbound();
+      expect(bus.approvals.resolveFromReply('test', '123', 'user2', 'yes')).toBe(false);
+      expect(bus.approvals.resolveFromReply('test', '123', 'admin', 'no')).toBe(true);
+
+      expect((await decision).approved).toBe(false);
+    });
   });
 });
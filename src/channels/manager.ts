@@ -3,6 +3,7 @@
  */
 
 import type { MessageBus } from '../bus/queue.js';
+import type { ApprovalDecision, ApprovalRequest } from '../bus/approvals.js';
 import type { Config } from '../config/schema.js';
 import type { Channel } from './base.js';
 import { TelegramChannel } from './telegram.js';
@@ -129,6 +130,10 @@ export class ChannelManager {
 
         const channel = this.channels.get(msg.channel);
         if (channel) {
+          // Channels that can't edit messages only get the final text
+          if (msg.stream && !msg.stream.done && !channel.supportsStreaming) {
+            continue;
+          }
           try {
             await channel.send(msg);
           } catch (error) {
@@ -166,6 +171,27 @@ export class ChannelManager {
     return status;
   }
 
+  /**
+   * Ask the originating chat to approve a tool call.
+   *
+   * Requests from channels that cannot show approval prompts (the CLI,
+   * cron jobs, the heartbeat) are denied. The configured approvers may
+   * decide besides the sender who asked.
+   *
+   * @param request - The tool call to approve.
+   * @param timeoutMs - How long to wait for a decision.
+   */
+  async requestApproval(request: ApprovalRequest, timeoutMs: number): Promise<ApprovalDecision> {
+    const channel = this.channels.get(request.channel);
+    if (!channel?.supportsApproval) {
+      return {
+        approved: false,
+        reason: `approval is not available on the '${request.channel}' channel`,
+      };
+    }
+    return this.bus.approvals.request(request, timeoutMs, this.config.tools.approval.approvers);
+  }
+
   /**
    * Get list of enabled channel names.
    */
@@ -2,8 +2,8 @@
  * Tests for Telegram channel.
  */
 
-import { describe, it, expect } from 'vitest';
-import { TelegramChannel } from './telegram.js';
+import { describe, it, expect, vi } from 'vitest';
+import { TelegramChannel, splitMessage } from './telegram.js';
 import { MessageBus } from '../bus/queue.js';
 import { TelegramConfigSchema } from '../config/schema.js';
 
@@ -37,6 +37,41 @@ describe('TelegramChannel', () => {
     // Channel inherits isAllowed from BaseChannel
     expect(channel.name).toBe('telegram');
   });
+
+  it('should continue a long streamed reply in new messages', async () => {
+    const channel = new TelegramChannel(TelegramConfigSchema.parse({}), new MessageBus());
+    const telegram = {
+      sendMessage: vi.fn(async () => ({ message_id: 7 })),
+      editMessageText: vi.fn(async () => true),
+    };
+    (channel as unknown as { bot: unknown }).bot = { telegram };
+    const reply = `${'a'.repeat(4000)}\n${'b'.repeat(3000)}`;
+
+    const chat = { channel: 'telegram', chatId: '42' };
+    await channel.send({ ...chat, content: 'aaa', stream: { id: 's1', done: false } });
+    await channel.send({ ...chat, content: reply, stream: { id: 's1', done: true } });
+
+    expect(telegram.editMessageText).toHaveBeenCalledTimes(1);
+    expect(telegram.editMessageText).toHaveBeenCalledWith(42, 7, undefined, 'a'.repeat(4000), {
+      parse_mode: 'HTML',
+    });
+    expect(telegram.sendMessage).toHaveBeenCalledTimes(2);
+    expect(telegram.sendMessage).toHaveBeenLastCalledWith(42, 'b'.repeat(3000), {
+      parse_mode: 'HTML',
+    });
+  });
+});
+
+describe('splitMessage', () => {
+  it('should keep short text whole', () => {
+    expect(splitMessage('Hello')).toEqual(['Hello']);
+  });
+
+  it('should break long text at a line, then a space, then anywhere', () => {
+    expect(splitMessage('aaaa\nbbb cc', 8)).toEqual(['aaaa', 'bbb cc']);
+    expect(splitMessage('aaaaa bbbbbb', 8)).toEqual(['aaaaa', 'bbbbbb']);
+    expect(splitMessage('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
 });
 
 describe('markdownToTelegramHtml', () => {
@@ -4,7 +4,8 @@
 
 import { Telegraf, Context } from 'telegraf';
 import type { Message } from 'telegraf/types';
-import type { OutboundMessage } from '../bus/events.js';
+import type { OutboundMessage, OutboundStreamState } from '../bus/events.js';
+import type { ApprovalPromptMetadata } from '../bus/approvals.js';
 import type { MessageBus } from '../bus/queue.js';
 import type { TelegramConfig } from '../config/schema.js';
 import { BaseChannel } from './base.js';
@@ -106,12 +107,51 @@ function getExtension(mediaType: string, mimeType?: string): string {
   return typeMap[mediaType] ?? '';
 }
 
+/**
+ * Telegram's maximum message length.
+ */
+const MAX_MESSAGE_LENGTH = 4096;
+
+/**
+ * Split text into parts that fit in a Telegram message, breaking at a
+ * line or a space where possible.
+ */
+export function splitMessage(text: string, maxLength = MAX_MESSAGE_LENGTH): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    let cut = window.lastIndexOf('\n');
+    if (cut < maxLength / 2) {
+      cut = window.lastIndexOf(' ');
+    }
+    if (cut < maxLength / 2) {
+      cut = maxLength;
+    }
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^[\n ]/, '');
+  }
+  parts.push(rest);
+  return parts;
+}
+
+/**
+ * A streamed reply being edited in place.
+ */
+interface StreamedReply {
+  messageId: number;
+  text: string;
+}
+
 /**
  * Telegram channel using Telegraf with long polling.
  */
 export class TelegramChannel extends BaseChannel {
   readonly name = 'telegram';
+  readonly supportsStreaming = true;
+  readonly supportsApproval = true;
   private bot: Telegraf | null = null;
+  private streams: Map<string, StreamedReply> = new Map();
   private telegramConfig: TelegramConfig;
   private transcriber: GroqTranscriptionProvider | null = null;
   private mediaDir: string;
@@ -164,6 +204,30 @@ export class TelegramChannel extends BaseChannel {
       await this.handleTelegramMessage(ctx);
     });
 
+    // Handle Approve/Deny buttons on tool call approval prompts
+    this.bot.action(/^approval:(approve|deny):(.+)$/, async (ctx) => {
+      const user = ctx.from;
+      const senderId = user.username ? `${user.id}|${user.username}` : String(user.id);
+      if (!this.isAllowed(senderId)) {
+        await ctx.answerCbQuery('Not allowed');
+        return;
+      }
+
+      const id = ctx.match[2] ?? '';
+      if (!this.bus.approvals.mayDecide(id, senderId)) {
+        await ctx.answerCbQuery('Only the person who asked can decide');
+        return;
+      }
+
+      const approved = ctx.match[1] === 'approve';
+      const pending = this.bus.approvals.resolve(id, approved, senderId);
+      await ctx.answerCbQuery(pending ? (approved ? 'Approved' : 'Denied') : 'This request has expired');
+      await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+      if (pending) {
+        await ctx.reply(approved ? '✅ Approved' : '❌ Denied');
+      }
+    });
+
     console.log('Starting Telegram bot (polling mode)...');
 
     try {
@@ -202,21 +266,116 @@ export class TelegramChannel extends BaseChannel {
         return;
       }
 
-      const htmlContent = markdownToTelegramHtml(msg.content);
+      if (msg.stream) {
+        await this.sendStreamUpdate(chatId, msg.content, msg.stream);
+        return;
+      }
 
-      try {
-        await this.bot.telegram.sendMessage(chatId, htmlContent, {
-          parse_mode: 'HTML',
+      const approval = msg.metadata?.['approval'] as ApprovalPromptMetadata | undefined;
+      if (approval) {
+        await this.bot.telegram.sendMessage(chatId, msg.content, {
+          reply_markup: {
+            inline_keyboard: [
+              [
+                { text: '✅ Approve', callback_data: `approval:approve:${approval.id}` },
+                { text: '❌ Deny', callback_data: `approval:deny:${approval.id}` },
+              ],
+            ],
+          },
         });
-      } catch {
-        // Fallback to plain text if HTML parsing fails
-        await this.bot.telegram.sendMessage(chatId, msg.content);
+        return;
       }
+
+      await this.sendFormatted(chatId, msg.content);
     } catch (error) {
       console.error('Error sending Telegram message:', error);
     }
   }
 
+  /**
+   * Send a message as HTML, falling back to plain text, in as many
+   * messages as its length needs.
+   */
+  private async sendFormatted(chatId: number, content: string): Promise<void> {
+    for (const part of splitMessage(content)) {
+      await this.sendFormattedPart(chatId, part);
+    }
+  }
+
+  private async sendFormattedPart(chatId: number, content: string): Promise<void> {
+    if (!this.bot) return;
+
+    const htmlContent = markdownToTelegramHtml(content);
+
+    try {
+      await this.bot.telegram.sendMessage(chatId, htmlContent, {
+        parse_mode: 'HTML',
+      });
+    } catch {
+      // Fallback to plain text if HTML parsing fails
+      await this.bot.telegram.sendMessage(chatId, content);
+    }
+  }
+
+  /**
+   * Apply a streamed reply update by editing a placeholder message.
+   *
+   * The first update sends the placeholder, intermediate updates edit it
+   * as plain text (partial markdown may not render), and the final update
+   * edits it into formatted HTML. A final reply too long for one message
+   * fills the placeholder and continues in new messages.
+   */
+  private async sendStreamUpdate(
+    chatId: number,
+    content: string,
+    stream: OutboundStreamState
+  ): Promise<void> {
+    if (!this.bot) return;
+
+    const key = `${chatId}:${stream.id}`;
+    const reply = this.streams.get(key);
+
+    if (!reply) {
+      if (stream.done) {
+        await this.sendFormatted(chatId, content);
+        return;
+      }
+      const text = content.slice(0, MAX_MESSAGE_LENGTH) || '…';
+      const placeholder = await this.bot.telegram.sendMessage(chatId, text);
+      this.streams.set(key, { messageId: placeholder.message_id, text });
+      return;
+    }
+
+    if (!stream.done) {
+      const text = content.slice(0, MAX_MESSAGE_LENGTH);
+      if (!text || text === reply.text) return;
+      await this.bot.telegram.editMessageText(chatId, reply.messageId, undefined, text);
+      reply.text = text;
+      return;
+    }
+
+    this.streams.delete(key);
+
+    const [first = '', ...rest] = splitMessage(content);
+    try {
+      await this.bot.telegram.editMessageText(
+        chatId,
+        reply.messageId,
+        undefined,
+        markdownToTelegramHtml(first),
+        { parse_mode: 'HTML' }
+      );
+    } catch {
+      if (first !== reply.text) {
+        // Fallback to plain text if HTML parsing fails
+        await this.bot.telegram.editMessageText(chatId, reply.messageId, undefined, first);
+      }
+    }
+    for (const part of rest) {
+      await this.sendFormattedPart(chatId, part);
+    }
+  }
+
   private async handleTelegramMessage(ctx: Context): Promise<void> {
     const message = ctx.message as Message.TextMessage | Message.PhotoMessage | Message.VoiceMessage | Message.DocumentMessage | undefined;
     const user = ctx.from;
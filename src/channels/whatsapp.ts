@@ -30,6 +30,7 @@ interface BridgeMessage {
  */
 export class WhatsAppChannel extends BaseChannel {
   readonly name = 'whatsapp';
+  readonly supportsApproval = true;
   private ws: WebSocket | null = null;
   private connected = false;
   private whatsappConfig: WhatsAppConfig;
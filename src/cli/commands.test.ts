@@ -48,6 +48,24 @@ describe('CLI', () => {
       const commands = program.commands.map((c) => c.name());
       expect(commands).toContain('cron');
     });
+
+    it('should have mcp command', () => {
+      const program = buildProgram();
+      const commands = program.commands.map((c) => c.name());
+      expect(commands).toContain('mcp');
+    });
+
+    it('should have usage command', () => {
+      const program = buildProgram();
+      const commands = program.commands.map((c) => c.name());
+      expect(commands).toContain('usage');
+    });
+
+    it('should have ollama models subcommand', () => {
+      const program = buildProgram();
+      const ollama = program.commands.find((c) => c.name() === 'ollama');
+      expect(ollama?.commands.map((c) => c.name())).toContain('models');
+    });
   });
 
   describe('gateway command', () => {
@@ -88,6 +106,15 @@ describe('CLI', () => {
       expect(sessionOption).toBeDefined();
       expect(sessionOption?.defaultValue).toBe('cli:default');
     });
+
+    it('should have agent option with default', () => {
+      const program = buildProgram();
+      const agent = program.commands.find((c) => c.name() === 'agent');
+
+      const agentOption = agent?.options.find((o) => o.long === '--agent');
+      expect(agentOption).toBeDefined();
+      expect(agentOption?.defaultValue).toBe('default');
+    });
   });
 
   describe('channels subcommands', () => {
@@ -142,5 +169,30 @@ describe('CLI', () => {
       const subcommands = cron?.commands.map((c) => c.name());
       expect(subcommands).toContain('run');
     });
+
+    it('should have preview subcommand', () => {
+      const program = buildProgram();
+      const cron = program.commands.find((c) => c.name() === 'cron');
+
+      const subcommands = cron?.commands.map((c) => c.name());
+      expect(subcommands).toContain('preview');
+    });
+
+    it('should have history subcommand', () => {
+      const program = buildProgram();
+      const cron = program.commands.find((c) => c.name() === 'cron');
+
+      const subcommands = cron?.commands.map((c) => c.name());
+      expect(subcommands).toContain('history');
+    });
+
+    it('should have when option on add', () => {
+      const program = buildProgram();
+      const cron = program.commands.find((c) => c.name() === 'cron');
+      const add = cron?.commands.find((c) => c.name() === 'add');
+
+      const whenOption = add?.options.find((o) => o.long === '--when');
+      expect(whenOption).toBeDefined();
+    });
   });
 });
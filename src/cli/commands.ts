@@ -8,15 +8,62 @@ import { existsSync } from 'node:fs';
 import { mkdir, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { loadConfig, saveConfig, getConfigPath, getDataDir } from '../config/loader.js';
-import { createDefaultConfig, getWorkspacePathFromConfig, getApiKey } from '../config/schema.js';
-import { getWorkspacePath } from '../utils/helpers.js';
+import {
+  DEFAULT_AGENT_NAME,
+  createDefaultConfig,
+  getAgentNames,
+  getApiKey,
+  getWorkspacePathFromConfig,
+  resolveAgentConfig,
+  usesLocalProvider,
+} from '../config/schema.js';
+import type { Config, ResolvedAgentConfig } from '../config/schema.js';
+import { getSessionsPath, getUsageLedgerPath, getWorkspacePath } from '../utils/helpers.js';
 import { MessageBus } from '../bus/queue.js';
-import { createProviderFromConfig } from '../providers/factory.js';
-import { AgentLoop } from '../agent/loop.js';
+import { createFallbackProviderFromConfig, createOllamaProvider } from '../providers/factory.js';
+import { OLLAMA_BASE_URL, type OllamaModel } from '../providers/ollama.js';
+import type { LLMProvider } from '../providers/base.js';
+import { AgentLoop, type AgentLoopOptions } from '../agent/loop.js';
+import { AgentRouter } from '../agent/router.js';
 import { ChannelManager } from '../channels/manager.js';
 import { CronService } from '../cron/service.js';
-import { HeartbeatService } from '../heartbeat/service.js';
-import type { CronJob, CronSchedule } from '../cron/types.js';
+import {
+  CronExpressionError,
+  formatCronTime,
+  getLocalTimezone,
+  getNextCronRun,
+  getNextCronRuns,
+  parseCronExpression,
+  type CronExpression,
+} from '../cron/expression.js';
+import { ScheduleParseError, parseNaturalSchedule } from '../cron/natural.js';
+import {
+  McpManager,
+  createIngeniumMcpServer,
+  serveStdio,
+  type IngeniumToolsOptions,
+} from '../mcp/index.js';
+import { MemoryStore } from '../agent/memory.js';
+import { SessionManager } from '../session/manager.js';
+import { HeartbeatDecisionSchema, HeartbeatService } from '../heartbeat/service.js';
+import { GatewayServer, type GatewayServerOptions } from '../gateway/server.js';
+import { ToolPolicy, type ApprovalHandler } from '../agent/tools/policy.js';
+import { formatToolCall, parseApprovalReply } from '../bus/approvals.js';
+import {
+  formatCronSchedule,
+  getCronDeliveryTarget,
+  type CronJob,
+  type CronMisfirePolicy,
+  type CronSchedule,
+} from '../cron/types.js';
+import {
+  UsageLedger,
+  UsageTracker,
+  formatLocalDate,
+  getUsageChannel,
+  summarizeUsage,
+  type UsageSummaryRow,
+} from '../usage/index.js';
 
 const VERSION = '1.0.0';
 const LOGO = '🤖';
@@ -106,6 +153,80 @@ This file stores important information that should persist across sessions.
   await mkdir(skillsDir, { recursive: true });
 }
 
+/**
+ * Create the usage tracker from config.
+ */
+function createUsageTracker(config: Config): UsageTracker {
+  return new UsageTracker({
+    ledger: new UsageLedger(getUsageLedgerPath()),
+    prices: config.usage.prices,
+    budget: config.usage.budget,
+  });
+}
+
+/**
+ * Services shared by all agents in a process.
+ */
+interface SharedAgentServices {
+  bus: MessageBus;
+  provider: LLMProvider;
+  approvalHandler: ApprovalHandler;
+  usage: UsageTracker;
+  mcp: McpManager;
+  /** Jobs the agents schedule with the cron tool */
+  cron?: CronService;
+}
+
+/**
+ * Build the options for one agent from config.
+ *
+ * Named agents keep their sessions under sessions/agents/<name>, so each
+ * agent has its own history of a chat.
+ */
+function buildAgentOptions(
+  config: Config,
+  agent: ResolvedAgentConfig,
+  shared: SharedAgentServices
+): AgentLoopOptions {
+  const defaults = config.agents.defaults;
+  const options: AgentLoopOptions = {
+    ...shared,
+    name: agent.name,
+    workspace: agent.workspace,
+    model: agent.model,
+    maxIterations: agent.maxToolIterations,
+    temperature: agent.temperature,
+    maxTokens: agent.maxTokens,
+    reasoning: agent.reasoning,
+    showReasoning: agent.showReasoning,
+    overrides: config.agents.overrides,
+    models: defaults.models,
+    maxParallelTools: defaults.maxParallelTools,
+    streaming: defaults.streaming,
+    toolHistory: defaults.toolHistory,
+    toolPolicy: new ToolPolicy(config.tools.approval.rules),
+    filesystem: config.tools.filesystem,
+    exec: config.tools.exec,
+  };
+  if (agent.name !== DEFAULT_AGENT_NAME) {
+    options.sessionsDir = join(getSessionsPath(), 'agents', agent.name);
+  }
+  if (agent.systemPrompt !== undefined) {
+    options.systemPrompt = agent.systemPrompt;
+  }
+  if (agent.tools !== undefined) {
+    options.tools = agent.tools;
+  }
+  if (defaults.contextWindow !== null) {
+    options.contextWindow = defaults.contextWindow;
+  }
+  const braveKey = config.tools.web.search.apiKey;
+  if (braveKey) {
+    options.braveApiKey = braveKey;
+  }
+  return options;
+}
+
 /**
  * Onboard command - Initialize ingenium configuration and workspace.
  */
@@ -157,16 +278,16 @@ async function onboardCommand(): Promise<void> {
  */
 async function gatewayCommand(options: {
   port: string;
+  portFromConfig: boolean;
   verbose: boolean;
 }): Promise<void> {
-  const port = parseInt(options.port, 10);
-  console.log(`${LOGO} Starting ingenium gateway on port ${port}...`);
-
   const config = await loadConfig();
+  const port = options.portFromConfig ? config.gateway.port : parseInt(options.port, 10);
+  console.log(`${LOGO} Starting ingenium gateway on port ${port}...`);
 
   // Check for API key
   const apiKey = getApiKey(config);
-  if (!apiKey) {
+  if (!apiKey && !usesLocalProvider(config)) {
     console.error('Error: No API key configured.');
     console.error('Set one in ~/.ingenium/config.json under providers.openrouter.apiKey');
     process.exit(1);
@@ -176,7 +297,7 @@ async function gatewayCommand(options: {
   const bus = new MessageBus();
 
   // Create provider
-  const provider = createProviderFromConfig(config);
+  const provider = createFallbackProviderFromConfig(config);
   if (!provider) {
     console.error('Error: Could not create LLM provider.');
     process.exit(1);
@@ -184,38 +305,23 @@ async function gatewayCommand(options: {
 
   const workspace = getWorkspacePathFromConfig(config);
 
-  // Create agent
-  const agentOptions: {
-    bus: MessageBus;
-    provider: typeof provider;
-    workspace: string;
-    model: string;
-    maxIterations: number;
-    braveApiKey?: string;
-  } = {
-    bus,
-    provider,
-    workspace,
-    model: config.agents.defaults.model,
-    maxIterations: config.agents.defaults.maxToolIterations,
-  };
-  const braveKey = config.tools.web.search.apiKey;
-  if (braveKey) {
-    agentOptions.braveApiKey = braveKey;
-  }
-  const agent = new AgentLoop(agentOptions);
+  // Create channel manager
+  const channels = new ChannelManager(config, bus);
+
+  // Connect to MCP servers before the agents register their tools
+  const mcp = new McpManager({ servers: config.tools.mcp.servers });
+  await mcp.start();
 
-  // Create cron service
+  // Create cron service before the agents, so they can schedule jobs
   const cronStorePath = join(getDataDir(), 'cron', 'jobs.json');
   const cronJobCallback = async (job: CronJob): Promise<string | null> => {
-    const response = await agent.processDirect(job.payload.message, `cron:${job.id}`);
+    // Jobs run on the agent that scheduled them, with its tools and policy
+    const jobAgent = router.routeCronJob(job);
+    const response = await jobAgent.processDirect(job.payload.message, `cron:${job.id}`, 'cron');
     // Optionally deliver to channel
-    if (job.payload.deliver && job.payload.to) {
-      await bus.publishOutbound({
-        channel: job.payload.channel ?? 'whatsapp',
-        chatId: job.payload.to,
-        content: response || '',
-      });
+    const target = getCronDeliveryTarget(job.payload);
+    if (target) {
+      await bus.publishOutbound({ ...target, content: response || '' });
     }
     return response;
   };
@@ -225,27 +331,70 @@ async function gatewayCommand(options: {
     onJob: cronJobCallback,
   });
 
+  // Create agents, asking the originating chat to approve risky tool calls
+  const approvalTimeoutMs = config.tools.approval.timeout * 1000;
+  const shared: SharedAgentServices = {
+    bus,
+    provider,
+    approvalHandler: (request) => channels.requestApproval(request, approvalTimeoutMs),
+    usage: createUsageTracker(config),
+    mcp,
+    cron,
+  };
+  const agents = new Map<string, AgentLoop>();
+  for (const name of getAgentNames(config)) {
+    const agentConfig = resolveAgentConfig(config, name);
+    if (agentConfig) {
+      agents.set(name, new AgentLoop(buildAgentOptions(config, agentConfig, shared)));
+    }
+  }
+  const router = new AgentRouter({
+    bus,
+    agents,
+    routes: config.agents.routes,
+    defaultAgent: DEFAULT_AGENT_NAME,
+  });
+  const agent = router.defaultAgent;
+
   // Create heartbeat service
   const heartbeatCallback = async (prompt: string): Promise<string> => {
-    return agent.processDirect(prompt, 'heartbeat');
+    return agent.processDirect(prompt, 'heartbeat', 'heartbeat');
   };
 
   const heartbeat = new HeartbeatService({
     workspace,
     onHeartbeat: heartbeatCallback,
+    onDecide: (prompt) =>
+      agent.processStructured(prompt, HeartbeatDecisionSchema, 'heartbeat', 'heartbeat'),
     intervalMs: 30 * 60 * 1000, // 30 minutes
     enabled: true,
   });
 
-  // Create channel manager
-  const channels = new ChannelManager(config, bus);
-
   if (channels.enabledChannels.length > 0) {
     console.log(`✓ Channels enabled: ${channels.enabledChannels.join(', ')}`);
   } else {
     console.log('Warning: No channels enabled');
   }
 
+  // Create HTTP API server
+  const serverOptions: GatewayServerOptions = {
+    config: config.gateway,
+    bus,
+    sessions: agent.sessions,
+    cron,
+    channels,
+    port,
+  };
+  if (config.gateway.mcp) {
+    serverOptions.mcp = createIngeniumMcpServer({
+      bus,
+      memory: agent.context.memory,
+      sessions: agent.sessions,
+      cron,
+    });
+  }
+  const server = new GatewayServer(serverOptions);
+
   const cronStatus = cron.status();
   if (cronStatus.jobs > 0) {
     console.log(`✓ Cron: ${cronStatus.jobs} scheduled jobs`);
@@ -261,8 +410,10 @@ async function gatewayCommand(options: {
     console.log('\nShutting down...');
     heartbeat.stop();
     cron.stop();
-    agent.stop();
+    await server.stop();
+    router.stop();
     await channels.stopAll();
+    await mcp.stop();
     process.exit(0);
   };
 
@@ -272,9 +423,14 @@ async function gatewayCommand(options: {
   // Start services
   await cron.start();
   await heartbeat.start();
+  await server.start();
+  console.log(`✓ HTTP API: http://${server.host}:${server.port}`);
+  if (serverOptions.mcp) {
+    console.log(`✓ MCP server: http://${server.host}:${server.port}/mcp`);
+  }
 
   // Run agent and channels (these block)
-  await Promise.all([agent.run(), channels.startAll()]);
+  await Promise.all([router.run(), channels.startAll()]);
 }
 
 /**
@@ -283,53 +439,69 @@ async function gatewayCommand(options: {
 async function agentCommand(options: {
   message?: string;
   session: string;
+  agent: string;
 }): Promise<void> {
   const config = await loadConfig();
 
   const apiKey = getApiKey(config);
-  if (!apiKey) {
+  if (!apiKey && !usesLocalProvider(config)) {
     console.error('Error: No API key configured.');
     process.exit(1);
   }
 
   const bus = new MessageBus();
-  const provider = createProviderFromConfig(config);
+  const provider = createFallbackProviderFromConfig(config);
   if (!provider) {
     console.error('Error: Could not create LLM provider.');
     process.exit(1);
   }
 
-  const workspace = getWorkspacePathFromConfig(config);
+  // Approval prompts are answered on the terminal
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const approvalHandler: ApprovalHandler = (request) =>
+    new Promise((resolve) => {
+      console.log(`\n⚠️  Approval needed\n${formatToolCall(request.tool, request.params)}`);
+      rl.question('Allow? [y/N] ', (answer) => {
+        resolve(
+          parseApprovalReply(answer) === true
+            ? { approved: true }
+            : { approved: false, reason: 'Denied by the user' }
+        );
+      });
+    });
 
-  const agentOpts: {
-    bus: MessageBus;
-    provider: typeof provider;
-    workspace: string;
-    braveApiKey?: string;
-  } = {
-    bus,
-    provider,
-    workspace,
-  };
-  const agentBraveKey = config.tools.web.search.apiKey;
-  if (agentBraveKey) {
-    agentOpts.braveApiKey = agentBraveKey;
+  const agentConfig = resolveAgentConfig(config, options.agent);
+  if (!agentConfig) {
+    console.error(`Error: Unknown agent '${options.agent}'.`);
+    console.error(`Available agents: ${getAgentNames(config).join(', ')}`);
+    process.exit(1);
   }
-  const agent = new AgentLoop(agentOpts);
+  const mcp = new McpManager({ servers: config.tools.mcp.servers });
+  await mcp.start();
+  const agent = new AgentLoop(
+    buildAgentOptions(config, agentConfig, {
+      bus,
+      provider,
+      approvalHandler,
+      usage: createUsageTracker(config),
+      mcp,
+    })
+  );
 
   if (options.message) {
     // Single message mode
     const response = await agent.processDirect(options.message, options.session);
     console.log(`\n${LOGO} ${response}`);
+    agent.stop();
+    rl.close();
+    await mcp.stop();
   } else {
     // Interactive mode
     console.log(`${LOGO} Interactive mode (Ctrl+C to exit)\n`);
 
-    const rl = createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
-
     const prompt = (): void => {
       rl.question('You: ', async (input) => {
         const trimmed = input.trim();
@@ -353,12 +525,47 @@ async function agentCommand(options: {
 
     // Handle exit
     rl.on('close', () => {
+      agent.stop();
       console.log('\nGoodbye!');
-      process.exit(0);
+      void mcp.stop().finally(() => process.exit(0));
     });
   }
 }
 
+/**
+ * MCP command - Serve ingenium's tools to MCP clients over stdio.
+ *
+ * Channels are only started on request: a running gateway already polls
+ * them, and two processes cannot share a Telegram bot. Clients of a
+ * running gateway should use its /mcp endpoint to send messages.
+ */
+async function mcpCommand(options: { channels: boolean }): Promise<void> {
+  // stdout carries the protocol, so log to stderr
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+
+  const config = await loadConfig();
+  const workspace = getWorkspacePathFromConfig(config);
+  const toolsOptions: IngeniumToolsOptions = {
+    memory: new MemoryStore(workspace),
+    sessions: new SessionManager(workspace),
+    cron: new CronService({ storePath: join(getDataDir(), 'cron', 'jobs.json') }),
+  };
+
+  let channels: ChannelManager | null = null;
+  if (options.channels) {
+    const bus = new MessageBus();
+    channels = new ChannelManager(config, bus);
+    void channels.startAll();
+    toolsOptions.bus = bus;
+  }
+
+  await serveStdio(createIngeniumMcpServer(toolsOptions));
+  await channels?.stopAll();
+  process.exit(0);
+}
+
 /**
  * Status command - Show ingenium status.
  */
@@ -391,6 +598,11 @@ async function statusCommand(): Promise<void> {
     console.log(`Gemini API: ${hasGemini ? '✓' : 'not set'}`);
     const vllmStatus = hasVllm ? `✓ ${config.providers.vllm.apiBase}` : 'not set';
     console.log(`vLLM/Local: ${vllmStatus}`);
+    console.log(`Ollama: ${config.providers.ollama.apiBase ?? OLLAMA_BASE_URL}`);
+
+    const mcpServers = config.tools.mcp.servers.filter((server) => server.enabled);
+    const mcpNames = mcpServers.map((server) => server.name).join(', ');
+    console.log(`MCP servers: ${mcpServers.length > 0 ? mcpNames : 'none'}`);
   }
 }
 
@@ -411,6 +623,114 @@ async function channelsStatusCommand(): Promise<void> {
   console.log(`Telegram   ${tg.enabled ? '✓' : '✗'}          (bot token)`);
 }
 
+/**
+ * Ollama models command - List local models and whether they support tools.
+ */
+async function ollamaModelsCommand(): Promise<void> {
+  const config = await loadConfig();
+  const provider = createOllamaProvider(config);
+  const server = config.providers.ollama.apiBase ?? OLLAMA_BASE_URL;
+
+  let models: OllamaModel[];
+  try {
+    models = await provider.listModels();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: Could not reach Ollama at ${server}: ${message}`);
+    process.exit(1);
+  }
+
+  if (models.length === 0) {
+    console.log(`No models installed on ${server}. Pull one with: ollama pull llama3.2`);
+    return;
+  }
+
+  console.log(`Ollama models on ${server}\n`);
+  console.log(`${'Model'.padEnd(32)}${'Params'.padStart(8)}${'Size'.padStart(10)}  Tools`);
+  console.log('─'.repeat(60));
+  for (const model of models) {
+    let tools = '?';
+    try {
+      tools = (await provider.getCapabilities(model.name)).tools ? 'native' : 'text';
+    } catch {
+      // Leave unknown
+    }
+    const size = `${(model.size / 1e9).toFixed(1)} GB`;
+    console.log(
+      `${model.name.slice(0, 31).padEnd(32)}${(model.parameterSize ?? '').padStart(8)}` +
+        `${size.padStart(10)}  ${tools}`
+    );
+  }
+  console.log('\nUse a model with "model": "ollama/<name>" in agents.defaults.');
+}
+
+/**
+ * Print a usage summary table.
+ */
+function printUsageTable(keyHeader: string, rows: UsageSummaryRow[]): void {
+  console.log('');
+  console.log(`${keyHeader.padEnd(28)}${'Calls'.padStart(7)}${'Prompt'.padStart(12)}${'Completion'.padStart(12)}${'Cost'.padStart(11)}`);
+  console.log('─'.repeat(70));
+  for (const row of rows) {
+    // Calls without a known price are flagged, since their cost is missing
+    const cost = `$${row.cost.toFixed(4)}${row.unpricedCalls > 0 ? '*' : ''}`;
+    console.log(
+      `${row.key.slice(0, 27).padEnd(28)}${String(row.calls).padStart(7)}` +
+        `${String(row.promptTokens).padStart(12)}${String(row.completionTokens).padStart(12)}` +
+        `${cost.padStart(11)}`
+    );
+  }
+}
+
+/**
+ * Usage command - Report token usage and cost.
+ */
+async function usageCommand(options: { days: string }): Promise<void> {
+  const config = await loadConfig();
+  const days = parseInt(options.days, 10);
+  if (!Number.isInteger(days) || days < 1) {
+    console.error('Error: --days must be a positive number');
+    process.exit(1);
+  }
+
+  const now = new Date();
+  const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+  const tracker = createUsageTracker(config);
+  const records = await tracker.ledger.read(since);
+
+  console.log(`${LOGO} Usage since ${formatLocalDate(since)}`);
+  if (records.length === 0) {
+    console.log('\nNo usage recorded.');
+  } else {
+    printUsageTable('Day', summarizeUsage(records, (r) => formatLocalDate(new Date(r.timestamp))));
+    printUsageTable('Channel', summarizeUsage(records, getUsageChannel));
+    printUsageTable('Model', summarizeUsage(records, (r) => r.model));
+
+    const [total] = summarizeUsage(records, () => 'total');
+    if (total) {
+      console.log(
+        `\nTotal: ${total.calls} calls, ${total.promptTokens + total.completionTokens} tokens, $${total.cost.toFixed(4)}`
+      );
+      if (total.unpricedCalls > 0) {
+        console.log(`* ${total.unpricedCalls} calls used models without a price (set usage.prices)`);
+      }
+    }
+  }
+
+  const { daily, monthly } = config.usage.budget;
+  if (daily !== null || monthly !== null) {
+    const status = await tracker.getBudgetStatus();
+    const limit = (value: number | null): string => (value === null ? 'no limit' : `$${value.toFixed(2)}`);
+    console.log(
+      `\nBudget: today $${status.spentToday.toFixed(2)} of ${limit(daily)}, ` +
+        `this month $${status.spentThisMonth.toFixed(2)} of ${limit(monthly)}`
+    );
+    if (status.exceeded) {
+      console.log(`The ${status.exceeded} budget is exhausted (action: ${config.usage.budget.action})`);
+    }
+  }
+}
+
 /**
  * Cron list command.
  */
@@ -426,34 +746,32 @@ async function cronListCommand(options: { all: boolean }): Promise<void> {
   }
 
   console.log('Scheduled Jobs\n');
-  console.log('ID        Name                Schedule         Status    Next Run');
-  console.log('─'.repeat(75));
+  console.log(
+    `${'ID'.padEnd(10)}${'Name'.padEnd(20)}${'Schedule'.padEnd(36)}${'Status'.padEnd(10)}Next Run`
+  );
+  console.log('─'.repeat(103));
 
   for (const job of jobs) {
-    let scheduleStr: string;
-    if (job.schedule.kind === 'every') {
-      const seconds = (job.schedule.everyMs ?? 0) / 1000;
-      scheduleStr = `every ${seconds}s`;
-    } else if (job.schedule.kind === 'cron') {
-      scheduleStr = job.schedule.expr ?? '';
-    } else {
-      scheduleStr = 'one-time';
-    }
+    const scheduleStr = job.schedule.kind === 'at' ? 'one-time' : formatCronSchedule(job.schedule);
 
     let nextRun = '';
     if (job.state.nextRunAtMs) {
-      const date = new Date(job.state.nextRunAtMs);
-      nextRun = date.toISOString().slice(0, 16).replace('T', ' ');
+      nextRun = formatCronTime(job.state.nextRunAtMs, job.schedule.tz ?? getLocalTimezone());
     }
 
     const status = job.enabled ? 'enabled' : 'disabled';
-    const name = job.name.slice(0, 18).padEnd(18);
-    const sched = scheduleStr.slice(0, 16).padEnd(16);
+    const name = job.name.slice(0, 18).padEnd(20);
+    const sched = scheduleStr.slice(0, 34).padEnd(36);
 
     console.log(`${job.id.padEnd(10)}${name}${sched}${status.padEnd(10)}${nextRun}`);
   }
 }
 
+/**
+ * Misfire policies accepted by `cron add`.
+ */
+const CRON_MISFIRE_POLICIES: CronMisfirePolicy[] = ['skip', 'run_once', 'run_all'];
+
 /**
  * Cron add command.
  */
@@ -462,40 +780,85 @@ async function cronAddCommand(options: {
   message: string;
   every?: string;
   cron?: string;
+  tz?: string;
   at?: string;
+  when?: string;
+  misfire: string;
   deliver: boolean;
   to?: string;
   channel?: string;
 }): Promise<void> {
+  if (!CRON_MISFIRE_POLICIES.includes(options.misfire as CronMisfirePolicy)) {
+    console.error(
+      `Error: --misfire must be one of ${CRON_MISFIRE_POLICIES.join(', ')}, got '${options.misfire}'`
+    );
+    process.exit(1);
+  }
+
   let schedule: CronSchedule;
 
   if (options.every) {
-    const seconds = parseInt(options.every, 10);
+    const seconds = Number(options.every);
+    if (!Number.isInteger(seconds) || seconds <= 0) {
+      console.error(`Error: --every must be a positive number of seconds, got '${options.every}'`);
+      process.exit(1);
+    }
     schedule = { kind: 'every', everyMs: seconds * 1000 };
   } else if (options.cron) {
     schedule = { kind: 'cron', expr: options.cron };
+    if (options.tz !== undefined) {
+      schedule.tz = options.tz;
+    }
+    try {
+      const expression = parseCronExpression(options.cron, options.tz);
+      if (getNextCronRun(expression, Date.now()) === undefined) {
+        console.error(`Error: '${options.cron}' never fires`);
+        process.exit(1);
+      }
+    } catch (error) {
+      if (error instanceof CronExpressionError) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+      throw error;
+    }
   } else if (options.at) {
-    const date = new Date(options.at);
-    schedule = { kind: 'at', atMs: date.getTime() };
+    const atMs = new Date(options.at).getTime();
+    if (isNaN(atMs)) {
+      console.error(`Error: Invalid date for --at: '${options.at}'`);
+      process.exit(1);
+    }
+    if (atMs <= Date.now()) {
+      console.error(`Error: ${options.at} is in the past`);
+      process.exit(1);
+    }
+    schedule = { kind: 'at', atMs };
+  } else if (options.when) {
+    try {
+      schedule = parseNaturalSchedule(
+        options.when,
+        options.tz !== undefined ? { tz: options.tz } : {}
+      );
+    } catch (error) {
+      if (error instanceof ScheduleParseError) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+      throw error;
+    }
   } else {
-    console.error('Error: Must specify --every, --cron, or --at');
+    console.error('Error: Must specify --every, --cron, --at or --when');
     process.exit(1);
   }
 
   const storePath = join(getDataDir(), 'cron', 'jobs.json');
   const service = new CronService({ storePath });
 
-  const jobOptions: {
-    name: string;
-    schedule: CronSchedule;
-    message: string;
-    deliver?: boolean;
-    to?: string;
-    channel?: string;
-  } = {
+  const jobOptions: Parameters<CronService['addJob']>[0] = {
     name: options.name,
     schedule,
     message: options.message,
+    misfire: options.misfire as CronMisfirePolicy,
   };
 
   if (options.deliver) {
@@ -510,6 +873,85 @@ async function cronAddCommand(options: {
 
   const job = await service.addJob(jobOptions);
   console.log(`✓ Added job '${job.name}' (${job.id})`);
+  console.log(`  Schedule: ${formatCronSchedule(job.schedule)}`);
+  if (job.state.nextRunAtMs !== undefined) {
+    const tz = job.schedule.tz ?? getLocalTimezone();
+    console.log(`  Next run: ${formatCronTime(job.state.nextRunAtMs, tz)}`);
+  }
+}
+
+/**
+ * Cron history command.
+ */
+async function cronHistoryCommand(jobId: string, options: { limit: string }): Promise<void> {
+  const limit = Number(options.limit);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    console.error(`Error: --limit must be a positive number, got '${options.limit}'`);
+    process.exit(1);
+  }
+
+  const storePath = join(getDataDir(), 'cron', 'jobs.json');
+  const service = new CronService({ storePath });
+
+  const runs = await service.getRunHistory(jobId, limit);
+  if (runs.length === 0) {
+    console.log(`No runs recorded for job ${jobId}.`);
+    return;
+  }
+
+  const formatTime = (ms: number): string =>
+    new Date(ms).toISOString().slice(0, 19).replace('T', ' ');
+
+  console.log(`Runs of job ${jobId}, latest last\n`);
+  console.log('Started              Trigger   Status   Duration  Delivered to');
+  console.log('─'.repeat(75));
+
+  for (const run of runs) {
+    const duration = `${(run.durationMs / 1000).toFixed(1)}s`;
+    console.log(
+      `${formatTime(run.startedAtMs).padEnd(21)}${run.trigger.padEnd(10)}` +
+        `${run.status.padEnd(9)}${duration.padEnd(10)}${run.deliveredTo ?? '-'}`
+    );
+    if (run.scheduledAtMs !== undefined && run.trigger === 'catchup') {
+      console.log(`  Was due at ${formatTime(run.scheduledAtMs)}`);
+    }
+    const detail = run.error ?? run.reason ?? run.output;
+    if (detail) {
+      console.log(`  ${detail.replace(/\s+/g, ' ').slice(0, 200)}`);
+    }
+  }
+}
+
+/**
+ * Cron preview command.
+ */
+function cronPreviewCommand(expr: string, options: { count: string; tz?: string }): void {
+  const count = Number(options.count);
+  if (!Number.isInteger(count) || count <= 0) {
+    console.error(`Error: --count must be a positive number, got '${options.count}'`);
+    process.exit(1);
+  }
+
+  let expression: CronExpression;
+  try {
+    expression = parseCronExpression(expr, options.tz);
+  } catch (error) {
+    if (error instanceof CronExpressionError) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const runs = getNextCronRuns(expression, Date.now(), count);
+  if (runs.length === 0) {
+    console.log(`'${expr}' never fires.`);
+    return;
+  }
+  console.log(`Next ${runs.length} runs of '${expr}' (${expression.tz}):\n`);
+  for (const run of runs) {
+    console.log(`  ${formatCronTime(run, expression.tz)}`);
+  }
 }
 
 /**
@@ -595,8 +1037,12 @@ export function buildProgram(): Command {
     .description('Start the ingenium gateway')
     .option('-p, --port <port>', 'Gateway port', '18790')
     .option('-v, --verbose', 'Verbose output', false)
-    .action((options: { port: string; verbose: boolean }) =>
-      void gatewayCommand(options)
+    .action((options: { port: string; verbose: boolean }, command: Command) =>
+      // Without an explicit --port, gateway.port from config applies
+      void gatewayCommand({
+        ...options,
+        portFromConfig: command.getOptionValueSource('port') === 'default',
+      })
     );
 
   // Agent command
@@ -605,10 +1051,18 @@ export function buildProgram(): Command {
     .description('Interact with the agent directly')
     .option('-m, --message <message>', 'Message to send to the agent')
     .option('-s, --session <session>', 'Session ID', 'cli:default')
-    .action((options: { message?: string; session: string }) =>
+    .option('-a, --agent <name>', 'Agent to talk to', DEFAULT_AGENT_NAME)
+    .action((options: { message?: string; session: string; agent: string }) =>
       void agentCommand(options)
     );
 
+  // MCP server command
+  program
+    .command('mcp')
+    .description("Serve ingenium's memory, sessions and cron jobs to MCP clients over stdio")
+    .option('-c, --channels', 'Start the channels so send_message can deliver', false)
+    .action((options: { channels: boolean }) => void mcpCommand(options));
+
   // Status command
   program
     .command('status')
@@ -623,6 +1077,21 @@ export function buildProgram(): Command {
     .description('Show channel status')
     .action(() => void channelsStatusCommand());
 
+  // Ollama subcommands
+  const ollamaCmd = program.command('ollama').description('Manage local Ollama models');
+
+  ollamaCmd
+    .command('models')
+    .description('List local models and their tool support')
+    .action(() => void ollamaModelsCommand());
+
+  // Usage command
+  program
+    .command('usage')
+    .description('Show token usage and cost by day, channel and model')
+    .option('-d, --days <days>', 'Number of days to include', '30')
+    .action((options: { days: string }) => void usageCommand(options));
+
   // Cron subcommands
   const cronCmd = program.command('cron').description('Manage scheduled tasks');
 
@@ -639,7 +1108,14 @@ export function buildProgram(): Command {
     .requiredOption('-m, --message <message>', 'Message for agent')
     .option('-e, --every <seconds>', 'Run every N seconds')
     .option('-c, --cron <expr>', "Cron expression (e.g. '0 9 * * *')")
+    .option('--tz <timezone>', "IANA timezone of --cron or --when (e.g. 'Europe/Paris')")
     .option('--at <time>', 'Run once at time (ISO format)')
+    .option('-w, --when <text>', "Schedule in plain English (e.g. 'every weekday at 9am')")
+    .option(
+      '--misfire <policy>',
+      'Runs missed while the gateway was down: skip, run_once or run_all',
+      'run_once'
+    )
     .option('-d, --deliver', 'Deliver response to channel', false)
     .option('--to <recipient>', 'Recipient for delivery')
     .option('--channel <channel>', "Channel for delivery (e.g. 'telegram')")
@@ -649,13 +1125,33 @@ export function buildProgram(): Command {
         message: string;
         every?: string;
         cron?: string;
+        tz?: string;
         at?: string;
+        when?: string;
+        misfire: string;
         deliver: boolean;
         to?: string;
         channel?: string;
       }) => void cronAddCommand(options)
     );
 
+  cronCmd
+    .command('history <jobId>')
+    .description("Show a job's recent runs")
+    .option('-l, --limit <limit>', 'Number of runs to show', '20')
+    .action((jobId: string, options: { limit: string }) =>
+      void cronHistoryCommand(jobId, options)
+    );
+
+  cronCmd
+    .command('preview <expr>')
+    .description('Show the next times a cron expression fires')
+    .option('-n, --count <count>', 'Number of runs to show', '5')
+    .option('--tz <timezone>', 'IANA timezone; the local timezone if not set')
+    .action((expr: string, options: { count: string; tz?: string }) =>
+      cronPreviewCommand(expr, options)
+    );
+
   cronCmd
     .command('remove <jobId>')
     .description('Remove a scheduled job')
@@ -2,7 +2,7 @@
  * Tests for configuration loader.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   camelToSnake,
   snakeToCamel,
@@ -10,8 +10,12 @@ import {
   convertKeysToCamel,
   getConfigPath,
   getDataDir,
+  loadConfig,
+  saveConfig,
 } from './loader.js';
-import { homedir } from 'node:os';
+import { resolveAgentConfig } from './schema.js';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
+import { homedir, tmpdir } from 'node:os';
 import { join } from 'node:path';
 
 describe('camelToSnake', () => {
@@ -148,6 +152,26 @@ describe('convertKeysToCamel', () => {
     });
   });
 
+  it('should keep the keys of user-keyed records', () => {
+    const output = convertKeysToCamel({
+      agents: {
+        named: { home_agent: { max_tokens: 100 } },
+        overrides: { 'telegram:1': { max_tool_iterations: 5 } },
+      },
+      usage: { prices: { my_model: { input: 1, output: 2 } } },
+      tools: { approval: { rules: [{ tool: 'exec', args: { working_dir: '^/tmp' } }] } },
+    });
+
+    expect(output).toEqual({
+      agents: {
+        named: { home_agent: { maxTokens: 100 } },
+        overrides: { 'telegram:1': { maxToolIterations: 5 } },
+      },
+      usage: { prices: { my_model: { input: 1, output: 2 } } },
+      tools: { approval: { rules: [{ tool: 'exec', args: { working_dir: '^/tmp' } }] } },
+    });
+  });
+
   it('should handle null and undefined', () => {
     expect(convertKeysToCamel(null)).toBeNull();
     expect(convertKeysToCamel(undefined)).toBeUndefined();
@@ -217,3 +241,34 @@ describe('round-trip conversion', () => {
     expect(snake).toEqual(original);
   });
 });
+
+describe('loadConfig', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'config-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep underscored agent names as written', async () => {
+    const path = join(testDir, 'config.json');
+    await writeFile(
+      path,
+      JSON.stringify({ agents: { named: { home_agent: { max_tokens: 100 } } } })
+    );
+
+    const config = await loadConfig(path);
+
+    expect(Object.keys(config.agents.named)).toEqual(['home_agent']);
+    expect(resolveAgentConfig(config, 'home_agent')?.maxTokens).toBe(100);
+
+    await saveConfig(config, path);
+    const saved = JSON.parse(await readFile(path, 'utf-8')) as {
+      agents: { named: Record<string, unknown> };
+    };
+    expect(Object.keys(saved.agents.named)).toEqual(['home_agent']);
+  });
+});
@@ -55,21 +55,39 @@ export function snakeToCamel(name: string): string {
 }
 
 /**
- * Convert all keys in an object from camelCase to snake_case (recursive).
+ * Records whose keys are chosen by the user (agent names, chats, model
+ * names, tool argument names). Their keys are kept as written; the values
+ * are still converted.
  */
-export function convertKeysToSnake(data: unknown): unknown {
+const VERBATIM_KEY_PATHS = new Set([
+  'agents.overrides',
+  'agents.named',
+  'usage.prices',
+  'tools.approval.rules.args',
+]);
+
+/**
+ * Convert the keys of an object with `convertKey` (recursive), leaving the
+ * keys of VERBATIM_KEY_PATHS records alone. Array indexes are not part of
+ * the path.
+ */
+function convertKeys(data: unknown, convertKey: (key: string) => string, path: string): unknown {
   if (data === null || data === undefined) {
     return data;
   }
 
   if (Array.isArray(data)) {
-    return data.map((item) => convertKeysToSnake(item));
+    return data.map((item) => convertKeys(item, convertKey, path));
   }
 
   if (typeof data === 'object') {
+    const verbatim = VERBATIM_KEY_PATHS.has(path);
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(data)) {
-      result[camelToSnake(key)] = convertKeysToSnake(value);
+      const converted = verbatim ? key : convertKey(key);
+      // Values of a verbatim record share one path, whatever their key
+      const childPath = verbatim ? `${path}.*` : path ? `${path}.${converted}` : converted;
+      result[converted] = convertKeys(value, convertKey, childPath);
     }
     return result;
   }
@@ -77,27 +95,18 @@ export function convertKeysToSnake(data: unknown): unknown {
   return data;
 }
 
+/**
+ * Convert all keys in an object from camelCase to snake_case (recursive).
+ */
+export function convertKeysToSnake(data: unknown): unknown {
+  return convertKeys(data, camelToSnake, '');
+}
+
 /**
  * Convert all keys in an object from snake_case to camelCase (recursive).
  */
 export function convertKeysToCamel(data: unknown): unknown {
-  if (data === null || data === undefined) {
-    return data;
-  }
-
-  if (Array.isArray(data)) {
-    return data.map((item) => convertKeysToCamel(item));
-  }
-
-  if (typeof data === 'object') {
-    const result: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(data)) {
-      result[snakeToCamel(key)] = convertKeysToCamel(value);
-    }
-    return result;
-  }
-
-  return data;
+  return convertKeys(data, snakeToCamel, '');
 }
 
 /**
@@ -12,10 +12,14 @@ import {
   AgentDefaultsSchema,
   ProviderConfigSchema,
   GatewayConfigSchema,
+  McpServerConfigSchema,
   createDefaultConfig,
   getWorkspacePathFromConfig,
   getApiKey,
   getApiBase,
+  resolveAgentConfig,
+  getAgentNames,
+  usesLocalProvider,
 } from './schema.js';
 
 describe('WhatsAppConfigSchema', () => {
@@ -120,6 +124,36 @@ describe('GatewayConfigSchema', () => {
   });
 });
 
+describe('McpServerConfigSchema', () => {
+  it('should parse a stdio server with defaults', () => {
+    const config = McpServerConfigSchema.parse({ name: 'github', command: 'npx' });
+    expect(config).toEqual({
+      name: 'github',
+      enabled: true,
+      command: 'npx',
+      args: [],
+      env: [],
+      headers: [],
+      timeout: 60,
+    });
+  });
+
+  it('should require exactly one of command or url', () => {
+    expect(McpServerConfigSchema.safeParse({ name: 'none' }).success).toBe(false);
+    expect(
+      McpServerConfigSchema.safeParse({ name: 'both', command: 'x', url: 'https://x.dev/mcp' })
+        .success
+    ).toBe(false);
+    expect(McpServerConfigSchema.safeParse({ name: 'http', url: 'https://x.dev/mcp' }).success).toBe(
+      true
+    );
+  });
+
+  it('should reject names that cannot prefix tool names', () => {
+    expect(McpServerConfigSchema.safeParse({ name: 'my server', command: 'x' }).success).toBe(false);
+  });
+});
+
 describe('ConfigSchema', () => {
   it('should parse empty object with all defaults', () => {
     const config = ConfigSchema.parse({});
@@ -273,3 +307,67 @@ describe('getApiBase', () => {
     expect(getApiBase(config)).toBe('http://localhost:8000');
   });
 });
+
+describe('resolveAgentConfig', () => {
+  it('should resolve the default agent from defaults', () => {
+    const config = createDefaultConfig();
+    const agent = resolveAgentConfig(config, 'default');
+    expect(agent).toEqual({
+      name: 'default',
+      workspace: join(homedir(), '.ingenium/workspace'),
+      model: 'anthropic/claude-opus-4-5',
+      temperature: 0.7,
+      maxTokens: 8192,
+      maxToolIterations: 20,
+      reasoning: 'off',
+      showReasoning: false,
+    });
+  });
+
+  it('should apply named agent settings over defaults', () => {
+    const config = ConfigSchema.parse({
+      agents: {
+        named: {
+          work: {
+            workspace: '~/work-agent',
+            model: 'openai/gpt-4o',
+            systemPrompt: 'Be formal.',
+            tools: ['read_file'],
+            reasoning: 'high',
+          },
+        },
+      },
+    });
+    const agent = resolveAgentConfig(config, 'work');
+    expect(agent?.workspace).toBe(join(homedir(), 'work-agent'));
+    expect(agent?.model).toBe('openai/gpt-4o');
+    expect(agent?.temperature).toBe(0.7);
+    expect(agent?.systemPrompt).toBe('Be formal.');
+    expect(agent?.tools).toEqual(['read_file']);
+    expect(agent?.reasoning).toBe('high');
+  });
+
+  it('should return null for unknown agents', () => {
+    expect(resolveAgentConfig(createDefaultConfig(), 'missing')).toBeNull();
+  });
+});
+
+describe('getAgentNames', () => {
+  it('should list the default agent first', () => {
+    const config = ConfigSchema.parse({
+      agents: { named: { home: {}, default: { model: 'x' }, work: {} } },
+    });
+    expect(getAgentNames(config)).toEqual(['default', 'home', 'work']);
+  });
+});
+
+describe('usesLocalProvider', () => {
+  it('should detect Ollama models and vLLM servers', () => {
+    expect(usesLocalProvider(createDefaultConfig())).toBe(false);
+    expect(
+      usesLocalProvider(ConfigSchema.parse({ agents: { defaults: { model: 'ollama/llama3.2' } } }))
+    ).toBe(true);
+    const vllm = ConfigSchema.parse({ providers: { vllm: { apiBase: 'http://localhost:8000' } } });
+    expect(usesLocalProvider(vllm)).toBe(true);
+  });
+});
@@ -42,19 +42,127 @@ export const ChannelsConfigSchema = z.object({
 
 export type ChannelsConfig = z.infer<typeof ChannelsConfigSchema>;
 
+/**
+ * Policy for replaying tool results from earlier turns.
+ */
+export const ToolHistoryConfigSchema = z.object({
+  /** Number of recent turns whose tool results are replayed in full */
+  fullResultTurns: z.number().int().nonnegative().default(2),
+  /** Older tool results are cut to this many characters */
+  maxResultChars: z.number().int().positive().default(500),
+});
+
+export type ToolHistoryConfig = z.infer<typeof ToolHistoryConfigSchema>;
+
+/**
+ * A fallback provider/model pair.
+ */
+export const FailoverEntrySchema = z.object({
+  provider: z.enum([
+    'anthropic',
+    'openai',
+    'openrouter',
+    'groq',
+    'zhipu',
+    'vllm',
+    'gemini',
+    'ollama',
+  ]),
+  /** Model to use with this provider */
+  model: z.string(),
+});
+
+export type FailoverEntry = z.infer<typeof FailoverEntrySchema>;
+
+/**
+ * Retry and failover policy for LLM requests.
+ */
+export const FailoverConfigSchema = z.object({
+  /** Providers tried in order after the primary fails */
+  chain: z.array(FailoverEntrySchema).default([]),
+  /** Retries of transient errors (429, 5xx, timeouts) before failing over */
+  maxRetries: z.number().int().nonnegative().default(2),
+  /** Seconds before the first retry, doubled for each further retry */
+  baseDelay: z.number().nonnegative().default(1),
+  /** Longest wait in seconds; a longer retry-after fails over instead */
+  maxDelay: z.number().nonnegative().default(30),
+});
+
+export type FailoverConfig = z.infer<typeof FailoverConfigSchema>;
+
+/**
+ * Extended thinking level; "off" does not request it.
+ */
+export const ReasoningLevelSchema = z.enum(['off', 'low', 'medium', 'high']);
+
 /**
  * Default agent configuration.
  */
 export const AgentDefaultsSchema = z.object({
   workspace: z.string().default('~/.ingenium/workspace'),
   model: z.string().default('anthropic/claude-opus-4-5'),
+  /** Models chats may switch to with /model, besides the agent's and the overrides' models */
+  models: z.array(z.string()).default([]),
   maxTokens: z.number().int().positive().default(8192),
   temperature: z.number().min(0).max(2).default(0.7),
   maxToolIterations: z.number().int().positive().default(20),
+  /** Parallel-safe tool calls (reads, fetches) run at once; 1 runs calls one by one */
+  maxParallelTools: z.number().int().positive().default(4),
+  streaming: z.boolean().default(true),
+  reasoning: ReasoningLevelSchema.default('off'),
+  /** Start replies with a summary of the model's reasoning */
+  showReasoning: z.boolean().default(false),
+  toolHistory: ToolHistoryConfigSchema.optional().transform((v) =>
+    ToolHistoryConfigSchema.parse(v ?? {})
+  ),
+  /** Context window in tokens; detected from the model when null */
+  contextWindow: z.number().int().positive().nullable().default(null),
+  failover: FailoverConfigSchema.optional().transform((v) => FailoverConfigSchema.parse(v ?? {})),
 });
 
 export type AgentDefaults = z.infer<typeof AgentDefaultsSchema>;
 
+/**
+ * Settings overridden for a channel or a single chat.
+ */
+export const ChatOverridesSchema = z.object({
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  maxToolIterations: z.number().int().positive().optional(),
+  /** Extra instructions added to the system prompt */
+  systemPrompt: z.string().optional(),
+  /** Names of the tools the agent may use; all tools if not set */
+  tools: z.array(z.string()).optional(),
+  reasoning: ReasoningLevelSchema.optional(),
+  showReasoning: z.boolean().optional(),
+});
+
+export type ChatOverridesConfig = z.infer<typeof ChatOverridesSchema>;
+
+/**
+ * A named agent. Unset fields fall back to agents.defaults. Bootstrap
+ * files (AGENTS.md, SOUL.md, ...) and skills are read from its workspace.
+ */
+export const NamedAgentSchema = ChatOverridesSchema.extend({
+  workspace: z.string().optional(),
+});
+
+export type NamedAgentConfig = z.infer<typeof NamedAgentSchema>;
+
+/**
+ * Routes messages that match all of the given patterns to an agent.
+ * Patterns may use * as a wildcard; omitted patterns match anything.
+ */
+export const AgentRouteSchema = z.object({
+  agent: z.string(),
+  channel: z.string().optional(),
+  chatId: z.string().optional(),
+  senderId: z.string().optional(),
+});
+
+export type AgentRouteConfig = z.infer<typeof AgentRouteSchema>;
+
 /**
  * Agent configuration.
  */
@@ -62,6 +170,15 @@ export const AgentsConfigSchema = z.object({
   defaults: AgentDefaultsSchema.optional().transform((v) =>
     AgentDefaultsSchema.parse(v ?? {})
   ),
+  /**
+   * Overrides keyed by channel ("telegram") or chat ("telegram:12345").
+   * Chat overrides win over channel overrides, which win over defaults.
+   */
+  overrides: z.record(z.string(), ChatOverridesSchema).default({}),
+  /** Agents by name, in addition to the "default" agent built from defaults */
+  named: z.record(z.string(), NamedAgentSchema).default({}),
+  /** Checked in order; messages no route matches go to the "default" agent */
+  routes: z.array(AgentRouteSchema).default([]),
 });
 
 export type AgentsConfig = z.infer<typeof AgentsConfigSchema>;
@@ -76,6 +193,39 @@ export const ProviderConfigSchema = z.object({
 
 export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
 
+/**
+ * Blocking threshold for one Gemini harm category.
+ */
+export const GeminiSafetySettingSchema = z.object({
+  /** e.g. "HARM_CATEGORY_HARASSMENT" */
+  category: z.string(),
+  /** e.g. "BLOCK_ONLY_HIGH" or "BLOCK_NONE" */
+  threshold: z.string(),
+});
+
+/**
+ * Gemini provider configuration.
+ */
+export const GeminiProviderConfigSchema = ProviderConfigSchema.extend({
+  /** Safety thresholds sent with every request; API defaults if empty */
+  safetySettings: z.array(GeminiSafetySettingSchema).default([]),
+});
+
+export type GeminiProviderConfig = z.infer<typeof GeminiProviderConfigSchema>;
+
+/**
+ * Ollama provider configuration. Used for models named "ollama/<model>".
+ */
+export const OllamaProviderConfigSchema = ProviderConfigSchema.extend({
+  /**
+   * How tools are offered: "native" tool calling, a "text" protocol for
+   * models without it, or "auto" to detect per model
+   */
+  toolMode: z.enum(['auto', 'native', 'text']).default('auto'),
+});
+
+export type OllamaProviderConfig = z.infer<typeof OllamaProviderConfigSchema>;
+
 /**
  * Configuration for LLM providers.
  */
@@ -98,8 +248,11 @@ export const ProvidersConfigSchema = z.object({
   vllm: ProviderConfigSchema.optional().transform((v) =>
     ProviderConfigSchema.parse(v ?? {})
   ),
-  gemini: ProviderConfigSchema.optional().transform((v) =>
-    ProviderConfigSchema.parse(v ?? {})
+  gemini: GeminiProviderConfigSchema.optional().transform((v) =>
+    GeminiProviderConfigSchema.parse(v ?? {})
+  ),
+  ollama: OllamaProviderConfigSchema.optional().transform((v) =>
+    OllamaProviderConfigSchema.parse(v ?? {})
   ),
 });
 
@@ -111,6 +264,12 @@ export type ProvidersConfig = z.infer<typeof ProvidersConfigSchema>;
 export const GatewayConfigSchema = z.object({
   host: z.string().default('0.0.0.0'),
   port: z.number().int().positive().default(18790),
+  /** Bearer token required by the HTTP API; without one it only listens on 127.0.0.1 */
+  authToken: z.string().default(''),
+  /** Seconds to wait for the agent's reply to a posted message */
+  replyTimeout: z.number().int().positive().default(300),
+  /** Serve ingenium's tools to MCP clients at /mcp */
+  mcp: z.boolean().default(false),
 });
 
 export type GatewayConfig = z.infer<typeof GatewayConfigSchema>;
@@ -136,6 +295,149 @@ export const WebToolsConfigSchema = z.object({
 
 export type WebToolsConfig = z.infer<typeof WebToolsConfigSchema>;
 
+/**
+ * Filesystem tool access configuration.
+ */
+export const FilesystemToolsConfigSchema = z.object({
+  /** Only allow paths inside the workspace and the allow list */
+  restrictToWorkspace: z.boolean().default(false),
+  /** Globs for paths outside the workspace that are still allowed */
+  allow: z.array(z.string()).default([]),
+  /** Globs for paths that are never allowed */
+  deny: z.array(z.string()).default(['~/.ingenium/config.json', '~/.ssh']),
+});
+
+export type FilesystemToolsConfig = z.infer<typeof FilesystemToolsConfigSchema>;
+
+/**
+ * Resource limits for restricted shell commands. Zero disables a limit.
+ */
+export const ExecLimitsConfigSchema = z.object({
+  cpuSeconds: z.number().int().nonnegative().default(60),
+  /** Virtual memory; off by default since node and the JVM reserve more than they use */
+  memoryMb: z.number().int().nonnegative().default(0),
+  fileSizeMb: z.number().int().nonnegative().default(100),
+});
+
+export type ExecLimitsConfig = z.infer<typeof ExecLimitsConfigSchema>;
+
+/**
+ * Restricted shell backend configuration.
+ */
+export const RestrictedExecConfigSchema = z.object({
+  /** Programs that may run; empty allows all programs not denied */
+  allow: z.array(z.string()).default([]),
+  /** Programs that may never run; a guard against mistakes, not a security boundary */
+  deny: z.array(z.string()).default([]),
+  /** Environment variables passed through besides PATH, HOME, etc. */
+  envPassthrough: z.array(z.string()).default([]),
+  network: z.boolean().default(false),
+  limits: ExecLimitsConfigSchema.optional().transform((v) =>
+    ExecLimitsConfigSchema.parse(v ?? {})
+  ),
+});
+
+export type RestrictedExecConfig = z.infer<typeof RestrictedExecConfigSchema>;
+
+/**
+ * Container shell backend configuration.
+ */
+export const ContainerExecConfigSchema = z.object({
+  /** Runtime command; docker or podman is detected if empty */
+  runtime: z.string().default(''),
+  image: z.string().default('debian:bookworm-slim'),
+  network: z.boolean().default(false),
+  memory: z.string().default('512m'),
+  cpus: z.number().positive().default(1),
+});
+
+export type ContainerExecConfig = z.infer<typeof ContainerExecConfigSchema>;
+
+/**
+ * Shell tool configuration.
+ */
+export const ExecToolsConfigSchema = z.object({
+  backend: z.enum(['host', 'restricted', 'container']).default('host'),
+  /** Command timeout in seconds */
+  timeout: z.number().int().positive().default(60),
+  restricted: RestrictedExecConfigSchema.optional().transform((v) =>
+    RestrictedExecConfigSchema.parse(v ?? {})
+  ),
+  container: ContainerExecConfigSchema.optional().transform((v) =>
+    ContainerExecConfigSchema.parse(v ?? {})
+  ),
+});
+
+export type ExecToolsConfig = z.infer<typeof ExecToolsConfigSchema>;
+
+/**
+ * Rule matching tool calls that are allowed, need approval, or are denied.
+ */
+export const ToolApprovalRuleSchema = z.object({
+  /** Tool name, or "*" for any tool */
+  tool: z.string(),
+  /** Regular expressions that arguments must match, by argument name */
+  args: z.record(z.string(), z.string()).default({}),
+  action: z.enum(['allow', 'ask', 'deny']).default('ask'),
+});
+
+export type ToolApprovalRule = z.infer<typeof ToolApprovalRuleSchema>;
+
+/**
+ * Human-in-the-loop approval configuration.
+ */
+export const ToolApprovalConfigSchema = z.object({
+  /** Seconds to wait for a decision before denying */
+  timeout: z.number().int().positive().default(300),
+  /** Checked in order before each tool's own approval check */
+  rules: z.array(ToolApprovalRuleSchema).default([]),
+  /** Sender IDs that may decide any request, besides the sender who asked */
+  approvers: z.array(z.string()).default([]),
+});
+
+export type ToolApprovalConfig = z.infer<typeof ToolApprovalConfigSchema>;
+
+/**
+ * A name and value, for environment variables and HTTP headers.
+ */
+export const NameValueSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+});
+
+/**
+ * An MCP server whose tools the agent can use. Set `command` for a
+ * server run as a child process (stdio), or `url` for an HTTP server.
+ */
+export const McpServerConfigSchema = z
+  .object({
+    /** Prefix of the server's tool names (mcp_<name>_<tool>) */
+    name: z.string().regex(/^[a-zA-Z0-9_-]+$/, 'Use letters, digits, _ and - only'),
+    enabled: z.boolean().default(true),
+    command: z.string().optional(),
+    args: z.array(z.string()).default([]),
+    env: z.array(NameValueSchema).default([]),
+    cwd: z.string().optional(),
+    url: z.string().url().optional(),
+    headers: z.array(NameValueSchema).default([]),
+    /** Names of the server's tools to offer; all tools if not set */
+    tools: z.array(z.string()).optional(),
+    /** Time to wait for a response, in seconds */
+    timeout: z.number().positive().default(60),
+  })
+  .refine((server) => (server.command === undefined) !== (server.url === undefined), {
+    message: 'Set either command or url',
+  });
+
+export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
+
+/**
+ * MCP client configuration.
+ */
+export const McpConfigSchema = z.object({
+  servers: z.array(McpServerConfigSchema).default([]),
+});
+
 /**
  * Tools configuration.
  */
@@ -143,10 +445,56 @@ export const ToolsConfigSchema = z.object({
   web: WebToolsConfigSchema.optional().transform((v) =>
     WebToolsConfigSchema.parse(v ?? {})
   ),
+  filesystem: FilesystemToolsConfigSchema.optional().transform((v) =>
+    FilesystemToolsConfigSchema.parse(v ?? {})
+  ),
+  exec: ExecToolsConfigSchema.optional().transform((v) =>
+    ExecToolsConfigSchema.parse(v ?? {})
+  ),
+  approval: ToolApprovalConfigSchema.optional().transform((v) =>
+    ToolApprovalConfigSchema.parse(v ?? {})
+  ),
+  mcp: McpConfigSchema.optional().transform((v) => McpConfigSchema.parse(v ?? {})),
 });
 
 export type ToolsConfig = z.infer<typeof ToolsConfigSchema>;
 
+/**
+ * Price of a model in USD per million tokens.
+ */
+export const ModelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+});
+
+/**
+ * Spending limits in USD.
+ */
+export const UsageBudgetConfigSchema = z.object({
+  /** Limit per day; null for none */
+  daily: z.number().positive().nullable().default(null),
+  /** Limit per month; null for none */
+  monthly: z.number().positive().nullable().default(null),
+  /** Refuse further calls, or switch to downgradeModel, once a limit is reached */
+  action: z.enum(['refuse', 'downgrade']).default('refuse'),
+  downgradeModel: z.string().default(''),
+});
+
+export type UsageBudgetConfig = z.infer<typeof UsageBudgetConfigSchema>;
+
+/**
+ * Usage and cost accounting configuration.
+ */
+export const UsageConfigSchema = z.object({
+  /** Prices by model name, added to or replacing the built-in table */
+  prices: z.record(z.string(), ModelPriceSchema).default({}),
+  budget: UsageBudgetConfigSchema.optional().transform((v) =>
+    UsageBudgetConfigSchema.parse(v ?? {})
+  ),
+});
+
+export type UsageConfig = z.infer<typeof UsageConfigSchema>;
+
 /**
  * Root configuration for ingenium.
  */
@@ -166,6 +514,9 @@ export const ConfigSchema = z.object({
   tools: ToolsConfigSchema.optional().transform((v) =>
     ToolsConfigSchema.parse(v ?? {})
   ),
+  usage: UsageConfigSchema.optional().transform((v) =>
+    UsageConfigSchema.parse(v ?? {})
+  ),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -181,6 +532,70 @@ export function getWorkspacePathFromConfig(config: Config): string {
   return workspace;
 }
 
+/**
+ * Name of the agent built from agents.defaults.
+ */
+export const DEFAULT_AGENT_NAME = 'default';
+
+/**
+ * Settings of one agent, with defaults applied.
+ */
+export interface ResolvedAgentConfig {
+  name: string;
+  /** Expanded workspace path */
+  workspace: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  maxToolIterations: number;
+  reasoning: z.infer<typeof ReasoningLevelSchema>;
+  showReasoning: boolean;
+  systemPrompt?: string;
+  tools?: string[];
+}
+
+/**
+ * Get the settings of an agent by name.
+ *
+ * "default" is always defined; a named agent called "default" adjusts it.
+ *
+ * @returns The settings, or null if there is no agent with that name.
+ */
+export function resolveAgentConfig(config: Config, name: string): ResolvedAgentConfig | null {
+  const defaults = config.agents.defaults;
+  const named = config.agents.named[name];
+  if (!named && name !== DEFAULT_AGENT_NAME) {
+    return null;
+  }
+
+  const workspace = named?.workspace ?? defaults.workspace;
+  const resolved: ResolvedAgentConfig = {
+    name,
+    workspace: workspace.startsWith('~') ? join(homedir(), workspace.slice(1)) : workspace,
+    model: named?.model ?? defaults.model,
+    temperature: named?.temperature ?? defaults.temperature,
+    maxTokens: named?.maxTokens ?? defaults.maxTokens,
+    maxToolIterations: named?.maxToolIterations ?? defaults.maxToolIterations,
+    reasoning: named?.reasoning ?? defaults.reasoning,
+    showReasoning: named?.showReasoning ?? defaults.showReasoning,
+  };
+  if (named?.systemPrompt !== undefined) {
+    resolved.systemPrompt = named.systemPrompt;
+  }
+  if (named?.tools !== undefined) {
+    resolved.tools = named.tools;
+  }
+  return resolved;
+}
+
+/**
+ * Get the names of all agents, "default" first.
+ */
+export function getAgentNames(config: Config): string[] {
+  const names = Object.keys(config.agents.named).filter((n) => n !== DEFAULT_AGENT_NAME);
+  return [DEFAULT_AGENT_NAME, ...names];
+}
+
 /**
  * Get API key in priority order.
  * Priority: OpenRouter > Anthropic > OpenAI > Gemini > Zhipu > Groq > vLLM
@@ -199,6 +614,17 @@ export function getApiKey(config: Config): string | null {
   );
 }
 
+/**
+ * Check whether the default model runs on a local server that needs no
+ * API key (vLLM, or Ollama for "ollama/" models).
+ */
+export function usesLocalProvider(config: Config): boolean {
+  return (
+    Boolean(config.providers.vllm.apiBase) ||
+    config.agents.defaults.model.toLowerCase().startsWith('ollama/')
+  );
+}
+
 /**
  * Get API base URL if using OpenRouter, Zhipu, or vLLM.
  */
@@ -0,0 +1,172 @@
+/**
+ * Tests for cron expressions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CronExpressionError,
+  formatCronTime,
+  getNextCronRun,
+  getNextCronRuns,
+  parseCronExpression,
+} from './expression.js';
+
+/**
+ * Get the next runs of an expression as wall-clock times.
+ */
+function preview(expr: string, tz: string, from: string, count = 3): string[] {
+  const cron = parseCronExpression(expr, tz);
+  return getNextCronRuns(cron, Date.parse(from), count).map((ms) => formatCronTime(ms, tz));
+}
+
+describe('parseCronExpression', () => {
+  it('should parse lists, ranges, steps and names', () => {
+    const cron = parseCronExpression('5/20 9-11,14 * jan-mar MON-FRI', 'UTC');
+
+    expect(cron.minutes).toEqual([5, 25, 45]);
+    expect(cron.hours).toEqual([9, 10, 11, 14]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.dayOfWeek.days]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.dayOfMonthRestricted).toBe(false);
+    expect(cron.dayOfWeekRestricted).toBe(true);
+  });
+
+  it('should treat 7 and a range ending on Sunday as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7', 'UTC').dayOfWeek.days]).toEqual([0]);
+    expect([...parseCronExpression('0 0 * * SAT-SUN', 'UTC').dayOfWeek.days].sort()).toEqual([
+      0, 6,
+    ]);
+  });
+
+  it('should expand macros', () => {
+    expect(parseCronExpression('@hourly', 'UTC')).toMatchObject({ minutes: [0], expr: '@hourly' });
+    expect(parseCronExpression('@WEEKLY', 'UTC').dayOfWeek.days).toEqual(new Set([0]));
+  });
+
+  it('should default to the local timezone', () => {
+    expect(parseCronExpression('* * * * *').tz).toBe(
+      Intl.DateTimeFormat().resolvedOptions().timeZone
+    );
+  });
+
+  it.each([
+    ['0 9 * *', "Invalid cron expression '0 9 * *': expected 5 fields"],
+    ['60 * * * *', 'minute value 60 is out of range (0-59)'],
+    ['0 9 * * 1-8', 'day of week value 8 is out of range (0-7)'],
+    ['0 9 5-1 * *', "day of month range '5-1' goes backwards"],
+    ['*/0 * * * *', "Invalid minute step '0'"],
+    ['0 9 * smarch *', "Invalid month value 'smarch'"],
+    ['0 9 * * MON#6', 'day of week occurrence #6 is out of range (1-5)'],
+    ['@reboot', "Unknown cron macro '@reboot'"],
+  ])('should reject %s', (expr, message) => {
+    expect(() => parseCronExpression(expr, 'UTC')).toThrow(CronExpressionError);
+    expect(() => parseCronExpression(expr, 'UTC')).toThrow(message);
+  });
+
+  it('should reject unknown timezones', () => {
+    expect(() => parseCronExpression('0 9 * * *', 'Mars/Olympus_Mons')).toThrow(
+      "Unknown timezone 'Mars/Olympus_Mons'"
+    );
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('should find the next minute strictly after the given time', () => {
+    const cron = parseCronExpression('*/15 * * * *', 'UTC');
+
+    expect(getNextCronRun(cron, Date.parse('2026-01-05T10:15:00Z'))).toBe(
+      Date.parse('2026-01-05T10:30:00Z')
+    );
+    expect(getNextCronRun(cron, Date.parse('2026-01-05T10:14:59Z'))).toBe(
+      Date.parse('2026-01-05T10:15:00Z')
+    );
+  });
+
+  it('should match fields in the timezone', () => {
+    expect(preview('0 9 * * 1-5', 'America/New_York', '2026-01-09T00:00:00Z')).toEqual([
+      'Fri 2026-01-09 09:00 -05:00',
+      'Mon 2026-01-12 09:00 -05:00',
+      'Tue 2026-01-13 09:00 -05:00',
+    ]);
+    expect(preview('@monthly', 'Asia/Kolkata', '2026-01-19T00:00:00Z', 1)).toEqual([
+      'Sun 2026-02-01 00:00 +05:30',
+    ]);
+  });
+
+  it('should keep wall-clock times across DST changes', () => {
+    expect(preview('0 9 * * *', 'Europe/Paris', '2026-03-28T12:00:00Z')).toEqual([
+      'Sun 2026-03-29 09:00 +02:00',
+      'Mon 2026-03-30 09:00 +02:00',
+      'Tue 2026-03-31 09:00 +02:00',
+    ]);
+  });
+
+  it('should run times skipped by clocks going forward after the jump', () => {
+    expect(preview('30 2 * * *', 'Europe/Paris', '2026-03-28T12:00:00Z', 2)).toEqual([
+      'Sun 2026-03-29 03:30 +02:00',
+      'Mon 2026-03-30 02:30 +02:00',
+    ]);
+  });
+
+  it('should run repeated times once unless the job runs every hour', () => {
+    expect(preview('30 2 * * *', 'Europe/Paris', '2026-10-24T12:00:00Z', 2)).toEqual([
+      'Sun 2026-10-25 02:30 +02:00',
+      'Mon 2026-10-26 02:30 +01:00',
+    ]);
+    expect(preview('0 * * * *', 'Europe/Paris', '2026-10-24T23:30:00Z', 3)).toEqual([
+      'Sun 2026-10-25 02:00 +02:00',
+      'Sun 2026-10-25 02:00 +01:00',
+      'Sun 2026-10-25 03:00 +01:00',
+    ]);
+  });
+
+  it('should keep runs in order while clocks go back', () => {
+    expect(preview('*/30 * * * *', 'America/New_York', '2026-11-01T04:45:00Z', 5)).toEqual([
+      'Sun 2026-11-01 01:00 -04:00',
+      'Sun 2026-11-01 01:30 -04:00',
+      'Sun 2026-11-01 01:00 -05:00',
+      'Sun 2026-11-01 01:30 -05:00',
+      'Sun 2026-11-01 02:00 -05:00',
+    ]);
+  });
+
+  it('should support L, W and # days', () => {
+    const from = '2026-01-01T00:00:00Z';
+    expect(preview('0 0 L * *', 'UTC', from)).toEqual([
+      'Sat 2026-01-31 00:00 +00:00',
+      'Sat 2026-02-28 00:00 +00:00',
+      'Tue 2026-03-31 00:00 +00:00',
+    ]);
+    expect(preview('0 0 L-1 2 *', 'UTC', from, 1)).toEqual(['Fri 2026-02-27 00:00 +00:00']);
+    expect(preview('0 0 LW * *', 'UTC', from, 2)).toEqual([
+      'Fri 2026-01-30 00:00 +00:00',
+      'Fri 2026-02-27 00:00 +00:00',
+    ]);
+    // The 1st of August 2026 is a Saturday; the nearest weekday stays in August
+    expect(preview('0 0 1W 8 *', 'UTC', from, 1)).toEqual(['Mon 2026-08-03 00:00 +00:00']);
+    expect(preview('0 0 15W 2 *', 'UTC', from, 1)).toEqual(['Mon 2026-02-16 00:00 +00:00']);
+    expect(preview('0 18 * * MON#1', 'UTC', from, 2)).toEqual([
+      'Mon 2026-01-05 18:00 +00:00',
+      'Mon 2026-02-02 18:00 +00:00',
+    ]);
+    expect(preview('0 0 * * FRIL', 'UTC', from, 2)).toEqual([
+      'Fri 2026-01-30 00:00 +00:00',
+      'Fri 2026-02-27 00:00 +00:00',
+    ]);
+  });
+
+  it('should match either day field when both are restricted', () => {
+    expect(preview('0 0 13 * FRI', 'UTC', '2026-02-01T00:00:00Z')).toEqual([
+      'Fri 2026-02-06 00:00 +00:00',
+      'Fri 2026-02-13 00:00 +00:00',
+      'Fri 2026-02-20 00:00 +00:00',
+    ]);
+  });
+
+  it('should find rare dates and give up on impossible ones', () => {
+    expect(preview('0 0 29 2 *', 'UTC', '2026-01-01T00:00:00Z', 1)).toEqual([
+      'Tue 2028-02-29 00:00 +00:00',
+    ]);
+    expect(getNextCronRun(parseCronExpression('0 0 30 2 *', 'UTC'), Date.now())).toBeUndefined();
+  });
+});
@@ -0,0 +1,617 @@
+/**
+ * Cron expression parsing and scheduling.
+ *
+ * Supports the five standard fields (minute hour day-of-month month
+ * day-of-week) with lists, ranges, steps and names, the `L`, `W` and `#`
+ * extensions, `@daily`-style macros, and IANA timezones.
+ */
+
+/**
+ * Error thrown for invalid cron expressions and unknown timezones.
+ */
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronExpressionError';
+  }
+}
+
+/**
+ * Constraints on the day of the month.
+ */
+interface DayOfMonthField {
+  days: Set<number>;
+  /** Offsets before the last day of the month: L is 0, L-2 is 2 */
+  lastOffsets: number[];
+  /** Days whose nearest weekday matches (15W) */
+  nearestWeekdays: number[];
+  /** Whether the last weekday of the month matches (LW) */
+  lastWeekday: boolean;
+}
+
+/**
+ * Constraints on the day of the week, with Sunday as 0.
+ */
+interface DayOfWeekField {
+  days: Set<number>;
+  /** Weekdays matching on their last occurrence in the month (5L) */
+  last: number[];
+  /** Weekdays matching on their nth occurrence in the month (1#2) */
+  nth: Array<{ weekday: number; n: number }>;
+}
+
+/**
+ * A parsed cron expression.
+ */
+export interface CronExpression {
+  /** The expression as given */
+  expr: string;
+  /** IANA timezone the fields are matched in */
+  tz: string;
+  minutes: number[];
+  hours: number[];
+  months: Set<number>;
+  dayOfMonth: DayOfMonthField;
+  dayOfWeek: DayOfWeekField;
+  /** False when the field is * or ?, which leaves the day to the other field */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * Macros and the expressions they stand for.
+ */
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * Range and names of a field.
+ */
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names for values, starting at min */
+  names?: string[];
+}
+
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 };
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: 'day of month', min: 1, max: 31 };
+const MONTH: FieldSpec = { name: 'month', min: 1, max: 12, names: MONTH_NAMES };
+// 7 is accepted as another name for Sunday
+const DAY_OF_WEEK: FieldSpec = { name: 'day of week', min: 0, max: 7, names: DAY_NAMES };
+
+/**
+ * How many days ahead to look for a match before giving up. Long enough
+ * for expressions like "0 0 29 2 1" that only match every few decades.
+ */
+const MAX_SEARCH_DAYS = 366 * 30;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Parse a single value, either a number or a name.
+ */
+function parseValue(text: string, spec: FieldSpec): number {
+  const upper = text.toUpperCase();
+  const nameIndex = spec.names?.indexOf(upper) ?? -1;
+  if (nameIndex !== -1) {
+    return spec.min + nameIndex;
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new CronExpressionError(`Invalid ${spec.name} value '${text}'`);
+  }
+  const value = parseInt(text, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new CronExpressionError(
+      `${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse one item of a list: *, a value, a range, each with an optional step.
+ */
+function parseItem(item: string, spec: FieldSpec, values: Set<number>): void {
+  const [range = '', stepText, extra] = item.split('/');
+  if (extra !== undefined || range === '') {
+    throw new CronExpressionError(`Invalid ${spec.name} '${item}'`);
+  }
+
+  let step = 1;
+  if (stepText !== undefined) {
+    if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+      throw new CronExpressionError(`Invalid ${spec.name} step '${stepText}'`);
+    }
+    step = parseInt(stepText, 10);
+  }
+
+  let start: number;
+  let end: number;
+  if (range === '*') {
+    start = spec.min;
+    end = spec.max;
+  } else if (range.includes('-')) {
+    const [startText = '', endText = '', rest] = range.split('-');
+    if (rest !== undefined) {
+      throw new CronExpressionError(`Invalid ${spec.name} range '${range}'`);
+    }
+    start = parseValue(startText, spec);
+    end = parseValue(endText, spec);
+    // Sunday ends a range of days as 7: MON-SUN
+    if (spec === DAY_OF_WEEK && end === 0) {
+      end = 7;
+    }
+    if (start > end) {
+      throw new CronExpressionError(`${spec.name} range '${range}' goes backwards`);
+    }
+  } else {
+    start = parseValue(range, spec);
+    // A step after a single value runs to the end of the range: 5/15 is 5-59/15
+    end = stepText === undefined ? start : spec.max;
+  }
+
+  for (let value = start; value <= end; value += step) {
+    values.add(value);
+  }
+}
+
+/**
+ * Parse a field without extensions into its sorted values.
+ */
+function parseField(field: string, spec: FieldSpec): number[] {
+  const values = new Set<number>();
+  for (const item of field.split(',')) {
+    parseItem(item, spec, values);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse the day-of-month field, including L, L-n, LW and nW.
+ */
+function parseDayOfMonth(field: string): DayOfMonthField {
+  const result: DayOfMonthField = {
+    days: new Set(),
+    lastOffsets: [],
+    nearestWeekdays: [],
+    lastWeekday: false,
+  };
+  if (field === '?') {
+    field = '*';
+  }
+
+  for (const item of field.split(',')) {
+    const upper = item.toUpperCase();
+    if (upper === 'LW') {
+      result.lastWeekday = true;
+    } else if (upper === 'L') {
+      result.lastOffsets.push(0);
+    } else if (/^L-\d+$/.test(upper)) {
+      const offset = parseInt(upper.slice(2), 10);
+      if (offset > 30) {
+        throw new CronExpressionError(`day of month offset ${offset} is out of range (0-30)`);
+      }
+      result.lastOffsets.push(offset);
+    } else if (/^\d+W$/.test(upper)) {
+      result.nearestWeekdays.push(parseValue(upper.slice(0, -1), DAY_OF_MONTH));
+    } else {
+      parseItem(item, DAY_OF_MONTH, result.days);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse the day-of-week field, including nL and n#k.
+ */
+function parseDayOfWeek(field: string): DayOfWeekField {
+  const result: DayOfWeekField = { days: new Set(), last: [], nth: [] };
+  if (field === '?') {
+    field = '*';
+  }
+
+  for (const item of field.split(',')) {
+    const nth = /^(\w+)#(\d+)$/.exec(item);
+    if (nth) {
+      const n = parseInt(nth[2] ?? '', 10);
+      if (n < 1 || n > 5) {
+        throw new CronExpressionError(`day of week occurrence #${n} is out of range (1-5)`);
+      }
+      result.nth.push({ weekday: parseValue(nth[1] ?? '', DAY_OF_WEEK) % 7, n });
+    } else if (/^\w+L$/i.test(item)) {
+      result.last.push(parseValue(item.slice(0, -1), DAY_OF_WEEK) % 7);
+    } else {
+      const days = new Set<number>();
+      parseItem(item, DAY_OF_WEEK, days);
+      for (const day of days) {
+        result.days.add(day % 7);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Cached date formatters, one per timezone.
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a formatter giving the wall-clock time in a timezone.
+ *
+ * @throws CronExpressionError if the timezone is unknown
+ */
+function getFormatter(tz: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(tz);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: tz,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      throw new CronExpressionError(`Unknown timezone '${tz}'`);
+    }
+    formatters.set(tz, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time in a timezone.
+ */
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Get the wall-clock time of an instant in a timezone.
+ */
+function getWallTime(ms: number, tz: string): WallTime & { second: number } {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(tz).formatToParts(ms)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts['year'] ?? 0,
+    month: parts['month'] ?? 1,
+    day: parts['day'] ?? 1,
+    hour: parts['hour'] ?? 0,
+    minute: parts['minute'] ?? 0,
+    second: parts['second'] ?? 0,
+  };
+}
+
+/**
+ * Get the offset of a timezone from UTC at an instant, in milliseconds.
+ */
+function getOffsetMs(ms: number, tz: string): number {
+  const wall = getWallTime(ms, tz);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * Get the offsets from UTC in effect around a date: before and after any
+ * clock change near it. They are equal on most days.
+ */
+function getOffsetsAround(year: number, month: number, day: number, tz: string): [number, number] {
+  const midnight = Date.UTC(year, month - 1, day);
+  // At most one transition happens within a few days of any date
+  return [getOffsetMs(midnight - DAY_MS, tz), getOffsetMs(midnight + 2 * DAY_MS, tz)];
+}
+
+/**
+ * Get the instants at which a wall-clock time occurs in a timezone.
+ *
+ * Usually there is one. When clocks go back there are two, earliest
+ * first. When clocks go forward and skip the time, it is moved forward
+ * by the length of the gap, so 02:30 on a night that jumps from 02:00 to
+ * 03:00 becomes 03:30.
+ */
+function getInstants(wall: WallTime, tz: string, offsets: [number, number]): number[] {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const [offsetBefore, offsetAfter] = offsets;
+  if (offsetBefore === offsetAfter) {
+    return [asUtc - offsetBefore];
+  }
+
+  const instants: number[] = [];
+  for (const offset of offsets) {
+    const instant = asUtc - offset;
+    const actual = getWallTime(instant, tz);
+    if (actual.hour === wall.hour && actual.minute === wall.minute && actual.day === wall.day) {
+      instants.push(instant);
+    }
+  }
+  if (instants.length === 0) {
+    instants.push(asUtc - offsetBefore);
+  }
+  return instants.sort((a, b) => a - b);
+}
+
+/**
+ * Get the number of days in a month.
+ */
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Get the day of the week of a date, with Sunday as 0.
+ */
+function getWeekday(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Get the weekday closest to a day without leaving the month.
+ */
+function getNearestWeekday(year: number, month: number, day: number): number {
+  const daysInMonth = getDaysInMonth(year, month);
+  const target = Math.min(day, daysInMonth);
+  const weekday = getWeekday(year, month, target);
+  if (weekday === 6) {
+    return target === 1 ? 3 : target - 1;
+  }
+  if (weekday === 0) {
+    return target === daysInMonth ? target - 2 : target + 1;
+  }
+  return target;
+}
+
+/**
+ * Check whether a date matches the day-of-month field.
+ */
+function matchesDayOfMonth(field: DayOfMonthField, year: number, month: number, day: number): boolean {
+  if (field.days.has(day)) {
+    return true;
+  }
+  const daysInMonth = getDaysInMonth(year, month);
+  if (field.lastOffsets.some((offset) => daysInMonth - offset === day)) {
+    return true;
+  }
+  if (field.nearestWeekdays.some((target) => getNearestWeekday(year, month, target) === day)) {
+    return true;
+  }
+  return field.lastWeekday && getNearestWeekday(year, month, daysInMonth) === day;
+}
+
+/**
+ * Check whether a date matches the day-of-week field.
+ */
+function matchesDayOfWeek(field: DayOfWeekField, year: number, month: number, day: number): boolean {
+  const weekday = getWeekday(year, month, day);
+  if (field.days.has(weekday)) {
+    return true;
+  }
+  const occurrence = Math.ceil(day / 7);
+  if (field.nth.some((nth) => nth.weekday === weekday && nth.n === occurrence)) {
+    return true;
+  }
+  return field.last.includes(weekday) && day + 7 > getDaysInMonth(year, month);
+}
+
+/**
+ * Check whether a date matches an expression. As in classic cron, when
+ * both day fields are restricted a date matching either one is enough.
+ */
+function matchesDate(cron: CronExpression, year: number, month: number, day: number): boolean {
+  if (!cron.months.has(month)) {
+    return false;
+  }
+  const dayOfMonth = matchesDayOfMonth(cron.dayOfMonth, year, month, day);
+  const dayOfWeek = matchesDayOfWeek(cron.dayOfWeek, year, month, day);
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the wall-clock time of an instant in a timezone.
+ *
+ * @throws CronExpressionError if the timezone is unknown
+ */
+export function toWallTime(ms: number, tz: string): WallTime {
+  const { year, month, day, hour, minute } = getWallTime(ms, tz);
+  return { year, month, day, hour, minute };
+}
+
+/**
+ * Get the instant of a wall-clock time in a timezone: the first one when
+ * clocks go back, and the time after the jump when they go forward.
+ *
+ * @throws CronExpressionError if the timezone is unknown
+ */
+export function fromWallTime(wall: WallTime, tz: string): number {
+  const offsets = getOffsetsAround(wall.year, wall.month, wall.day, tz);
+  return getInstants(wall, tz, offsets)[0] ?? Date.UTC(wall.year, wall.month - 1, wall.day);
+}
+
+/**
+ * Get the local timezone of this machine.
+ */
+export function getLocalTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Parse a cron expression.
+ *
+ * @param expr - Five fields or a macro such as @daily
+ * @param tz - IANA timezone; the machine's timezone if not set
+ * @throws CronExpressionError if the expression or timezone is invalid
+ */
+export function parseCronExpression(expr: string, tz?: string): CronExpression {
+  const timezone = tz ?? getLocalTimezone();
+  getFormatter(timezone);
+
+  const trimmed = expr.trim();
+  let source = trimmed;
+  if (trimmed.startsWith('@')) {
+    const macro = MACROS[trimmed.toLowerCase()];
+    if (macro === undefined) {
+      throw new CronExpressionError(
+        `Unknown cron macro '${trimmed}'; use one of ${Object.keys(MACROS).join(', ')}`
+      );
+    }
+    source = macro;
+  }
+
+  const fields = source.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronExpressionError(
+      `Invalid cron expression '${trimmed}': expected 5 fields ` +
+        `(minute hour day-of-month month day-of-week), got ${fields.length}`
+    );
+  }
+  const [minute = '', hour = '', dayOfMonth = '', month = '', dayOfWeek = ''] = fields;
+
+  try {
+    return {
+      expr: trimmed,
+      tz: timezone,
+      minutes: parseField(minute, MINUTE),
+      hours: parseField(hour, HOUR),
+      months: new Set(parseField(month, MONTH)),
+      dayOfMonth: parseDayOfMonth(dayOfMonth),
+      dayOfWeek: parseDayOfWeek(dayOfWeek),
+      dayOfMonthRestricted: !dayOfMonth.startsWith('*') && dayOfMonth !== '?',
+      dayOfWeekRestricted: !dayOfWeek.startsWith('*') && dayOfWeek !== '?',
+    };
+  } catch (error) {
+    if (error instanceof CronExpressionError) {
+      throw new CronExpressionError(`Invalid cron expression '${trimmed}': ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the first time after an instant at which an expression fires on a
+ * matching day.
+ *
+ * Wall times are visited in order, but when clocks go back the second
+ * occurrence of an early time comes after the first occurrence of later
+ * ones, so the earliest instant is kept until no later wall time can
+ * come before it.
+ */
+function getFirstRunOnDay(
+  cron: CronExpression,
+  year: number,
+  month: number,
+  day: number,
+  afterMs: number
+): number | undefined {
+  const offsets = getOffsetsAround(year, month, day, cron.tz);
+  const bothOccurrences = cron.hours.length === 24;
+  let earliest: number | undefined;
+
+  for (const hour of cron.hours) {
+    for (const minute of cron.minutes) {
+      const instants = getInstants({ year, month, day, hour, minute }, cron.tz, offsets);
+      if (earliest !== undefined && (instants[0] ?? Infinity) > earliest) {
+        return earliest;
+      }
+      const candidates = bothOccurrences ? instants : instants.slice(0, 1);
+      for (const instant of candidates) {
+        if (instant > afterMs && (earliest === undefined || instant < earliest)) {
+          earliest = instant;
+        }
+      }
+    }
+  }
+  return earliest;
+}
+
+/**
+ * Get the first time after an instant at which an expression fires.
+ *
+ * Times skipped when clocks go forward fire right after the jump. Times
+ * repeated when clocks go back fire once, unless the expression runs
+ * every hour, in which case they fire on both occurrences.
+ *
+ * @returns The time in ms, or undefined if it never fires
+ */
+export function getNextCronRun(cron: CronExpression, afterMs: number): number | undefined {
+  const start = getWallTime(afterMs, cron.tz);
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + i));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!matchesDate(cron, year, month, day)) {
+      continue;
+    }
+
+    const next = getFirstRunOnDay(cron, year, month, day, afterMs);
+    if (next !== undefined) {
+      return next;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the next times an expression fires.
+ *
+ * @param count - How many times to return at most
+ */
+export function getNextCronRuns(cron: CronExpression, afterMs: number, count: number): number[] {
+  const runs: number[] = [];
+  let current = afterMs;
+  while (runs.length < count) {
+    const next = getNextCronRun(cron, current);
+    if (next === undefined) {
+      break;
+    }
+    runs.push(next);
+    current = next;
+  }
+  return runs;
+}
+
+/**
+ * Format an instant as wall-clock time in a timezone, e.g.
+ * "Mon 2026-03-30 09:00 +02:00".
+ */
+export function formatCronTime(ms: number, tz: string): string {
+  const wall = getWallTime(ms, tz);
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  const offset = Math.round(getOffsetMs(ms, tz) / MINUTE_MS);
+  const sign = offset < 0 ? '-' : '+';
+  const weekday = DAY_NAMES[getWeekday(wall.year, wall.month, wall.day)] ?? '';
+  return (
+    `${weekday.charAt(0)}${weekday.slice(1).toLowerCase()} ` +
+    `${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)} ` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  );
+}
@@ -4,3 +4,6 @@
 
 export * from './types.js';
 export * from './service.js';
+export * from './expression.js';
+export * from './run-log.js';
+export * from './natural.js';
@@ -0,0 +1,104 @@
+/**
+ * Tests for natural-language schedules.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ScheduleParseError, parseNaturalSchedule } from './natural.js';
+import { formatCronTime } from './expression.js';
+
+// Friday 27 March 2026, 11:00 in Paris, two days before clocks go forward
+const NOW = Date.parse('2026-03-27T10:00:00Z');
+const TZ = 'Europe/Paris';
+
+/**
+ * Parse a one-time schedule and get its wall-clock time.
+ */
+function onceAt(text: string): string {
+  const schedule = parseNaturalSchedule(text, { now: NOW, tz: TZ });
+  expect(schedule.kind).toBe('at');
+  return formatCronTime(schedule.atMs ?? 0, TZ);
+}
+
+/**
+ * Parse a recurring schedule and get its cron expression.
+ */
+function cronOf(text: string): string | undefined {
+  const schedule = parseNaturalSchedule(text, { now: NOW, tz: TZ });
+  expect(schedule).toMatchObject({ kind: 'cron', tz: TZ });
+  return schedule.expr;
+}
+
+describe('parseNaturalSchedule', () => {
+  it.each([
+    ['every weekday at 9am', '0 9 * * 1-5'],
+    ['Every day at noon.', '0 12 * * *'],
+    ['daily at 7:30 p.m.', '30 19 * * *'],
+    ['on weekends at 10', '0 10 * * 0,6'],
+    ['every Mon, Wed and Fri at 8:15pm', '15 20 * * 1,3,5'],
+    ['on tuesdays', '0 9 * * 2'],
+    ['weekly on friday at 17:00', '0 17 * * 5'],
+    ['first Monday of each month at 18:00', '0 18 * * 1#1'],
+    ['last friday of every month', '0 9 * * 5L'],
+    ['every month on the 15th at 8am', '0 8 15 * *'],
+    ['the last day of the month at 23:00', '0 23 L * *'],
+    ['monthly on the last weekday', '0 9 LW * *'],
+    ['every year on march 3', '0 9 3 3 *'],
+    ['every december 25th at 7am', '0 7 25 12 *'],
+  ])('should turn "%s" into %s', (text, expr) => {
+    expect(cronOf(text)).toBe(expr);
+  });
+
+  it('should turn intervals into repeating schedules', () => {
+    const parse = (text: string) => parseNaturalSchedule(text, { now: NOW, tz: TZ });
+
+    expect(parse('every 15 minutes')).toEqual({ kind: 'every', everyMs: 15 * 60_000 });
+    expect(parse('hourly')).toEqual({ kind: 'every', everyMs: 3_600_000 });
+    expect(parse('every 2 days')).toEqual({ kind: 'every', everyMs: 2 * 86_400_000 });
+  });
+
+  it.each([
+    ['in 20 minutes', 'Fri 2026-03-27 11:20 +01:00'],
+    ['in an hour and a half', 'Fri 2026-03-27 12:30 +01:00'],
+    ['in 1h30m', 'Fri 2026-03-27 12:30 +01:00'],
+    ['at 5pm', 'Fri 2026-03-27 17:00 +01:00'],
+    ['at 9', 'Sat 2026-03-28 09:00 +01:00'],
+    ['tomorrow 7:30', 'Sat 2026-03-28 07:30 +01:00'],
+    ['9am tomorrow', 'Sat 2026-03-28 09:00 +01:00'],
+    ['in 2 days at 8am', 'Sun 2026-03-29 08:00 +02:00'],
+    ['friday', 'Fri 2026-04-03 09:00 +02:00'],
+    ['next monday at midnight', 'Mon 2026-03-30 00:00 +02:00'],
+    ['dec 25', 'Fri 2026-12-25 09:00 +01:00'],
+    ['1st of March at 10am', 'Mon 2027-03-01 10:00 +01:00'],
+    ['the 15th', 'Wed 2026-04-15 09:00 +02:00'],
+    ['2026-04-01 10:00', 'Wed 2026-04-01 10:00 +02:00'],
+    ['2026-05-01T10:00:00Z', 'Fri 2026-05-01 12:00 +02:00'],
+  ])('should schedule "%s" once at %s', (text, time) => {
+    expect(onceAt(text)).toBe(time);
+  });
+
+  it('should leave the timezone unset unless given', () => {
+    expect(parseNaturalSchedule('every day at 9am', { now: NOW })).toEqual({
+      kind: 'cron',
+      expr: '0 9 * * *',
+    });
+  });
+
+  it.each([
+    ['someday', 'Could not understand "someday"'],
+    ['every fortnight', 'Could not understand'],
+    ['at 25:00', 'Could not understand'],
+    ['february 30', 'Could not understand'],
+    ['2020-01-01', 'is in the past'],
+    ['every hour at 9am', "An interval can't also have a time of day"],
+    ['every 2 days at 9am', "Intervals of days can't have a time of day"],
+  ])('should reject "%s"', (text, message) => {
+    expect(() => parseNaturalSchedule(text, { now: NOW, tz: TZ })).toThrow(ScheduleParseError);
+    expect(() => parseNaturalSchedule(text, { now: NOW, tz: TZ })).toThrow(message);
+  });
+
+  it('should reject unknown timezones', () => {
+    expect(() => parseNaturalSchedule('tomorrow', { tz: 'Mars/Olympus_Mons' })).toThrow(
+      "Unknown timezone 'Mars/Olympus_Mons'"
+    );
+  });
+});
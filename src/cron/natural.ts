@@ -0,0 +1,572 @@
+/**
+ * Natural-language schedules, such as "every weekday at 9am" or
+ * "in 20 minutes".
+ */
+
+import type { CronSchedule } from './types.js';
+import {
+  CronExpressionError,
+  fromWallTime,
+  getLocalTimezone,
+  toWallTime,
+  type WallTime,
+} from './expression.js';
+
+/**
+ * Error thrown for schedules that cannot be understood or are in the past.
+ */
+export class ScheduleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleParseError';
+  }
+}
+
+/**
+ * Options for parseNaturalSchedule.
+ */
+export interface NaturalScheduleOptions {
+  /** Time relative schedules count from; now if not set */
+  now?: number;
+  /** IANA timezone of times in the text; the machine's if not set */
+  tz?: string;
+}
+
+/**
+ * Time of day, 24-hour.
+ */
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Time used when a schedule names a day but no time.
+ */
+const DEFAULT_TIME: TimeOfDay = { hour: 9, minute: 0 };
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Duration units and their length.
+ */
+const UNITS_MS: Record<string, number> = {
+  s: SECOND_MS,
+  sec: SECOND_MS,
+  secs: SECOND_MS,
+  second: SECOND_MS,
+  seconds: SECOND_MS,
+  m: MINUTE_MS,
+  min: MINUTE_MS,
+  mins: MINUTE_MS,
+  minute: MINUTE_MS,
+  minutes: MINUTE_MS,
+  h: HOUR_MS,
+  hr: HOUR_MS,
+  hrs: HOUR_MS,
+  hour: HOUR_MS,
+  hours: HOUR_MS,
+  d: DAY_MS,
+  day: DAY_MS,
+  days: DAY_MS,
+  w: 7 * DAY_MS,
+  wk: 7 * DAY_MS,
+  wks: 7 * DAY_MS,
+  week: 7 * DAY_MS,
+  weeks: 7 * DAY_MS,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0,
+  sun: 0,
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tue: 2,
+  tues: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+  sat: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 1,
+  jan: 1,
+  february: 2,
+  feb: 2,
+  march: 3,
+  mar: 3,
+  april: 4,
+  apr: 4,
+  may: 5,
+  june: 6,
+  jun: 6,
+  july: 7,
+  jul: 7,
+  august: 8,
+  aug: 8,
+  september: 9,
+  sep: 9,
+  sept: 9,
+  october: 10,
+  oct: 10,
+  november: 11,
+  nov: 11,
+  december: 12,
+  dec: 12,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+};
+
+/**
+ * A time of day as written: "9am", "7:30", "18:00", "noon".
+ */
+const TIME_PATTERN = String.raw`noon|midday|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}:\d{2}`;
+
+/**
+ * Examples shown when a schedule is not understood.
+ */
+const EXAMPLES = '"in 20 minutes", "tomorrow 7:30", "every weekday at 9am" or "first Monday of each month at 18:00"';
+
+/**
+ * Lowercase the text and tidy spelling variants.
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\b([ap])\.m\.?/g, '$1m')
+    .replace(/\s*o'clock\b/g, '')
+    .replace(/[.!]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse a time of day.
+ */
+function parseTimeOfDay(text: string): TimeOfDay | null {
+  if (text === 'noon' || text === 'midday') {
+    return { hour: 12, minute: 0 };
+  }
+  if (text === 'midnight') {
+    return { hour: 0, minute: 0 };
+  }
+
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  let hour = parseInt(match[1] ?? '', 10);
+  const minute = parseInt(match[2] ?? '0', 10);
+  if (match[3] !== undefined) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = (hour % 12) + (match[3] === 'pm' ? 12 : 0);
+  }
+  return hour <= 23 && minute <= 59 ? { hour, minute } : null;
+}
+
+/**
+ * Split the time of day from the rest of the text. The time may come
+ * first ("9am tomorrow") or last ("tomorrow at 9"); a bare hour needs "at".
+ */
+function extractTime(text: string): { rest: string; time: TimeOfDay | null } {
+  const atEnd = new RegExp(String.raw`^(.*?)\s*\b(?:at\s+(\d{1,2}|${TIME_PATTERN})|(${TIME_PATTERN}))$`);
+  const atStart = new RegExp(String.raw`^(?:at\s+(\d{1,2}|${TIME_PATTERN})|(${TIME_PATTERN}))\b\s*(.*)$`);
+
+  const end = atEnd.exec(text);
+  if (end) {
+    const time = parseTimeOfDay(end[2] ?? end[3] ?? '');
+    if (time) {
+      return { rest: end[1] ?? '', time };
+    }
+  }
+  const start = atStart.exec(text);
+  if (start) {
+    const time = parseTimeOfDay(start[1] ?? start[2] ?? '');
+    if (time) {
+      return { rest: start[3] ?? '', time };
+    }
+  }
+  return { rest: text, time: null };
+}
+
+/**
+ * Parse a duration such as "20 minutes", "an hour", "1h30m" or
+ * "2 hours and 15 minutes".
+ *
+ * @returns The duration in ms, or null if it is not one
+ */
+function parseDuration(text: string): number | null {
+  if (/^half an? hour$/.test(text)) {
+    return 30 * MINUTE_MS;
+  }
+  const andAHalf = /^(.+) and a half$/.exec(text);
+  if (andAHalf) {
+    const whole = parseDuration(andAHalf[1] ?? '');
+    const unit = UNITS_MS[/([a-z]+)$/.exec(andAHalf[1] ?? '')?.[1] ?? ''];
+    return whole !== null && unit !== undefined ? whole + unit / 2 : null;
+  }
+
+  const cleaned = text.replace(/,|\band\b/g, ' ');
+  const pattern = /(\d+|an?)\s*([a-z]+)/g;
+  let total = 0;
+  for (const match of cleaned.matchAll(pattern)) {
+    const unit = UNITS_MS[match[2] ?? ''];
+    if (unit === undefined) {
+      return null;
+    }
+    const count = match[1] === 'a' || match[1] === 'an' ? 1 : parseInt(match[1] ?? '', 10);
+    total += count * unit;
+  }
+  if (cleaned.replace(pattern, '').trim() !== '') {
+    return null;
+  }
+  return total > 0 ? total : null;
+}
+
+/**
+ * Parse a weekday name, singular or plural.
+ *
+ * @returns The weekday with Sunday as 0, and whether it was plural
+ */
+function parseWeekday(word: string): { day: number; plural: boolean } | null {
+  const day = WEEKDAYS[word];
+  if (day !== undefined) {
+    return { day, plural: false };
+  }
+  const singular = WEEKDAYS[word.replace(/s$/, '')];
+  return singular !== undefined ? { day: singular, plural: true } : null;
+}
+
+/**
+ * Parse a list of weekdays: "monday", "mon, wed and fri", "tuesdays & thursdays".
+ */
+function parseWeekdayList(text: string): { days: number[]; plural: boolean } | null {
+  const words = text.split(/\s*(?:,|\band\b|&|\/)\s*/).filter((w) => w !== '');
+  const days = new Set<number>();
+  let plural = false;
+  for (const word of words) {
+    const weekday = parseWeekday(word);
+    if (!weekday) {
+      return null;
+    }
+    days.add(weekday.day);
+    plural ||= weekday.plural;
+  }
+  return days.size > 0 ? { days: [...days].sort((a, b) => a - b), plural } : null;
+}
+
+/**
+ * Parse a day of the month: "15", "15th", "first".
+ */
+function parseDayOfMonth(text: string): number | null {
+  const ordinal = ORDINALS[text];
+  if (ordinal !== undefined) {
+    return ordinal;
+  }
+  const match = /^(\d{1,2})(?:st|nd|rd|th)?$/.exec(text);
+  const day = match ? parseInt(match[1] ?? '', 10) : NaN;
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+/**
+ * Parse which day of each month: "15th", "last day", "last weekday",
+ * "first monday", "last friday".
+ *
+ * @returns The day-of-month and day-of-week cron fields
+ */
+function parseMonthlyDay(text: string): { dayOfMonth: string; dayOfWeek: string } | null {
+  if (text === 'last day') {
+    return { dayOfMonth: 'L', dayOfWeek: '*' };
+  }
+  if (/^last (?:weekday|working day|business day)$/.test(text)) {
+    return { dayOfMonth: 'LW', dayOfWeek: '*' };
+  }
+
+  const nth = /^(first|second|third|fourth|fifth|last|[1-5](?:st|nd|rd|th))\s+([a-z]+)$/.exec(text);
+  if (nth) {
+    const weekday = parseWeekday(nth[2] ?? '');
+    if (!weekday) {
+      return null;
+    }
+    if (nth[1] === 'last') {
+      return { dayOfMonth: '*', dayOfWeek: `${weekday.day}L` };
+    }
+    const n = ORDINALS[nth[1] ?? ''] ?? parseInt(nth[1] ?? '', 10);
+    return { dayOfMonth: '*', dayOfWeek: `${weekday.day}#${n}` };
+  }
+
+  const day = parseDayOfMonth(text.replace(/^day\s+/, ''));
+  return day !== null ? { dayOfMonth: String(day), dayOfWeek: '*' } : null;
+}
+
+/**
+ * Parse a month and day: "march 3", "3rd of march", "3 mar".
+ */
+function parseMonthDay(text: string): { month: number; day: number } | null {
+  const monthFirst = /^([a-z]+)\s+(\d{1,2}(?:st|nd|rd|th)?)$/.exec(text);
+  const dayFirst = /^(\d{1,2}(?:st|nd|rd|th)?)(?:\s+of)?\s+([a-z]+)$/.exec(text);
+  const monthName = monthFirst?.[1] ?? dayFirst?.[2];
+  const dayText = monthFirst?.[2] ?? dayFirst?.[1];
+  const month = monthName !== undefined ? MONTHS[monthName] : undefined;
+  const day = dayText !== undefined ? parseDayOfMonth(dayText) : null;
+  return month !== undefined && day !== null ? { month, day } : null;
+}
+
+/**
+ * Build a cron expression running at a time of day.
+ */
+function cronAt(time: TimeOfDay, dayOfMonth: string, month: string, dayOfWeek: string): string {
+  return `${time.minute} ${time.hour} ${dayOfMonth} ${month} ${dayOfWeek}`;
+}
+
+/**
+ * Parse a repeating schedule.
+ *
+ * @returns The schedule, or null if the text does not repeat
+ */
+function parseRecurring(text: string, givenTime: TimeOfDay | null): CronSchedule | null {
+  const time = givenTime ?? DEFAULT_TIME;
+
+  // Intervals: "every 15 minutes", "every hour", "every 2 days", "hourly"
+  const interval = /^(?:every|each)\s+(?:(\d+)\s*)?([a-z]+)$/.exec(text);
+  const intervalUnit = interval ? UNITS_MS[interval[2] ?? ''] : undefined;
+  const count = interval?.[1] !== undefined ? parseInt(interval[1], 10) : 1;
+  if (text === 'hourly' || (intervalUnit !== undefined && intervalUnit < DAY_MS)) {
+    if (givenTime) {
+      throw new ScheduleParseError(`An interval can't also have a time of day`);
+    }
+    const everyMs = text === 'hourly' ? HOUR_MS : count * (intervalUnit ?? HOUR_MS);
+    return everyMs > 0 ? { kind: 'every', everyMs } : null;
+  }
+  if (intervalUnit !== undefined && count > 1) {
+    if (givenTime) {
+      throw new ScheduleParseError(
+        `Intervals of days can't have a time of day; use e.g. "every day at 9am" instead`
+      );
+    }
+    return { kind: 'every', everyMs: count * intervalUnit };
+  }
+
+  // Days: "every day", "daily", "every weekday", "on weekends"
+  if (/^(?:(?:every|each)\s+day|daily|everyday)$/.test(text)) {
+    return { kind: 'cron', expr: cronAt(time, '*', '*', '*') };
+  }
+  if (/^(?:(?:every|each|on)\s+)?(?:weekdays?|workdays?|working days|business days)$/.test(text)) {
+    return { kind: 'cron', expr: cronAt(time, '*', '*', '1-5') };
+  }
+  if (/^(?:(?:every|each|on)\s+)?weekends?$/.test(text)) {
+    return { kind: 'cron', expr: cronAt(time, '*', '*', '0,6') };
+  }
+
+  // Weeks: "weekly", "every week on friday", "every mon and thu", "on tuesdays"
+  const weekly = /^(?:(?:every|each)\s+week|weekly)(?:\s+on\s+(.+))?$/.exec(text);
+  if (weekly) {
+    const days = weekly[1] !== undefined ? parseWeekdayList(weekly[1]) : { days: [1] };
+    return days ? { kind: 'cron', expr: cronAt(time, '*', '*', days.days.join(',')) } : null;
+  }
+  const onDays = /^(every|each|on)\s+(.+)$/.exec(text);
+  const dayList = onDays ? parseWeekdayList(onDays[2] ?? '') : null;
+  if (dayList && (onDays?.[1] !== 'on' || dayList.plural)) {
+    return { kind: 'cron', expr: cronAt(time, '*', '*', dayList.days.join(',')) };
+  }
+
+  // Months: "monthly", "every month on the 15th", "first monday of each month"
+  const monthlyPrefix = /^(?:(?:every|each)\s+month|monthly)(?:\s+on\s+(?:the\s+)?(.+))?$/.exec(text);
+  const monthlySuffix = /^(?:(?:every|each|on)\s+)?(?:the\s+)?(.+?)\s+(?:of|in)\s+(?:each|every|the)\s+month$/.exec(text);
+  if (monthlyPrefix || monthlySuffix) {
+    const day = parseMonthlyDay(monthlyPrefix?.[1] ?? monthlySuffix?.[1] ?? '1');
+    return day ? { kind: 'cron', expr: cronAt(time, day.dayOfMonth, '*', day.dayOfWeek) } : null;
+  }
+
+  // Years: "yearly", "every year on march 3", "every december 25th"
+  const yearly = /^(?:(?:every|each)\s+year|yearly|annually)(?:\s+on\s+(?:the\s+)?(.+))?$/.exec(text);
+  const everyDate = /^(?:every|each)\s+(.+)$/.exec(text);
+  if (yearly || everyDate) {
+    const date = yearly ? parseMonthDay(yearly[1] ?? 'jan 1') : parseMonthDay(everyDate?.[1] ?? '');
+    return date ? { kind: 'cron', expr: cronAt(time, String(date.day), String(date.month), '*') } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Get the date some days after another.
+ */
+function addDays(date: WallTime, days: number): WallTime {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    ...date,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+/**
+ * Check that a day exists in its month.
+ */
+function isValidDate(year: number, month: number, day: number): boolean {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDate() === day;
+}
+
+/**
+ * Parse a one-time schedule.
+ *
+ * @returns The time in ms, or null if the text is not one
+ */
+function parseOneShot(
+  text: string,
+  givenTime: TimeOfDay | null,
+  now: number,
+  tz: string
+): number | null {
+  const today = toWallTime(now, tz);
+  const time = givenTime ?? DEFAULT_TIME;
+  const at = (date: WallTime, t: TimeOfDay = time): number =>
+    fromWallTime({ ...date, hour: t.hour, minute: t.minute }, tz);
+
+  // "in 20 minutes", "in 2 days at 9am"
+  const relative = /^in\s+(.+)$/.exec(text);
+  if (relative) {
+    const duration = parseDuration(relative[1] ?? '');
+    if (duration === null) {
+      return null;
+    }
+    if (givenTime === null) {
+      return now + duration;
+    }
+    return duration % DAY_MS === 0 ? at(addDays(today, duration / DAY_MS)) : null;
+  }
+
+  // "at 5pm": today, or tomorrow if that has passed
+  if (text === '') {
+    if (givenTime === null) {
+      return null;
+    }
+    const todayAt = at(today);
+    return todayAt > now ? todayAt : at(addDays(today, 1));
+  }
+
+  const days: Record<string, number> = { today: 0, tomorrow: 1, 'day after tomorrow': 2 };
+  const offset = days[text.replace(/^the\s+/, '')];
+  if (offset !== undefined) {
+    return at(addDays(today, offset));
+  }
+
+  // "monday", "on friday", "next tuesday"
+  const weekdayMatch = /^(?:on\s+)?(next\s+|this\s+)?([a-z]+)$/.exec(text);
+  const weekday = weekdayMatch ? parseWeekday(weekdayMatch[2] ?? '') : null;
+  if (weekdayMatch && weekday && !weekday.plural) {
+    const currentWeekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+    let ahead = (weekday.day - currentWeekday + 7) % 7;
+    if (ahead === 0 && (weekdayMatch[1]?.trim() === 'next' || at(today) <= now)) {
+      ahead = 7;
+    }
+    return at(addDays(today, ahead));
+  }
+
+  // "2026-12-01", "dec 1", "1st of december 2026", "the 15th"
+  let date: WallTime | null = null;
+  let explicitYear = false;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text);
+  const withYear = /^(?:on\s+)?(?:the\s+)?(.+?)(?:,?\s+(\d{4}))?$/.exec(text);
+  const monthDay = withYear ? parseMonthDay(withYear[1] ?? '') : null;
+  const dayOnly = /^(?:on\s+)?the\s+(\d{1,2}(?:st|nd|rd|th))$/.exec(text);
+  if (iso) {
+    date = { ...today, year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+    explicitYear = true;
+  } else if (monthDay) {
+    explicitYear = withYear?.[2] !== undefined;
+    date = { ...today, year: explicitYear ? Number(withYear?.[2]) : today.year, ...monthDay };
+  } else if (dayOnly) {
+    const day = parseDayOfMonth(dayOnly[1] ?? '');
+    date = day !== null ? { ...today, day } : null;
+  }
+  if (date === null || !isValidDate(date.year, date.month, date.day)) {
+    return null;
+  }
+
+  // A date without a year that has passed means the next one
+  if (!explicitYear && at(date) <= now) {
+    date = dayOnly
+      ? { ...date, ...addMonth(date) }
+      : { ...date, year: date.year + 1 };
+    if (!isValidDate(date.year, date.month, date.day)) {
+      return null;
+    }
+  }
+  return at(date);
+}
+
+/**
+ * Get the same day of the next month.
+ */
+function addMonth(date: WallTime): { year: number; month: number } {
+  return date.month === 12
+    ? { year: date.year + 1, month: 1 }
+    : { year: date.year, month: date.month + 1 };
+}
+
+/**
+ * Parse a schedule written in English, e.g. "every weekday at 9am",
+ * "in 20 minutes", "first Monday of each month at 18:00" or
+ * "tomorrow 7:30". Days without a time run at 9:00.
+ *
+ * @throws ScheduleParseError if the text is not understood or in the past
+ */
+export function parseNaturalSchedule(
+  text: string,
+  options: NaturalScheduleOptions = {}
+): CronSchedule {
+  const now = options.now ?? Date.now();
+  const tz = options.tz ?? getLocalTimezone();
+  try {
+    toWallTime(now, tz);
+  } catch (error) {
+    if (error instanceof CronExpressionError) {
+      throw new ScheduleParseError(error.message);
+    }
+    throw error;
+  }
+
+  const normalized = normalize(text);
+  const { rest, time } = extractTime(normalized);
+
+  const recurring = parseRecurring(rest, time);
+  if (recurring) {
+    if (recurring.kind === 'cron' && options.tz !== undefined) {
+      recurring.tz = options.tz;
+    }
+    return recurring;
+  }
+
+  // Full ISO timestamps carry their own offset
+  const isoTimestamp = /^\d{4}-\d{2}-\d{2}t/.test(normalized) ? Date.parse(text.trim()) : NaN;
+  const atMs = parseOneShot(rest, time, now, tz) ?? isoTimestamp;
+  if (isNaN(atMs)) {
+    throw new ScheduleParseError(`Could not understand "${text.trim()}"; try e.g. ${EXAMPLES}`);
+  }
+  if (atMs <= now) {
+    throw new ScheduleParseError(`"${text.trim()}" is in the past`);
+  }
+  return { kind: 'at', atMs };
+}
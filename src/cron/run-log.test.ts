@@ -0,0 +1,68 @@
+/**
+ * Tests for the cron run log.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { CronRunLog } from './run-log.js';
+import type { CronRunRecord } from './types.js';
+
+function createRun(jobId: string, startedAtMs: number): CronRunRecord {
+  return { jobId, trigger: 'schedule', status: 'ok', startedAtMs, durationMs: 5 };
+}
+
+describe('CronRunLog', () => {
+  let testDir: string;
+  let log: CronRunLog;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'cron-runs-test-'));
+    log = new CronRunLog(join(testDir, 'runs'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep each job in its own log', async () => {
+    await log.append(createRun('a', 1));
+    await log.append(createRun('b', 2));
+    await log.append(createRun('a', 3));
+
+    expect((await log.read('a')).map((r) => r.startedAtMs)).toEqual([1, 3]);
+    expect((await log.read('a', 1)).map((r) => r.startedAtMs)).toEqual([3]);
+    expect(await log.read('c')).toEqual([]);
+  });
+
+  it('should keep only the latest 100 runs', async () => {
+    for (let i = 0; i < 105; i++) {
+      await log.append(createRun('a', i));
+    }
+
+    const runs = await log.read('a');
+    expect(runs).toHaveLength(100);
+    expect(runs[0]?.startedAtMs).toBe(5);
+  });
+
+  it('should skip lines cut short by a crash', async () => {
+    await log.append(createRun('a', 1));
+    await writeFile(join(testDir, 'runs', 'a.jsonl'), '{"jobId":"a",\n', { flag: 'a' });
+
+    expect(await log.read('a')).toHaveLength(1);
+  });
+
+  it('should ignore job IDs that are not file names', async () => {
+    await log.append(createRun('../escape', 1));
+
+    expect(await log.read('../escape')).toEqual([]);
+  });
+
+  it('should remove a job log', async () => {
+    await log.append(createRun('a', 1));
+    await log.remove('a');
+
+    expect(await log.read('a')).toEqual([]);
+  });
+});
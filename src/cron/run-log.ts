@@ -0,0 +1,88 @@
+/**
+ * Per-job log of cron runs.
+ */
+
+import { appendFile, readFile, writeFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { ensureDir } from '../utils/helpers.js';
+import type { CronRunRecord } from './types.js';
+
+/**
+ * Runs kept per job; older ones are dropped.
+ */
+const MAX_RUNS_PER_JOB = 100;
+
+/**
+ * Log of each job's runs, stored as one JSONL file per job.
+ */
+export class CronRunLog {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Get the file of a job's runs, or null for IDs that are not safe as
+   * file names.
+   */
+  private getPath(jobId: string): string | null {
+    return /^[\w-]+$/.test(jobId) ? join(this.dir, `${jobId}.jsonl`) : null;
+  }
+
+  /**
+   * Append a run to its job's log.
+   */
+  async append(record: CronRunRecord): Promise<void> {
+    const path = this.getPath(record.jobId);
+    if (path === null) {
+      return;
+    }
+    await ensureDir(this.dir);
+    await appendFile(path, JSON.stringify(record) + '\n', 'utf-8');
+
+    const runs = await this.read(record.jobId);
+    if (runs.length > MAX_RUNS_PER_JOB) {
+      const kept = runs.slice(-MAX_RUNS_PER_JOB).map((r) => JSON.stringify(r) + '\n');
+      await writeFile(path, kept.join(''), 'utf-8');
+    }
+  }
+
+  /**
+   * Read a job's runs, oldest first.
+   *
+   * @param limit - Only return this many of the latest runs.
+   */
+  async read(jobId: string, limit?: number): Promise<CronRunRecord[]> {
+    const path = this.getPath(jobId);
+    if (path === null || !existsSync(path)) {
+      return [];
+    }
+
+    const content = await readFile(path, 'utf-8');
+    const runs: CronRunRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        runs.push(JSON.parse(line) as CronRunRecord);
+      } catch {
+        // Skip lines cut short by a crash mid-write
+      }
+    }
+
+    return limit === undefined ? runs : runs.slice(-limit);
+  }
+
+  /**
+   * Delete a job's log.
+   */
+  async remove(jobId: string): Promise<void> {
+    const path = this.getPath(jobId);
+    if (path !== null) {
+      await rm(path, { force: true });
+    }
+  }
+}
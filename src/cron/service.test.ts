@@ -8,6 +8,7 @@ import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { CronService } from './service.js';
+import { CronExpressionError } from './expression.js';
 import type { CronSchedule } from './types.js';
 
 describe('CronService', () => {
@@ -106,6 +107,23 @@ describe('CronService', () => {
       expect(job.schedule.expr).toBe('0 9 * * *');
     });
 
+    it('should schedule cron jobs in their timezone', async () => {
+      const schedule: CronSchedule = { kind: 'cron', expr: '0 9 * * *', tz: 'Asia/Tokyo' };
+      const job = await service.addJob({ name: 'Tokyo', schedule, message: 'Ohayo' });
+
+      // 09:00 in Tokyo is 00:00 UTC all year
+      expect(new Date(job.state.nextRunAtMs ?? 0).toISOString()).toMatch(/T00:00:00\.000Z$/);
+    });
+
+    it('should reject invalid cron expressions', async () => {
+      const schedule: CronSchedule = { kind: 'cron', expr: '0 9 * * someday' };
+
+      await expect(service.addJob({ name: 'Bad', schedule, message: 'x' })).rejects.toThrow(
+        CronExpressionError
+      );
+      expect(await service.listJobs(true)).toHaveLength(0);
+    });
+
     it('should add a job with delivery settings', async () => {
       const schedule: CronSchedule = { kind: 'every', everyMs: 60000 };
       const job = await service.addJob({
@@ -263,6 +281,214 @@ describe('CronService', () => {
     });
   });
 
+  describe('run history', () => {
+    it('should log runs with an output excerpt and delivery target', async () => {
+      const svc = new CronService({
+        storePath,
+        onJob: vi.fn().mockResolvedValue('x'.repeat(1000)),
+      });
+      const job = await svc.addJob({
+        name: 'Report',
+        schedule: { kind: 'every', everyMs: 60000 },
+        message: 'Report',
+        deliver: true,
+        channel: 'telegram',
+        to: '42',
+      });
+
+      await svc.runJob(job.id);
+
+      const [run] = await svc.getRunHistory(job.id);
+      expect(run).toMatchObject({
+        jobId: job.id,
+        trigger: 'manual',
+        status: 'ok',
+        deliveredTo: 'telegram:42',
+      });
+      expect(run?.output).toHaveLength(500);
+      expect(run?.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should log failed runs', async () => {
+      const svc = new CronService({
+        storePath,
+        onJob: vi.fn().mockRejectedValue(new Error('Provider down')),
+      });
+      const job = await svc.addJob({
+        name: 'Report',
+        schedule: { kind: 'every', everyMs: 60000 },
+        message: 'Report',
+      });
+
+      await svc.runJob(job.id);
+
+      expect(await svc.getRunHistory(job.id)).toMatchObject([
+        { status: 'error', error: 'Provider down' },
+      ]);
+      expect((await svc.listJobs())[0]?.state.lastError).toBe('Provider down');
+    });
+
+    it('should skip a run while the previous one is in progress', async () => {
+      let finish = (): void => undefined;
+      const svc = new CronService({
+        storePath,
+        onJob: () => new Promise<string>((resolve) => (finish = () => resolve('done'))),
+      });
+      const job = await svc.addJob({
+        name: 'Slow',
+        schedule: { kind: 'every', everyMs: 60000 },
+        message: 'Slow',
+      });
+
+      const first = svc.runJob(job.id);
+      expect(await svc.runJob(job.id)).toBe(false);
+      finish();
+      expect(await first).toBe(true);
+
+      expect((await svc.getRunHistory(job.id)).map((r) => r.status)).toEqual(['skipped', 'ok']);
+      expect((await svc.getRunHistory(job.id))[0]?.reason).toBe('Previous run still in progress');
+    });
+
+    it('should run jobs that are due together one at a time', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const svc = new CronService({
+        storePath,
+        onJob: async (job) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          active--;
+          return job.name;
+        },
+      });
+      await svc.start();
+      const atMs = Date.now() + 50;
+      const first = await svc.addJob({ name: 'A', schedule: { kind: 'at', atMs }, message: 'A' });
+      const second = await svc.addJob({ name: 'B', schedule: { kind: 'at', atMs }, message: 'B' });
+
+      await vi.waitFor(async () => {
+        expect(await svc.getRunHistory(first.id)).toHaveLength(1);
+        expect(await svc.getRunHistory(second.id)).toHaveLength(1);
+      });
+      svc.stop();
+
+      expect(maxActive).toBe(1);
+      expect((await svc.getRunHistory(second.id))[0]?.status).toBe('ok');
+    });
+
+    it('should delete the history of removed jobs', async () => {
+      const job = await service.addJob({
+        name: 'Test',
+        schedule: { kind: 'every', everyMs: 60000 },
+        message: 'Test',
+      });
+      await service.runJob(job.id);
+
+      await service.removeJob(job.id);
+
+      expect(await service.getRunHistory(job.id)).toEqual([]);
+    });
+  });
+
+  describe('misfires', () => {
+    // Store a job that last ran 3.5 minutes ago and was due every minute since
+    async function writeMissedJob(
+      misfire: string,
+      schedule: Record<string, unknown> = { kind: 'every', everyMs: 60000 }
+    ): Promise<number> {
+      const firstMissed = Date.now() - 150000;
+      const job = {
+        id: 'missed',
+        name: 'Missed Job',
+        enabled: true,
+        schedule,
+        payload: { kind: 'agent_turn', message: 'Test', deliver: false },
+        state: { nextRunAtMs: firstMissed },
+        createdAtMs: 0,
+        updatedAtMs: 0,
+        deleteAfterRun: false,
+        misfire,
+      };
+      await writeFile(storePath, JSON.stringify({ version: 1, jobs: [job] }), 'utf-8');
+      return firstMissed;
+    }
+
+    it('should log missed runs as skipped with the skip policy', async () => {
+      await writeMissedJob('skip');
+      const callback = vi.fn().mockResolvedValue('done');
+      const svc = new CronService({ storePath, onJob: callback });
+
+      await svc.start();
+      svc.stop();
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(await svc.getRunHistory('missed')).toMatchObject([
+        { trigger: 'catchup', status: 'skipped', reason: 'Missed 3 run(s) while not running' },
+      ]);
+      expect((await svc.listJobs())[0]?.state.nextRunAtMs).toBeGreaterThan(Date.now());
+    });
+
+    it('should run once for all missed runs with the run_once policy', async () => {
+      const firstMissed = await writeMissedJob('run_once');
+      const callback = vi.fn().mockResolvedValue('done');
+      const svc = new CronService({ storePath, onJob: callback });
+
+      await svc.start();
+      await vi.waitFor(async () => expect(await svc.getRunHistory('missed')).toHaveLength(1));
+      svc.stop();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect((await svc.getRunHistory('missed'))[0]).toMatchObject({
+        trigger: 'catchup',
+        status: 'ok',
+        scheduledAtMs: firstMissed + 120000,
+      });
+    });
+
+    it('should run each missed run with the run_all policy', async () => {
+      const firstMissed = await writeMissedJob('run_all');
+      const callback = vi.fn().mockResolvedValue('done');
+      const svc = new CronService({ storePath, onJob: callback });
+
+      await svc.start();
+      await vi.waitFor(async () => expect(await svc.getRunHistory('missed')).toHaveLength(3));
+      svc.stop();
+
+      expect(callback).toHaveBeenCalledTimes(3);
+      expect((await svc.getRunHistory('missed')).map((r) => r.scheduledAtMs)).toEqual([
+        firstMissed,
+        firstMissed + 60000,
+        firstMissed + 120000,
+      ]);
+    });
+
+    it('should retire missed one-shot jobs it skips', async () => {
+      await writeMissedJob('skip', { kind: 'at', atMs: Date.now() - 150000 });
+      const svc = new CronService({ storePath });
+
+      await svc.start();
+      svc.stop();
+
+      const [job] = await svc.listJobs(true);
+      expect(job?.enabled).toBe(false);
+      expect(job?.state.nextRunAtMs).toBeUndefined();
+    });
+
+    it('should keep skipping missed runs of jobs stored without a policy', async () => {
+      await writeFile(
+        storePath,
+        JSON.stringify({
+          version: 1,
+          jobs: [{ id: 'old', name: 'Old', schedule: { kind: 'every', everyMs: 60000 } }],
+        }),
+        'utf-8'
+      );
+
+      expect((await service.listJobs())[0]?.misfire).toBe('skip');
+    });
+  });
+
   describe('status', () => {
     it('should return service status', async () => {
       const status = service.status();
@@ -305,6 +531,19 @@ describe('CronService', () => {
       expect(jobs[0]?.id).toBe('test-id');
       expect(jobs[0]?.name).toBe('Existing Job');
     });
+
+    it('should keep the owner and agent of jobs', async () => {
+      await service.addJob({
+        name: 'Reminder',
+        schedule: { kind: 'every', everyMs: 60000 },
+        message: 'Test',
+        owner: 'telegram:42',
+        agent: 'home',
+      });
+
+      const [job] = await new CronService({ storePath }).listJobs();
+      expect(job).toMatchObject({ owner: 'telegram:42', agent: 'home' });
+    });
   });
 });
 
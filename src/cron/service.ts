@@ -4,15 +4,33 @@
 
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
-import { dirname } from 'node:path';
+import { dirname, join } from 'node:path';
 import { randomUUID } from 'node:crypto';
-import type {
-  CronJob,
-  CronJobState,
-  CronPayload,
-  CronSchedule,
-  CronStore,
+import {
+  getCronDeliveryTarget,
+  type CronJob,
+  type CronJobState,
+  type CronMisfirePolicy,
+  type CronPayload,
+  type CronRunRecord,
+  type CronRunTrigger,
+  type CronSchedule,
+  type CronStore,
 } from './types.js';
+import { CronExpressionError, getNextCronRun, parseCronExpression } from './expression.js';
+import { CronRunLog } from './run-log.js';
+
+/**
+ * Most missed runs a job with the run_all policy catches up on.
+ */
+const MAX_CATCHUP_RUNS = 24;
+
+/**
+ * Longest excerpt of a run's output kept in the run log, in characters.
+ */
+const MAX_OUTPUT_EXCERPT_CHARS = 500;
+
+const MISFIRE_POLICIES: CronMisfirePolicy[] = ['skip', 'run_once', 'run_all'];
 
 /** Current time in milliseconds */
 function nowMs(): number {
@@ -38,60 +56,14 @@ function computeNextRun(schedule: CronSchedule, currentMs: number): number | und
   }
 
   if (schedule.kind === 'cron' && schedule.expr !== undefined) {
-    // Simple cron parsing - supports basic expressions
-    // For production, consider using cron-parser package
-    return computeCronNextRun(schedule.expr, currentMs);
-  }
-
-  return undefined;
-}
-
-/**
- * Simple cron expression parser.
- * Supports: minute hour day month weekday
- */
-function computeCronNextRun(expr: string, currentMs: number): number | undefined {
-  const parts = expr.trim().split(/\s+/);
-  if (parts.length < 5) {
-    return undefined;
-  }
-
-  const [minuteExpr, hourExpr, dayExpr, monthExpr, weekdayExpr] = parts;
-  if (
-    minuteExpr === undefined ||
-    hourExpr === undefined ||
-    dayExpr === undefined ||
-    monthExpr === undefined ||
-    weekdayExpr === undefined
-  ) {
-    return undefined;
-  }
-
-  const now = new Date(currentMs);
-  const candidate = new Date(currentMs);
-
-  // Try finding next matching time within the next year
-  for (let i = 0; i < 365 * 24 * 60; i++) {
-    candidate.setTime(now.getTime() + i * 60 * 1000);
-
-    const minute = candidate.getMinutes();
-    const hour = candidate.getHours();
-    const day = candidate.getDate();
-    const month = candidate.getMonth() + 1;
-    const weekday = candidate.getDay();
-
-    if (
-      matchCronField(minuteExpr, minute) &&
-      matchCronField(hourExpr, hour) &&
-      matchCronField(dayExpr, day) &&
-      matchCronField(monthExpr, month) &&
-      matchCronField(weekdayExpr, weekday)
-    ) {
-      // Set seconds and milliseconds to 0
-      candidate.setSeconds(0, 0);
-      if (candidate.getTime() > currentMs) {
-        return candidate.getTime();
+    try {
+      return getNextCronRun(parseCronExpression(schedule.expr, schedule.tz), currentMs);
+    } catch (error) {
+      // Jobs saved before expressions were validated never run
+      if (error instanceof CronExpressionError) {
+        return undefined;
       }
+      throw error;
     }
   }
 
@@ -99,42 +71,23 @@ function computeCronNextRun(expr: string, currentMs: number): number | undefined
 }
 
 /**
- * Match a cron field expression against a value.
+ * Get the times a job was due from its first missed run up to now.
+ *
+ * @param limit - Stop after this many times.
  */
-function matchCronField(expr: string, value: number): boolean {
-  if (expr === '*') {
-    return true;
-  }
-
-  // Handle step values (*/n)
-  if (expr.startsWith('*/')) {
-    const step = parseInt(expr.slice(2), 10);
-    if (!isNaN(step) && step > 0) {
-      return value % step === 0;
-    }
-    return false;
-  }
-
-  // Handle ranges (n-m)
-  if (expr.includes('-')) {
-    const [startStr, endStr] = expr.split('-');
-    const start = parseInt(startStr ?? '', 10);
-    const end = parseInt(endStr ?? '', 10);
-    if (!isNaN(start) && !isNaN(end)) {
-      return value >= start && value <= end;
-    }
-    return false;
-  }
-
-  // Handle lists (n,m,o)
-  if (expr.includes(',')) {
-    const values = expr.split(',').map((v) => parseInt(v.trim(), 10));
-    return values.includes(value);
-  }
-
-  // Single value
-  const singleValue = parseInt(expr, 10);
-  return !isNaN(singleValue) && value === singleValue;
+function getMissedRuns(
+  schedule: CronSchedule,
+  firstMs: number,
+  currentMs: number,
+  limit: number
+): number[] {
+  const times: number[] = [];
+  let time: number | undefined = firstMs;
+  while (time !== undefined && time <= currentMs && times.length < limit) {
+    times.push(time);
+    time = computeNextRun(schedule, time);
+  }
+  return times;
 }
 
 /**
@@ -227,13 +180,20 @@ export interface CronServiceOptions {
 export class CronService {
   readonly storePath: string;
   private readonly onJob: CronJobCallback | undefined;
+  private readonly runLog: CronRunLog;
   private store: CronStore | null = null;
   private timerHandle: ReturnType<typeof setTimeout> | null = null;
   private running = false;
+  private saveQueue: Promise<void> = Promise.resolve();
+  /** Runs wait for the ones queued before them, so jobs never overlap */
+  private runQueue: Promise<void> = Promise.resolve();
+  /** IDs of jobs with a run queued or in progress */
+  private readonly activeRuns = new Set<string>();
 
   constructor(options: CronServiceOptions) {
     this.storePath = options.storePath;
     this.onJob = options.onJob;
+    this.runLog = new CronRunLog(join(dirname(options.storePath), 'runs'));
   }
 
   /**
@@ -259,7 +219,7 @@ export class CronService {
               const payloadData = job['payload'] as Record<string, unknown> | undefined;
               const stateData = job['state'] as Record<string, unknown> | undefined;
 
-              jobs.push({
+              const loaded: CronJob = {
                 id: String(job['id'] ?? ''),
                 name: String(job['name'] ?? ''),
                 enabled: job['enabled'] !== false,
@@ -286,7 +246,18 @@ export class CronService {
                 createdAtMs: Number(job['createdAtMs'] ?? 0),
                 updatedAtMs: Number(job['updatedAtMs'] ?? 0),
                 deleteAfterRun: job['deleteAfterRun'] === true,
-              });
+                // Jobs stored before misfire policies keep skipping missed runs
+                misfire: MISFIRE_POLICIES.includes(job['misfire'] as CronMisfirePolicy)
+                  ? (job['misfire'] as CronMisfirePolicy)
+                  : 'skip',
+              };
+              if (typeof job['owner'] === 'string') {
+                loaded.owner = job['owner'];
+              }
+              if (typeof job['agent'] === 'string') {
+                loaded.agent = job['agent'];
+              }
+              jobs.push(loaded);
             }
           }
         }
@@ -306,9 +277,19 @@ export class CronService {
   }
 
   /**
-   * Save jobs to disk.
+   * Save jobs to disk. Runs finish in the background, so saves are queued
+   * to keep one from overwriting another mid-write.
+   */
+  private saveStore(): Promise<void> {
+    const save = this.saveQueue.then(() => this.writeStore());
+    this.saveQueue = save.catch(() => undefined);
+    return save;
+  }
+
+  /**
+   * Write jobs to disk.
    */
-  private async saveStore(): Promise<void> {
+  private async writeStore(): Promise<void> {
     if (this.store === null) {
       return;
     }
@@ -347,6 +328,9 @@ export class CronService {
         createdAtMs: j.createdAtMs,
         updatedAtMs: j.updatedAtMs,
         deleteAfterRun: j.deleteAfterRun,
+        misfire: j.misfire,
+        owner: j.owner,
+        agent: j.agent,
       })),
     };
 
@@ -354,14 +338,19 @@ export class CronService {
   }
 
   /**
-   * Start the cron service.
+   * Start the cron service, applying each job's misfire policy to runs
+   * that were due while it was not running.
    */
   async start(): Promise<void> {
     this.running = true;
     await this.loadStore();
-    this.recomputeNextRuns();
+    const catchUps = await this.handleMisfires();
     await this.saveStore();
     this.armTimer();
+
+    for (const { job, times } of catchUps) {
+      void this.catchUp(job, times);
+    }
   }
 
   /**
@@ -376,22 +365,78 @@ export class CronService {
   }
 
   /**
-   * Recompute next run times for all enabled jobs.
+   * Recompute next run times for all enabled jobs, logging missed runs
+   * that are skipped.
+   *
+   * @returns The missed runs to catch up on, by job
    */
-  private recomputeNextRuns(): void {
+  private async handleMisfires(): Promise<Array<{ job: CronJob; times: number[] }>> {
     if (this.store === null) {
-      return;
+      return [];
     }
     const now = nowMs();
-    for (const job of this.store.jobs) {
-      if (job.enabled) {
-        const nextRun = computeNextRun(job.schedule, now);
-        if (nextRun !== undefined) {
-          job.state.nextRunAtMs = nextRun;
-        } else {
-          delete job.state.nextRunAtMs;
+    const catchUps: Array<{ job: CronJob; times: number[] }> = [];
+
+    for (const job of [...this.store.jobs]) {
+      if (!job.enabled) {
+        continue;
+      }
+
+      const firstMissed = job.state.nextRunAtMs;
+      const missed =
+        firstMissed !== undefined && firstMissed <= now
+          ? getMissedRuns(job.schedule, firstMissed, now, MAX_CATCHUP_RUNS + 1)
+          : [];
+
+      // A missed one-shot job is retired by its catch-up run, or below if skipped
+      const nextRun =
+        missed.length > 0 && job.schedule.kind === 'at'
+          ? undefined
+          : computeNextRun(job.schedule, now);
+      if (nextRun !== undefined) {
+        job.state.nextRunAtMs = nextRun;
+      } else {
+        delete job.state.nextRunAtMs;
+      }
+      if (missed.length === 0) {
+        continue;
+      }
+
+      const more = missed.length > MAX_CATCHUP_RUNS;
+      const count = more ? `over ${MAX_CATCHUP_RUNS}` : String(missed.length);
+      if (job.misfire === 'skip') {
+        await this.logSkipped(job, 'catchup', missed[0], `Missed ${count} run(s) while not running`);
+        if (job.schedule.kind === 'at') {
+          this.finishOneShot(job);
+        }
+      } else if (job.misfire === 'run_once') {
+        catchUps.push({ job, times: missed.slice(-1) });
+      } else {
+        if (more) {
+          await this.logSkipped(
+            job,
+            'catchup',
+            missed[MAX_CATCHUP_RUNS],
+            `Missed ${count} runs while not running; caught up on the first ${MAX_CATCHUP_RUNS}`
+          );
         }
+        catchUps.push({ job, times: missed.slice(0, MAX_CATCHUP_RUNS) });
+      }
+    }
+
+    return catchUps;
+  }
+
+  /**
+   * Run a job once for each missed time, one after another.
+   */
+  private async catchUp(job: CronJob, times: number[]): Promise<void> {
+    for (const scheduledAtMs of times) {
+      // Stop if the job was removed or paused meanwhile
+      if (!this.running || !job.enabled || !this.store?.jobs.includes(job)) {
+        return;
       }
+      await this.runInBackground(job, 'catchup', scheduledAtMs);
     }
   }
 
@@ -435,7 +480,7 @@ export class CronService {
   }
 
   /**
-   * Handle timer tick - run due jobs.
+   * Handle timer tick - queue due jobs and schedule their next runs.
    */
   private async onTimer(): Promise<void> {
     if (this.store === null) {
@@ -448,7 +493,15 @@ export class CronService {
     );
 
     for (const job of dueJobs) {
-      await this.executeJob(job);
+      const scheduledAtMs = job.state.nextRunAtMs;
+      // One-shot jobs are finished when their run ends
+      const nextRun = job.schedule.kind === 'at' ? undefined : computeNextRun(job.schedule, now);
+      if (nextRun !== undefined) {
+        job.state.nextRunAtMs = nextRun;
+      } else {
+        delete job.state.nextRunAtMs;
+      }
+      void this.runInBackground(job, 'schedule', scheduledAtMs);
     }
 
     await this.saveStore();
@@ -456,45 +509,137 @@ export class CronService {
   }
 
   /**
-   * Execute a single job.
+   * Queue a run of a job, saving its state when it ends.
+   */
+  private async runInBackground(
+    job: CronJob,
+    trigger: CronRunTrigger,
+    scheduledAtMs: number | undefined
+  ): Promise<void> {
+    try {
+      await this.queueRun(job, trigger, scheduledAtMs);
+      await this.saveStore();
+      this.armTimer();
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.error(`[Cron] Failed to record run of job ${job.id}: ${message}`);
+    }
+  }
+
+  /**
+   * Run a job after the runs queued before it, one job at a time, since
+   * jobs share the agent that runs them. A job that is already queued or
+   * running is skipped.
    */
-  private async executeJob(job: CronJob): Promise<void> {
+  private async queueRun(
+    job: CronJob,
+    trigger: CronRunTrigger,
+    scheduledAtMs?: number
+  ): Promise<CronRunRecord> {
+    if (this.activeRuns.has(job.id)) {
+      return this.logSkipped(job, trigger, scheduledAtMs, 'Previous run still in progress');
+    }
+
+    this.activeRuns.add(job.id);
+    const run = this.runQueue.then(() => this.executeJob(job, trigger, scheduledAtMs));
+    this.runQueue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    try {
+      return await run;
+    } finally {
+      this.activeRuns.delete(job.id);
+    }
+  }
+
+  /**
+   * Execute a single job and log the run.
+   */
+  private async executeJob(
+    job: CronJob,
+    trigger: CronRunTrigger,
+    scheduledAtMs?: number
+  ): Promise<CronRunRecord> {
     const startMs = nowMs();
+    const record: CronRunRecord = {
+      jobId: job.id,
+      trigger,
+      status: 'ok',
+      startedAtMs: startMs,
+      durationMs: 0,
+    };
+    if (scheduledAtMs !== undefined) {
+      record.scheduledAtMs = scheduledAtMs;
+    }
 
     try {
-      if (this.onJob !== undefined) {
-        await this.onJob(job);
+      const output = this.onJob !== undefined ? await this.onJob(job) : null;
+      if (output) {
+        record.output = output.slice(0, MAX_OUTPUT_EXCERPT_CHARS);
+      }
+      const target = getCronDeliveryTarget(job.payload);
+      if (target !== undefined) {
+        record.deliveredTo = `${target.channel}:${target.chatId}`;
       }
 
       job.state.lastStatus = 'ok';
       delete job.state.lastError;
     } catch (e) {
+      record.status = 'error';
+      record.error = e instanceof Error ? e.message : String(e);
       job.state.lastStatus = 'error';
-      job.state.lastError = e instanceof Error ? e.message : String(e);
+      job.state.lastError = record.error;
     }
 
+    record.durationMs = nowMs() - startMs;
     job.state.lastRunAtMs = startMs;
     job.updatedAtMs = nowMs();
-
-    // Handle one-shot jobs
     if (job.schedule.kind === 'at') {
-      if (job.deleteAfterRun && this.store !== null) {
-        this.store.jobs = this.store.jobs.filter((j) => j.id !== job.id);
-      } else {
-        job.enabled = false;
-        delete job.state.nextRunAtMs;
-      }
+      this.finishOneShot(job);
+    }
+
+    await this.runLog.append(record);
+    return record;
+  }
+
+  /**
+   * Retire a one-shot job after its time has come.
+   */
+  private finishOneShot(job: CronJob): void {
+    if (job.deleteAfterRun && this.store !== null) {
+      this.store.jobs = this.store.jobs.filter((j) => j.id !== job.id);
     } else {
-      // Compute next run
-      const nextRun = computeNextRun(job.schedule, nowMs());
-      if (nextRun !== undefined) {
-        job.state.nextRunAtMs = nextRun;
-      } else {
-        delete job.state.nextRunAtMs;
-      }
+      job.enabled = false;
+      delete job.state.nextRunAtMs;
     }
   }
 
+  /**
+   * Log a run that did not happen.
+   */
+  private async logSkipped(
+    job: CronJob,
+    trigger: CronRunTrigger,
+    scheduledAtMs: number | undefined,
+    reason: string
+  ): Promise<CronRunRecord> {
+    const record: CronRunRecord = {
+      jobId: job.id,
+      trigger,
+      status: 'skipped',
+      startedAtMs: nowMs(),
+      durationMs: 0,
+      reason,
+    };
+    if (scheduledAtMs !== undefined) {
+      record.scheduledAtMs = scheduledAtMs;
+    }
+    job.state.lastStatus = 'skipped';
+    await this.runLog.append(record);
+    return record;
+  }
+
   // ========== Public API ==========
 
   /**
@@ -512,6 +657,8 @@ export class CronService {
 
   /**
    * Add a new job.
+   *
+   * @throws CronExpressionError if a cron schedule is invalid
    */
   async addJob(options: {
     name: string;
@@ -521,7 +668,14 @@ export class CronService {
     channel?: string;
     to?: string;
     deleteAfterRun?: boolean;
+    misfire?: CronMisfirePolicy;
+    owner?: string;
+    agent?: string;
   }): Promise<CronJob> {
+    if (options.schedule.kind === 'cron') {
+      parseCronExpression(options.schedule.expr ?? '', options.schedule.tz);
+    }
+
     const store = await this.loadStore();
     const now = nowMs();
 
@@ -547,7 +701,14 @@ export class CronService {
       createdAtMs: now,
       updatedAtMs: now,
       deleteAfterRun: options.deleteAfterRun ?? false,
+      misfire: options.misfire ?? 'run_once',
     };
+    if (options.owner !== undefined) {
+      job.owner = options.owner;
+    }
+    if (options.agent !== undefined) {
+      job.agent = options.agent;
+    }
 
     store.jobs.push(job);
     await this.saveStore();
@@ -567,6 +728,7 @@ export class CronService {
 
     if (removed) {
       await this.saveStore();
+      await this.runLog.remove(jobId);
       this.armTimer();
     }
 
@@ -603,6 +765,9 @@ export class CronService {
 
   /**
    * Manually run a job.
+   *
+   * @returns False if the job does not exist, is disabled without force,
+   *   or is still running
    */
   async runJob(jobId: string, force: boolean = false): Promise<boolean> {
     const store = await this.loadStore();
@@ -612,15 +777,24 @@ export class CronService {
       if (!force && !job.enabled) {
         return false;
       }
-      await this.executeJob(job);
+      const record = await this.queueRun(job, 'manual');
       await this.saveStore();
       this.armTimer();
-      return true;
+      return record.status !== 'skipped';
     }
 
     return false;
   }
 
+  /**
+   * Get a job's run log, oldest first.
+   *
+   * @param limit - Only return this many of the latest runs.
+   */
+  async getRunHistory(jobId: string, limit?: number): Promise<CronRunRecord[]> {
+    return this.runLog.read(jobId, limit);
+  }
+
   /**
    * Get service status.
    */
@@ -9,6 +9,7 @@ import {
   createCronJobState,
   createCronJob,
   createCronStore,
+  getCronDeliveryTarget,
 } from './types.js';
 
 describe('cron types', () => {
@@ -59,6 +60,22 @@ describe('cron types', () => {
       expect(job.schedule.kind).toBe('every');
       expect(job.payload.kind).toBe('agent_turn');
       expect(job.deleteAfterRun).toBe(false);
+      expect(job.misfire).toBe('run_once');
+    });
+  });
+
+  describe('getCronDeliveryTarget', () => {
+    it('should return the chat of delivered jobs', () => {
+      const payload = { ...createCronPayload('Hi'), deliver: true, channel: 'telegram', to: '42' };
+      expect(getCronDeliveryTarget(payload)).toEqual({ channel: 'telegram', chatId: '42' });
+      expect(getCronDeliveryTarget({ ...createCronPayload('Hi'), deliver: true, to: '42' })).toEqual(
+        { channel: 'whatsapp', chatId: '42' }
+      );
+    });
+
+    it('should return nothing for jobs that are not delivered', () => {
+      expect(getCronDeliveryTarget({ ...createCronPayload('Hi'), to: '42' })).toBeUndefined();
+      expect(getCronDeliveryTarget({ ...createCronPayload('Hi'), deliver: true })).toBeUndefined();
     });
   });
 
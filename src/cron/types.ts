@@ -41,6 +41,12 @@ export interface CronJobState {
   lastError?: string;
 }
 
+/**
+ * What to do with runs that were due while the service was not running:
+ * drop them, run the job once, or run it once for every missed time.
+ */
+export type CronMisfirePolicy = 'skip' | 'run_once' | 'run_all';
+
 /**
  * A scheduled job.
  */
@@ -54,6 +60,38 @@ export interface CronJob {
   createdAtMs: number;
   updatedAtMs: number;
   deleteAfterRun: boolean;
+  /** Handling of runs missed while the service was down */
+  misfire: CronMisfirePolicy;
+  /** Session key of the chat that created the job with the agent's cron tool */
+  owner?: string;
+  /** Name of the agent that created the job; it runs the job with its own tools */
+  agent?: string;
+}
+
+/**
+ * What started a run: its schedule, catching up on a missed time at
+ * startup, or a manual request.
+ */
+export type CronRunTrigger = 'schedule' | 'catchup' | 'manual';
+
+/**
+ * One entry of a job's run log.
+ */
+export interface CronRunRecord {
+  jobId: string;
+  trigger: CronRunTrigger;
+  status: 'ok' | 'error' | 'skipped';
+  /** When the run was due; manual runs have none */
+  scheduledAtMs?: number;
+  startedAtMs: number;
+  durationMs: number;
+  /** Start of the agent's reply */
+  output?: string;
+  error?: string;
+  /** Why the job did not run, for skipped runs */
+  reason?: string;
+  /** Chat the reply was sent to, as channel:chatId */
+  deliveredTo?: string;
 }
 
 /**
@@ -64,6 +102,35 @@ export interface CronStore {
   jobs: CronJob[];
 }
 
+/**
+ * Describe a schedule for people, e.g. "every 30m" or "cron 0 9 * * 1-5 (Europe/Paris)".
+ */
+export function formatCronSchedule(schedule: CronSchedule): string {
+  if (schedule.kind === 'at') {
+    return `once at ${new Date(schedule.atMs ?? 0).toISOString()}`;
+  }
+  if (schedule.kind === 'every') {
+    const seconds = (schedule.everyMs ?? 0) / 1000;
+    if (seconds % 3600 === 0) {
+      return `every ${seconds / 3600}h`;
+    }
+    return seconds % 60 === 0 ? `every ${seconds / 60}m` : `every ${seconds}s`;
+  }
+  return `cron ${schedule.expr ?? ''}${schedule.tz ? ` (${schedule.tz})` : ''}`;
+}
+
+/**
+ * Get the chat a job's reply is delivered to, if it is delivered.
+ */
+export function getCronDeliveryTarget(
+  payload: CronPayload
+): { channel: string; chatId: string } | undefined {
+  if (!payload.deliver || !payload.to) {
+    return undefined;
+  }
+  return { channel: payload.channel ?? 'whatsapp', chatId: payload.to };
+}
+
 /**
  * Create a default CronSchedule.
  */
@@ -103,6 +170,7 @@ export function createCronJob(id: string, name: string): CronJob {
     createdAtMs: 0,
     updatedAtMs: 0,
     deleteAfterRun: false,
+    misfire: 'run_once',
   };
 }
 
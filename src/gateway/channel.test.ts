@@ -0,0 +1,94 @@
+/**
+ * Tests for the HTTP gateway channel.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { HttpChannel, RequestCancelledError } from './channel.js';
+import { MessageBus } from '../bus/queue.js';
+import { TimeoutError } from '../utils/async-queue.js';
+import { createReply, getMessageId } from '../bus/events.js';
+
+describe('HttpChannel', () => {
+  it('should publish inbound messages and resolve with the final reply', async () => {
+    const bus = new MessageBus();
+    const channel = new HttpChannel(bus, 1000);
+    const onUpdate = vi.fn();
+
+    const reply = channel.submit({ chatId: 'c1', senderId: 'u1', content: 'hi', onUpdate });
+    const inbound = await bus.consumeInbound();
+    expect(inbound).toMatchObject({ channel: 'http', chatId: 'c1', senderId: 'u1', content: 'hi' });
+    expect(getMessageId(inbound)).toBeDefined();
+
+    await channel.send({ ...createReply(inbound, 'He'), stream: { id: 's', done: false } });
+    await channel.send({ ...createReply(inbound, 'Hello'), stream: { id: 's', done: true } });
+
+    expect((await reply).content).toBe('Hello');
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    expect(onUpdate.mock.calls[0]?.[0].content).toBe('He');
+  });
+
+  it('should match replies to the requests they answer', async () => {
+    const bus = new MessageBus();
+    const channel = new HttpChannel(bus, 1000);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const first = channel.submit({ chatId: 'c1', senderId: 'u1', content: 'one' });
+    const second = channel.submit({ chatId: 'c1', senderId: 'u1', content: 'two' });
+    const inboundOne = await bus.consumeInbound();
+    const inboundTwo = await bus.consumeInbound();
+
+    // Messages that answer no request, e.g. from the message tool, are dropped
+    await channel.send({ channel: 'http', chatId: 'c1', content: 'cron reminder' });
+    await channel.send(createReply(inboundTwo, 'reply two'));
+    await channel.send(createReply(inboundOne, 'reply one'));
+
+    expect((await first).content).toBe('reply one');
+    expect((await second).content).toBe('reply two');
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('should drop replies that arrive after the request timed out', async () => {
+    const bus = new MessageBus();
+    const channel = new HttpChannel(bus, 20);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const late = channel.submit({ chatId: 'c1', senderId: 'u1', content: 'slow' });
+    await expect(late).rejects.toBeInstanceOf(TimeoutError);
+    const lateInbound = await bus.consumeInbound();
+
+    const next = channel.submit({ chatId: 'c1', senderId: 'u1', content: 'fast' });
+    const nextInbound = await bus.consumeInbound();
+    await channel.send(createReply(lateInbound, 'reply slow'));
+    await channel.send(createReply(nextInbound, 'reply fast'));
+
+    expect((await next).content).toBe('reply fast');
+    warn.mockRestore();
+  });
+
+  it('should time out when no reply arrives', async () => {
+    const channel = new HttpChannel(new MessageBus(), 20);
+
+    await expect(
+      channel.submit({ chatId: 'c1', senderId: 'u1', content: 'hi' })
+    ).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('should cancel the turn when the request is aborted', async () => {
+    const bus = new MessageBus();
+    const channel = new HttpChannel(bus, 1000);
+    const controller = new AbortController();
+
+    const reply = channel.submit({
+      chatId: 'c1',
+      senderId: 'u1',
+      content: 'hi',
+      signal: controller.signal,
+    });
+    const inbound = await bus.consumeInbound();
+    controller.abort();
+
+    await expect(reply).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(bus.consumeCancellation(getMessageId(inbound) ?? '')).toBe(true);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Channel that connects HTTP requests to the message bus.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { OutboundMessage } from '../bus/events.js';
+import type { MessageBus } from '../bus/queue.js';
+import { BaseChannel } from '../channels/base.js';
+import { TimeoutError } from '../utils/async-queue.js';
+
+/**
+ * Callback for intermediate updates of a streamed reply.
+ */
+export type ReplyUpdateCallback = (message: OutboundMessage) => void;
+
+/**
+ * Error thrown when a request is cancelled before its reply arrives.
+ */
+export class RequestCancelledError extends Error {
+  constructor(message = 'The request was cancelled') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * A request waiting for the agent's reply.
+ */
+interface PendingReply {
+  onUpdate: ReplyUpdateCallback | undefined;
+  resolve: (message: OutboundMessage) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Options for submitting a message.
+ */
+export interface SubmitOptions {
+  chatId: string;
+  senderId: string;
+  content: string;
+  media?: string[];
+  /** Called with each intermediate update of a streamed reply */
+  onUpdate?: ReplyUpdateCallback;
+  /** Aborted when the client goes away; cancels the agent's turn */
+  signal?: AbortSignal;
+}
+
+/**
+ * Pseudo-channel for the HTTP gateway.
+ *
+ * Messages posted over HTTP are published to the bus like any other
+ * inbound message, with a request ID as their `messageId`, and the
+ * agent's reply is routed back here by the ChannelManager. Replies are
+ * matched to requests by their `replyTo`, so late replies and other
+ * messages to the chat (from the message tool or cron jobs) never answer
+ * the wrong request.
+ */
+export class HttpChannel extends BaseChannel {
+  readonly name = 'http';
+  readonly supportsStreaming = true;
+  private readonly replyTimeoutMs: number;
+  /** Requests waiting for a reply, by request ID */
+  private pending: Map<string, PendingReply> = new Map();
+
+  constructor(bus: MessageBus, replyTimeoutMs: number) {
+    super({ enabled: true, allowFrom: [] }, bus);
+    this.replyTimeoutMs = replyTimeoutMs;
+  }
+
+  async start(): Promise<void> {
+    this._running = true;
+  }
+
+  async stop(): Promise<void> {
+    this._running = false;
+    for (const waiter of this.pending.values()) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Gateway is shutting down'));
+    }
+    this.pending.clear();
+  }
+
+  async send(message: OutboundMessage): Promise<void> {
+    const requestId = message.replyTo;
+    const waiter = requestId !== undefined ? this.pending.get(requestId) : undefined;
+    if (requestId === undefined || !waiter) {
+      // Updates still streaming to a cancelled request are dropped quietly
+      if (!message.stream || message.stream.done) {
+        console.warn(`[HTTP] No request waiting for this message to ${message.chatId}, dropping`);
+      }
+      return;
+    }
+
+    if (message.stream && !message.stream.done) {
+      waiter.onUpdate?.(message);
+      return;
+    }
+
+    this.removeWaiter(requestId);
+    waiter.resolve(message);
+  }
+
+  /**
+   * Publish a message to the bus and wait for the agent's reply.
+   *
+   * @throws TimeoutError if no reply arrives within the reply timeout.
+   * @throws RequestCancelledError if the signal is aborted first.
+   */
+  async submit(options: SubmitOptions): Promise<OutboundMessage> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    const requestId = randomUUID();
+    const onAbort = (): void => {
+      const waiter = this.pending.get(requestId);
+      if (waiter) {
+        this.removeWaiter(requestId);
+        this.bus.cancelTurn(requestId);
+        waiter.reject(new RequestCancelledError());
+      }
+    };
+    const reply = new Promise<OutboundMessage>((resolve, reject) => {
+      this.pending.set(requestId, {
+        onUpdate: options.onUpdate,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.removeWaiter(requestId);
+          reject(new TimeoutError(`No reply within ${this.replyTimeoutMs}ms`));
+        }, this.replyTimeoutMs),
+      });
+    }).finally(() => signal?.removeEventListener('abort', onAbort));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const messageOptions: Parameters<BaseChannel['handleMessage']>[0] = {
+      senderId: options.senderId,
+      chatId: options.chatId,
+      content: options.content,
+      metadata: { messageId: requestId },
+    };
+    if (options.media) {
+      messageOptions.media = options.media;
+    }
+    await this.handleMessage(messageOptions);
+
+    return reply;
+  }
+
+  /**
+   * Remove a waiter once it is resolved or timed out.
+   */
+  private removeWaiter(requestId: string): void {
+    const waiter = this.pending.get(requestId);
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.pending.delete(requestId);
+    }
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * HTTP gateway module.
+ */
+
+export * from './channel.js';
+export * from './server.js';
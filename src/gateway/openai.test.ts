@@ -0,0 +1,55 @@
+/**
+ * Tests for the OpenAI compatibility layer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DeltaTracker, buildTurnContent } from './openai.js';
+
+describe('buildTurnContent', () => {
+  const request = {
+    messages: [
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'What is 2+2?' },
+      { role: 'assistant', content: '4' },
+      { role: 'user', content: 'And times 3?' },
+    ],
+  };
+
+  it('should use only the last user message with a session', () => {
+    expect(buildTurnContent(request, true)).toBe('And times 3?');
+  });
+
+  it('should fold earlier messages into the turn without a session', () => {
+    const content = buildTurnContent(request, false);
+
+    expect(content).toContain('User: What is 2+2?');
+    expect(content).toContain('Assistant: 4');
+    expect(content).toMatch(/\[Current message\]\nAnd times 3\?$/);
+    expect(content).not.toContain('Be brief');
+  });
+
+  it('should return null without a user message', () => {
+    expect(buildTurnContent({ messages: [{ role: 'system', content: 'x' }] }, true)).toBeNull();
+  });
+});
+
+describe('DeltaTracker', () => {
+  it('should emit only new text of cumulative updates', () => {
+    const tracker = new DeltaTracker();
+
+    expect(tracker.next('Hel')).toBe('Hel');
+    expect(tracker.next('Hello')).toBe('lo');
+    expect(tracker.finish('Hello world')).toBe(' world');
+  });
+
+  it('should continue the final reply after text from before tool calls', () => {
+    const tracker = new DeltaTracker();
+
+    tracker.next('Let me check.\n\nThe file has 3 li');
+    expect(tracker.finish('The file has 3 lines.')).toBe('nes.');
+  });
+
+  it('should send the whole final reply when nothing was streamed', () => {
+    expect(new DeltaTracker().finish('Done')).toBe('Done');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * OpenAI chat completions compatibility layer.
+ *
+ * Maps OpenAI-style requests onto agent turns and agent replies back
+ * onto OpenAI response and stream chunk objects.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+
+/**
+ * Model name reported when the request does not name one.
+ */
+export const DEFAULT_MODEL_ID = 'ingenium';
+
+/**
+ * Header that selects the agent session for a request.
+ */
+export const SESSION_HEADER = 'x-ingenium-session';
+
+const ContentPartSchema = z.object({
+  type: z.string(),
+  text: z.string().optional(),
+});
+
+const ChatMessageSchema = z.object({
+  role: z.string(),
+  content: z.union([z.string(), z.array(ContentPartSchema), z.null()]).optional(),
+});
+
+/**
+ * Body of POST /v1/chat/completions. Sampling and tool fields are
+ * accepted but ignored: the agent uses its own configuration and tools.
+ */
+export const ChatCompletionRequestSchema = z.object({
+  model: z.string().optional(),
+  messages: z.array(ChatMessageSchema).min(1),
+  stream: z.boolean().optional(),
+  user: z.string().min(1).optional(),
+});
+
+export type ChatCompletionRequest = z.infer<typeof ChatCompletionRequestSchema>;
+
+type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+/**
+ * A completion response object.
+ */
+export interface ChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: 'assistant'; content: string };
+    finish_reason: 'stop';
+  }>;
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+/**
+ * A streamed completion chunk.
+ */
+export interface ChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: { role?: 'assistant'; content?: string };
+    finish_reason: 'stop' | null;
+  }>;
+}
+
+/**
+ * Get the text of a message, joining text parts of multi-part content.
+ */
+function messageText(message: ChatMessage): string {
+  const content = message.content;
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .filter((part) => part.type === 'text' && part.text)
+      .map((part) => part.text)
+      .join('\n');
+  }
+  return '';
+}
+
+/**
+ * Build the agent turn content for a request.
+ *
+ * The agent keeps its own history per session, so only the last user
+ * message is sent. Without a session, each request starts a fresh
+ * session, and earlier messages from the request are folded into the
+ * turn so the agent still sees the conversation.
+ *
+ * @returns The turn content, or null if the request has no user message.
+ */
+export function buildTurnContent(
+  request: ChatCompletionRequest,
+  hasSession: boolean
+): string | null {
+  const lastUser = request.messages.map((m) => m.role).lastIndexOf('user');
+  const last = request.messages[lastUser];
+  if (!last) {
+    return null;
+  }
+
+  const current = messageText(last);
+  if (hasSession) {
+    return current;
+  }
+
+  const earlier = request.messages
+    .slice(0, lastUser)
+    .filter((m) => m.role === 'user' || m.role === 'assistant')
+    .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${messageText(m)}`);
+  if (earlier.length === 0) {
+    return current;
+  }
+
+  return `[Earlier conversation]\n${earlier.join('\n\n')}\n\n[Current message]\n${current}`;
+}
+
+/**
+ * Create a completion id.
+ */
+export function createCompletionId(): string {
+  return `chatcmpl-${randomUUID().replace(/-/g, '')}`;
+}
+
+/**
+ * Build a non-streaming completion response.
+ */
+export function buildCompletion(id: string, model: string, content: string): ChatCompletion {
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  };
+}
+
+/**
+ * Build a streamed completion chunk.
+ */
+export function buildChunk(
+  id: string,
+  model: string,
+  delta: ChatCompletionChunk['choices'][number]['delta'],
+  finishReason: 'stop' | null = null
+): ChatCompletionChunk {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+/**
+ * Turns cumulative reply updates into incremental deltas.
+ *
+ * Stream updates from the agent carry the full text so far; OpenAI
+ * clients expect only the new text in each chunk.
+ */
+export class DeltaTracker {
+  private sent = '';
+
+  /**
+   * Get the text not yet sent for a cumulative update.
+   */
+  next(content: string): string {
+    // Updates only grow, so anything past what was sent is new
+    const delta = content.length > this.sent.length ? content.slice(this.sent.length) : '';
+    this.sent = content;
+    return delta;
+  }
+
+  /**
+   * Get the text not yet sent for the final reply.
+   *
+   * The final reply holds only the text of the last LLM call, while the
+   * streamed text also holds text written before tool calls. The final
+   * reply overlaps with the end of what was streamed.
+   */
+  finish(content: string): string {
+    for (let i = 0; i < this.sent.length; i++) {
+      if (this.sent[i] === content[0] && content.startsWith(this.sent.slice(i))) {
+        return content.slice(this.sent.length - i);
+      }
+    }
+    return this.sent && content ? `\n\n${content}` : content;
+  }
+}
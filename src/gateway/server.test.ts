@@ -0,0 +1,385 @@
+/**
+ * Tests for the HTTP gateway server.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { rm, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { GatewayServer } from './server.js';
+import { MessageBus } from '../bus/queue.js';
+import { createReply, getMessageId } from '../bus/events.js';
+import { ChannelManager } from '../channels/manager.js';
+import { ConfigSchema, GatewayConfigSchema } from '../config/schema.js';
+import { CronService } from '../cron/service.js';
+import { SessionManager } from '../session/manager.js';
+import { McpServer } from '../mcp/server.js';
+import { McpClient } from '../mcp/client.js';
+import { HttpTransport } from '../mcp/transport.js';
+import { createTool } from '../agent/tools/registry.js';
+
+const TOKEN = 'secret-token';
+
+describe('GatewayServer', () => {
+  let testDir: string;
+  let bus: MessageBus;
+  let sessions: SessionManager;
+  let cron: CronService;
+  let channels: ChannelManager;
+  let server: GatewayServer;
+  let baseUrl: string;
+  let echoRunning: boolean;
+  let echoDelayMs: number;
+  let cancelledTurns: string[];
+
+  // Stand-in for the agent loop: echo each inbound message back, unless
+  // its turn was cancelled while "thinking"
+  async function runEcho(): Promise<void> {
+    while (echoRunning) {
+      const msg = await Promise.race([
+        bus.consumeInbound(),
+        new Promise<null>((resolve) => setTimeout(() => resolve(null), 50)),
+      ]);
+      if (msg === null) continue;
+      await new Promise((resolve) => setTimeout(resolve, echoDelayMs));
+      const messageId = getMessageId(msg);
+      if (messageId !== undefined && bus.consumeCancellation(messageId)) {
+        cancelledTurns.push(messageId);
+        continue;
+      }
+      await bus.publishOutbound(createReply(msg, `echo: ${msg.content}`));
+    }
+  }
+
+  function request(path: string, init: RequestInit = {}, token = TOKEN): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(`${baseUrl}${path}`, { ...init, headers });
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `gateway-test-${Date.now()}`);
+    const sessionsDir = join(testDir, 'sessions');
+    await mkdir(sessionsDir, { recursive: true });
+
+    bus = new MessageBus();
+    sessions = new SessionManager(testDir);
+    (sessions as unknown as { sessionsDir: string }).sessionsDir = sessionsDir;
+    cron = new CronService({ storePath: join(testDir, 'cron', 'jobs.json') });
+    channels = new ChannelManager(ConfigSchema.parse({}), bus);
+
+    server = new GatewayServer({
+      config: GatewayConfigSchema.parse({ host: '127.0.0.1', authToken: TOKEN, replyTimeout: 5 }),
+      bus,
+      sessions,
+      cron,
+      channels,
+      port: 0,
+    });
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.boundPort}`;
+
+    echoRunning = true;
+    echoDelayMs = 0;
+    cancelledTurns = [];
+    void runEcho();
+    void channels.startAll();
+  });
+
+  afterEach(async () => {
+    echoRunning = false;
+    await server.stop();
+    await channels.stopAll();
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should answer health checks without auth', async () => {
+    const res = await request('/health', {}, '');
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should only listen on loopback without a token', () => {
+    const open = (host: string, authToken: string) =>
+      new GatewayServer({
+        config: GatewayConfigSchema.parse({ host, authToken }),
+        bus,
+        sessions,
+        cron,
+        channels: new ChannelManager(ConfigSchema.parse({}), bus),
+        port: 0,
+      });
+
+    expect(open('0.0.0.0', '').host).toBe('127.0.0.1');
+    expect(open('::1', '').host).toBe('::1');
+    expect(open('0.0.0.0', TOKEN).host).toBe('0.0.0.0');
+  });
+
+  it('should reject requests without a valid token', async () => {
+    expect((await request('/api/status', {}, '')).status).toBe(401);
+    expect((await request('/api/status', {}, 'wrong')).status).toBe(401);
+  });
+
+  it('should report channel and cron status', async () => {
+    const res = await request('/api/status');
+    const body = (await res.json()) as { channels: Record<string, unknown>; cron: unknown };
+
+    expect(res.status).toBe(200);
+    expect(body.channels['http']).toEqual({ enabled: true, running: true });
+    expect(body.cron).toMatchObject({ jobs: 0 });
+  });
+
+  it('should post a message and return the reply', async () => {
+    const res = await request('/api/messages', {
+      method: 'POST',
+      body: JSON.stringify({ content: 'hello', chatId: 'abc' }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      chatId: 'abc',
+      sessionKey: 'http:abc',
+      content: 'echo: hello',
+    });
+  });
+
+  it('should validate message bodies', async () => {
+    const res = await request('/api/messages', { method: 'POST', body: '{"chatId":"abc"}' });
+    expect(res.status).toBe(400);
+
+    const invalid = await request('/api/messages', { method: 'POST', body: 'not json' });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should list and inspect sessions', async () => {
+    const session = await sessions.getOrCreate('telegram:42');
+    session.addMessage('user', 'Hi');
+    await sessions.save(session);
+
+    const list = (await (await request('/api/sessions')).json()) as {
+      sessions: Array<{ key: string }>;
+    };
+    expect(list.sessions.map((s) => s.key)).toContain('telegram:42');
+
+    const res = await request(`/api/sessions/${encodeURIComponent('telegram:42')}`);
+    const body = (await res.json()) as { key: string; messages: Array<{ content: string }> };
+    expect(body.key).toBe('telegram:42');
+    expect(body.messages[0]?.content).toBe('Hi');
+
+    expect((await request('/api/sessions/telegram%3Anope')).status).toBe(404);
+  });
+
+  it('should add, list and remove cron jobs', async () => {
+    const added = await request('/api/cron/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'ping', message: 'Ping', every: 60 }),
+    });
+    expect(added.status).toBe(201);
+    const { job } = (await added.json()) as { job: { id: string; schedule: unknown } };
+    expect(job.schedule).toEqual({ kind: 'every', everyMs: 60_000 });
+
+    const list = (await (await request('/api/cron/jobs')).json()) as { jobs: Array<{ id: string }> };
+    expect(list.jobs.map((j) => j.id)).toEqual([job.id]);
+
+    const runs = (await (await request(`/api/cron/jobs/${job.id}/runs`)).json()) as {
+      runs: unknown[];
+    };
+    expect(runs.runs).toEqual([]);
+
+    expect((await request(`/api/cron/jobs/${job.id}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await request(`/api/cron/jobs/${job.id}`, { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('should require exactly one schedule for cron jobs', async () => {
+    const res = await request('/api/cron/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'x', message: 'y', every: 60, cron: '0 9 * * *' }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject invalid cron expressions', async () => {
+    const res = await request('/api/cron/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'x', message: 'y', cron: '0 9 * * MOON' }),
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: "Invalid cron expression '0 9 * * MOON': Invalid day of week value 'MOON'",
+    });
+  });
+
+  it('should schedule cron jobs written in plain English', async () => {
+    const added = await request('/api/cron/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'x', message: 'y', when: 'every weekday at 9am', tz: 'UTC' }),
+    });
+    expect(added.status).toBe(201);
+    const { job } = (await added.json()) as { job: { schedule: unknown } };
+    expect(job.schedule).toEqual({ kind: 'cron', expr: '0 9 * * 1-5', tz: 'UTC' });
+
+    const invalid = await request('/api/cron/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'x', message: 'y', when: 'someday' }),
+    });
+    expect(invalid.status).toBe(400);
+  });
+
+  describe('OpenAI-compatible API', () => {
+    it('should list the agent as a model', async () => {
+      const body = (await (await request('/v1/models')).json()) as { data: Array<{ id: string }> };
+      expect(body.data.map((m) => m.id)).toEqual(['ingenium']);
+    });
+
+    it('should return a chat completion for the last user message', async () => {
+      const res = await request('/v1/chat/completions', {
+        method: 'POST',
+        headers: { 'X-Ingenium-Session': 'editor' },
+        body: JSON.stringify({
+          model: 'ingenium',
+          messages: [
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: [{ type: 'text', text: 'hello' }] },
+          ],
+        }),
+      });
+      const body = (await res.json()) as {
+        object: string;
+        choices: Array<{ message: { content: string }; finish_reason: string }>;
+      };
+
+      expect(res.status).toBe(200);
+      expect(body.object).toBe('chat.completion');
+      expect(body.choices[0]?.message.content).toBe('echo: hello');
+      expect(body.choices[0]?.finish_reason).toBe('stop');
+    });
+
+    it('should stream a chat completion as server-sent events', async () => {
+      const res = await request('/v1/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({
+          user: 'alice',
+          stream: true,
+          messages: [{ role: 'user', content: 'hi' }],
+        }),
+      });
+      const events = (await res.text())
+        .split('\n\n')
+        .filter((e) => e.startsWith('data: '))
+        .map((e) => e.slice('data: '.length));
+
+      expect(res.headers.get('content-type')).toBe('text/event-stream');
+      expect(events.at(-1)).toBe('[DONE]');
+      const chunks = events.slice(0, -1).map(
+        (e) =>
+          JSON.parse(e) as {
+            choices: Array<{ delta: { content?: string }; finish_reason: string | null }>;
+          }
+      );
+      const text = chunks.map((c) => c.choices[0]?.delta.content ?? '').join('');
+      expect(text).toBe('echo: hi');
+      expect(chunks.at(-1)?.choices[0]?.finish_reason).toBe('stop');
+    });
+
+    it('should cancel the turn when the client disconnects', async () => {
+      echoDelayMs = 200;
+      const controller = new AbortController();
+
+      const res = await request('/v1/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({ stream: true, messages: [{ role: 'user', content: 'hi' }] }),
+        signal: controller.signal,
+      });
+      expect(res.status).toBe(200);
+      controller.abort();
+
+      await expect.poll(() => cancelledTurns.length).toBe(1);
+    });
+
+    it('should report errors in OpenAI format', async () => {
+      const res = await request('/v1/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({ messages: [{ role: 'system', content: 'x' }] }),
+      });
+      const body = (await res.json()) as { error: { type: string } };
+
+      expect(res.status).toBe(400);
+      expect(body.error.type).toBe('invalid_request_error');
+    });
+  });
+
+  describe('MCP endpoint', () => {
+    let mcpGateway: GatewayServer;
+    let mcpUrl: string;
+
+    beforeEach(async () => {
+      const mcp = new McpServer({
+        tools: [
+          createTool(
+            'echo',
+            'Echo the text',
+            { type: 'object', properties: { text: { type: 'string' } } },
+            async (params) => `echo: ${params['text']}`
+          ),
+        ],
+      });
+      mcpGateway = new GatewayServer({
+        config: GatewayConfigSchema.parse({ host: '127.0.0.1', authToken: TOKEN }),
+        bus,
+        sessions,
+        cron,
+        channels: new ChannelManager(ConfigSchema.parse({}), bus),
+        mcp,
+        port: 0,
+      });
+      await mcpGateway.start();
+      mcpUrl = `http://127.0.0.1:${mcpGateway.boundPort}/mcp`;
+    });
+
+    afterEach(async () => {
+      await mcpGateway.stop();
+    });
+
+    it('should not serve MCP unless configured', async () => {
+      const res = await request('/mcp', { method: 'POST', body: '{}' });
+      expect(res.status).toBe(404);
+    });
+
+    it('should require the token', async () => {
+      const res = await fetch(mcpUrl, { method: 'POST', body: '{}' });
+      expect(res.status).toBe(401);
+    });
+
+    it('should serve tools to an MCP client', async () => {
+      const client = new McpClient({
+        transport: new HttpTransport({
+          url: mcpUrl,
+          headers: { Authorization: `Bearer ${TOKEN}` },
+        }),
+      });
+      await client.connect();
+
+      expect(client.serverInfo?.name).toBe('ingenium');
+      expect((await client.listTools()).map((t) => t.name)).toEqual(['echo']);
+      expect(await client.callTool('echo', { text: 'hi' })).toEqual({
+        content: [{ type: 'text', text: 'echo: hi' }],
+        isError: false,
+      });
+      await client.close();
+    });
+
+    it('should accept notifications without a body', async () => {
+      const res = await fetch(mcpUrl, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${TOKEN}` },
+        body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      });
+      expect(res.status).toBe(202);
+    });
+  });
+});
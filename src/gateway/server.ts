@@ -0,0 +1,587 @@
+/**
+ * HTTP gateway server.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import type { MessageBus } from '../bus/queue.js';
+import type { ChannelManager } from '../channels/manager.js';
+import type { GatewayConfig } from '../config/schema.js';
+import type { CronService } from '../cron/service.js';
+import { CronExpressionError } from '../cron/expression.js';
+import { ScheduleParseError, parseNaturalSchedule } from '../cron/natural.js';
+import type { CronSchedule } from '../cron/types.js';
+import type { McpServer } from '../mcp/server.js';
+import type { SessionManager } from '../session/manager.js';
+import { TimeoutError } from '../utils/async-queue.js';
+import { HttpChannel, RequestCancelledError } from './channel.js';
+import {
+  ChatCompletionRequestSchema,
+  DEFAULT_MODEL_ID,
+  DeltaTracker,
+  SESSION_HEADER,
+  buildChunk,
+  buildCompletion,
+  buildTurnContent,
+  createCompletionId,
+} from './openai.js';
+
+/**
+ * Maximum accepted request body size in bytes.
+ */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Body of POST /api/messages.
+ */
+const PostMessageSchema = z.object({
+  content: z.string().min(1),
+  chatId: z.string().min(1).optional(),
+  senderId: z.string().min(1).optional(),
+  media: z.array(z.string()).optional(),
+});
+
+/**
+ * Body of POST /api/cron/jobs.
+ */
+const AddCronJobSchema = z
+  .object({
+    name: z.string().min(1),
+    message: z.string().min(1),
+    /** Interval in seconds */
+    every: z.number().int().positive().optional(),
+    cron: z.string().min(1).optional(),
+    /** ISO date-time */
+    at: z.string().min(1).optional(),
+    /** Schedule in plain English, e.g. "every weekday at 9am" */
+    when: z.string().min(1).optional(),
+    tz: z.string().min(1).optional(),
+    misfire: z.enum(['skip', 'run_once', 'run_all']).optional(),
+    deliver: z.boolean().optional(),
+    channel: z.string().min(1).optional(),
+    to: z.string().min(1).optional(),
+  })
+  .refine((v) => [v.every, v.cron, v.at, v.when].filter((x) => x !== undefined).length === 1, {
+    message: 'Exactly one of every, cron, at or when is required',
+  });
+
+/**
+ * Hosts that only accept connections from this machine.
+ */
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+/**
+ * Error with an HTTP status code, turned into a JSON error response.
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Options for GatewayServer.
+ */
+export interface GatewayServerOptions {
+  config: GatewayConfig;
+  bus: MessageBus;
+  sessions: SessionManager;
+  cron: CronService;
+  channels: ChannelManager;
+  /** Served at /mcp when set */
+  mcp?: McpServer;
+  /** Overrides config.port */
+  port?: number;
+}
+
+/**
+ * Built-in HTTP API for the gateway.
+ *
+ * Endpoints (all under /api and /v1 require the bearer token when configured;
+ * without one the server only listens on the loopback interface):
+ * - GET    /health                 liveness check
+ * - GET    /api/status             channel and cron status
+ * - POST   /api/messages           send a message to the agent and wait for the reply
+ * - GET    /api/sessions           list sessions
+ * - GET    /api/sessions/:key      inspect a session
+ * - GET    /api/cron/jobs          list cron jobs (?all=true includes disabled)
+ * - POST   /api/cron/jobs          add a cron job
+ * - DELETE /api/cron/jobs/:id      remove a cron job
+ * - GET    /v1/models              OpenAI-compatible model list
+ * - POST   /v1/chat/completions    OpenAI-compatible chat completions backed by the agent
+ * - POST   /mcp                    MCP over Streamable HTTP, when an MCP server is given
+ */
+export class GatewayServer {
+  readonly host: string;
+  readonly port: number;
+  readonly channel: HttpChannel;
+  private readonly authToken: string;
+  private readonly sessions: SessionManager;
+  private readonly cron: CronService;
+  private readonly channels: ChannelManager;
+  private readonly mcp: McpServer | null;
+  private server: Server | null = null;
+
+  constructor(options: GatewayServerOptions) {
+    // Without a token the API hands a full agent to anyone who can reach it
+    const exposed = !LOOPBACK_HOSTS.has(options.config.host);
+    this.host = exposed && !options.config.authToken ? '127.0.0.1' : options.config.host;
+    this.port = options.port ?? options.config.port;
+    this.authToken = options.config.authToken;
+    this.sessions = options.sessions;
+    this.cron = options.cron;
+    this.channels = options.channels;
+    this.mcp = options.mcp ?? null;
+    this.channel = new HttpChannel(options.bus, options.config.replyTimeout * 1000);
+    this.channels.registerChannel(this.channel);
+  }
+
+  /**
+   * Start listening.
+   */
+  async start(): Promise<void> {
+    if (!this.authToken) {
+      console.warn(
+        `[Gateway] No gateway.authToken configured; the HTTP API only listens on ${this.host}`
+      );
+    }
+
+    const server = createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+  }
+
+  /**
+   * Stop listening and fail pending requests.
+   */
+  async stop(): Promise<void> {
+    await this.channel.stop();
+    const server = this.server;
+    if (server === null) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Get the bound port (useful when listening on port 0).
+   */
+  get boundPort(): number {
+    const address = this.server?.address();
+    return typeof address === 'object' && address !== null ? address.port : this.port;
+  }
+
+  /**
+   * Handle a request, converting errors to JSON responses.
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      await this.route(req, res);
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        // The client has gone; there is no one to answer
+        return;
+      }
+      let status = 500;
+      let message = 'Internal server error';
+      if (error instanceof HttpError) {
+        status = error.status;
+        message = error.message;
+      } else if (error instanceof TimeoutError) {
+        status = 504;
+        message = error.message;
+      } else {
+        console.error('[Gateway] Request failed:', error);
+      }
+
+      if (res.headersSent) {
+        // A stream was already started; report in-band and close it
+        writeEvent(res, { error: { message, type: 'server_error' } });
+        res.end();
+      } else if (req.url?.startsWith('/v1/')) {
+        sendJson(res, status, {
+          error: { message, type: status < 500 ? 'invalid_request_error' : 'server_error' },
+        });
+      } else {
+        sendJson(res, status, { error: message });
+      }
+    }
+  }
+
+  /**
+   * Dispatch a request to its handler.
+   */
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+
+    if (path === '/health' && method === 'GET') {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    if (path === '/mcp' && this.mcp) {
+      this.authorize(req);
+      await this.handleMcp(req, res, this.mcp);
+      return;
+    }
+
+    if (!path.startsWith('/api/') && !path.startsWith('/v1/')) {
+      throw new HttpError(404, 'Not found');
+    }
+    this.authorize(req);
+
+    if (path === '/v1/models' && method === 'GET') {
+      sendJson(res, 200, {
+        object: 'list',
+        data: [{ id: DEFAULT_MODEL_ID, object: 'model', created: 0, owned_by: 'ingenium' }],
+      });
+      return;
+    }
+
+    if (path === '/v1/chat/completions' && method === 'POST') {
+      const body = parseBody(ChatCompletionRequestSchema, await readJsonBody(req));
+      await this.chatCompletion(req, res, body);
+      return;
+    }
+
+    if (path === '/api/status' && method === 'GET') {
+      sendJson(res, 200, {
+        channels: this.channels.getStatus(),
+        cron: this.cron.status(),
+      });
+      return;
+    }
+
+    if (path === '/api/messages' && method === 'POST') {
+      const body = parseBody(PostMessageSchema, await readJsonBody(req));
+      sendJson(res, 200, await this.postMessage(body));
+      return;
+    }
+
+    if (path === '/api/sessions' && method === 'GET') {
+      sendJson(res, 200, { sessions: await this.sessions.listSessions() });
+      return;
+    }
+
+    const sessionMatch = /^\/api\/sessions\/([^/]+)$/.exec(path);
+    if (sessionMatch && method === 'GET') {
+      const key = decodeURIComponent(sessionMatch[1] ?? '');
+      const session = await this.sessions.get(key);
+      if (!session) {
+        throw new HttpError(404, `Session not found: ${key}`);
+      }
+      sendJson(res, 200, {
+        key: session.key,
+        createdAt: session.createdAt.toISOString(),
+        updatedAt: session.updatedAt.toISOString(),
+        metadata: session.metadata,
+        messages: session.messages,
+      });
+      return;
+    }
+
+    if (path === '/api/cron/jobs' && method === 'GET') {
+      const includeDisabled = url.searchParams.get('all') === 'true';
+      sendJson(res, 200, { jobs: await this.cron.listJobs(includeDisabled) });
+      return;
+    }
+
+    if (path === '/api/cron/jobs' && method === 'POST') {
+      const body = parseBody(AddCronJobSchema, await readJsonBody(req));
+      sendJson(res, 201, { job: await this.addCronJob(body) });
+      return;
+    }
+
+    const jobMatch = /^\/api\/cron\/jobs\/([^/]+)$/.exec(path);
+    if (jobMatch && method === 'DELETE') {
+      const jobId = decodeURIComponent(jobMatch[1] ?? '');
+      if (!(await this.cron.removeJob(jobId))) {
+        throw new HttpError(404, `Job not found: ${jobId}`);
+      }
+      sendJson(res, 200, { removed: jobId });
+      return;
+    }
+
+    const runsMatch = /^\/api\/cron\/jobs\/([^/]+)\/runs$/.exec(path);
+    if (runsMatch && method === 'GET') {
+      const jobId = decodeURIComponent(runsMatch[1] ?? '');
+      const limit = Number(url.searchParams.get('limit') ?? 20);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new HttpError(400, 'limit must be a positive integer');
+      }
+      sendJson(res, 200, { runs: await this.cron.getRunHistory(jobId, limit) });
+      return;
+    }
+
+    throw new HttpError(404, 'Not found');
+  }
+
+  /**
+   * Check the bearer token, if one is configured.
+   */
+  private authorize(req: IncomingMessage): void {
+    if (!this.authToken) {
+      return;
+    }
+
+    const header = req.headers.authorization ?? '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    const given = Buffer.from(match?.[1]?.trim() ?? '');
+    const expected = Buffer.from(this.authToken);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+  }
+
+  /**
+   * Answer MCP messages posted to /mcp.
+   *
+   * Every response is returned as JSON in the POST's reply; the server
+   * keeps no sessions and sends nothing on its own, so GET streams are
+   * not offered.
+   */
+  private async handleMcp(req: IncomingMessage, res: ServerResponse, mcp: McpServer): Promise<void> {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' });
+      res.end();
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    const messages = Array.isArray(body) ? body : [body];
+    const responses = (await Promise.all(messages.map((m) => mcp.handleMessage(m)))).filter(
+      (r) => r !== null
+    );
+    if (responses.length === 0) {
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+    sendJson(res, 200, Array.isArray(body) ? responses : responses[0]);
+  }
+
+  /**
+   * Send a message to the agent and wait for its reply.
+   */
+  private async postMessage(
+    body: z.infer<typeof PostMessageSchema>
+  ): Promise<{ chatId: string; sessionKey: string; content: string }> {
+    const chatId = body.chatId ?? randomUUID().slice(0, 8);
+    const submitOptions: Parameters<HttpChannel['submit']>[0] = {
+      chatId,
+      senderId: body.senderId ?? 'http',
+      content: body.content,
+    };
+    if (body.media) {
+      submitOptions.media = body.media;
+    }
+
+    const reply = await this.channel.submit(submitOptions);
+    return {
+      chatId,
+      sessionKey: `${this.channel.name}:${chatId}`,
+      content: reply.content,
+    };
+  }
+
+  /**
+   * Run an OpenAI-style chat completion as an agent turn.
+   *
+   * The session comes from the session header or the `user` field;
+   * without either, the request gets a fresh session. If the client
+   * disconnects first, the turn is cancelled and nothing more is written.
+   */
+  private async chatCompletion(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: z.infer<typeof ChatCompletionRequestSchema>
+  ): Promise<void> {
+    const header = req.headers[SESSION_HEADER];
+    const sessionId = (Array.isArray(header) ? header[0] : header) || body.user;
+    const content = buildTurnContent(body, sessionId !== undefined);
+    if (content === null) {
+      throw new HttpError(400, 'messages must include a user message');
+    }
+
+    const chatId = sessionId ?? randomUUID().slice(0, 8);
+    const id = createCompletionId();
+    const model = body.model ?? DEFAULT_MODEL_ID;
+    const disconnected = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        disconnected.abort();
+      }
+    });
+    const submitOptions: Parameters<HttpChannel['submit']>[0] = {
+      chatId,
+      senderId: body.user ?? 'openai',
+      content,
+      signal: disconnected.signal,
+    };
+
+    if (!body.stream) {
+      const reply = await this.channel.submit(submitOptions);
+      sendJson(res, 200, buildCompletion(id, model, reply.content));
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    writeEvent(res, buildChunk(id, model, { role: 'assistant' }));
+
+    const tracker = new DeltaTracker();
+    submitOptions.onUpdate = (update) => {
+      const delta = tracker.next(update.content);
+      if (delta) {
+        writeEvent(res, buildChunk(id, model, { content: delta }));
+      }
+    };
+
+    const reply = await this.channel.submit(submitOptions);
+    const rest = tracker.finish(reply.content);
+    if (rest) {
+      writeEvent(res, buildChunk(id, model, { content: rest }));
+    }
+    writeEvent(res, buildChunk(id, model, {}, 'stop'));
+    res.end('data: [DONE]\n\n');
+  }
+
+  /**
+   * Add a cron job from a request body.
+   */
+  private async addCronJob(
+    body: z.infer<typeof AddCronJobSchema>
+  ): ReturnType<CronService['addJob']> {
+    let schedule: CronSchedule;
+    if (body.every !== undefined) {
+      schedule = { kind: 'every', everyMs: body.every * 1000 };
+    } else if (body.cron !== undefined) {
+      schedule = { kind: 'cron', expr: body.cron };
+      if (body.tz !== undefined) {
+        schedule.tz = body.tz;
+      }
+    } else if (body.when !== undefined) {
+      try {
+        schedule = parseNaturalSchedule(body.when, body.tz !== undefined ? { tz: body.tz } : {});
+      } catch (error) {
+        if (error instanceof ScheduleParseError) {
+          throw new HttpError(400, error.message);
+        }
+        throw error;
+      }
+    } else {
+      const atMs = new Date(body.at ?? '').getTime();
+      if (isNaN(atMs)) {
+        throw new HttpError(400, `Invalid date: ${body.at}`);
+      }
+      schedule = { kind: 'at', atMs };
+    }
+
+    const jobOptions: Parameters<CronService['addJob']>[0] = {
+      name: body.name,
+      schedule,
+      message: body.message,
+    };
+    if (body.misfire !== undefined) {
+      jobOptions.misfire = body.misfire;
+    }
+    if (body.deliver !== undefined) {
+      jobOptions.deliver = body.deliver;
+    }
+    if (body.channel !== undefined) {
+      jobOptions.channel = body.channel;
+    }
+    if (body.to !== undefined) {
+      jobOptions.to = body.to;
+    }
+    try {
+      return await this.cron.addJob(jobOptions);
+    } catch (error) {
+      if (error instanceof CronExpressionError) {
+        throw new HttpError(400, error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Write a JSON response.
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Write a server-sent event with a JSON payload.
+ */
+function writeEvent(res: ServerResponse, data: unknown): void {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Read and parse a JSON request body.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buf = chunk as Buffer;
+    size += buf.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(buf);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8');
+  if (!text.trim()) {
+    return {};
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+/**
+ * Validate a request body against a schema.
+ */
+function parseBody<T extends z.ZodType>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue?.path.length ? `${issue.path.join('.')}: ` : '';
+    throw new HttpError(400, `${where}${issue?.message ?? 'Invalid request body'}`);
+  }
+  return result.data;
+}
+
+/**
+ * Create a gateway server.
+ */
+export function createGatewayServer(options: GatewayServerOptions): GatewayServer {
+  return new GatewayServer(options);
+}
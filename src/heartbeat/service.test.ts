@@ -12,6 +12,7 @@ import {
   HEARTBEAT_PROMPT,
   HEARTBEAT_OK_TOKEN,
   DEFAULT_HEARTBEAT_INTERVAL_MS,
+  buildHeartbeatTaskPrompt,
 } from './service.js';
 
 describe('HeartbeatService', () => {
@@ -185,6 +186,62 @@ describe('HeartbeatService', () => {
       expect(callback).toHaveBeenCalled();
     });
   });
+
+  describe('decision', () => {
+    beforeEach(async () => {
+      await writeFile(join(testDir, 'HEARTBEAT.md'), '- Send the daily report at 9:00\n');
+    });
+
+    it('should not wake the agent when the decision is to skip', async () => {
+      const callback = vi.fn().mockResolvedValue('Done');
+      const decide = vi.fn().mockResolvedValue({ action: 'skip', tasks: '' });
+      const svc = new HeartbeatService({
+        workspace: testDir,
+        onHeartbeat: callback,
+        onDecide: decide,
+        intervalMs: 20,
+      });
+
+      await svc.start();
+      await vi.waitFor(() => expect(decide).toHaveBeenCalled());
+      svc.stop();
+
+      expect(decide.mock.calls[0]?.[0]).toContain('- Send the daily report at 9:00');
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should wake the agent for the tasks the decision names', async () => {
+      const callback = vi.fn().mockResolvedValue('Done');
+      const svc = new HeartbeatService({
+        workspace: testDir,
+        onHeartbeat: callback,
+        onDecide: async () => ({ action: 'run', tasks: 'Send the daily report' }),
+        intervalMs: 20,
+      });
+
+      await svc.start();
+      await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+      svc.stop();
+
+      expect(callback.mock.calls[0]?.[0]).toBe(buildHeartbeatTaskPrompt('Send the daily report'));
+    });
+
+    it('should fall back to the heartbeat prompt without a decision', async () => {
+      const callback = vi.fn().mockResolvedValue('Done');
+      const svc = new HeartbeatService({
+        workspace: testDir,
+        onHeartbeat: callback,
+        onDecide: async () => null,
+        intervalMs: 20,
+      });
+
+      await svc.start();
+      await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+      svc.stop();
+
+      expect(callback.mock.calls[0]?.[0]).toBe(HEARTBEAT_PROMPT);
+    });
+  });
 });
 
 describe('constants', () => {
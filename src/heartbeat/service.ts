@@ -5,6 +5,7 @@
 import { readFile } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
+import { z } from 'zod';
 
 /** Default interval: 30 minutes */
 export const DEFAULT_HEARTBEAT_INTERVAL_MS = 30 * 60 * 1000;
@@ -17,6 +18,40 @@ If nothing needs attention, reply with just: HEARTBEAT_OK`;
 /** Token that indicates "nothing to do" */
 export const HEARTBEAT_OK_TOKEN = 'HEARTBEAT_OK';
 
+/**
+ * Whether HEARTBEAT.md has work to do now, decided before waking the agent.
+ */
+export const HeartbeatDecisionSchema = z.object({
+  /** "run" if a task needs attention now, "skip" otherwise */
+  action: z.enum(['skip', 'run']),
+  /** The tasks to do now; empty when skipping */
+  tasks: z.string(),
+});
+
+export type HeartbeatDecision = z.infer<typeof HeartbeatDecisionSchema>;
+
+/**
+ * Build the prompt asking whether HEARTBEAT.md has work to do now.
+ */
+export function buildHeartbeatDecisionPrompt(content: string, now = new Date()): string {
+  return `It is ${now.toString()}. These are the instructions in HEARTBEAT.md:
+
+${content.trim()}
+
+Decide whether any of them needs attention now. Reply with action "run" and the tasks to do, or action "skip" and empty tasks.`;
+}
+
+/**
+ * Build the prompt that wakes the agent for the tasks a decision found.
+ */
+export function buildHeartbeatTaskPrompt(tasks: string): string {
+  return `These heartbeat tasks need attention now:
+
+${tasks.trim()}
+
+Read HEARTBEAT.md in your workspace for the full instructions, then do them.`;
+}
+
 /**
  * Check if HEARTBEAT.md has no actionable content.
  */
@@ -49,6 +84,12 @@ function isHeartbeatEmpty(content: string | null): boolean {
  */
 export type HeartbeatCallback = (prompt: string) => Promise<string>;
 
+/**
+ * Callback type for deciding whether a heartbeat has work to do.
+ * Returns null if no decision could be made.
+ */
+export type HeartbeatDecider = (prompt: string) => Promise<HeartbeatDecision | null>;
+
 /**
  * Options for HeartbeatService.
  */
@@ -57,6 +98,8 @@ export interface HeartbeatServiceOptions {
   workspace: string;
   /** Callback to execute heartbeat through agent */
   onHeartbeat?: HeartbeatCallback;
+  /** Callback to decide whether to wake the agent; it is always woken if not set */
+  onDecide?: HeartbeatDecider;
   /** Interval in milliseconds */
   intervalMs?: number;
   /** Whether the service is enabled */
@@ -67,11 +110,14 @@ export interface HeartbeatServiceOptions {
  * Periodic heartbeat service that wakes the agent to check for tasks.
  *
  * The agent reads HEARTBEAT.md from the workspace and executes any
- * tasks listed there. If nothing needs attention, it replies HEARTBEAT_OK.
+ * tasks listed there. With onDecide, a structured reply first decides
+ * whether anything needs attention, and the agent is woken only for the
+ * tasks it names. Otherwise the agent replies HEARTBEAT_OK when idle.
  */
 export class HeartbeatService {
   readonly workspace: string;
   private readonly onHeartbeat: HeartbeatCallback | undefined;
+  private readonly onDecide: HeartbeatDecider | undefined;
   readonly intervalMs: number;
   readonly enabled: boolean;
   private running = false;
@@ -80,6 +126,7 @@ export class HeartbeatService {
   constructor(options: HeartbeatServiceOptions) {
     this.workspace = options.workspace;
     this.onHeartbeat = options.onHeartbeat;
+    this.onDecide = options.onDecide;
     this.intervalMs = options.intervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
     this.enabled = options.enabled ?? true;
   }
@@ -158,15 +205,18 @@ export class HeartbeatService {
 
     if (this.onHeartbeat !== undefined) {
       try {
-        const response = await this.onHeartbeat(HEARTBEAT_PROMPT);
-
-        // Check if agent said "nothing to do"
-        const normalizedResponse = response.toUpperCase().replace(/_/g, '');
-        if (normalizedResponse.includes(HEARTBEAT_OK_TOKEN.replace(/_/g, ''))) {
-          // OK - no action needed
-        } else {
-          // Task was completed
+        let prompt = HEARTBEAT_PROMPT;
+        if (this.onDecide !== undefined) {
+          const decision = await this.onDecide(buildHeartbeatDecisionPrompt(content ?? ''));
+          if (decision?.action === 'skip') {
+            return;
+          }
+          // Without a decision, fall back to letting the agent read the file
+          if (decision) {
+            prompt = buildHeartbeatTaskPrompt(decision.tasks);
+          }
         }
+        await this.onHeartbeat(prompt);
       } catch {
         // Heartbeat execution failed
       }
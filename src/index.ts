@@ -11,5 +11,7 @@ export * from './channels/index.js';
 export * from './session/index.js';
 export * from './cron/index.js';
 export * from './heartbeat/index.js';
+export * from './usage/index.js';
+export * from './gateway/index.js';
 export * from './cli/index.js';
 export * from './types/index.js';
@@ -0,0 +1,139 @@
+/**
+ * Tests for the MCP client.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { McpClient, McpError, MCP_PROTOCOL_VERSION } from './client.js';
+import type { JsonRpcMessage, McpTransport, McpTransportHandlers } from './transport.js';
+
+/**
+ * In-memory transport that answers requests with a handler.
+ */
+class FakeTransport implements McpTransport {
+  handlers: McpTransportHandlers | null = null;
+  sent: JsonRpcMessage[] = [];
+  protocolVersion: string | null = null;
+
+  constructor(private readonly respond: (message: JsonRpcMessage) => JsonRpcMessage | null) {}
+
+  async start(handlers: McpTransportHandlers): Promise<void> {
+    this.handlers = handlers;
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    this.sent.push(message);
+    const reply = message.method ? this.respond(message) : null;
+    if (reply) {
+      queueMicrotask(() => this.handlers?.onMessage(reply));
+    }
+  }
+
+  async close(): Promise<void> {}
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+}
+
+function answer(message: JsonRpcMessage, result: unknown): JsonRpcMessage {
+  return { jsonrpc: '2.0', id: message.id ?? 0, result };
+}
+
+function createServer(): FakeTransport {
+  return new FakeTransport((message) => {
+    switch (message.method) {
+      case 'initialize':
+        return answer(message, {
+          protocolVersion: '2025-03-26',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'test-server', version: '0.1.0' },
+        });
+      case 'tools/list': {
+        const cursor = (message.params as { cursor?: string }).cursor;
+        return cursor
+          ? answer(message, { tools: [{ name: 'b', inputSchema: { type: 'object' } }] })
+          : answer(message, {
+              tools: [{ name: 'a', inputSchema: { type: 'object' } }],
+              nextCursor: 'page2',
+            });
+      }
+      case 'tools/call':
+        return {
+          jsonrpc: '2.0',
+          id: message.id ?? 0,
+          error: { code: -32602, message: 'Unknown tool' },
+        };
+      default:
+        return null;
+    }
+  });
+}
+
+describe('McpClient', () => {
+  it('should run the initialization handshake', async () => {
+    const transport = createServer();
+    const client = new McpClient({ transport });
+
+    await client.connect();
+
+    expect(transport.sent[0]).toMatchObject({
+      method: 'initialize',
+      params: { protocolVersion: MCP_PROTOCOL_VERSION, clientInfo: { name: 'ingenium' } },
+    });
+    expect(transport.sent[1]).toEqual({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    expect(transport.protocolVersion).toBe('2025-03-26');
+    expect(client.serverInfo).toEqual({ name: 'test-server', version: '0.1.0' });
+  });
+
+  it('should follow tool list pagination', async () => {
+    const client = new McpClient({ transport: createServer() });
+    await client.connect();
+
+    const tools = await client.listTools();
+
+    expect(tools.map((t) => t.name)).toEqual(['a', 'b']);
+  });
+
+  it('should reject with the server error', async () => {
+    const client = new McpClient({ transport: createServer() });
+    await client.connect();
+
+    const error = await client.callTool('missing', {}).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error).toMatchObject({ message: 'Unknown tool', code: -32602 });
+  });
+
+  it('should time out requests without a response', async () => {
+    const transport = new FakeTransport(() => null);
+    const client = new McpClient({ transport, timeoutMs: 20 });
+
+    await expect(client.connect()).rejects.toThrow("Request 'initialize' timed out after 20ms");
+  });
+
+  it('should answer pings and report tool list changes', async () => {
+    const onToolsChanged = vi.fn();
+    const transport = createServer();
+    const client = new McpClient({ transport, onToolsChanged });
+    await client.connect();
+
+    transport.handlers?.onMessage({ jsonrpc: '2.0', id: 'p1', method: 'ping' });
+    transport.handlers?.onMessage({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+
+    expect(transport.sent).toContainEqual({ jsonrpc: '2.0', id: 'p1', result: {} });
+    expect(onToolsChanged).toHaveBeenCalledOnce();
+  });
+
+  it('should fail pending requests when the connection is lost', async () => {
+    const onClose = vi.fn();
+    const transport = new FakeTransport(() => null);
+    const client = new McpClient({ transport, onClose });
+
+    const connecting = client.connect();
+    await Promise.resolve();
+    transport.handlers?.onClose(new Error('Server process exited with code 1'));
+
+    await expect(connecting).rejects.toThrow('Server process exited with code 1');
+    expect(onClose).toHaveBeenCalledWith(new Error('Server process exited with code 1'));
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Model Context Protocol client.
+ */
+
+import type { JsonRpcMessage, McpTransport } from './transport.js';
+
+/**
+ * Protocol version requested during initialization.
+ */
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+/**
+ * How ingenium introduces itself to servers.
+ */
+const CLIENT_INFO = { name: 'ingenium', version: '1.0.0' };
+
+/**
+ * Default time to wait for a response, in milliseconds.
+ */
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/**
+ * A tool offered by an MCP server.
+ */
+export interface McpToolInfo {
+  name: string;
+  title?: string;
+  description?: string;
+  /** JSON Schema of the arguments */
+  inputSchema: {
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+    [key: string]: unknown;
+  };
+  annotations?: {
+    title?: string;
+    /** The tool does not change anything */
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+  };
+}
+
+/**
+ * A block of content in a tool result.
+ */
+export interface McpContent {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  uri?: string;
+  name?: string;
+  resource?: { uri: string; text?: string; mimeType?: string };
+}
+
+/**
+ * Result of a tools/call request.
+ */
+export interface McpCallToolResult {
+  content?: McpContent[];
+  structuredContent?: unknown;
+  /** The tool ran but failed */
+  isError?: boolean;
+}
+
+/**
+ * Error returned by an MCP server or raised by the connection.
+ */
+export class McpError extends Error {
+  /** JSON-RPC error code, if the server returned one */
+  readonly code: number | undefined;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+  }
+}
+
+/**
+ * Options for creating an McpClient.
+ */
+export interface McpClientOptions {
+  transport: McpTransport;
+  /** Time to wait for each response, in milliseconds */
+  timeoutMs?: number;
+  /** Called when the server says its tool list changed */
+  onToolsChanged?: () => void;
+  /** Called when the connection is lost */
+  onClose?: (error: Error) => void;
+}
+
+/**
+ * A request waiting for its response.
+ */
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Client side of an MCP connection: the initialization handshake, tool
+ * discovery and tool calls, as JSON-RPC over a transport.
+ */
+export class McpClient {
+  readonly transport: McpTransport;
+  /** Name and version the server reported */
+  serverInfo: { name: string; version?: string } | null = null;
+  private readonly timeoutMs: number;
+  private readonly onToolsChanged: (() => void) | undefined;
+  private readonly onClose: ((error: Error) => void) | undefined;
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  constructor(options: McpClientOptions) {
+    this.transport = options.transport;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.onToolsChanged = options.onToolsChanged;
+    this.onClose = options.onClose;
+  }
+
+  /**
+   * Start the transport and run the initialization handshake.
+   */
+  async connect(): Promise<void> {
+    await this.transport.start({
+      onMessage: (message) => this.handleMessage(message),
+      onClose: (error) => this.handleClose(error),
+    });
+
+    const result = (await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    })) as { protocolVersion?: string; serverInfo?: { name: string; version?: string } };
+
+    this.serverInfo = result.serverInfo ?? null;
+    if (result.protocolVersion) {
+      this.transport.setProtocolVersion?.(result.protocolVersion);
+    }
+    await this.notify('notifications/initialized');
+  }
+
+  /**
+   * List the server's tools, following pagination.
+   */
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = (await this.request('tools/list', cursor ? { cursor } : {})) as {
+        tools?: McpToolInfo[];
+        nextCursor?: string;
+      };
+      tools.push(...(result.tools ?? []));
+      cursor = result.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Call a tool.
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpCallToolResult> {
+    return (await this.request('tools/call', { name, arguments: args })) as McpCallToolResult;
+  }
+
+  /**
+   * Close the connection, failing any requests still waiting.
+   */
+  async close(): Promise<void> {
+    this.rejectAll(new McpError('Connection closed'));
+    await this.transport.close();
+  }
+
+  /**
+   * Send a request and wait for its response.
+   */
+  private async request(method: string, params: unknown): Promise<unknown> {
+    const id = this.nextId++;
+    const response = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new McpError(`Request '${method}' timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+    });
+    // If sending fails, the error below is thrown instead of this rejection
+    response.catch(() => undefined);
+
+    try {
+      await this.transport.send({ jsonrpc: '2.0', id, method, params });
+    } catch (error) {
+      const pending = this.pending.get(id);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pending.delete(id);
+      }
+      throw new McpError(error instanceof Error ? error.message : String(error));
+    }
+    return response;
+  }
+
+  /**
+   * Send a notification, which has no response.
+   */
+  private async notify(method: string, params?: unknown): Promise<void> {
+    const message: JsonRpcMessage = { jsonrpc: '2.0', method };
+    if (params !== undefined) {
+      message.params = params;
+    }
+    await this.transport.send(message);
+  }
+
+  /**
+   * Handle a message from the server.
+   */
+  private handleMessage(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (message.method === undefined) {
+      const pending = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+      if (!pending || typeof message.id !== 'number') {
+        return;
+      }
+      clearTimeout(pending.timer);
+      this.pending.delete(message.id);
+      if (message.error) {
+        pending.reject(new McpError(message.error.message, message.error.code));
+      } else {
+        pending.resolve(message.result ?? {});
+      }
+      return;
+    }
+
+    // Request from the server; only pings are supported
+    if (message.id !== undefined) {
+      const reply: JsonRpcMessage =
+        message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : {
+              jsonrpc: '2.0',
+              id: message.id,
+              error: { code: -32601, message: `Method not found: ${message.method}` },
+            };
+      this.transport.send(reply).catch(() => {
+        // The connection is gone; onClose reports it
+      });
+      return;
+    }
+
+    if (message.method === 'notifications/tools/list_changed') {
+      this.onToolsChanged?.();
+    }
+  }
+
+  /**
+   * Handle a lost connection.
+   */
+  private handleClose(error: Error): void {
+    this.rejectAll(new McpError(error.message));
+    this.onClose?.(error);
+  }
+
+  /**
+   * Fail every request still waiting for a response.
+   */
+  private rejectAll(error: Error): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
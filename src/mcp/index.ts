@@ -0,0 +1,9 @@
+/**
+ * Model Context Protocol module.
+ */
+
+export * from './transport.js';
+export * from './client.js';
+export * from './manager.js';
+export * from './server.js';
+export * from './tools.js';
@@ -0,0 +1,215 @@
+/**
+ * Tests for the MCP manager.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { McpServerConfigSchema, type McpServerConfig } from '../config/schema.js';
+import { ToolRegistry } from '../agent/tools/registry.js';
+import { McpManager, formatMcpToolResult, getMcpToolName } from './manager.js';
+import type { McpToolInfo } from './client.js';
+import type { JsonRpcMessage, McpTransport, McpTransportHandlers } from './transport.js';
+
+/**
+ * In-memory MCP server shared by the transports the manager creates.
+ */
+class FakeServer {
+  tools: McpToolInfo[] = [
+    {
+      name: 'search.issues',
+      description: 'Search issues',
+      inputSchema: { type: 'object', properties: { query: { type: 'string' } } },
+      annotations: { readOnlyHint: true },
+    },
+    { name: 'create_issue', inputSchema: { type: 'object' } },
+  ];
+  down = false;
+  connections = 0;
+  calls: unknown[] = [];
+  handlers: McpTransportHandlers | null = null;
+
+  createTransport(): McpTransport {
+    return {
+      start: async (handlers) => {
+        if (this.down) {
+          throw new Error('spawn ENOENT');
+        }
+        this.connections++;
+        this.handlers = handlers;
+      },
+      send: async (message) => {
+        const result = this.handle(message);
+        if (result !== undefined) {
+          queueMicrotask(() =>
+            this.handlers?.onMessage({ jsonrpc: '2.0', id: message.id ?? 0, result })
+          );
+        }
+      },
+      close: async () => {},
+    };
+  }
+
+  /** Simulate the server process dying */
+  crash(): void {
+    this.down = true;
+    this.handlers?.onClose(new Error('Server process exited with code 1'));
+  }
+
+  private handle(message: JsonRpcMessage): unknown {
+    switch (message.method) {
+      case 'initialize':
+        return { protocolVersion: '2025-06-18', capabilities: {} };
+      case 'tools/list':
+        return { tools: this.tools };
+      case 'tools/call':
+        this.calls.push(message.params);
+        return { content: [{ type: 'text', text: 'Found 2 issues' }] };
+      default:
+        return undefined;
+    }
+  }
+}
+
+function createServerConfig(overrides: Partial<McpServerConfig> = {}): McpServerConfig {
+  return { ...McpServerConfigSchema.parse({ name: 'github', command: 'github-mcp' }), ...overrides };
+}
+
+describe('getMcpToolName', () => {
+  it('should namespace and sanitize tool names', () => {
+    expect(getMcpToolName('github', 'search.issues')).toBe('mcp_github_search_issues');
+    expect(getMcpToolName('s', 'x'.repeat(100))).toHaveLength(64);
+  });
+});
+
+describe('formatMcpToolResult', () => {
+  it('should join text and describe other content', () => {
+    expect(
+      formatMcpToolResult({
+        content: [
+          { type: 'text', text: 'Chart attached' },
+          { type: 'image', data: 'aGk=', mimeType: 'image/png' },
+          { type: 'resource', resource: { uri: 'file:///a.txt', text: 'file body' } },
+        ],
+      })
+    ).toBe('Chart attached\n[image content: image/png]\nfile body');
+  });
+
+  it('should mark tool errors and fall back to structured content', () => {
+    expect(formatMcpToolResult({ content: [{ type: 'text', text: 'Not found' }], isError: true })).toBe(
+      'Error: Not found'
+    );
+    expect(formatMcpToolResult({ content: [], structuredContent: { count: 2 } })).toBe(
+      '{\n  "count": 2\n}'
+    );
+    expect(formatMcpToolResult({})).toBe('(no output)');
+  });
+});
+
+describe('McpManager', () => {
+  let server: FakeServer;
+
+  beforeEach(() => {
+    server = new FakeServer();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createManager(config: McpServerConfig = createServerConfig()): McpManager {
+    return new McpManager({
+      servers: [config],
+      createTransport: () => server.createTransport(),
+      maxReconnectDelayMs: 10,
+    });
+  }
+
+  it('should register namespaced tools and forward calls', async () => {
+    const manager = createManager();
+    const registry = new ToolRegistry();
+    await manager.start();
+    manager.attach(registry);
+
+    expect(registry.toolNames).toEqual(['mcp_github_search_issues', 'mcp_github_create_issue']);
+    const search = registry.get('mcp_github_search_issues');
+    expect(search?.parallelSafe).toBe(true);
+    expect(search?.description).toBe("Search issues (from MCP server 'github')");
+    expect(registry.get('mcp_github_create_issue')?.parameters).toEqual({
+      type: 'object',
+      properties: {},
+    });
+
+    const result = await registry.execute('mcp_github_search_issues', { query: 'bug' });
+
+    expect(result).toBe('Found 2 issues');
+    expect(server.calls).toEqual([{ name: 'search.issues', arguments: { query: 'bug' } }]);
+    await manager.stop();
+  });
+
+  it('should only offer allowed tools', async () => {
+    const manager = createManager(createServerConfig({ tools: ['create_issue'] }));
+    await manager.start();
+
+    expect(manager.getTools().map((t) => t.name)).toEqual(['mcp_github_create_issue']);
+    await manager.stop();
+  });
+
+  it('should skip disabled servers', async () => {
+    const manager = createManager(createServerConfig({ enabled: false }));
+    await manager.start();
+
+    expect(manager.status()).toEqual([]);
+    expect(server.connections).toBe(0);
+  });
+
+  it('should keep tools while disconnected and reconnect', async () => {
+    const manager = createManager();
+    const registry = new ToolRegistry();
+    await manager.start();
+    manager.attach(registry);
+
+    server.crash();
+    expect(manager.status()[0]).toMatchObject({
+      connected: false,
+      tools: 2,
+      error: 'Server process exited with code 1',
+    });
+    expect(await registry.execute('mcp_github_create_issue', {})).toBe(
+      "Error: MCP server 'github' is not connected: spawn ENOENT"
+    );
+
+    server.down = false;
+    await vi.waitFor(() => expect(manager.status()[0]?.connected).toBe(true));
+    expect(await registry.execute('mcp_github_create_issue', {})).toBe('Found 2 issues');
+    await manager.stop();
+  });
+
+  it('should retry servers that were down at startup', async () => {
+    server.down = true;
+    const manager = createManager();
+    const registry = new ToolRegistry();
+    await manager.start();
+    manager.attach(registry);
+    expect(manager.status()[0]).toMatchObject({ connected: false, error: 'spawn ENOENT' });
+    expect(registry.toolNames).toEqual([]);
+
+    server.down = false;
+
+    await vi.waitFor(() => expect(registry.toolNames).toHaveLength(2));
+    await manager.stop();
+  });
+
+  it('should update attached registries when the tool list changes', async () => {
+    const manager = createManager();
+    const registry = new ToolRegistry();
+    await manager.start();
+    manager.attach(registry);
+
+    server.tools = [{ name: 'list_repos', inputSchema: { type: 'object' } }];
+    server.handlers?.onMessage({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+
+    await vi.waitFor(() => expect(registry.toolNames).toEqual(['mcp_github_list_repos']));
+    await manager.stop();
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * Connects to configured MCP servers and offers their tools to agents.
+ */
+
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { McpServerConfig } from '../config/schema.js';
+import type { Tool, ToolParameters } from '../agent/tools/base.js';
+import type { ToolRegistry } from '../agent/tools/registry.js';
+import { McpClient, type McpCallToolResult, type McpToolInfo } from './client.js';
+import { HttpTransport, StdioTransport, type McpTransport } from './transport.js';
+
+/**
+ * First delay before reconnecting to a server, doubled after each failure.
+ */
+const RECONNECT_BASE_DELAY_MS = 1000;
+
+/**
+ * Longest tool name the LLM APIs accept.
+ */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Options for creating an McpManager.
+ */
+export interface McpManagerOptions {
+  servers: McpServerConfig[];
+  /** Creates the transport for a server (replaceable in tests) */
+  createTransport?: (server: McpServerConfig) => McpTransport;
+  /** Longest wait between reconnect attempts, in milliseconds */
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * Connection state of one server.
+ */
+export interface McpServerStatus {
+  name: string;
+  connected: boolean;
+  tools: number;
+  /** Why the last connection attempt failed or the connection was lost */
+  error: string | null;
+}
+
+/**
+ * A configured server and its live connection.
+ */
+interface ServerConnection {
+  config: McpServerConfig;
+  client: McpClient | null;
+  /** Set while a connection attempt runs */
+  connecting: Promise<void> | null;
+  /** Registered tools by registered name */
+  tools: Map<string, Tool>;
+  error: string | null;
+  attempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Build the registered name of a server's tool: mcp_<server>_<tool>.
+ *
+ * Characters the LLM APIs reject in tool names are replaced with '_'.
+ */
+export function getMcpToolName(server: string, tool: string): string {
+  return `mcp_${server}_${tool}`
+    .replace(/[^a-zA-Z0-9_-]/g, '_')
+    .slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Render a tool result as text for the model.
+ *
+ * Images and other binary content are described rather than included.
+ */
+export function formatMcpToolResult(result: McpCallToolResult): string {
+  const parts: string[] = [];
+  for (const block of result.content ?? []) {
+    if (block.type === 'text' && block.text !== undefined) {
+      parts.push(block.text);
+    } else if (block.type === 'resource' && block.resource) {
+      parts.push(block.resource.text ?? `[Resource: ${block.resource.uri}]`);
+    } else if (block.type === 'resource_link' && block.uri) {
+      parts.push(`[Resource: ${block.name ?? block.uri} (${block.uri})]`);
+    } else if (block.mimeType) {
+      parts.push(`[${block.type} content: ${block.mimeType}]`);
+    }
+  }
+  if (parts.length === 0 && result.structuredContent !== undefined) {
+    parts.push(JSON.stringify(result.structuredContent, null, 2));
+  }
+
+  const text = parts.join('\n').trim() || '(no output)';
+  return result.isError ? `Error: ${text}` : text;
+}
+
+/**
+ * Create the transport for a server from its config.
+ */
+function createTransport(server: McpServerConfig): McpTransport {
+  if (server.url) {
+    return new HttpTransport({
+      url: server.url,
+      headers: Object.fromEntries(server.headers.map((h) => [h.name, h.value])),
+    });
+  }
+  const options: ConstructorParameters<typeof StdioTransport>[0] = {
+    command: server.command ?? '',
+    args: server.args,
+    env: Object.fromEntries(server.env.map((e) => [e.name, e.value])),
+  };
+  if (server.cwd) {
+    options.cwd = server.cwd.startsWith('~') ? join(homedir(), server.cwd.slice(1)) : server.cwd;
+  }
+  return new StdioTransport(options);
+}
+
+/**
+ * Manages connections to MCP servers and turns their tools into agent tools.
+ *
+ * Servers are connected in start(). A server that cannot be reached or
+ * drops its connection is retried with exponential backoff, and its tools
+ * stay registered meanwhile: calls return an error until it is back.
+ * Registries passed to attach() are updated when a server's tool list
+ * changes.
+ */
+export class McpManager {
+  private readonly connections: ServerConnection[];
+  private readonly createTransport: (server: McpServerConfig) => McpTransport;
+  private readonly maxReconnectDelayMs: number;
+  private readonly registries = new Set<ToolRegistry>();
+  private stopped = false;
+
+  constructor(options: McpManagerOptions) {
+    this.connections = options.servers
+      .filter((server) => server.enabled)
+      .map((config) => ({
+        config,
+        client: null,
+        connecting: null,
+        tools: new Map(),
+        error: null,
+        attempts: 0,
+        reconnectTimer: null,
+      }));
+    this.createTransport = options.createTransport ?? createTransport;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 60_000;
+  }
+
+  /**
+   * Connect to all servers. Failures are logged and retried in the background.
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    await Promise.all(this.connections.map((conn) => this.connect(conn)));
+  }
+
+  /**
+   * Register all MCP tools in a registry and keep it up to date.
+   */
+  attach(registry: ToolRegistry): void {
+    this.registries.add(registry);
+    registry.registerAll(this.getTools());
+  }
+
+  /**
+   * Stop updating a registry.
+   */
+  detach(registry: ToolRegistry): void {
+    this.registries.delete(registry);
+  }
+
+  /**
+   * Get the tools of all servers.
+   */
+  getTools(): Tool[] {
+    return this.connections.flatMap((conn) => [...conn.tools.values()]);
+  }
+
+  /**
+   * Get the connection state of each server.
+   */
+  status(): McpServerStatus[] {
+    return this.connections.map((conn) => ({
+      name: conn.config.name,
+      connected: conn.client !== null,
+      tools: conn.tools.size,
+      error: conn.error,
+    }));
+  }
+
+  /**
+   * Disconnect from all servers.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await Promise.all(
+      this.connections.map(async (conn) => {
+        if (conn.reconnectTimer) {
+          clearTimeout(conn.reconnectTimer);
+          conn.reconnectTimer = null;
+        }
+        const client = conn.client;
+        conn.client = null;
+        await client?.close().catch(() => undefined);
+      })
+    );
+  }
+
+  /**
+   * Call a server's tool, reconnecting first if the server is down.
+   */
+  private async callTool(
+    conn: ServerConnection,
+    tool: string,
+    args: Record<string, unknown>
+  ): Promise<string> {
+    const name = conn.config.name;
+    if (!conn.client && !this.stopped) {
+      await this.connect(conn);
+    }
+    const client = conn.client;
+    if (!client) {
+      return `Error: MCP server '${name}' is not connected${conn.error ? `: ${conn.error}` : ''}`;
+    }
+
+    try {
+      return formatMcpToolResult(await client.callTool(tool, args));
+    } catch (error) {
+      return `Error calling ${tool} on MCP server '${name}': ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Connect to a server and load its tools. Concurrent calls share one attempt.
+   */
+  private connect(conn: ServerConnection): Promise<void> {
+    if (!conn.connecting) {
+      conn.connecting = this.doConnect(conn).finally(() => {
+        conn.connecting = null;
+      });
+    }
+    return conn.connecting;
+  }
+
+  private async doConnect(conn: ServerConnection): Promise<void> {
+    const name = conn.config.name;
+    if (conn.reconnectTimer) {
+      clearTimeout(conn.reconnectTimer);
+      conn.reconnectTimer = null;
+    }
+
+    const client = new McpClient({
+      transport: this.createTransport(conn.config),
+      timeoutMs: conn.config.timeout * 1000,
+      onToolsChanged: () => {
+        void this.refreshTools(conn, client);
+      },
+      onClose: (error) => {
+        if (conn.client !== client) {
+          return;
+        }
+        console.warn(`[MCP] Lost connection to '${name}': ${error.message}`);
+        conn.client = null;
+        conn.error = error.message;
+        this.scheduleReconnect(conn);
+      },
+    });
+
+    try {
+      await client.connect();
+      const tools = await client.listTools();
+      if (this.stopped) {
+        await client.close();
+        return;
+      }
+      conn.client = client;
+      conn.error = null;
+      conn.attempts = 0;
+      this.setTools(conn, tools);
+      console.log(`[MCP] Connected to '${name}' (${conn.tools.size} tools)`);
+    } catch (error) {
+      conn.error = error instanceof Error ? error.message : String(error);
+      console.warn(`[MCP] Could not connect to '${name}': ${conn.error}`);
+      await client.close().catch(() => undefined);
+      this.scheduleReconnect(conn);
+    }
+  }
+
+  /**
+   * Retry a connection after a delay that grows with each failure.
+   */
+  private scheduleReconnect(conn: ServerConnection): void {
+    if (this.stopped || conn.reconnectTimer) {
+      return;
+    }
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** conn.attempts,
+      this.maxReconnectDelayMs
+    );
+    conn.attempts++;
+    conn.reconnectTimer = setTimeout(() => {
+      conn.reconnectTimer = null;
+      void this.connect(conn);
+    }, delay);
+    conn.reconnectTimer.unref?.();
+  }
+
+  /**
+   * Reload a server's tools after it reported a change.
+   */
+  private async refreshTools(conn: ServerConnection, client: McpClient): Promise<void> {
+    try {
+      const tools = await client.listTools();
+      if (conn.client === client) {
+        this.setTools(conn, tools);
+      }
+    } catch (error) {
+      console.warn(
+        `[MCP] Could not reload tools of '${conn.config.name}': ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Replace a server's tools, in this manager and in attached registries.
+   */
+  private setTools(conn: ServerConnection, tools: McpToolInfo[]): void {
+    const allowed = conn.config.tools;
+    const next = new Map<string, Tool>();
+    for (const info of tools) {
+      if (allowed && !allowed.includes(info.name)) {
+        continue;
+      }
+      const tool = this.createTool(conn, info);
+      next.set(tool.name, tool);
+    }
+
+    for (const registry of this.registries) {
+      for (const name of conn.tools.keys()) {
+        registry.unregister(name);
+      }
+      registry.registerAll([...next.values()]);
+    }
+    conn.tools = next;
+  }
+
+  /**
+   * Wrap a server's tool as an agent tool.
+   */
+  private createTool(conn: ServerConnection, info: McpToolInfo): Tool {
+    const description = info.description ?? info.title ?? info.annotations?.title ?? info.name;
+    const parameters = {
+      ...info.inputSchema,
+      type: 'object',
+      properties: info.inputSchema.properties ?? {},
+    } as ToolParameters;
+
+    const tool: Tool = {
+      name: getMcpToolName(conn.config.name, info.name),
+      description: `${description} (from MCP server '${conn.config.name}')`,
+      parameters,
+      execute: (params) => this.callTool(conn, info.name, params),
+    };
+    if (info.annotations?.readOnlyHint === true) {
+      return { ...tool, parallelSafe: true };
+    }
+    return tool;
+  }
+}
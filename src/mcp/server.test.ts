@@ -0,0 +1,135 @@
+/**
+ * Tests for the MCP server.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { createTool } from '../agent/tools/registry.js';
+import { McpServer, serveStdio } from './server.js';
+import { MCP_PROTOCOL_VERSION } from './client.js';
+
+function createServer(): McpServer {
+  return new McpServer({
+    tools: [
+      {
+        ...createTool(
+          'lookup',
+          'Look up a word',
+          { type: 'object', properties: { word: { type: 'string' } }, required: ['word'] },
+          async (params) =>
+            params['word'] === 'missing' ? 'Error: No such word' : `${params['word']}: a word`
+        ),
+        parallelSafe: true,
+      },
+    ],
+    instructions: 'Use lookup for definitions.',
+  });
+}
+
+describe('McpServer', () => {
+  it('should negotiate the protocol version', async () => {
+    const server = createServer();
+
+    const supported = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {} },
+    });
+    const unknown = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'initialize',
+      params: { protocolVersion: '1999-01-01' },
+    });
+
+    expect(supported?.result).toEqual({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: { listChanged: false } },
+      serverInfo: { name: 'ingenium', version: '1.0.0' },
+      instructions: 'Use lookup for definitions.',
+    });
+    expect(unknown?.result).toMatchObject({ protocolVersion: MCP_PROTOCOL_VERSION });
+  });
+
+  it('should list tools with their schemas', async () => {
+    const response = await createServer().handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/list',
+    });
+
+    expect(response?.result).toEqual({
+      tools: [
+        {
+          name: 'lookup',
+          description: 'Look up a word',
+          inputSchema: {
+            type: 'object',
+            properties: { word: { type: 'string' } },
+            required: ['word'],
+          },
+          annotations: { readOnlyHint: true },
+        },
+      ],
+    });
+  });
+
+  it('should call tools and flag error results', async () => {
+    const server = createServer();
+    const call = (word: string) =>
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 'c',
+        method: 'tools/call',
+        params: { name: 'lookup', arguments: { word } },
+      });
+
+    expect((await call('tide'))?.result).toEqual({
+      content: [{ type: 'text', text: 'tide: a word' }],
+      isError: false,
+    });
+    expect((await call('missing'))?.result).toMatchObject({ isError: true });
+  });
+
+  it('should return JSON-RPC errors for bad requests', async () => {
+    const server = createServer();
+
+    expect(
+      await server.handleMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: { name: 'nope' },
+      })
+    ).toEqual({ jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'Unknown tool: nope' } });
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'resources/list' }))?.error)
+      .toEqual({ code: -32601, message: 'Method not found: resources/list' });
+    expect((await server.handleMessage('hello'))?.error?.code).toBe(-32600);
+  });
+
+  it('should not answer notifications', async () => {
+    expect(
+      await createServer().handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })
+    ).toBeNull();
+  });
+});
+
+describe('serveStdio', () => {
+  it('should answer each line until the input ends', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const serving = serveStdio(createServer(), { input, output });
+
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('not json\n');
+    input.end('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    await serving;
+
+    const lines = output.read().toString().trim().split('\n').map((l: string) => JSON.parse(l));
+    expect(lines).toEqual([
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+      { jsonrpc: '2.0', id: 1, result: {} },
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Model Context Protocol server.
+ */
+
+import { createInterface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import type { Tool } from '../agent/tools/base.js';
+import { ToolRegistry } from '../agent/tools/registry.js';
+import { MCP_PROTOCOL_VERSION } from './client.js';
+import type { JsonRpcMessage } from './transport.js';
+
+/**
+ * Protocol versions the server can speak, newest first.
+ */
+const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, '2025-03-26', '2024-11-05'];
+
+/**
+ * How ingenium introduces itself to clients.
+ */
+const SERVER_INFO = { name: 'ingenium', version: '1.0.0' };
+
+/**
+ * JSON-RPC error codes.
+ */
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/**
+ * A request that fails with a JSON-RPC error.
+ */
+class McpRequestError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'McpRequestError';
+  }
+}
+
+/**
+ * Build a JSON-RPC error response.
+ */
+function errorResponse(id: number | string | null, code: number, message: string): JsonRpcMessage {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+/**
+ * Options for creating an McpServer.
+ */
+export interface McpServerOptions {
+  tools: Tool[];
+  /** Told to clients during initialization, to help their models use the tools */
+  instructions?: string;
+}
+
+/**
+ * Server side of MCP: answers initialization, tool listing and tool calls
+ * with a set of tools.
+ *
+ * The server is stateless, so one instance can serve any number of
+ * clients over any transport.
+ */
+export class McpServer {
+  readonly tools: ToolRegistry;
+  private readonly instructions: string | undefined;
+
+  constructor(options: McpServerOptions) {
+    this.tools = new ToolRegistry();
+    this.tools.registerAll(options.tools);
+    this.instructions = options.instructions;
+  }
+
+  /**
+   * Handle a message from a client.
+   *
+   * @returns The response, or null for notifications and responses.
+   */
+  async handleMessage(message: unknown): Promise<JsonRpcMessage | null> {
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      return errorResponse(null, INVALID_REQUEST, 'Invalid request');
+    }
+    const { id, method, params } = message as JsonRpcMessage;
+    if (typeof method !== 'string') {
+      return null;
+    }
+    if (id === undefined) {
+      // Notifications (initialized, cancelled, ...) need no answer
+      return null;
+    }
+
+    try {
+      return { jsonrpc: '2.0', id, result: await this.dispatch(method, params) };
+    } catch (error) {
+      if (error instanceof McpRequestError) {
+        return errorResponse(id, error.code, error.message);
+      }
+      console.error(`[MCP] ${method} failed:`, error);
+      return errorResponse(id, INTERNAL_ERROR, 'Internal error');
+    }
+  }
+
+  /**
+   * Run a request and return its result.
+   */
+  private async dispatch(method: string, params: unknown): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params);
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: this.listTools() };
+      case 'tools/call':
+        return this.callTool(params);
+      default:
+        throw new McpRequestError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private initialize(params: unknown): Record<string, unknown> {
+    const requested = (params as { protocolVersion?: unknown } | undefined)?.protocolVersion;
+    const protocolVersion =
+      typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+        ? requested
+        : MCP_PROTOCOL_VERSION;
+
+    const result: Record<string, unknown> = {
+      protocolVersion,
+      capabilities: { tools: { listChanged: false } },
+      serverInfo: SERVER_INFO,
+    };
+    if (this.instructions) {
+      result['instructions'] = this.instructions;
+    }
+    return result;
+  }
+
+  private listTools(): Record<string, unknown>[] {
+    return this.tools.toolNames.map((name) => {
+      const tool = this.tools.get(name) as Tool;
+      return {
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.parameters,
+        annotations: { readOnlyHint: tool.parallelSafe === true },
+      };
+    });
+  }
+
+  private async callTool(params: unknown): Promise<Record<string, unknown>> {
+    const { name, arguments: args } = (params ?? {}) as { name?: unknown; arguments?: unknown };
+    if (typeof name !== 'string' || !this.tools.has(name)) {
+      throw new McpRequestError(INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+    if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+      throw new McpRequestError(INVALID_PARAMS, 'arguments must be an object');
+    }
+
+    const text = await this.tools.execute(name, (args ?? {}) as Record<string, unknown>);
+    return {
+      content: [{ type: 'text', text }],
+      isError: text.startsWith('Error'),
+    };
+  }
+}
+
+/**
+ * Options for serveStdio.
+ */
+export interface StdioServeOptions {
+  input?: Readable;
+  output?: Writable;
+}
+
+/**
+ * Serve MCP over newline-delimited JSON on stdin and stdout.
+ *
+ * Requests are handled concurrently, so a slow tool call does not hold up
+ * pings. Nothing else may be written to the output while serving.
+ *
+ * @returns Resolves when the input ends.
+ */
+export async function serveStdio(server: McpServer, options: StdioServeOptions = {}): Promise<void> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const write = (message: JsonRpcMessage): void => {
+    output.write(`${JSON.stringify(message)}\n`);
+  };
+
+  const pending = new Set<Promise<void>>();
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      write(errorResponse(null, PARSE_ERROR, 'Parse error'));
+      continue;
+    }
+
+    const task = server
+      .handleMessage(message)
+      .then((response) => {
+        if (response) {
+          write(response);
+        }
+      })
+      .finally(() => pending.delete(task));
+    pending.add(task);
+  }
+  await Promise.all(pending);
+}
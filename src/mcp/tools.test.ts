@@ -0,0 +1,140 @@
+/**
+ * Tests for the tools of ingenium's MCP server.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { Tool } from '../agent/tools/base.js';
+import { MemoryStore } from '../agent/memory.js';
+import { MessageBus } from '../bus/queue.js';
+import { CronService } from '../cron/service.js';
+import { SessionManager } from '../session/manager.js';
+import { createIngeniumTools } from './tools.js';
+
+describe('createIngeniumTools', () => {
+  let testDir: string;
+  let bus: MessageBus;
+  let memory: MemoryStore;
+  let sessions: SessionManager;
+  let cron: CronService;
+  let tools: Map<string, Tool>;
+
+  function run(name: string, params: Record<string, unknown> = {}): Promise<string> {
+    const tool = tools.get(name);
+    if (!tool) throw new Error(`No tool ${name}`);
+    return tool.execute(params);
+  }
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'mcp-tools-test-'));
+    bus = new MessageBus();
+    memory = new MemoryStore(testDir);
+    sessions = new SessionManager(testDir, join(testDir, 'sessions'));
+    cron = new CronService({ storePath: join(testDir, 'cron', 'jobs.json') });
+    tools = new Map(
+      createIngeniumTools({ bus, memory, sessions, cron }).map((tool) => [tool.name, tool])
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should only offer send_message with a bus', () => {
+    expect([...tools.keys()]).toContain('send_message');
+    expect(createIngeniumTools({ memory, sessions, cron }).map((t) => t.name)).not.toContain(
+      'send_message'
+    );
+  });
+
+  it('should publish messages to the bus', async () => {
+    const result = await run('send_message', {
+      channel: 'telegram',
+      chat_id: '42',
+      content: 'Build finished',
+    });
+
+    expect(result).toBe('Message sent to telegram:42');
+    expect(await bus.consumeOutbound()).toMatchObject({
+      channel: 'telegram',
+      chatId: '42',
+      content: 'Build finished',
+    });
+  });
+
+  it('should append to, read and search memory', async () => {
+    await run('memory_append', { content: 'Prefers tea over coffee', target: 'long_term' });
+    await run('memory_append', { content: 'Booked dentist for Friday' });
+
+    const all = await run('memory_read');
+    expect(all).toContain('## Long-term Memory\n\nPrefers tea over coffee');
+    expect(all).toContain('Booked dentist for Friday');
+    expect(await run('memory_read', { days: 0 })).not.toContain('dentist');
+
+    expect(await run('memory_search', { query: 'TEA' })).toBe(
+      'MEMORY.md:1: Prefers tea over coffee'
+    );
+    expect(await run('memory_search', { query: 'nothing like this' })).toContain('No memory');
+  });
+
+  it('should list, read and search sessions', async () => {
+    const session = await sessions.getOrCreate('telegram:42');
+    session.addMessage('user', 'What is the wifi password?');
+    session.addMessage('assistant', 'It is on the fridge.');
+    await sessions.save(session);
+
+    expect(await run('session_list')).toMatch(/^telegram:42 \(updated /);
+    expect(await run('session_read', { key: 'telegram:42', limit: 1 })).toMatch(
+      /assistant: It is on the fridge\.$/
+    );
+    expect(await run('session_read', { key: 'telegram:7' })).toBe(
+      'Error: Session not found: telegram:7'
+    );
+    expect(await run('session_search', { query: 'WIFI' })).toMatch(
+      /^telegram:42 \[.+\] user: What is the wifi password\?$/
+    );
+  });
+
+  it('should add, pause and remove cron jobs', async () => {
+    const added = await run('cron_add', {
+      name: 'standup',
+      message: 'Remind me about standup',
+      cron: '0 9 * * 1-5',
+      channel: 'telegram',
+      to: '42',
+    });
+    const jobId = /^Scheduled job (\w+):/.exec(added)?.[1] ?? '';
+
+    expect(added).toContain('delivers to telegram:42');
+    expect(await run('cron_list')).toContain(`${jobId}: standup`);
+    expect(await run('cron_enable', { job_id: jobId, enabled: false })).toContain('Paused job');
+    expect(await run('cron_list')).toBe('No scheduled jobs');
+    expect(await run('cron_list', { include_disabled: true })).toContain('[disabled]');
+    expect(await run('cron_remove', { job_id: jobId })).toBe(`Removed job ${jobId}`);
+    expect(await run('cron_remove', { job_id: jobId })).toBe(`Error: Job not found: ${jobId}`);
+  });
+
+  it('should require exactly one schedule', async () => {
+    expect(await run('cron_add', { name: 'x', message: 'y' })).toBe(
+      'Error: Set exactly one of when, at, every_seconds or cron'
+    );
+    expect(await run('cron_add', { name: 'x', message: 'y', at: 'someday' })).toBe(
+      'Error: Invalid schedule'
+    );
+  });
+
+  it('should schedule jobs written in plain English', async () => {
+    const added = await run('cron_add', {
+      name: 'standup',
+      message: 'Ping',
+      when: 'every weekday at 9am',
+      tz: 'UTC',
+    });
+    expect(added).toContain('cron 0 9 * * 1-5 (UTC)');
+    expect(await run('cron_add', { name: 'x', message: 'y', when: 'someday' })).toContain(
+      'Error: Could not understand "someday"'
+    );
+  });
+});
@@ -0,0 +1,558 @@
+/**
+ * Tools ingenium offers to other agents through its MCP server.
+ */
+
+import { basename } from 'node:path';
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import type { Tool, ToolParameters } from '../agent/tools/base.js';
+import { BaseTool } from '../agent/tools/base.js';
+import type { MemoryStore } from '../agent/memory.js';
+import type { MessageBus } from '../bus/queue.js';
+import { createOutboundMessage } from '../bus/events.js';
+import type { CronService } from '../cron/service.js';
+import { CronExpressionError } from '../cron/expression.js';
+import { ScheduleParseError, parseNaturalSchedule } from '../cron/natural.js';
+import { formatCronSchedule, type CronJob, type CronSchedule } from '../cron/types.js';
+import type { SessionManager } from '../session/manager.js';
+import { McpServer } from './server.js';
+
+/**
+ * Default number of results returned by list and search tools.
+ */
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Longest message excerpt shown in search results, in characters.
+ */
+const MAX_SNIPPET_CHARS = 200;
+
+/**
+ * Get a positive integer parameter, or a default.
+ */
+function getLimit(value: unknown, fallback: number = DEFAULT_LIMIT): number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Shorten text around the first match of a query, on one line.
+ */
+function getSnippet(text: string, query: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= MAX_SNIPPET_CHARS) {
+    return flat;
+  }
+  const index = flat.toLowerCase().indexOf(query.toLowerCase());
+  const start = Math.max(0, Math.min(index - MAX_SNIPPET_CHARS / 4, flat.length - MAX_SNIPPET_CHARS));
+  const end = start + MAX_SNIPPET_CHARS;
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+/**
+ * Describe a cron job on one line.
+ */
+function formatJob(job: CronJob): string {
+  const next = job.state.nextRunAtMs ? new Date(job.state.nextRunAtMs).toISOString() : 'none';
+  const target = job.payload.deliver ? `, delivers to ${job.payload.channel}:${job.payload.to}` : '';
+  const status = job.enabled ? '' : ' [disabled]';
+  const schedule = formatCronSchedule(job.schedule);
+  return `${job.id}: ${job.name}${status} - ${schedule}, next run ${next}${target}\n  ${job.payload.message}`;
+}
+
+/**
+ * Tool to send a message to a chat through the message bus.
+ */
+export class SendMessageTool extends BaseTool {
+  readonly name = 'send_message';
+  readonly description =
+    'Send a message to a chat on one of ingenium\'s channels (e.g. telegram, whatsapp).';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      channel: { type: 'string', description: 'Channel name, e.g. "telegram"' },
+      chat_id: { type: 'string', description: 'Chat or user ID on that channel' },
+      content: { type: 'string', description: 'Message text' },
+    },
+    required: ['channel', 'chat_id', 'content'],
+  };
+
+  constructor(private readonly bus: MessageBus) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const channel = params['channel'];
+    const chatId = params['chat_id'];
+    const content = params['content'];
+    if (typeof channel !== 'string' || typeof chatId !== 'string' || typeof content !== 'string') {
+      return 'Error: channel, chat_id and content must be strings';
+    }
+
+    await this.bus.publishOutbound(createOutboundMessage({ channel, chatId, content }));
+    return `Message sent to ${channel}:${chatId}`;
+  }
+}
+
+/**
+ * Tool to read long-term memory and recent daily notes.
+ */
+export class MemoryReadTool extends BaseTool {
+  readonly name = 'memory_read';
+  readonly parallelSafe = true;
+  readonly description =
+    'Read the assistant\'s long-term memory (MEMORY.md) and its daily notes from recent days.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      days: {
+        type: 'integer',
+        description: 'Days of daily notes to include (default 7, 0 for long-term memory only)',
+      },
+    },
+  };
+
+  constructor(private readonly memory: MemoryStore) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const days = typeof params['days'] === 'number' ? Math.max(0, Math.floor(params['days'])) : 7;
+    const longTerm = await this.memory.readLongTerm();
+    const recent = days > 0 ? await this.memory.getRecentMemories(days) : '';
+
+    const parts: string[] = [];
+    if (longTerm.trim()) {
+      parts.push(`## Long-term Memory\n\n${longTerm.trim()}`);
+    }
+    if (recent.trim()) {
+      parts.push(`## Recent Notes\n\n${recent.trim()}`);
+    }
+    return parts.join('\n\n') || 'Memory is empty';
+  }
+}
+
+/**
+ * Tool to search memory files for text.
+ */
+export class MemorySearchTool extends BaseTool {
+  readonly name = 'memory_search';
+  readonly parallelSafe = true;
+  readonly description =
+    'Search long-term memory and all daily notes for lines containing some text (case-insensitive).';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Text to look for' },
+      limit: { type: 'integer', description: `Maximum matching lines (default ${DEFAULT_LIMIT})` },
+    },
+    required: ['query'],
+  };
+
+  constructor(private readonly memory: MemoryStore) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const query = params['query'];
+    if (typeof query !== 'string' || !query.trim()) {
+      return 'Error: query must be a non-empty string';
+    }
+    const limit = getLimit(params['limit']);
+    const needle = query.trim().toLowerCase();
+
+    const files = [this.memory.getMemoryFilePath(), ...(await this.memory.listMemoryFiles())];
+    const matches: string[] = [];
+    for (const file of files) {
+      if (!existsSync(file)) {
+        continue;
+      }
+      const lines = (await readFile(file, 'utf-8')).split('\n');
+      for (const [index, line] of lines.entries()) {
+        if (line.toLowerCase().includes(needle)) {
+          matches.push(`${basename(file)}:${index + 1}: ${line.trim()}`);
+        }
+      }
+    }
+
+    if (matches.length === 0) {
+      return `No memory matches "${query}"`;
+    }
+    const more = matches.length > limit ? `\n(${matches.length - limit} more matches)` : '';
+    return matches.slice(0, limit).join('\n') + more;
+  }
+}
+
+/**
+ * Tool to add to today's notes or long-term memory.
+ */
+export class MemoryAppendTool extends BaseTool {
+  readonly name = 'memory_append';
+  readonly description =
+    'Add text to the assistant\'s memory: today\'s daily notes (default) or long-term memory.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      content: { type: 'string', description: 'Text to add' },
+      target: {
+        type: 'string',
+        enum: ['today', 'long_term'],
+        description: 'Where to add it (default today)',
+      },
+    },
+    required: ['content'],
+  };
+
+  constructor(private readonly memory: MemoryStore) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const content = params['content'];
+    if (typeof content !== 'string' || !content.trim()) {
+      return 'Error: content must be a non-empty string';
+    }
+
+    if (params['target'] === 'long_term') {
+      const current = (await this.memory.readLongTerm()).trimEnd();
+      await this.memory.writeLongTerm(`${current ? `${current}\n\n` : ''}${content.trim()}\n`);
+      return 'Added to long-term memory';
+    }
+    await this.memory.appendToday(content.trim());
+    return `Added to ${basename(this.memory.getTodayFile())}`;
+  }
+}
+
+/**
+ * Tool to list conversation sessions.
+ */
+export class SessionListTool extends BaseTool {
+  readonly name = 'session_list';
+  readonly parallelSafe = true;
+  readonly description = 'List conversation sessions, most recently active first.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      limit: { type: 'integer', description: `Maximum sessions (default ${DEFAULT_LIMIT})` },
+    },
+  };
+
+  constructor(private readonly sessions: SessionManager) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const sessions = await this.sessions.listSessions();
+    if (sessions.length === 0) {
+      return 'No sessions';
+    }
+    return sessions
+      .slice(0, getLimit(params['limit']))
+      .map((info) => `${info.key} (updated ${info.updatedAt ?? 'unknown'})`)
+      .join('\n');
+  }
+}
+
+/**
+ * Tool to read the latest messages of a session.
+ */
+export class SessionReadTool extends BaseTool {
+  readonly name = 'session_read';
+  readonly parallelSafe = true;
+  readonly description = 'Read the latest user and assistant messages of a session.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      key: { type: 'string', description: 'Session key, e.g. "telegram:12345"' },
+      limit: { type: 'integer', description: `Maximum messages (default ${DEFAULT_LIMIT})` },
+    },
+    required: ['key'],
+  };
+
+  constructor(private readonly sessions: SessionManager) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const key = params['key'];
+    if (typeof key !== 'string') {
+      return 'Error: key must be a string';
+    }
+    const session = await this.sessions.get(key);
+    if (!session) {
+      return `Error: Session not found: ${key}`;
+    }
+
+    const messages = session.messages
+      .filter((m) => (m.role === 'user' || m.role === 'assistant') && m.content)
+      .slice(-getLimit(params['limit']));
+    if (messages.length === 0) {
+      return `Session ${key} has no messages`;
+    }
+    return messages.map((m) => `[${m.timestamp}] ${m.role}: ${m.content}`).join('\n\n');
+  }
+}
+
+/**
+ * Tool to search the messages of all sessions.
+ */
+export class SessionSearchTool extends BaseTool {
+  readonly name = 'session_search';
+  readonly parallelSafe = true;
+  readonly description =
+    'Search user and assistant messages in all sessions for text (case-insensitive), newest first.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Text to look for' },
+      limit: { type: 'integer', description: `Maximum results (default ${DEFAULT_LIMIT})` },
+    },
+    required: ['query'],
+  };
+
+  constructor(private readonly sessions: SessionManager) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const query = params['query'];
+    if (typeof query !== 'string' || !query.trim()) {
+      return 'Error: query must be a non-empty string';
+    }
+    const limit = getLimit(params['limit']);
+    const needle = query.trim().toLowerCase();
+
+    const results: string[] = [];
+    for (const info of await this.sessions.listSessions()) {
+      const session = await this.sessions.get(info.key);
+      const messages = (session?.messages ?? [])
+        .filter((m) => m.role === 'user' || m.role === 'assistant')
+        .reverse();
+      for (const m of messages) {
+        if (m.content?.toLowerCase().includes(needle)) {
+          results.push(`${info.key} [${m.timestamp}] ${m.role}: ${getSnippet(m.content, needle)}`);
+          if (results.length >= limit) {
+            return results.join('\n');
+          }
+        }
+      }
+    }
+    return results.length > 0 ? results.join('\n') : `No messages match "${query}"`;
+  }
+}
+
+/**
+ * Tool to list cron jobs.
+ */
+export class CronListTool extends BaseTool {
+  readonly name = 'cron_list';
+  readonly parallelSafe = true;
+  readonly description = 'List scheduled jobs, soonest first.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      include_disabled: { type: 'boolean', description: 'Include disabled jobs' },
+    },
+  };
+
+  constructor(private readonly cron: CronService) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const jobs = await this.cron.listJobs(params['include_disabled'] === true);
+    return jobs.length > 0 ? jobs.map(formatJob).join('\n') : 'No scheduled jobs';
+  }
+}
+
+/**
+ * Tool to schedule a job.
+ */
+export class CronAddTool extends BaseTool {
+  readonly name = 'cron_add';
+  readonly description =
+    'Schedule a message for the assistant to act on: in plain English (when), once (at), at an ' +
+    'interval (every_seconds) or on a cron expression. Set channel and to for the reply to be ' +
+    'sent to a chat.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Short name of the job' },
+      message: { type: 'string', description: 'Instruction the assistant runs at each fire time' },
+      when: {
+        type: 'string',
+        description: 'Schedule in plain English, e.g. "every weekday at 9am" or "in 20 minutes"',
+      },
+      at: { type: 'string', description: 'ISO date-time to run once' },
+      every_seconds: { type: 'integer', description: 'Interval in seconds' },
+      cron: { type: 'string', description: 'Cron expression, e.g. "0 9 * * 1-5"' },
+      tz: { type: 'string', description: 'IANA timezone of when or the cron expression' },
+      channel: { type: 'string', description: 'Channel to deliver the reply to' },
+      to: { type: 'string', description: 'Chat ID to deliver the reply to' },
+    },
+    required: ['name', 'message'],
+  };
+
+  constructor(private readonly cron: CronService) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const { name, message, when, at, cron, tz, channel, to } = params;
+    const every = params['every_seconds'];
+    if (typeof name !== 'string' || typeof message !== 'string') {
+      return 'Error: name and message must be strings';
+    }
+    if ([when, at, every, cron].filter((v) => v !== undefined).length !== 1) {
+      return 'Error: Set exactly one of when, at, every_seconds or cron';
+    }
+
+    let schedule: CronSchedule;
+    if (typeof when === 'string') {
+      try {
+        schedule = parseNaturalSchedule(when, typeof tz === 'string' ? { tz } : {});
+      } catch (error) {
+        if (error instanceof ScheduleParseError) {
+          return `Error: ${error.message}`;
+        }
+        throw error;
+      }
+    } else if (typeof every === 'number' && every > 0) {
+      schedule = { kind: 'every', everyMs: every * 1000 };
+    } else if (typeof cron === 'string') {
+      schedule = { kind: 'cron', expr: cron };
+      if (typeof tz === 'string') {
+        schedule.tz = tz;
+      }
+    } else if (typeof at === 'string' && !isNaN(new Date(at).getTime())) {
+      schedule = { kind: 'at', atMs: new Date(at).getTime() };
+    } else {
+      return 'Error: Invalid schedule';
+    }
+
+    const jobOptions: Parameters<CronService['addJob']>[0] = { name, schedule, message };
+    if (typeof channel === 'string' && typeof to === 'string') {
+      jobOptions.deliver = true;
+      jobOptions.channel = channel;
+      jobOptions.to = to;
+    }
+    if (schedule.kind === 'at') {
+      jobOptions.deleteAfterRun = true;
+    }
+    try {
+      const job = await this.cron.addJob(jobOptions);
+      return `Scheduled job ${formatJob(job)}`;
+    } catch (error) {
+      if (error instanceof CronExpressionError) {
+        return `Error: ${error.message}`;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Tool to remove a cron job.
+ */
+export class CronRemoveTool extends BaseTool {
+  readonly name = 'cron_remove';
+  readonly description = 'Remove a scheduled job.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      job_id: { type: 'string', description: 'ID of the job' },
+    },
+    required: ['job_id'],
+  };
+
+  constructor(private readonly cron: CronService) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const jobId = params['job_id'];
+    if (typeof jobId !== 'string') {
+      return 'Error: job_id must be a string';
+    }
+    return (await this.cron.removeJob(jobId))
+      ? `Removed job ${jobId}`
+      : `Error: Job not found: ${jobId}`;
+  }
+}
+
+/**
+ * Tool to pause or resume a cron job.
+ */
+export class CronEnableTool extends BaseTool {
+  readonly name = 'cron_enable';
+  readonly description = 'Pause (enabled: false) or resume (enabled: true) a scheduled job.';
+  readonly parameters: ToolParameters = {
+    type: 'object',
+    properties: {
+      job_id: { type: 'string', description: 'ID of the job' },
+      enabled: { type: 'boolean', description: 'Whether the job should run' },
+    },
+    required: ['job_id', 'enabled'],
+  };
+
+  constructor(private readonly cron: CronService) {
+    super();
+  }
+
+  async execute(params: Record<string, unknown>): Promise<string> {
+    const jobId = params['job_id'];
+    if (typeof jobId !== 'string' || typeof params['enabled'] !== 'boolean') {
+      return 'Error: job_id must be a string and enabled a boolean';
+    }
+    const job = await this.cron.enableJob(jobId, params['enabled']);
+    if (!job) {
+      return `Error: Job not found: ${jobId}`;
+    }
+    return `${job.enabled ? 'Resumed' : 'Paused'} job ${formatJob(job)}`;
+  }
+}
+
+/**
+ * Services the MCP server tools work with.
+ */
+export interface IngeniumToolsOptions {
+  memory: MemoryStore;
+  sessions: SessionManager;
+  cron: CronService;
+  /** Needed for send_message; the tool is left out without it */
+  bus?: MessageBus;
+}
+
+/**
+ * Create the tools ingenium offers through its MCP server.
+ */
+export function createIngeniumTools(options: IngeniumToolsOptions): Tool[] {
+  const tools: Tool[] = [
+    new MemoryReadTool(options.memory),
+    new MemorySearchTool(options.memory),
+    new MemoryAppendTool(options.memory),
+    new SessionListTool(options.sessions),
+    new SessionReadTool(options.sessions),
+    new SessionSearchTool(options.sessions),
+    new CronListTool(options.cron),
+    new CronAddTool(options.cron),
+    new CronRemoveTool(options.cron),
+    new CronEnableTool(options.cron),
+  ];
+  if (options.bus) {
+    tools.unshift(new SendMessageTool(options.bus));
+  }
+  return tools;
+}
+
+/**
+ * Create an MCP server offering ingenium's tools.
+ */
+export function createIngeniumMcpServer(options: IngeniumToolsOptions): McpServer {
+  return new McpServer({
+    tools: createIngeniumTools(options),
+    instructions:
+      'ingenium is a personal AI assistant. These tools read and add to its memory, ' +
+      'search its conversations with users, manage its scheduled jobs and send messages ' +
+      'to chats on its channels.',
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * Tests for MCP transports.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HttpTransport, StdioTransport, type JsonRpcMessage } from './transport.js';
+
+/**
+ * A server that echoes each request's method and params back as its result.
+ */
+const ECHO_SERVER = `
+process.stdout.write('starting up\\n');
+let buffer = '';
+process.stdin.on('data', (chunk) => {
+  buffer += chunk;
+  let i;
+  while ((i = buffer.indexOf('\\n')) !== -1) {
+    const msg = JSON.parse(buffer.slice(0, i));
+    buffer = buffer.slice(i + 1);
+    if (msg.method === 'crash') {
+      process.stderr.write('fatal: crashed on purpose\\n');
+      process.exit(3);
+    }
+    const env = process.env.ECHO_PREFIX;
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { env, method: msg.method } }) + '\\n');
+  }
+});
+`;
+
+function createCollector(): {
+  messages: JsonRpcMessage[];
+  closed: Error[];
+  next: () => Promise<JsonRpcMessage>;
+} {
+  const messages: JsonRpcMessage[] = [];
+  const closed: Error[] = [];
+  return {
+    messages,
+    closed,
+    next: () =>
+      vi.waitFor(
+        () => {
+          const message = messages.shift();
+          if (!message) throw new Error('No message yet');
+          return message;
+        },
+        { timeout: 5000 }
+      ),
+  };
+}
+
+describe('StdioTransport', () => {
+  it('should exchange newline-delimited messages, skipping other output', async () => {
+    const collector = createCollector();
+    const transport = new StdioTransport({
+      command: process.execPath,
+      args: ['-e', ECHO_SERVER],
+      env: { ECHO_PREFIX: 'set' },
+    });
+    await transport.start({
+      onMessage: (m) => collector.messages.push(m),
+      onClose: (e) => collector.closed.push(e),
+    });
+
+    await transport.send({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect(await collector.next()).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { env: 'set', method: 'tools/list' },
+    });
+    await transport.close();
+    expect(collector.closed).toEqual([]);
+  });
+
+  it('should report an unexpected exit with the last stderr line', async () => {
+    const closed: Error[] = [];
+    const transport = new StdioTransport({ command: process.execPath, args: ['-e', ECHO_SERVER] });
+    await transport.start({ onMessage: () => {}, onClose: (e) => closed.push(e) });
+
+    await transport.send({ jsonrpc: '2.0', id: 1, method: 'crash' });
+
+    await vi.waitFor(() => expect(closed).toHaveLength(1), { timeout: 5000 });
+    expect(closed[0]?.message).toBe('Server process exited with code 3: fatal: crashed on purpose');
+    await expect(transport.send({ jsonrpc: '2.0', method: 'x' })).rejects.toThrow('not running');
+  });
+
+  it('should fail to start a missing command', async () => {
+    const transport = new StdioTransport({ command: 'ingenium-no-such-mcp-server' });
+
+    await expect(transport.start({ onMessage: () => {}, onClose: () => {} })).rejects.toThrow(
+      'ENOENT'
+    );
+  });
+});
+
+describe('HttpTransport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post messages and keep the session id', async () => {
+    const fetchMock = vi.fn(
+      async (_url: string, _init?: RequestInit) =>
+        new Response(JSON.stringify({ jsonrpc: '2.0', id: 1, result: {} }), {
+          headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'abc' },
+        })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const messages: JsonRpcMessage[] = [];
+    const transport = new HttpTransport({
+      url: 'https://mcp.example.com/mcp',
+      headers: { Authorization: 'Bearer token' },
+    });
+    await transport.start({ onMessage: (m) => messages.push(m), onClose: () => {} });
+
+    await transport.send({ jsonrpc: '2.0', id: 1, method: 'initialize' });
+    transport.setProtocolVersion('2025-06-18');
+    await transport.send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(messages[0]).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    const headers = fetchMock.mock.calls[1]?.[1]?.headers as Record<string, string>;
+    expect(headers).toMatchObject({
+      Authorization: 'Bearer token',
+      'Mcp-Session-Id': 'abc',
+      'MCP-Protocol-Version': '2025-06-18',
+    });
+  });
+
+  it('should read responses from an event stream', async () => {
+    const body =
+      'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/progress"}\n\n' +
+      'data: {"jsonrpc":"2.0","id":5,"result":{"ok":true}}\n\n';
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(body, { headers: { 'Content-Type': 'text/event-stream' } }))
+    );
+    const messages: JsonRpcMessage[] = [];
+    const transport = new HttpTransport({ url: 'https://mcp.example.com/mcp' });
+    await transport.start({ onMessage: (m) => messages.push(m), onClose: () => {} });
+
+    await transport.send({ jsonrpc: '2.0', id: 5, method: 'tools/call' });
+
+    expect(messages).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/progress' },
+      { jsonrpc: '2.0', id: 5, result: { ok: true } },
+    ]);
+  });
+
+  it('should report an unreachable server as a lost connection', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        throw new TypeError('fetch failed');
+      })
+    );
+    const closed: Error[] = [];
+    const transport = new HttpTransport({ url: 'https://mcp.example.com/mcp' });
+    await transport.start({ onMessage: () => {}, onClose: (e) => closed.push(e) });
+
+    await expect(transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' })).rejects.toThrow(
+      'Cannot reach https://mcp.example.com/mcp: fetch failed'
+    );
+    expect(closed).toHaveLength(1);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Transports that carry MCP messages between ingenium and a server.
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+
+/**
+ * A JSON-RPC 2.0 error.
+ */
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * A JSON-RPC 2.0 request, notification or response.
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  /** Null only in error responses to unreadable requests */
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+/**
+ * Callbacks a transport delivers server output to.
+ */
+export interface McpTransportHandlers {
+  /** Called for every message the server sends */
+  onMessage: (message: JsonRpcMessage) => void;
+  /** Called when the connection is lost; not called after close() */
+  onClose: (error: Error) => void;
+}
+
+/**
+ * A connection to an MCP server.
+ */
+export interface McpTransport {
+  start(handlers: McpTransportHandlers): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+  /** Tell the transport the protocol version agreed on during initialization */
+  setProtocolVersion?(version: string): void;
+}
+
+/**
+ * Most stderr output kept for error messages.
+ */
+const MAX_STDERR_CHARS = 2000;
+
+/**
+ * Options for a stdio transport.
+ */
+export interface StdioTransportOptions {
+  command: string;
+  args?: string[];
+  /** Added to the environment ingenium runs with */
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+/**
+ * Runs an MCP server as a child process and talks to it over stdin and
+ * stdout, one JSON message per line.
+ */
+export class StdioTransport implements McpTransport {
+  readonly command: string;
+  readonly args: string[];
+  private readonly env: Record<string, string>;
+  private readonly cwd: string | undefined;
+  private process: ChildProcess | null = null;
+  private stderr = '';
+  private closing = false;
+
+  constructor(options: StdioTransportOptions) {
+    this.command = options.command;
+    this.args = options.args ?? [];
+    this.env = options.env ?? {};
+    this.cwd = options.cwd;
+  }
+
+  async start(handlers: McpTransportHandlers): Promise<void> {
+    const child = spawn(this.command, this.args, {
+      env: { ...process.env, ...this.env },
+      cwd: this.cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.process = child;
+
+    let buffer = '';
+    child.stdout?.setEncoding('utf8');
+    child.stdout?.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) {
+          try {
+            handlers.onMessage(JSON.parse(line) as JsonRpcMessage);
+          } catch {
+            // Some servers log to stdout; skip lines that are not JSON
+          }
+        }
+        newline = buffer.indexOf('\n');
+      }
+    });
+
+    child.stderr?.setEncoding('utf8');
+    child.stderr?.on('data', (chunk: string) => {
+      this.stderr = (this.stderr + chunk).slice(-MAX_STDERR_CHARS);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+
+    child.on('error', () => {
+      // Reported through the close event
+    });
+    child.on('close', (code, signal) => {
+      this.process = null;
+      if (this.closing) {
+        return;
+      }
+      const reason = signal ? `was killed by ${signal}` : `exited with code ${code}`;
+      const stderr = this.stderr.trim();
+      handlers.onClose(
+        new Error(`Server process ${reason}${stderr ? `: ${stderr.split('\n').pop()}` : ''}`)
+      );
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const stdin = this.process?.stdin;
+    if (!stdin || stdin.destroyed) {
+      throw new Error('Server process is not running');
+    }
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(`${JSON.stringify(message)}\n`, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    const child = this.process;
+    if (!child) {
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+      }, 2000);
+      child.once('close', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.stdin?.end();
+      child.kill('SIGTERM');
+    });
+  }
+}
+
+/**
+ * Options for an HTTP transport.
+ */
+export interface HttpTransportOptions {
+  url: string;
+  /** Sent with every request, e.g. Authorization */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Talks to an MCP server over the Streamable HTTP transport: each message
+ * is POSTed, and the server answers with JSON or a server-sent event stream.
+ */
+export class HttpTransport implements McpTransport {
+  readonly url: string;
+  private readonly headers: Record<string, string>;
+  private handlers: McpTransportHandlers | null = null;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+
+  constructor(options: HttpTransportOptions) {
+    this.url = options.url;
+    this.headers = options.headers ?? {};
+  }
+
+  async start(handlers: McpTransportHandlers): Promise<void> {
+    this.handlers = handlers;
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...this.headers,
+    };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(message),
+      });
+    } catch (error) {
+      const lost = new Error(
+        `Cannot reach ${this.url}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      this.handlers?.onClose(lost);
+      throw lost;
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const error = new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+      // The server forgot our session (e.g. it restarted)
+      if (response.status === 404 && this.sessionId) {
+        this.sessionId = null;
+        this.handlers?.onClose(error);
+      }
+      throw error;
+    }
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (response.status === 202 || !response.body) {
+      return;
+    }
+    if (contentType.includes('text/event-stream')) {
+      for await (const data of readSseEvents(response.body)) {
+        this.deliver(JSON.parse(data));
+      }
+    } else if (contentType.includes('application/json')) {
+      this.deliver(await response.json());
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) {
+      return;
+    }
+    const headers: Record<string, string> = { ...this.headers, 'Mcp-Session-Id': this.sessionId };
+    this.sessionId = null;
+    try {
+      await fetch(this.url, { method: 'DELETE', headers });
+    } catch {
+      // The session expires on its own
+    }
+  }
+
+  /**
+   * Pass a message, or a batch of them, to the handler.
+   */
+  private deliver(data: unknown): void {
+    const messages = Array.isArray(data) ? data : [data];
+    for (const message of messages) {
+      this.handlers?.onMessage(message as JsonRpcMessage);
+    }
+  }
+}
+
+/**
+ * Read the data of each event in a server-sent event stream.
+ */
+async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (line === '') {
+        if (data.length > 0) {
+          yield data.join('\n');
+          data = [];
+        }
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trimStart());
+      }
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.startsWith('data:')) {
+    data.push(buffer.slice(5).trimStart());
+  }
+  if (data.length > 0) {
+    yield data.join('\n');
+  }
+}
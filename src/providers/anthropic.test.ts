@@ -0,0 +1,299 @@
+/**
+ * Tests for the Anthropic provider.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import {
+  AnthropicProvider,
+  convertMessagesToAnthropic,
+  convertToolsToAnthropic,
+  parseAnthropicResponse,
+} from './anthropic.js';
+
+describe('convertMessagesToAnthropic', () => {
+  it('should extract the system message', () => {
+    const { system, messages } = convertMessagesToAnthropic([
+      { role: 'system', content: 'You are helpful' },
+      { role: 'user', content: 'Hi' },
+    ]);
+
+    expect(system).toBe('You are helpful');
+    expect(messages).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+
+  it('should convert assistant tool calls to tool_use blocks', () => {
+    const { messages } = convertMessagesToAnthropic([
+      {
+        role: 'assistant',
+        content: 'Let me check',
+        toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'a.txt' } }],
+      },
+    ]);
+
+    expect(messages).toEqual([
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me check' },
+          { type: 'tool_use', id: 'call_1', name: 'read_file', input: { path: 'a.txt' } },
+        ],
+      },
+    ]);
+  });
+
+  it('should group consecutive tool results into one user turn', () => {
+    const { messages } = convertMessagesToAnthropic([
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'call_1', name: 'read_file', arguments: { path: 'a.txt' } },
+          { id: 'call_2', name: 'read_file', arguments: { path: 'b.txt' } },
+        ],
+      },
+      { role: 'tool', content: 'A', toolCallId: 'call_1' },
+      { role: 'tool', content: 'B', toolCallId: 'call_2' },
+    ]);
+
+    expect(messages).toHaveLength(2);
+    expect(messages[1]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'call_1', content: 'A' },
+        { type: 'tool_result', tool_use_id: 'call_2', content: 'B' },
+      ],
+    });
+  });
+
+  it('should send thinking blocks back before tool calls', () => {
+    const { messages } = convertMessagesToAnthropic([
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'a.txt' } }],
+        reasoningBlocks: [
+          { text: 'Need the file', signature: 'sig' },
+          { text: '', redactedData: 'opaque' },
+          { text: 'From another provider' },
+          { text: '', signature: 'gemini-sig', toolCallId: 'call_1' },
+        ],
+      },
+    ]);
+
+    expect(messages[0]?.content).toEqual([
+      { type: 'thinking', thinking: 'Need the file', signature: 'sig' },
+      { type: 'redacted_thinking', data: 'opaque' },
+      { type: 'tool_use', id: 'call_1', name: 'read_file', input: { path: 'a.txt' } },
+    ]);
+  });
+
+  it('should add cache breakpoints to the system prompt and marked messages', () => {
+    const { system, messages } = convertMessagesToAnthropic([
+      { role: 'system', content: 'You are helpful', cache: true },
+      { role: 'user', content: 'Read a.txt' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'a.txt' } }],
+      },
+      { role: 'tool', content: 'A', toolCallId: 'call_1', cache: true },
+      { role: 'assistant', content: 'It says A', cache: true },
+      { role: 'user', content: 'Thanks' },
+    ]);
+
+    expect(system).toEqual([
+      { type: 'text', text: 'You are helpful', cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(messages[2]?.content).toEqual([
+      {
+        type: 'tool_result',
+        tool_use_id: 'call_1',
+        content: 'A',
+        cache_control: { type: 'ephemeral' },
+      },
+    ]);
+    expect(messages[3]?.content).toEqual([
+      { type: 'text', text: 'It says A', cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(messages[4]?.content).toBe('Thanks');
+  });
+
+  it('should keep only the latest breakpoints the API allows', () => {
+    const { messages } = convertMessagesToAnthropic([
+      { role: 'system', content: 'You are helpful', cache: true },
+      ...['1', '2', '3', '4', '5'].map((n) => ({
+        role: (Number(n) % 2 === 1 ? 'user' : 'assistant') as 'user' | 'assistant',
+        content: n,
+        cache: true,
+      })),
+    ]);
+
+    expect(messages.map((m) => typeof m.content !== 'string')).toEqual([
+      false,
+      false,
+      true,
+      true,
+      true,
+    ]);
+  });
+
+  it('should send image attachments as image blocks', () => {
+    const { messages } = convertMessagesToAnthropic([
+      {
+        role: 'user',
+        content: 'What is this?',
+        attachments: [
+          { mimeType: 'image/png', data: 'iVBOR' },
+          { mimeType: 'audio/ogg', data: 'T2dnUw' },
+        ],
+      },
+    ]);
+
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBOR' } },
+          { type: 'text', text: 'What is this?' },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('convertToolsToAnthropic', () => {
+  it('should convert function definitions to input schemas', () => {
+    const tools = convertToolsToAnthropic([
+      {
+        type: 'function',
+        function: {
+          name: 'read_file',
+          description: 'Read a file',
+          parameters: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+            required: ['path'],
+          },
+        },
+      },
+    ]);
+
+    expect(tools).toEqual([
+      {
+        name: 'read_file',
+        description: 'Read a file',
+        input_schema: {
+          type: 'object',
+          properties: { path: { type: 'string' } },
+          required: ['path'],
+        },
+      },
+    ]);
+  });
+});
+
+describe('parseAnthropicResponse', () => {
+  it('should return thinking as reasoning and join text blocks', () => {
+    const response = {
+      content: [
+        { type: 'thinking', thinking: 'Let me think', signature: 'sig' },
+        { type: 'text', text: 'First' },
+        { type: 'text', text: 'Second' },
+      ],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 5 },
+    } as unknown as Anthropic.Message;
+
+    const parsed = parseAnthropicResponse(response);
+
+    expect(parsed.content).toBe('First\n\nSecond');
+    expect(parsed.reasoning).toBe('Let me think');
+    expect(parsed.reasoningBlocks).toEqual([{ text: 'Let me think', signature: 'sig' }]);
+  });
+
+  it('should leave reasoning unset without thinking blocks', () => {
+    const response = {
+      content: [{ type: 'text', text: 'Hi' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 1, output_tokens: 1 },
+    } as unknown as Anthropic.Message;
+
+    const parsed = parseAnthropicResponse(response);
+
+    expect(parsed.reasoning).toBeUndefined();
+    expect(parsed.reasoningBlocks).toBeUndefined();
+  });
+
+  it('should count cached tokens as prompt tokens', () => {
+    const response = {
+      content: [{ type: 'text', text: 'Hi' }],
+      stop_reason: 'end_turn',
+      usage: {
+        input_tokens: 10,
+        cache_creation_input_tokens: 200,
+        cache_read_input_tokens: 3000,
+        output_tokens: 5,
+      },
+    } as unknown as Anthropic.Message;
+
+    expect(parseAnthropicResponse(response).usage).toEqual({
+      promptTokens: 3210,
+      completionTokens: 5,
+      totalTokens: 3215,
+      cachedTokens: 3000,
+    });
+  });
+});
+
+describe('AnthropicProvider structured output', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should force a tool call and return its input as the content', async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-haiku-4-5',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'status', input: { ok: true } }],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 20, output_tokens: 5 },
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new AnthropicProvider({ apiKey: 'test-key' });
+    const response = await provider.chat({
+      model: 'claude-haiku-4-5',
+      messages: [{ role: 'user', content: 'Status?' }],
+      output: { name: 'status', schema: z.object({ ok: z.boolean() }) },
+      reasoning: { effort: 'low' },
+    });
+
+    expect(response.content).toBe('{"ok":true}');
+    expect(response.toolCalls).toEqual([]);
+    expect(response.finishReason).toBe('stop');
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string) as Record<string, unknown>;
+    expect(body['tool_choice']).toEqual({ type: 'tool', name: 'status' });
+    expect(body['tools']).toEqual([
+      {
+        name: 'status',
+        description: 'Reply with the result.',
+        input_schema: {
+          type: 'object',
+          properties: { ok: { type: 'boolean' } },
+          required: ['ok'],
+          additionalProperties: false,
+        },
+      },
+    ]);
+    expect(body['thinking']).toBeUndefined();
+  });
+});
@@ -11,18 +11,32 @@ import type {
   ToolCallRequest,
   Message,
   ToolDefinition,
+  StreamEvent,
+  ReasoningBlock,
 } from './base.js';
-import { createEmptyResponse } from './base.js';
+import { createErrorResponse, getOutputJsonSchema, getReasoningBudget } from './base.js';
 
 /**
  * Default Anthropic model.
  */
 const DEFAULT_MODEL = 'claude-opus-4-5-20251101';
 
+/**
+ * Image types the Messages API accepts.
+ */
+const ANTHROPIC_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+/**
+ * Most cache breakpoints the Messages API accepts in one request.
+ */
+const MAX_CACHE_BREAKPOINTS = 4;
+
+const CACHE_CONTROL: Anthropic.CacheControlEphemeral = { type: 'ephemeral' };
+
 /**
  * Convert our tool definitions to Anthropic format.
  */
-function convertToolsToAnthropic(
+export function convertToolsToAnthropic(
   tools: ToolDefinition[]
 ): Anthropic.Tool[] {
   return tools.map((tool) => ({
@@ -38,71 +52,215 @@ function convertToolsToAnthropic(
 
 /**
  * Convert our messages to Anthropic format, extracting system message.
+ *
+ * Messages marked with `cache` get a cache breakpoint. The API allows
+ * only a few, so the system prompt and the latest marked messages win.
+ * Tools come before the system prompt, so its breakpoint covers them too.
  */
-function convertMessagesToAnthropic(messages: Message[]): {
-  system: string | undefined;
+export function convertMessagesToAnthropic(messages: Message[]): {
+  system: string | Anthropic.TextBlockParam[] | undefined;
   messages: Anthropic.MessageParam[];
 } {
   let system: string | undefined;
+  let cacheSystem = false;
   const converted: Anthropic.MessageParam[] = [];
+  const cached: Anthropic.MessageParam[] = [];
 
   for (const msg of messages) {
     if (msg.role === 'system') {
       system = msg.content;
+      cacheSystem = msg.cache === true;
     } else if (msg.role === 'tool') {
       // Tool results in Anthropic format
-      converted.push({
-        role: 'user',
-        content: [
-          {
-            type: 'tool_result',
-            tool_use_id: msg.toolCallId ?? '',
-            content: msg.content,
-          },
-        ],
-      });
+      const result: Anthropic.ToolResultBlockParam = {
+        type: 'tool_result',
+        tool_use_id: msg.toolCallId ?? '',
+        content: msg.content,
+      };
+
+      // Results of parallel tool calls belong in a single user turn
+      const previous = converted[converted.length - 1];
+      if (
+        previous?.role === 'user' &&
+        Array.isArray(previous.content) &&
+        previous.content.every((block) => block.type === 'tool_result')
+      ) {
+        previous.content.push(result);
+      } else {
+        converted.push({ role: 'user', content: [result] });
+      }
+    } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      // Thinking must come first and be sent back unchanged
+      const content: Anthropic.ContentBlockParam[] = convertReasoningToAnthropic(
+        msg.reasoningBlocks ?? []
+      );
+      if (msg.content) {
+        content.push({ type: 'text', text: msg.content });
+      }
+      for (const tc of msg.toolCalls) {
+        content.push({
+          type: 'tool_use',
+          id: tc.id,
+          name: tc.name,
+          input: tc.arguments,
+        });
+      }
+      converted.push({ role: 'assistant', content });
+    } else if (msg.role === 'user' && msg.attachments && msg.attachments.length > 0) {
+      const content: Anthropic.ContentBlockParam[] = [];
+      for (const attachment of msg.attachments) {
+        if (ANTHROPIC_IMAGE_TYPES.includes(attachment.mimeType)) {
+          content.push({
+            type: 'image',
+            source: {
+              type: 'base64',
+              media_type: attachment.mimeType as Anthropic.Base64ImageSource['media_type'],
+              data: attachment.data,
+            },
+          });
+        }
+      }
+      content.push({ type: 'text', text: msg.content });
+      converted.push({ role: 'user', content });
     } else if (msg.role === 'user' || msg.role === 'assistant') {
       converted.push({
         role: msg.role,
         content: msg.content,
       });
     }
+
+    const last = converted[converted.length - 1];
+    if (msg.cache && msg.role !== 'system' && last && !cached.includes(last)) {
+      cached.push(last);
+    }
   }
 
+  let breakpoints = MAX_CACHE_BREAKPOINTS;
+  if (system && cacheSystem) {
+    breakpoints--;
+  }
+  for (const message of cached.reverse()) {
+    if (breakpoints === 0) {
+      break;
+    }
+    if (addCacheControl(message)) {
+      breakpoints--;
+    }
+  }
+
+  if (system && cacheSystem) {
+    return {
+      system: [{ type: 'text', text: system, cache_control: CACHE_CONTROL }],
+      messages: converted,
+    };
+  }
   return { system, messages: converted };
 }
 
+/**
+ * Add a cache breakpoint after the last block of a message.
+ *
+ * @returns False if the message has no block that can carry one.
+ */
+function addCacheControl(message: Anthropic.MessageParam): boolean {
+  if (typeof message.content === 'string') {
+    if (!message.content) {
+      return false;
+    }
+    message.content = [{ type: 'text', text: message.content, cache_control: CACHE_CONTROL }];
+    return true;
+  }
+
+  const last = message.content[message.content.length - 1];
+  if (!last || last.type === 'thinking' || last.type === 'redacted_thinking') {
+    return false;
+  }
+  last.cache_control = CACHE_CONTROL;
+  return true;
+}
+
+/**
+ * Convert reasoning blocks to Anthropic thinking blocks.
+ *
+ * Blocks without a signature, or signing a tool call, came from another
+ * provider and are dropped, since Anthropic rejects thinking it can't verify.
+ */
+function convertReasoningToAnthropic(blocks: ReasoningBlock[]): Anthropic.ContentBlockParam[] {
+  const converted: Anthropic.ContentBlockParam[] = [];
+  for (const block of blocks) {
+    if (block.redactedData) {
+      converted.push({ type: 'redacted_thinking', data: block.redactedData });
+    } else if (block.signature && !block.toolCallId) {
+      converted.push({ type: 'thinking', thinking: block.text, signature: block.signature });
+    }
+  }
+  return converted;
+}
+
 /**
  * Parse Anthropic response into our standard format.
+ *
+ * @param outputTool - Name of the tool that carries a structured output
+ *   reply; its input becomes the content.
  */
-function parseAnthropicResponse(
-  response: Anthropic.Message
+export function parseAnthropicResponse(
+  response: Anthropic.Message,
+  outputTool?: string
 ): LLMResponse {
   const toolCalls: ToolCallRequest[] = [];
-  let textContent: string | null = null;
+  const texts: string[] = [];
+  const reasoningBlocks: ReasoningBlock[] = [];
+  let output: string | null = null;
 
   for (const block of response.content) {
     if (block.type === 'text') {
-      textContent = block.text;
+      texts.push(block.text);
+    } else if (block.type === 'tool_use' && block.name === outputTool) {
+      output = JSON.stringify(block.input);
     } else if (block.type === 'tool_use') {
       toolCalls.push({
         id: block.id,
         name: block.name,
         arguments: block.input as Record<string, unknown>,
       });
+    } else if (block.type === 'thinking') {
+      reasoningBlocks.push({ text: block.thinking, signature: block.signature });
+    } else if (block.type === 'redacted_thinking') {
+      reasoningBlocks.push({ text: '', redactedData: block.data });
     }
   }
 
-  return {
-    content: textContent,
+  // input_tokens leaves out cached tokens; count them like other providers do
+  const cachedTokens = response.usage.cache_read_input_tokens ?? 0;
+  const promptTokens =
+    response.usage.input_tokens + (response.usage.cache_creation_input_tokens ?? 0) + cachedTokens;
+
+  let finishReason = response.stop_reason ?? 'stop';
+  if (output !== null && toolCalls.length === 0) {
+    finishReason = 'stop';
+  }
+
+  const parsed: LLMResponse = {
+    content: output ?? (texts.length > 0 ? texts.join('\n\n') : null),
     toolCalls,
-    finishReason: response.stop_reason ?? 'stop',
+    finishReason,
     usage: {
-      promptTokens: response.usage.input_tokens,
+      promptTokens,
       completionTokens: response.usage.output_tokens,
-      totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      totalTokens: promptTokens + response.usage.output_tokens,
     },
   };
+  if (cachedTokens > 0) {
+    parsed.usage.cachedTokens = cachedTokens;
+  }
+  if (reasoningBlocks.length > 0) {
+    parsed.reasoningBlocks = reasoningBlocks;
+    const reasoning = reasoningBlocks.map((b) => b.text).filter(Boolean).join('\n\n');
+    if (reasoning) {
+      parsed.reasoning = reasoning;
+    }
+  }
+  return parsed;
 }
 
 /**
@@ -116,41 +274,120 @@ export class AnthropicProvider implements LLMProvider {
     this.client = new Anthropic({
       apiKey: options.apiKey,
       baseURL: options.apiBase,
+      maxRetries: options.maxRetries,
     });
     this.defaultModel = DEFAULT_MODEL;
   }
 
   async chat(options: ChatOptions): Promise<LLMResponse> {
-    const model = options.model ?? this.defaultModel;
-    const maxTokens = options.maxTokens ?? 4096;
-    const temperature = options.temperature ?? 0.7;
-
-    const { system, messages } = convertMessagesToAnthropic(options.messages);
+    const params = this.buildParams(options);
 
     try {
-      const params: Anthropic.MessageCreateParams = {
-        model,
-        messages,
-        max_tokens: maxTokens,
-        temperature,
-      };
+      const response = await this.client.messages.create(params);
+      return parseAnthropicResponse(response, options.output?.name);
+    } catch (error) {
+      return createErrorResponse('Anthropic', error);
+    }
+  }
 
-      if (system) {
-        params.system = system;
-      }
+  async *chatStream(options: ChatOptions): AsyncIterable<StreamEvent> {
+    const params = this.buildParams(options);
+
+    try {
+      const stream = this.client.messages.stream(params);
+      // Map content block index to tool call index
+      const toolIndexes = new Map<number, number>();
+      // Blocks of the structured output tool, streamed as text
+      const outputBlocks = new Set<number>();
 
-      if (options.tools && options.tools.length > 0) {
-        params.tools = convertToolsToAnthropic(options.tools);
+      for await (const event of stream) {
+        if (
+          event.type === 'content_block_start' &&
+          event.content_block.type === 'tool_use' &&
+          event.content_block.name === options.output?.name
+        ) {
+          outputBlocks.add(event.index);
+        } else if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+          const index = toolIndexes.size;
+          toolIndexes.set(event.index, index);
+          yield {
+            type: 'tool_call',
+            index,
+            id: event.content_block.id,
+            name: event.content_block.name,
+            argumentsDelta: '',
+          };
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta.type === 'text_delta') {
+            yield { type: 'text', text: event.delta.text };
+          } else if (event.delta.type === 'thinking_delta') {
+            yield { type: 'reasoning', text: event.delta.thinking };
+          } else if (event.delta.type === 'input_json_delta' && outputBlocks.has(event.index)) {
+            yield { type: 'text', text: event.delta.partial_json };
+          } else if (event.delta.type === 'input_json_delta') {
+            yield {
+              type: 'tool_call',
+              index: toolIndexes.get(event.index) ?? 0,
+              argumentsDelta: event.delta.partial_json,
+            };
+          }
+        }
       }
 
-      const response = await this.client.messages.create(params);
-      return parseAnthropicResponse(response);
+      const final = await stream.finalMessage();
+      yield { type: 'done', response: parseAnthropicResponse(final, options.output?.name) };
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return createEmptyResponse(`Error calling Anthropic: ${message}`, 'error');
+      yield { type: 'done', response: createErrorResponse('Anthropic', error) };
     }
   }
 
+  /**
+   * Build request parameters shared by chat and chatStream.
+   */
+  private buildParams(options: ChatOptions): Anthropic.MessageCreateParamsNonStreaming {
+    const { system, messages } = convertMessagesToAnthropic(options.messages);
+
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: options.model ?? this.defaultModel,
+      messages,
+      max_tokens: options.maxTokens ?? 4096,
+      temperature: options.temperature ?? 0.7,
+    };
+
+    if (system) {
+      params.system = system;
+    }
+
+    // Forcing a tool call is not allowed with thinking, so structured output wins
+    if (options.reasoning && !options.output) {
+      // Thinking counts toward max_tokens, and requires the default temperature
+      const budget = getReasoningBudget(options.reasoning);
+      params.thinking = { type: 'enabled', budget_tokens: budget };
+      params.max_tokens += budget;
+      delete params.temperature;
+    }
+
+    if (options.tools && options.tools.length > 0) {
+      params.tools = convertToolsToAnthropic(options.tools);
+    }
+
+    if (options.output) {
+      // Anthropic has no JSON mode; the reply comes as the input of a tool it must call
+      const schema = getOutputJsonSchema(options.output);
+      params.tools = [
+        ...(params.tools ?? []),
+        {
+          name: options.output.name,
+          description: 'Reply with the result.',
+          input_schema: { ...schema, type: 'object' },
+        },
+      ];
+      params.tool_choice = { type: 'tool', name: options.output.name };
+    }
+
+    return params;
+  }
+
   getDefaultModel(): string {
     return this.defaultModel;
   }
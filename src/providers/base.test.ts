@@ -6,7 +6,12 @@ import { describe, it, expect } from 'vitest';
 import {
   hasToolCalls,
   createEmptyResponse,
+  collectStream,
+  createErrorResponse,
+  parseRetryAfter,
+  toProviderError,
   type LLMResponse,
+  type StreamEvent,
   type ToolCallRequest,
 } from './base.js';
 
@@ -61,6 +66,75 @@ describe('createEmptyResponse', () => {
   });
 });
 
+describe('collectStream', () => {
+  it('should return the response from the done event', async () => {
+    const final = createEmptyResponse('Hello world');
+    async function* stream(): AsyncIterable<StreamEvent> {
+      yield { type: 'text', text: 'Hello' };
+      yield { type: 'text', text: ' world' };
+      yield { type: 'done', response: final };
+    }
+
+    expect(await collectStream(stream())).toBe(final);
+  });
+
+  it('should return an error response when the stream has no done event', async () => {
+    async function* stream(): AsyncIterable<StreamEvent> {
+      yield { type: 'text', text: 'partial' };
+    }
+
+    const response = await collectStream(stream());
+    expect(response.finishReason).toBe('error');
+  });
+});
+
+describe('toProviderError', () => {
+  function apiError(status: number, headers: Record<string, string> = {}): Error {
+    return Object.assign(new Error(`${status} error`), { status, headers: new Headers(headers) });
+  }
+
+  it('should treat rate limits and server errors as transient', () => {
+    expect(toProviderError(apiError(429)).transient).toBe(true);
+    expect(toProviderError(apiError(503)).transient).toBe(true);
+    expect(toProviderError(apiError(400)).transient).toBe(false);
+    expect(toProviderError(apiError(401))).toMatchObject({ status: 401, transient: false });
+  });
+
+  it('should treat connection errors and timeouts as transient', () => {
+    const timeout = Object.assign(new Error('Request timed out.'), { name: 'APIConnectionTimeoutError' });
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    expect(toProviderError(timeout).transient).toBe(true);
+    expect(toProviderError(reset).transient).toBe(true);
+    expect(toProviderError(new Error('bad input')).transient).toBe(false);
+  });
+
+  it('should read retry-after headers', () => {
+    expect(toProviderError(apiError(429, { 'retry-after': '7' })).retryAfterMs).toBe(7000);
+    expect(
+      toProviderError(apiError(429, { 'retry-after-ms': '250', 'retry-after': '1' })).retryAfterMs
+    ).toBe(250);
+    expect(toProviderError(apiError(429)).retryAfterMs).toBeUndefined();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())).toBeGreaterThan(50_000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('createErrorResponse', () => {
+  it('should create an error response with details', () => {
+    const response = createErrorResponse('OpenAI', Object.assign(new Error('overloaded'), { status: 529 }));
+    expect(response.finishReason).toBe('error');
+    expect(response.content).toBe('Error calling OpenAI: overloaded');
+    expect(response.error).toEqual({ message: 'overloaded', status: 529, transient: true });
+  });
+});
+
 describe('ToolCallRequest', () => {
   it('should have correct structure', () => {
     const toolCall: ToolCallRequest = {
@@ -2,6 +2,8 @@
  * Base LLM provider abstraction.
  */
 
+import { z } from 'zod';
+
 /**
  * A tool call request from the LLM.
  */
@@ -11,6 +13,64 @@ export interface ToolCallRequest {
   arguments: Record<string, unknown>;
 }
 
+/**
+ * How much the model should reason before answering.
+ */
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * Extended thinking / reasoning request.
+ */
+export interface ReasoningOptions {
+  effort: ReasoningEffort;
+  /** Tokens the model may spend thinking; derived from the effort if not set */
+  budgetTokens?: number;
+}
+
+/**
+ * Thinking budgets used for each effort level.
+ */
+export const REASONING_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16384,
+};
+
+/**
+ * Get the thinking token budget of a reasoning request.
+ */
+export function getReasoningBudget(reasoning: ReasoningOptions): number {
+  return reasoning.budgetTokens ?? REASONING_BUDGETS[reasoning.effort];
+}
+
+/**
+ * A block of model reasoning, kept so it can be sent back on the next
+ * call of a tool-use turn (which Anthropic and Gemini require).
+ */
+export interface ReasoningBlock {
+  /** Reasoning text; empty for redacted blocks */
+  text: string;
+  /** Signature the provider uses to verify the block when it is sent back */
+  signature?: string;
+  /** Encrypted content of a block the provider redacted */
+  redactedData?: string;
+  /** Tool call the signature is attached to (Gemini signs calls, not reasoning) */
+  toolCallId?: string;
+}
+
+/**
+ * Details of a failed provider request.
+ */
+export interface ProviderError {
+  message: string;
+  /** HTTP status, if the API responded */
+  status?: number;
+  /** Delay the API asked for before retrying */
+  retryAfterMs?: number;
+  /** Whether retrying the same request may succeed (rate limits, 5xx, timeouts) */
+  transient: boolean;
+}
+
 /**
  * Response from an LLM provider.
  */
@@ -22,7 +82,17 @@ export interface LLMResponse {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /** Prompt tokens read from the provider's prompt cache */
+    cachedTokens?: number;
   };
+  /** Set when the request failed (finishReason 'error') */
+  error?: ProviderError;
+  /** Model that answered, when it may differ from the requested one */
+  model?: string;
+  /** Reasoning the model did before answering, if requested and returned */
+  reasoning?: string;
+  /** Reasoning blocks to send back with the assistant message */
+  reasoningBlocks?: ReasoningBlock[];
 }
 
 /**
@@ -51,19 +121,134 @@ export function createEmptyResponse(
   };
 }
 
+/**
+ * Parse a retry-after header value (seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Read a header from an SDK error's headers (a Headers object or a plain record).
+ */
+function readHeader(headers: unknown, name: string): string | null {
+  if (!headers || typeof headers !== 'object') {
+    return null;
+  }
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name);
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Describe an error thrown by a provider SDK.
+ *
+ * The Anthropic and OpenAI SDKs both expose `status` and `headers` on API
+ * errors, and name connection failures and timeouts by class name.
+ */
+export function toProviderError(error: unknown): ProviderError {
+  const message = error instanceof Error ? error.message : String(error);
+  const details = (error ?? {}) as {
+    status?: unknown;
+    headers?: unknown;
+    name?: unknown;
+    code?: unknown;
+  };
+  const status = typeof details.status === 'number' ? details.status : undefined;
+
+  const result: ProviderError = { message, transient: false };
+  if (status !== undefined) {
+    result.status = status;
+    result.transient = status === 408 || status === 409 || status === 429 || status >= 500;
+  } else {
+    const name = typeof details.name === 'string' ? details.name : '';
+    const code = typeof details.code === 'string' ? details.code : '';
+    result.transient =
+      /Connection|Timeout/i.test(name) ||
+      /^(ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN)$/.test(code);
+  }
+
+  // OpenAI sends a millisecond variant alongside the standard header
+  const retryAfterMsHeader = Number(readHeader(details.headers, 'retry-after-ms') ?? NaN);
+  const retryAfterMs = Number.isFinite(retryAfterMsHeader)
+    ? retryAfterMsHeader
+    : parseRetryAfter(readHeader(details.headers, 'retry-after'));
+  if (retryAfterMs !== undefined) {
+    result.retryAfterMs = retryAfterMs;
+  }
+  return result;
+}
+
+/**
+ * Create a failed response for an error thrown by a provider SDK.
+ *
+ * @param providerName - Name shown in the error message (e.g. 'Anthropic').
+ */
+export function createErrorResponse(providerName: string, error: unknown): LLMResponse {
+  const details = toProviderError(error);
+  const response = createEmptyResponse(`Error calling ${providerName}: ${details.message}`, 'error');
+  response.error = details;
+  return response;
+}
+
+/**
+ * Consume a stream and return its final response.
+ */
+export async function collectStream(
+  stream: AsyncIterable<StreamEvent>
+): Promise<LLMResponse> {
+  let response: LLMResponse | null = null;
+  for await (const event of stream) {
+    if (event.type === 'done') {
+      response = event.response;
+    }
+  }
+  return response ?? createEmptyResponse(null, 'error');
+}
+
 /**
  * Message role in a conversation.
  */
 export type MessageRole = 'user' | 'assistant' | 'system' | 'tool';
 
+/**
+ * A file sent inline with a message, such as an image.
+ */
+export interface MediaAttachment {
+  mimeType: string;
+  /** Base64-encoded file content */
+  data: string;
+}
+
 /**
  * A message in a conversation.
  */
 export interface Message {
   role: MessageRole;
   content: string;
+  /** Files sent with a user message */
+  attachments?: MediaAttachment[];
+  /** Reasoning that preceded an assistant message's tool calls */
+  reasoningBlocks?: ReasoningBlock[];
+  /** Tool calls made by an assistant message */
+  toolCalls?: ToolCallRequest[];
   toolCallId?: string;
   name?: string;
+  /**
+   * Marks the prompt up to and including this message as a stable prefix
+   * worth caching. Providers with explicit caching add a breakpoint here.
+   */
+  cache?: boolean;
 }
 
 /**
@@ -91,8 +276,51 @@ export interface ChatOptions {
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  /** Request extended thinking; not all models support it */
+  reasoning?: ReasoningOptions;
+  /** Ask for a JSON reply matching a schema, returned as the content */
+  output?: StructuredOutput;
+}
+
+/**
+ * Request for a reply that is a JSON object matching a schema.
+ */
+export interface StructuredOutput {
+  /** Name of the schema; APIs show it to the model */
+  name: string;
+  schema: z.ZodObject;
+}
+
+/**
+ * Get the JSON schema of a structured output request.
+ */
+export function getOutputJsonSchema(output: StructuredOutput): Record<string, unknown> {
+  const schema = z.toJSONSchema(output.schema) as Record<string, unknown>;
+  delete schema['$schema'];
+  return schema;
 }
 
+/**
+ * Incremental event emitted while streaming a chat completion.
+ *
+ * - `text`: a chunk of assistant text
+ * - `reasoning`: a chunk of the model's reasoning
+ * - `tool_call`: a fragment of a tool call; `id` and `name` arrive with the
+ *   first fragment for a given `index`, `argumentsDelta` is partial JSON
+ * - `done`: the stream finished; carries the fully assembled response
+ */
+export type StreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'reasoning'; text: string }
+  | {
+      type: 'tool_call';
+      index: number;
+      id?: string;
+      name?: string;
+      argumentsDelta: string;
+    }
+  | { type: 'done'; response: LLMResponse };
+
 /**
  * Abstract base interface for LLM providers.
  *
@@ -105,6 +333,14 @@ export interface LLMProvider {
    */
   chat(options: ChatOptions): Promise<LLMResponse>;
 
+  /**
+   * Send a chat completion request and stream the response.
+   *
+   * The final event is always `done`, even when the request fails, so
+   * callers can treat it like the result of `chat()`.
+   */
+  chatStream?(options: ChatOptions): AsyncIterable<StreamEvent>;
+
   /**
    * Get the default model for this provider.
    */
@@ -117,4 +353,6 @@ export interface LLMProvider {
 export interface ProviderOptions {
   apiKey?: string;
   apiBase?: string;
+  /** Retries the SDK client makes on its own (SDK default when unset) */
+  maxRetries?: number;
 }
@@ -2,15 +2,19 @@
  * Tests for provider factory.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { ConfigSchema } from '../config/schema.js';
 import {
   detectProviderFromModel,
   createProviderFromConfig,
   createProvider,
+  createFallbackProviderFromConfig,
 } from './factory.js';
+import { FallbackProvider } from './fallback.js';
 import { AnthropicProvider } from './anthropic.js';
 import { OpenAIProvider } from './openai.js';
+import { GeminiProvider } from './gemini.js';
+import { OllamaProvider } from './ollama.js';
 
 describe('detectProviderFromModel', () => {
   it('should detect anthropic from model prefix', () => {
@@ -43,6 +47,11 @@ describe('detectProviderFromModel', () => {
     expect(detectProviderFromModel('glm-4.7-flash')).toBe('zhipu');
   });
 
+  it('should detect ollama from prefix before other name patterns', () => {
+    expect(detectProviderFromModel('ollama/llama3.2')).toBe('ollama');
+    expect(detectProviderFromModel('ollama/gpt-oss:20b')).toBe('ollama');
+  });
+
   it('should detect gemini from prefix', () => {
     expect(detectProviderFromModel('gemini/gemini-pro')).toBe('gemini');
   });
@@ -58,6 +67,11 @@ describe('detectProviderFromModel', () => {
 });
 
 describe('createProviderFromConfig', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
   it('should return null when no API keys configured', () => {
     const config = ConfigSchema.parse({});
     const provider = createProviderFromConfig(config);
@@ -106,14 +120,43 @@ describe('createProviderFromConfig', () => {
     expect(provider?.getDefaultModel()).toBe('anthropic/claude-opus-4-5');
   });
 
-  it('should create Gemini provider as OpenAI-compatible', () => {
+  it('should create native Gemini provider', () => {
     const config = ConfigSchema.parse({
       providers: {
         gemini: { apiKey: 'gemini-test' },
       },
     });
     const provider = createProviderFromConfig(config);
-    expect(provider).toBeInstanceOf(OpenAIProvider);
+    expect(provider).toBeInstanceOf(GeminiProvider);
+    expect(provider?.getDefaultModel()).toBe('gemini-2.5-flash');
+  });
+
+  it('should ignore a Gemini apiBase for the OpenAI-compatible endpoint', async () => {
+    const urls: string[] = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        urls.push(url);
+        return Response.json({ candidates: [{ content: { parts: [{ text: 'Hi' }] } }] });
+      })
+    );
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config = ConfigSchema.parse({
+      providers: {
+        gemini: {
+          apiKey: 'gemini-test',
+          apiBase: 'https://generativelanguage.googleapis.com/v1beta/openai/',
+        },
+      },
+    });
+
+    const provider = createProviderFromConfig(config);
+    await provider?.chat({ messages: [{ role: 'user', content: 'Hello' }] });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('OpenAI-compatible'));
+    expect(urls[0]).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent'
+    );
   });
 
   it('should create Groq provider as OpenAI-compatible', () => {
@@ -126,6 +169,15 @@ describe('createProviderFromConfig', () => {
     expect(provider).toBeInstanceOf(OpenAIProvider);
   });
 
+  it('should create Ollama provider for ollama models without an API key', () => {
+    const config = ConfigSchema.parse({
+      agents: { defaults: { model: 'ollama/llama3.2' } },
+      providers: { anthropic: { apiKey: 'sk-ant-test' } },
+    });
+    const provider = createProviderFromConfig(config);
+    expect(provider).toBeInstanceOf(OllamaProvider);
+  });
+
   it('should create vLLM provider when apiBase is set', () => {
     const config = ConfigSchema.parse({
       providers: {
@@ -155,8 +207,107 @@ describe('createProvider', () => {
     expect(provider.getDefaultModel()).toBe('anthropic/claude-opus-4-5');
   });
 
+  it('should create Gemini provider', () => {
+    const provider = createProvider('gemini', 'test-key');
+    expect(provider).toBeInstanceOf(GeminiProvider);
+  });
+
   it('should create provider with custom base URL', () => {
     const provider = createProvider('openai', 'test-key', 'https://custom.api.com');
     expect(provider).toBeInstanceOf(OpenAIProvider);
   });
 });
+
+describe('createFallbackProviderFromConfig', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return null when no API keys configured', () => {
+    expect(createFallbackProviderFromConfig(ConfigSchema.parse({}))).toBeNull();
+  });
+
+  it('should chain configured failover providers after the primary', () => {
+    const config = ConfigSchema.parse({
+      agents: {
+        defaults: {
+          failover: {
+            chain: [
+              { provider: 'openai', model: 'gpt-4o' },
+              { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+            ],
+          },
+        },
+      },
+      providers: {
+        anthropic: { apiKey: 'sk-ant-test' },
+        openai: { apiKey: 'sk-test' },
+      },
+    });
+
+    const provider = createFallbackProviderFromConfig(config);
+
+    expect(provider).toBeInstanceOf(FallbackProvider);
+    // groq has no key, so it is skipped
+    expect(provider?.entries.map((e) => e.label)).toEqual(['primary', 'openai']);
+    expect(provider?.entries[0]?.provider).toBeInstanceOf(AnthropicProvider);
+    expect(provider?.entries[1]?.model).toBe('gpt-4o');
+  });
+
+  it('should give Gemini chain entries the configured safety settings', async () => {
+    const bodies: Array<Record<string, unknown>> = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init?: RequestInit) => {
+        bodies.push(JSON.parse(init?.body as string) as Record<string, unknown>);
+        return Response.json({ candidates: [{ content: { parts: [{ text: 'Hi' }] } }] });
+      })
+    );
+    const safetySettings = [
+      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
+    ];
+    const config = ConfigSchema.parse({
+      agents: {
+        defaults: { failover: { chain: [{ provider: 'gemini', model: 'gemini-2.5-flash' }] } },
+      },
+      providers: {
+        anthropic: { apiKey: 'sk-ant-test' },
+        gemini: { apiKey: 'gm-test', safetySettings },
+      },
+    });
+
+    const provider = createFallbackProviderFromConfig(config);
+    await provider?.entries[1]?.provider.chat({ messages: [{ role: 'user', content: 'Hello' }] });
+
+    expect(provider?.entries[1]?.provider).toBeInstanceOf(GeminiProvider);
+    expect(bodies[0]?.['safetySettings']).toEqual(safetySettings);
+  });
+
+  describe('SDK retries', () => {
+    it('should leave retries to the fallback provider', async () => {
+      const fetchMock = vi.fn(async () =>
+        Response.json({ error: { type: 'api_error', message: 'Internal error' } }, { status: 500 })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const config = ConfigSchema.parse({
+        agents: {
+          defaults: {
+            failover: { maxRetries: 0, chain: [{ provider: 'openai', model: 'gpt-4o' }] },
+          },
+        },
+        providers: {
+          anthropic: { apiKey: 'sk-ant-test' },
+          openai: { apiKey: 'sk-test' },
+        },
+      });
+
+      const provider = createFallbackProviderFromConfig(config);
+      const response = await provider?.chat({ messages: [{ role: 'user', content: 'Hello' }] });
+
+      expect(response?.finishReason).toBe('error');
+
+      // One request per entry, none repeated by the SDK clients
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -8,6 +8,9 @@ import type { LLMProvider, ProviderOptions } from './base.js';
 import { AnthropicProvider } from './anthropic.js';
 import { OpenAIProvider, createOpenRouterProvider } from './openai.js';
 import type { OpenAIProviderOptions } from './openai.js';
+import { GeminiProvider } from './gemini.js';
+import { OllamaProvider } from './ollama.js';
+import { FallbackProvider, type FallbackEntry } from './fallback.js';
 
 /**
  * Supported provider types.
@@ -19,13 +22,31 @@ export type ProviderType =
   | 'groq'
   | 'zhipu'
   | 'vllm'
-  | 'gemini';
+  | 'gemini'
+  | 'ollama';
+
+/**
+ * Default API bases for OpenAI-compatible providers.
+ */
+const DEFAULT_API_BASES: Partial<Record<ProviderType, string>> = {
+  groq: 'https://api.groq.com/openai/v1',
+  zhipu: 'https://open.bigmodel.cn/api/paas/v4/',
+};
+
+/**
+ * Client options shared by every provider a factory call creates.
+ */
+export type ProviderClientOptions = Pick<ProviderOptions, 'maxRetries'>;
 
 /**
  * Build provider options, only including apiBase when defined.
  */
-function buildProviderOptions(apiKey: string, apiBase?: string | null): ProviderOptions {
-  const options: ProviderOptions = { apiKey };
+function buildProviderOptions(
+  apiKey: string,
+  apiBase?: string | null,
+  clientOptions: ProviderClientOptions = {}
+): ProviderOptions {
+  const options: ProviderOptions = { ...clientOptions, apiKey };
   if (apiBase) {
     options.apiBase = apiBase;
   }
@@ -35,8 +56,12 @@ function buildProviderOptions(apiKey: string, apiBase?: string | null): Provider
 /**
  * Build OpenAI provider options, only including apiBase when defined.
  */
-function buildOpenAIOptions(apiKey: string, apiBase?: string | null): OpenAIProviderOptions {
-  const options: OpenAIProviderOptions = { apiKey };
+function buildOpenAIOptions(
+  apiKey: string,
+  apiBase?: string | null,
+  clientOptions: ProviderClientOptions = {}
+): OpenAIProviderOptions {
+  const options: OpenAIProviderOptions = { ...clientOptions, apiKey };
   if (apiBase) {
     options.apiBase = apiBase;
   }
@@ -49,6 +74,10 @@ function buildOpenAIOptions(apiKey: string, apiBase?: string | null): OpenAIProv
 export function detectProviderFromModel(model: string): ProviderType {
   const lowerModel = model.toLowerCase();
 
+  // Checked first since local model names often contain 'gpt' or 'glm'
+  if (lowerModel.startsWith('ollama/')) {
+    return 'ollama';
+  }
   if (lowerModel.startsWith('anthropic/') || lowerModel.includes('claude')) {
     return 'anthropic';
   }
@@ -79,15 +108,25 @@ export function detectProviderFromModel(model: string): ProviderType {
 /**
  * Create an LLM provider from configuration.
  */
-export function createProviderFromConfig(config: Config): LLMProvider | null {
+export function createProviderFromConfig(
+  config: Config,
+  clientOptions: ProviderClientOptions = {}
+): LLMProvider | null {
   const providers = config.providers;
+  const model = config.agents.defaults.model;
+
+  // Ollama models are named explicitly and need no API key
+  if (detectProviderFromModel(model) === 'ollama') {
+    return createOllamaProvider(config, clientOptions);
+  }
 
   // Check for vLLM first since it may not require an API key
   if (providers.vllm.apiBase) {
     return new OpenAIProvider(
       buildOpenAIOptions(
         providers.vllm.apiKey || 'EMPTY', // vLLM may not require API key
-        providers.vllm.apiBase
+        providers.vllm.apiBase,
+        clientOptions
       )
     );
   }
@@ -99,43 +138,38 @@ export function createProviderFromConfig(config: Config): LLMProvider | null {
     return null;
   }
 
-  const model = config.agents.defaults.model;
-
   // Check for OpenRouter first (highest priority in getApiKey)
   if (providers.openrouter.apiKey) {
-    return createOpenRouterProvider(providers.openrouter.apiKey);
+    return createOpenRouterProvider(providers.openrouter.apiKey, clientOptions);
   }
 
   // Check for Anthropic
   if (providers.anthropic.apiKey) {
     return new AnthropicProvider(
-      buildProviderOptions(providers.anthropic.apiKey, providers.anthropic.apiBase)
+      buildProviderOptions(providers.anthropic.apiKey, providers.anthropic.apiBase, clientOptions)
     );
   }
 
   // Check for OpenAI
   if (providers.openai.apiKey) {
     return new OpenAIProvider(
-      buildOpenAIOptions(providers.openai.apiKey, providers.openai.apiBase)
+      buildOpenAIOptions(providers.openai.apiKey, providers.openai.apiBase, clientOptions)
     );
   }
 
-  // For Gemini, Groq, Zhipu, vLLM - use OpenAI-compatible interface
-  // These providers typically expose OpenAI-compatible APIs
   if (providers.gemini.apiKey) {
-    return new OpenAIProvider(
-      buildOpenAIOptions(
-        providers.gemini.apiKey,
-        providers.gemini.apiBase ?? 'https://generativelanguage.googleapis.com/v1beta/openai/'
-      )
-    );
+    return createGeminiProvider(config, clientOptions);
   }
 
+  // For Groq, Zhipu, vLLM - use OpenAI-compatible interface
+  // These providers typically expose OpenAI-compatible APIs
+
   if (providers.groq.apiKey) {
     return new OpenAIProvider(
       buildOpenAIOptions(
         providers.groq.apiKey,
-        providers.groq.apiBase ?? 'https://api.groq.com/openai/v1'
+        providers.groq.apiBase ?? DEFAULT_API_BASES.groq,
+        clientOptions
       )
     );
   }
@@ -144,7 +178,8 @@ export function createProviderFromConfig(config: Config): LLMProvider | null {
     return new OpenAIProvider(
       buildOpenAIOptions(
         providers.zhipu.apiKey,
-        providers.zhipu.apiBase ?? 'https://open.bigmodel.cn/api/paas/v4/'
+        providers.zhipu.apiBase ?? DEFAULT_API_BASES.zhipu,
+        clientOptions
       )
     );
   }
@@ -154,17 +189,64 @@ export function createProviderFromConfig(config: Config): LLMProvider | null {
 
   switch (providerType) {
     case 'anthropic':
-      return new AnthropicProvider(buildProviderOptions(apiKey, apiBase));
+      return new AnthropicProvider(buildProviderOptions(apiKey, apiBase, clientOptions));
+    case 'gemini':
+      return new GeminiProvider(buildProviderOptions(apiKey, apiBase, clientOptions));
     case 'openai':
     case 'openrouter':
     case 'groq':
     case 'zhipu':
-    case 'gemini':
     case 'vllm':
-      return new OpenAIProvider(buildOpenAIOptions(apiKey, apiBase));
+      return new OpenAIProvider(buildOpenAIOptions(apiKey, apiBase, clientOptions));
     default:
-      return new OpenAIProvider(buildOpenAIOptions(apiKey, apiBase));
+      return new OpenAIProvider(buildOpenAIOptions(apiKey, apiBase, clientOptions));
+  }
+}
+
+/**
+ * Create an Ollama provider from configuration.
+ */
+export function createOllamaProvider(
+  config: Config,
+  clientOptions: ProviderClientOptions = {}
+): OllamaProvider {
+  const ollama = config.providers.ollama;
+  return new OllamaProvider({
+    ...buildProviderOptions(ollama.apiKey, ollama.apiBase, clientOptions),
+    toolMode: ollama.toolMode,
+  });
+}
+
+/**
+ * Path of Gemini's OpenAI-compatible endpoint, e.g.
+ * https://generativelanguage.googleapis.com/v1beta/openai/
+ */
+const GEMINI_OPENAI_PATH = /\/openai\/?$/;
+
+/**
+ * Create a Gemini provider from configuration.
+ *
+ * Gemini used to be called through its OpenAI-compatible endpoint. An
+ * apiBase pointing there is ignored, since the native API lives elsewhere.
+ */
+export function createGeminiProvider(
+  config: Config,
+  clientOptions: ProviderClientOptions = {}
+): GeminiProvider {
+  const gemini = config.providers.gemini;
+  let apiBase = gemini.apiBase;
+  if (apiBase && GEMINI_OPENAI_PATH.test(apiBase)) {
+    console.warn(
+      `[Gemini] Ignoring providers.gemini.apiBase ${apiBase}: it is the OpenAI-compatible ` +
+        'endpoint, and Gemini is called through its native API. Remove it, or set a native ' +
+        'base such as https://generativelanguage.googleapis.com/v1beta'
+    );
+    apiBase = null;
   }
+  return new GeminiProvider({
+    ...buildProviderOptions(gemini.apiKey, apiBase, clientOptions),
+    safetySettings: gemini.safetySettings,
+  });
 }
 
 /**
@@ -173,20 +255,71 @@ export function createProviderFromConfig(config: Config): LLMProvider | null {
 export function createProvider(
   type: ProviderType,
   apiKey: string,
-  apiBase?: string
+  apiBase?: string,
+  clientOptions: ProviderClientOptions = {}
 ): LLMProvider {
   switch (type) {
     case 'anthropic':
-      return new AnthropicProvider(buildProviderOptions(apiKey, apiBase));
+      return new AnthropicProvider(buildProviderOptions(apiKey, apiBase, clientOptions));
     case 'openrouter':
-      return createOpenRouterProvider(apiKey);
+      return createOpenRouterProvider(apiKey, clientOptions);
+    case 'gemini':
+      return new GeminiProvider(buildProviderOptions(apiKey, apiBase, clientOptions));
+    case 'ollama':
+      return new OllamaProvider(buildProviderOptions(apiKey, apiBase, clientOptions));
     case 'openai':
     case 'groq':
     case 'zhipu':
-    case 'gemini':
     case 'vllm':
-      return new OpenAIProvider(buildOpenAIOptions(apiKey, apiBase));
+      return new OpenAIProvider(buildOpenAIOptions(apiKey, apiBase, clientOptions));
     default:
-      return new OpenAIProvider(buildOpenAIOptions(apiKey, apiBase));
+      return new OpenAIProvider(buildOpenAIOptions(apiKey, apiBase, clientOptions));
+  }
+}
+
+/**
+ * Create the configured provider wrapped with retries and failover.
+ *
+ * The provider from createProviderFromConfig is the primary; entries in
+ * agents.defaults.failover.chain follow in order. Chain entries whose
+ * provider has no API key configured are skipped. The SDK clients make
+ * no retries of their own, so failover.maxRetries is the only retry count.
+ */
+export function createFallbackProviderFromConfig(config: Config): FallbackProvider | null {
+  const clientOptions: ProviderClientOptions = { maxRetries: 0 };
+  const primary = createProviderFromConfig(config, clientOptions);
+  if (!primary) {
+    return null;
+  }
+
+  const failover = config.agents.defaults.failover;
+  const entries: FallbackEntry[] = [{ provider: primary, label: 'primary' }];
+
+  for (const entry of failover.chain) {
+    const providerConfig = config.providers[entry.provider];
+    const isLocal =
+      entry.provider === 'ollama' || (entry.provider === 'vllm' && providerConfig.apiBase);
+    if (!providerConfig.apiKey && !isLocal) {
+      console.warn(`[Failover] Skipping ${entry.provider}/${entry.model}: no API key configured`);
+      continue;
+    }
+    const apiBase = providerConfig.apiBase ?? DEFAULT_API_BASES[entry.provider];
+    const apiKey = providerConfig.apiKey || 'EMPTY';
+    let provider: LLMProvider;
+    if (entry.provider === 'ollama') {
+      provider = createOllamaProvider(config, clientOptions);
+    } else if (entry.provider === 'gemini') {
+      provider = createGeminiProvider(config, clientOptions);
+    } else {
+      provider = createProvider(entry.provider, apiKey, apiBase, clientOptions);
+    }
+    entries.push({ provider, model: entry.model, label: entry.provider });
   }
+
+  return new FallbackProvider({
+    entries,
+    maxRetries: failover.maxRetries,
+    baseDelayMs: failover.baseDelay * 1000,
+    maxDelayMs: failover.maxDelay * 1000,
+  });
 }
@@ -0,0 +1,200 @@
+/**
+ * Tests for the fallback provider.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FallbackProvider } from './fallback.js';
+import {
+  collectStream,
+  createEmptyResponse,
+  type ChatOptions,
+  type LLMProvider,
+  type LLMResponse,
+  type ProviderError,
+  type StreamEvent,
+} from './base.js';
+
+function failure(error: ProviderError): LLMResponse {
+  const response = createEmptyResponse(`Error calling Test: ${error.message}`, 'error');
+  response.error = error;
+  return response;
+}
+
+const rateLimited = failure({ message: 'rate limited', status: 429, transient: true });
+const unauthorized = failure({ message: 'invalid key', status: 401, transient: false });
+
+/**
+ * Provider that returns queued responses and records requested models.
+ */
+function scriptedProvider(responses: LLMResponse[]): LLMProvider & { models: string[] } {
+  const models: string[] = [];
+  return {
+    models,
+    async chat(options: ChatOptions): Promise<LLMResponse> {
+      models.push(options.model ?? 'default');
+      return responses.shift() ?? createEmptyResponse('ok');
+    },
+    getDefaultModel: () => 'scripted-model',
+  };
+}
+
+describe('FallbackProvider', () => {
+  let sleep: ReturnType<typeof vi.fn<(ms: number) => Promise<void>>>;
+
+  beforeEach(() => {
+    sleep = vi.fn(async () => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return the primary response when it succeeds', async () => {
+    const primary = scriptedProvider([createEmptyResponse('hello')]);
+    const provider = new FallbackProvider({ entries: [{ provider: primary, label: 'primary' }], sleep });
+
+    const response = await provider.chat({ messages: [] });
+
+    expect(response.content).toBe('hello');
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should retry transient errors with exponential backoff', async () => {
+    const primary = scriptedProvider([rateLimited, rateLimited, createEmptyResponse('recovered')]);
+    const provider = new FallbackProvider({
+      entries: [{ provider: primary, label: 'primary' }],
+      baseDelayMs: 100,
+      sleep,
+    });
+
+    const response = await provider.chat({ messages: [] });
+
+    expect(response.content).toBe('recovered');
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+  });
+
+  it('should honor retry-after', async () => {
+    const throttled = failure({ message: 'slow down', status: 429, retryAfterMs: 1500, transient: true });
+    const primary = scriptedProvider([throttled]);
+    const provider = new FallbackProvider({ entries: [{ provider: primary, label: 'primary' }], sleep });
+
+    await provider.chat({ messages: [] });
+
+    expect(sleep).toHaveBeenCalledWith(1500);
+  });
+
+  it('should fail over when retries are exhausted', async () => {
+    const primary = scriptedProvider([rateLimited, rateLimited]);
+    const backup = scriptedProvider([createEmptyResponse('from backup')]);
+    const provider = new FallbackProvider({
+      entries: [
+        { provider: primary, label: 'primary' },
+        { provider: backup, model: 'gpt-4o', label: 'openai' },
+      ],
+      maxRetries: 1,
+      sleep,
+    });
+
+    const response = await provider.chat({ messages: [], model: 'claude-opus-4-5' });
+
+    expect(response.content).toBe('from backup');
+    expect(response.model).toBe('gpt-4o');
+    expect(primary.models).toEqual(['claude-opus-4-5', 'claude-opus-4-5']);
+    expect(backup.models).toEqual(['gpt-4o']);
+    expect(console.warn).toHaveBeenCalledWith(
+      '[FallbackProvider] primary attempt 2 failed: 429 rate limited; retries exhausted, failing over'
+    );
+  });
+
+  it('should fail over immediately on non-transient errors', async () => {
+    const primary = scriptedProvider([unauthorized]);
+    const backup = scriptedProvider([createEmptyResponse('from backup')]);
+    const provider = new FallbackProvider({
+      entries: [
+        { provider: primary, label: 'primary' },
+        { provider: backup, label: 'backup' },
+      ],
+      sleep,
+    });
+
+    expect((await provider.chat({ messages: [] })).content).toBe('from backup');
+    expect(primary.models).toHaveLength(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should fail over when retry-after exceeds the maximum delay', async () => {
+    const throttled = failure({ message: 'quota', status: 429, retryAfterMs: 3_600_000, transient: true });
+    const primary = scriptedProvider([throttled]);
+    const backup = scriptedProvider([createEmptyResponse('from backup')]);
+    const provider = new FallbackProvider({
+      entries: [
+        { provider: primary, label: 'primary' },
+        { provider: backup, label: 'backup' },
+      ],
+      sleep,
+    });
+
+    expect((await provider.chat({ messages: [] })).content).toBe('from backup');
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should return the last error when every entry fails', async () => {
+    const provider = new FallbackProvider({
+      entries: [
+        { provider: scriptedProvider([unauthorized]), label: 'a' },
+        { provider: scriptedProvider([rateLimited]), label: 'b' },
+      ],
+      maxRetries: 0,
+      sleep,
+    });
+
+    const response = await provider.chat({ messages: [] });
+
+    expect(response.finishReason).toBe('error');
+    expect(response.error?.status).toBe(429);
+  });
+
+  it('should fail over streams that fail before any output', async () => {
+    const primary: LLMProvider = {
+      chat: async () => unauthorized,
+      async *chatStream(): AsyncIterable<StreamEvent> {
+        yield { type: 'done', response: unauthorized };
+      },
+      getDefaultModel: () => 'primary-model',
+    };
+    const backup: LLMProvider = {
+      chat: async () => createEmptyResponse('unused'),
+      async *chatStream(): AsyncIterable<StreamEvent> {
+        yield { type: 'text', text: 'streamed' };
+        yield { type: 'done', response: createEmptyResponse('streamed') };
+      },
+      getDefaultModel: () => 'backup-model',
+    };
+    const provider = new FallbackProvider({
+      entries: [
+        { provider: primary, label: 'primary' },
+        { provider: backup, label: 'backup' },
+      ],
+      sleep,
+    });
+
+    const events: StreamEvent[] = [];
+    async function* record(): AsyncIterable<StreamEvent> {
+      for await (const event of provider.chatStream({ messages: [] })) {
+        events.push(event);
+        yield event;
+      }
+    }
+
+    expect((await collectStream(record())).content).toBe('streamed');
+    expect(events.map((e) => e.type)).toEqual(['text', 'done']);
+  });
+
+  it('should use the primary default model', () => {
+    const provider = new FallbackProvider({
+      entries: [{ provider: scriptedProvider([]), label: 'primary' }],
+    });
+    expect(provider.getDefaultModel()).toBe('scripted-model');
+  });
+});
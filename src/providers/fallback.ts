@@ -0,0 +1,205 @@
+/**
+ * Provider that retries transient failures and fails over along a chain.
+ */
+
+import type {
+  ChatOptions,
+  LLMProvider,
+  LLMResponse,
+  ProviderError,
+  StreamEvent,
+} from './base.js';
+
+/**
+ * One provider/model pair in a fallback chain.
+ */
+export interface FallbackEntry {
+  provider: LLMProvider;
+  /** Model to request; the caller's model is used if not set */
+  model?: string;
+  /** Name used in logs (e.g. 'anthropic') */
+  label: string;
+}
+
+/**
+ * Options for the fallback provider.
+ */
+export interface FallbackProviderOptions {
+  /** Entries tried in order; the first is the primary */
+  entries: FallbackEntry[];
+  /** Retries of transient failures per entry */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for each further retry */
+  baseDelayMs?: number;
+  /** Longest delay to wait; a longer retry-after fails over instead */
+  maxDelayMs?: number;
+  /** Waits between retries (replaceable in tests) */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Outcome of one attempt, used to decide what to do next.
+ */
+type AttemptOutcome = 'success' | 'retry' | 'failover';
+
+/**
+ * LLM provider that wraps an ordered chain of provider/model pairs.
+ *
+ * Each entry is retried on transient errors (rate limits, 5xx, timeouts)
+ * with exponential backoff, honoring the API's retry-after. When an entry
+ * keeps failing, or fails with a non-transient error, the next entry is
+ * tried. Every failed attempt is logged with its reason. If all entries
+ * fail, the last error response is returned.
+ */
+export class FallbackProvider implements LLMProvider {
+  readonly entries: FallbackEntry[];
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(options: FallbackProviderOptions) {
+    if (options.entries.length === 0) {
+      throw new Error('FallbackProvider needs at least one provider');
+    }
+    this.entries = options.entries;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.sleep =
+      options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  async chat(options: ChatOptions): Promise<LLMResponse> {
+    let last: LLMResponse | null = null;
+
+    for (const entry of this.entries) {
+      for (let attempt = 0; ; attempt++) {
+        const request = this.withModel(options, entry);
+        const response = this.withUsedModel(await entry.provider.chat(request), request);
+        last = response;
+
+        const outcome = await this.handleOutcome(entry, response, attempt);
+        if (outcome === 'success') {
+          return response;
+        }
+        if (outcome === 'failover') {
+          break;
+        }
+      }
+    }
+
+    return last as LLMResponse;
+  }
+
+  /**
+   * Stream from the first entry that starts successfully.
+   *
+   * A failure is only retried or failed over while nothing has been
+   * streamed yet; after that the error is passed on, since the caller
+   * has already shown part of the reply.
+   */
+  async *chatStream(options: ChatOptions): AsyncIterable<StreamEvent> {
+    let last: LLMResponse | null = null;
+
+    for (const entry of this.entries) {
+      for (let attempt = 0; ; attempt++) {
+        const request = this.withModel(options, entry);
+        let streamed = false;
+        let done: LLMResponse | null = null;
+
+        if (entry.provider.chatStream) {
+          for await (const event of entry.provider.chatStream(request)) {
+            if (event.type === 'done') {
+              done = event.response;
+            } else {
+              streamed = true;
+              yield event;
+            }
+          }
+        }
+        const response = this.withUsedModel(done ?? (await entry.provider.chat(request)), request);
+        last = response;
+
+        if (streamed) {
+          yield { type: 'done', response };
+          return;
+        }
+
+        const outcome = await this.handleOutcome(entry, response, attempt);
+        if (outcome === 'success') {
+          yield { type: 'done', response };
+          return;
+        }
+        if (outcome === 'failover') {
+          break;
+        }
+      }
+    }
+
+    yield { type: 'done', response: last as LLMResponse };
+  }
+
+  getDefaultModel(): string {
+    const primary = this.entries[0] as FallbackEntry;
+    return primary.model ?? primary.provider.getDefaultModel();
+  }
+
+  /**
+   * Decide whether to return, retry or fail over, waiting before a retry.
+   */
+  private async handleOutcome(
+    entry: FallbackEntry,
+    response: LLMResponse,
+    attempt: number
+  ): Promise<AttemptOutcome> {
+    if (response.finishReason !== 'error') {
+      return 'success';
+    }
+
+    const error: ProviderError = response.error ?? {
+      message: response.content ?? 'unknown error',
+      transient: false,
+    };
+    const name = `${entry.label}${entry.model ? `/${entry.model}` : ''}`;
+    const reason = `${error.status !== undefined ? `${error.status} ` : ''}${error.message}`;
+    const prefix = `[FallbackProvider] ${name} attempt ${attempt + 1} failed: ${reason}`;
+
+    if (!error.transient) {
+      console.warn(`${prefix}; not retryable, failing over`);
+      return 'failover';
+    }
+    if (attempt >= this.maxRetries) {
+      console.warn(`${prefix}; retries exhausted, failing over`);
+      return 'failover';
+    }
+
+    const backoff = this.baseDelayMs * 2 ** attempt;
+    const delay = error.retryAfterMs ?? Math.min(backoff, this.maxDelayMs);
+    if (delay > this.maxDelayMs) {
+      console.warn(`${prefix}; retry-after ${delay}ms is too long, failing over`);
+      return 'failover';
+    }
+
+    console.warn(`${prefix}; retrying in ${delay}ms`);
+    await this.sleep(delay);
+    return 'retry';
+  }
+
+  /**
+   * Apply an entry's model to the request options.
+   */
+  private withModel(options: ChatOptions, entry: FallbackEntry): ChatOptions {
+    return entry.model ? { ...options, model: entry.model } : options;
+  }
+
+  /**
+   * Report the model an entry was asked for, so usage is recorded against
+   * the model that answered rather than the primary's.
+   */
+  private withUsedModel(response: LLMResponse, request: ChatOptions): LLMResponse {
+    const model = response.model ?? request.model;
+    return model ? { ...response, model } : response;
+  }
+}
+
@@ -0,0 +1,454 @@
+/**
+ * Tests for the Gemini provider.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  GeminiProvider,
+  GeminiStreamAccumulator,
+  convertMessagesToGemini,
+  convertSchemaToGemini,
+  convertToolsToGemini,
+  parseGeminiResponse,
+} from './gemini.js';
+
+describe('convertMessagesToGemini', () => {
+  it('should extract the system instruction and map roles', () => {
+    const { systemInstruction, contents } = convertMessagesToGemini([
+      { role: 'system', content: 'You are helpful' },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello!' },
+    ]);
+
+    expect(systemInstruction).toBe('You are helpful');
+    expect(contents).toEqual([
+      { role: 'user', parts: [{ text: 'Hi' }] },
+      { role: 'model', parts: [{ text: 'Hello!' }] },
+    ]);
+  });
+
+  it('should send attachments as inline data', () => {
+    const { contents } = convertMessagesToGemini([
+      {
+        role: 'user',
+        content: 'What is this?',
+        attachments: [{ mimeType: 'application/pdf', data: 'JVBERi0=' }],
+      },
+    ]);
+
+    expect(contents).toEqual([
+      {
+        role: 'user',
+        parts: [
+          { inlineData: { mimeType: 'application/pdf', data: 'JVBERi0=' } },
+          { text: 'What is this?' },
+        ],
+      },
+    ]);
+  });
+
+  it('should convert tool calls and group their results by name', () => {
+    const { contents } = convertMessagesToGemini([
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'call_0', name: 'read_file', arguments: { path: 'a.txt' } },
+          { id: 'call_1', name: 'list_dir', arguments: { path: '.' } },
+        ],
+      },
+      { role: 'tool', content: 'A', toolCallId: 'call_0', name: 'read_file' },
+      { role: 'tool', content: 'a.txt', toolCallId: 'call_1' },
+    ]);
+
+    expect(contents).toEqual([
+      {
+        role: 'model',
+        parts: [
+          { functionCall: { name: 'read_file', args: { path: 'a.txt' } } },
+          { functionCall: { name: 'list_dir', args: { path: '.' } } },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'read_file', response: { result: 'A' } } },
+          { functionResponse: { name: 'list_dir', response: { result: 'a.txt' } } },
+        ],
+      },
+    ]);
+  });
+
+  it('should send thought signatures back on the calls they sign', () => {
+    const { contents } = convertMessagesToGemini([
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'call_0', name: 'read_file', arguments: { path: 'a.txt' } },
+          { id: 'call_1', name: 'list_dir', arguments: { path: '.' } },
+        ],
+        reasoningBlocks: [
+          { text: 'From another provider', signature: 'anthropic-sig' },
+          { text: '', signature: 'gemini-sig', toolCallId: 'call_0' },
+        ],
+      },
+    ]);
+
+    expect(contents[0]?.parts).toEqual([
+      {
+        functionCall: { name: 'read_file', args: { path: 'a.txt' } },
+        thoughtSignature: 'gemini-sig',
+      },
+      { functionCall: { name: 'list_dir', args: { path: '.' } } },
+    ]);
+  });
+});
+
+describe('convertSchemaToGemini', () => {
+  it('should drop unsupported keywords in nested schemas', () => {
+    const schema = convertSchemaToGemini({
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        filter: {
+          type: 'object',
+          $schema: 'http://json-schema.org/draft-07/schema#',
+          properties: {
+            tags: { type: 'array', items: { type: 'string', additionalProperties: false } },
+          },
+        },
+      },
+      required: ['filter'],
+    });
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        filter: {
+          type: 'object',
+          properties: { tags: { type: 'array', items: { type: 'string' } } },
+        },
+      },
+      required: ['filter'],
+    });
+  });
+
+  it('should turn nullable union types into nullable', () => {
+    expect(convertSchemaToGemini({ type: ['string', 'null'] })).toEqual({
+      type: 'string',
+      nullable: true,
+    });
+  });
+
+  it('should keep property names that look like keywords', () => {
+    expect(
+      convertSchemaToGemini({ type: 'object', properties: { pattern: { type: 'string' } } })
+    ).toEqual({ type: 'object', properties: { pattern: { type: 'string' } } });
+  });
+});
+
+describe('convertToolsToGemini', () => {
+  it('should convert function definitions to declarations', () => {
+    const tools = convertToolsToGemini([
+      {
+        type: 'function',
+        function: {
+          name: 'read_file',
+          description: 'Read a file',
+          parameters: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+            required: ['path'],
+          },
+        },
+      },
+    ]);
+
+    expect(tools).toEqual([
+      {
+        name: 'read_file',
+        description: 'Read a file',
+        parameters: {
+          type: 'object',
+          properties: { path: { type: 'string' } },
+          required: ['path'],
+        },
+      },
+    ]);
+  });
+});
+
+describe('parseGeminiResponse', () => {
+  it('should parse text, function calls and usage', () => {
+    const response = parseGeminiResponse({
+      candidates: [
+        {
+          content: {
+            role: 'model',
+            parts: [
+              { text: 'Thinking it over', thought: true },
+              { text: 'Let me check' },
+              { functionCall: { name: 'read_file', args: { path: 'a.txt' } } },
+            ],
+          },
+          finishReason: 'STOP',
+        },
+      ],
+      usageMetadata: {
+        promptTokenCount: 10,
+        candidatesTokenCount: 5,
+        thoughtsTokenCount: 3,
+        totalTokenCount: 18,
+      },
+    });
+
+    expect(response.content).toBe('Let me check');
+    expect(response.reasoning).toBe('Thinking it over');
+    expect(response.toolCalls).toEqual([
+      { id: expect.stringMatching(/^call_/), name: 'read_file', arguments: { path: 'a.txt' } },
+    ]);
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.usage).toEqual({ promptTokens: 10, completionTokens: 8, totalTokens: 18 });
+  });
+
+  it('should report a blocked prompt', () => {
+    const response = parseGeminiResponse({ promptFeedback: { blockReason: 'SAFETY' } });
+
+    expect(response.content).toBe('Gemini blocked the request (SAFETY).');
+    expect(response.finishReason).toBe('blocked');
+  });
+
+  it('should keep the thought signatures of function calls', () => {
+    const response = parseGeminiResponse({
+      candidates: [
+        {
+          content: {
+            parts: [
+              {
+                functionCall: { name: 'read_file', args: { path: 'a.txt' } },
+                thoughtSignature: 'sig',
+              },
+              { functionCall: { name: 'list_dir', args: { path: '.' } } },
+            ],
+          },
+        },
+      ],
+    });
+
+    expect(response.reasoningBlocks).toEqual([
+      { text: '', signature: 'sig', toolCallId: response.toolCalls[0]?.id },
+    ]);
+  });
+
+  it('should not reuse tool call IDs across turns', () => {
+    const data = {
+      candidates: [
+        { content: { parts: [{ functionCall: { name: 'read_file', args: { path: 'a.txt' } } }] } },
+      ],
+    };
+
+    const first = parseGeminiResponse(data);
+    const second = parseGeminiResponse(data);
+
+    expect(first.toolCalls[0]?.id).toMatch(/^call_/);
+    expect(second.toolCalls[0]?.id).not.toBe(first.toolCalls[0]?.id);
+  });
+
+  it('should keep tool call IDs sent by Gemini', () => {
+    const response = parseGeminiResponse({
+      candidates: [
+        { content: { parts: [{ functionCall: { id: 'fc_1', name: 'list_dir', args: {} } }] } },
+      ],
+    });
+
+    expect(response.toolCalls[0]?.id).toBe('fc_1');
+  });
+});
+
+describe('GeminiStreamAccumulator', () => {
+  it('should emit text events and assemble content', () => {
+    const acc = new GeminiStreamAccumulator();
+
+    expect(acc.push({ candidates: [{ content: { parts: [{ text: 'Hel' }] } }] })).toEqual([
+      { type: 'text', text: 'Hel' },
+    ]);
+    acc.push({ candidates: [{ content: { parts: [{ text: 'lo' }] }, finishReason: 'STOP' }] });
+
+    const response = acc.toResponse();
+    expect(response.content).toBe('Hello');
+    expect(response.finishReason).toBe('stop');
+  });
+
+  it('should report prompt tokens served from the cache', () => {
+    const acc = new GeminiStreamAccumulator();
+    acc.push({
+      candidates: [{ content: { parts: [{ text: 'Hi' }] }, finishReason: 'STOP' }],
+      usageMetadata: {
+        promptTokenCount: 4000,
+        cachedContentTokenCount: 3500,
+        candidatesTokenCount: 2,
+        totalTokenCount: 4002,
+      },
+    });
+
+    expect(acc.toResponse().usage.cachedTokens).toBe(3500);
+  });
+
+  it('should emit whole function calls', () => {
+    const acc = new GeminiStreamAccumulator();
+
+    const events = acc.push({
+      candidates: [
+        { content: { parts: [{ functionCall: { id: 'fc_1', name: 'exec', args: { cmd: 'ls' } } }] } },
+      ],
+    });
+
+    expect(events).toEqual([
+      { type: 'tool_call', index: 0, id: 'fc_1', name: 'exec', argumentsDelta: '{"cmd":"ls"}' },
+    ]);
+    expect(acc.toResponse().toolCalls).toEqual([
+      { id: 'fc_1', name: 'exec', arguments: { cmd: 'ls' } },
+    ]);
+  });
+});
+
+describe('GeminiProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should call generateContent with the native request body', async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        candidates: [{ content: { parts: [{ text: 'Hi there' }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 },
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new GeminiProvider({
+      apiKey: 'gemini-key',
+      safetySettings: [{ category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' }],
+    });
+    const response = await provider.chat({
+      model: 'gemini/gemini-2.5-pro',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hello' },
+      ],
+      maxTokens: 100,
+      temperature: 0.2,
+    });
+
+    expect(response.content).toBe('Hi there');
+    expect(response.usage.totalTokens).toBe(6);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:generateContent'
+    );
+    expect((init.headers as Record<string, string>)['x-goog-api-key']).toBe('gemini-key');
+    expect(JSON.parse(init.body as string)).toEqual({
+      contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+      systemInstruction: { parts: [{ text: 'Be brief' }] },
+      generationConfig: { maxOutputTokens: 100, temperature: 0.2 },
+      safetySettings: [{ category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' }],
+    });
+  });
+
+  it('should request thoughts with a budget when reasoning is requested', async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({ candidates: [{ content: { parts: [{ text: 'Hi' }] } }] })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await new GeminiProvider({ apiKey: 'gemini-key' }).chat({
+      model: 'gemini-2.5-pro',
+      messages: [{ role: 'user', content: 'Hello' }],
+      reasoning: { effort: 'low' },
+    });
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string) as { generationConfig: Record<string, unknown> };
+    expect(body.generationConfig['thinkingConfig']).toEqual({
+      thinkingBudget: 1024,
+      includeThoughts: true,
+    });
+  });
+
+  it('should ask for JSON matching the output schema', async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({ candidates: [{ content: { parts: [{ text: '{"ok":true}' }] } }] })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await new GeminiProvider({ apiKey: 'gemini-key' }).chat({
+      model: 'gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'Status?' }],
+      output: { name: 'status', schema: z.object({ ok: z.boolean() }) },
+    });
+
+    expect(response.content).toBe('{"ok":true}');
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string) as { generationConfig: Record<string, unknown> };
+    expect(body.generationConfig['responseMimeType']).toBe('application/json');
+    expect(body.generationConfig['responseSchema']).toEqual({
+      type: 'object',
+      properties: { ok: { type: 'boolean' } },
+      required: ['ok'],
+    });
+  });
+
+  it('should return API errors with their status', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        Response.json(
+          { error: { message: 'Resource exhausted' } },
+          { status: 429, headers: { 'retry-after': '2' } }
+        )
+      )
+    );
+
+    const response = await new GeminiProvider({ apiKey: 'gemini-key' }).chat({
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+
+    expect(response.finishReason).toBe('error');
+    expect(response.content).toBe('Error calling Gemini: 429 Resource exhausted');
+    expect(response.error).toEqual({
+      message: '429 Resource exhausted',
+      status: 429,
+      retryAfterMs: 2000,
+      transient: true,
+    });
+  });
+
+  it('should stream server-sent events', async () => {
+    const body = [
+      'data: {"candidates":[{"content":{"parts":[{"text":"Hel"}]}}]}\n\n',
+      'data: {"candidates":[{"content":{"parts":[{"text":"lo"}]},"finishReason":"STOP"}]}\n\n',
+    ].join('');
+    const fetchMock = vi.fn(async () => new Response(body));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const events = [];
+    for await (const event of new GeminiProvider({ apiKey: 'gemini-key' }).chatStream({
+      messages: [{ role: 'user', content: 'Hello' }],
+    })) {
+      events.push(event);
+    }
+
+    expect(String((fetchMock.mock.calls[0] as unknown as [string])[0])).toContain(
+      ':streamGenerateContent?alt=sse'
+    );
+    expect(events.slice(0, 2)).toEqual([
+      { type: 'text', text: 'Hel' },
+      { type: 'text', text: 'lo' },
+    ]);
+    const done = events[2];
+    expect(done?.type === 'done' && done.response.content).toBe('Hello');
+  });
+});
@@ -0,0 +1,533 @@
+/**
+ * Google Gemini LLM provider using the native generateContent API.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  LLMProvider,
+  LLMResponse,
+  ChatOptions,
+  ProviderOptions,
+  ReasoningBlock,
+  ToolCallRequest,
+  Message,
+  ToolDefinition,
+  StreamEvent,
+} from './base.js';
+import {
+  createEmptyResponse,
+  createErrorResponse,
+  getOutputJsonSchema,
+  getReasoningBudget,
+} from './base.js';
+
+/**
+ * Default Gemini model.
+ */
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Gemini API base URL.
+ */
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+/**
+ * Request timeout in milliseconds.
+ */
+const REQUEST_TIMEOUT_MS = 120000;
+
+/**
+ * JSON Schema keywords the Gemini API accepts in function parameters.
+ * Others (such as additionalProperties or $schema) are rejected, so they
+ * are dropped.
+ */
+const SUPPORTED_SCHEMA_KEYS = new Set([
+  'type',
+  'format',
+  'title',
+  'description',
+  'nullable',
+  'enum',
+  'items',
+  'minItems',
+  'maxItems',
+  'properties',
+  'required',
+  'propertyOrdering',
+  'anyOf',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'default',
+]);
+
+/**
+ * A part of a Gemini message.
+ */
+export interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+  /** Set on thought summaries from thinking models */
+  thought?: boolean;
+  /** Encrypted reasoning behind a part; must be sent back on function calls */
+  thoughtSignature?: string;
+}
+
+/**
+ * A Gemini message.
+ */
+export interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+/**
+ * A Gemini function declaration.
+ */
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Blocking threshold for one harm category.
+ */
+export interface GeminiSafetySetting {
+  /** e.g. 'HARM_CATEGORY_HARASSMENT' */
+  category: string;
+  /** e.g. 'BLOCK_ONLY_HIGH' or 'BLOCK_NONE' */
+  threshold: string;
+}
+
+/**
+ * Response body of generateContent, and of each streamed chunk.
+ */
+export interface GeminiResponse {
+  candidates?: Array<{
+    content?: { role?: string; parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    /** Part of the prompt served from the implicit or explicit cache */
+    cachedContentTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+/**
+ * Error returned by the Gemini API, shaped like SDK errors so that
+ * toProviderError can classify it.
+ */
+class GeminiApiError extends Error {
+  readonly status: number;
+  readonly headers: Headers;
+
+  constructor(message: string, status: number, headers: Headers) {
+    super(message);
+    this.name = 'GeminiApiError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Convert a JSON Schema to the subset the Gemini API accepts, recursing
+ * into nested objects and arrays.
+ *
+ * Nullable union types (["string", "null"]) become a type with `nullable`.
+ */
+export function convertSchemaToGemini(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(convertSchemaToGemini);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    if (!SUPPORTED_SCHEMA_KEYS.has(key)) {
+      continue;
+    }
+    if (key === 'type' && Array.isArray(value)) {
+      const types = value.filter((t) => t !== 'null');
+      converted['type'] = types[0];
+      if (types.length < value.length) {
+        converted['nullable'] = true;
+      }
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      converted[key] = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, prop]) => [
+          name,
+          convertSchemaToGemini(prop),
+        ])
+      );
+    } else if (key === 'items' || key === 'anyOf') {
+      converted[key] = convertSchemaToGemini(value);
+    } else {
+      converted[key] = value;
+    }
+  }
+  return converted;
+}
+
+/**
+ * Convert our tool definitions to Gemini function declarations.
+ */
+export function convertToolsToGemini(tools: ToolDefinition[]): GeminiFunctionDeclaration[] {
+  return tools.map((tool) => ({
+    name: tool.function.name,
+    description: tool.function.description,
+    parameters: convertSchemaToGemini(tool.function.parameters) as Record<string, unknown>,
+  }));
+}
+
+/**
+ * Map tool call IDs to the thought signatures Gemini attached to them.
+ * Reasoning from other providers signs no tool call and is ignored.
+ */
+function getToolCallSignatures(blocks: ReasoningBlock[]): Map<string, string> {
+  const signatures = new Map<string, string>();
+  for (const block of blocks) {
+    if (block.toolCallId && block.signature) {
+      signatures.set(block.toolCallId, block.signature);
+    }
+  }
+  return signatures;
+}
+
+/**
+ * Convert our messages to Gemini format, extracting the system instruction.
+ */
+export function convertMessagesToGemini(messages: Message[]): {
+  systemInstruction: string | undefined;
+  contents: GeminiContent[];
+} {
+  let systemInstruction: string | undefined;
+  const contents: GeminiContent[] = [];
+  // Gemini matches function responses to calls by name
+  const toolNames = new Map<string, string>();
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      systemInstruction = msg.content;
+    } else if (msg.role === 'tool') {
+      const part: GeminiPart = {
+        functionResponse: {
+          name: msg.name ?? toolNames.get(msg.toolCallId ?? '') ?? '',
+          response: { result: msg.content },
+        },
+      };
+
+      // Results of parallel tool calls belong in a single user turn
+      const previous = contents[contents.length - 1];
+      if (previous?.role === 'user' && previous.parts.every((p) => p.functionResponse)) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+    } else if (msg.role === 'assistant') {
+      const parts: GeminiPart[] = [];
+      if (msg.content) {
+        parts.push({ text: msg.content });
+      }
+      const signatures = getToolCallSignatures(msg.reasoningBlocks ?? []);
+      for (const tc of msg.toolCalls ?? []) {
+        toolNames.set(tc.id, tc.name);
+        const part: GeminiPart = { functionCall: { name: tc.name, args: tc.arguments } };
+        const signature = signatures.get(tc.id);
+        if (signature) {
+          part.thoughtSignature = signature;
+        }
+        parts.push(part);
+      }
+      if (parts.length > 0) {
+        contents.push({ role: 'model', parts });
+      }
+    } else {
+      const parts: GeminiPart[] = (msg.attachments ?? []).map((a) => ({
+        inlineData: { mimeType: a.mimeType, data: a.data },
+      }));
+      parts.push({ text: msg.content });
+      contents.push({ role: 'user', parts });
+    }
+  }
+
+  return { systemInstruction, contents };
+}
+
+/**
+ * Assembles generateContent responses into stream events and a final
+ * response. A non-streaming response is handled as a single chunk.
+ */
+export class GeminiStreamAccumulator {
+  private content = '';
+  private reasoning = '';
+  private finishReason: string | null = null;
+  private blockReason: string | null = null;
+  private toolCalls: ToolCallRequest[] = [];
+  private reasoningBlocks: ReasoningBlock[] = [];
+  private usage: GeminiResponse['usageMetadata'] = {};
+
+  /**
+   * Add a chunk and return the events it produces.
+   */
+  push(chunk: GeminiResponse): StreamEvent[] {
+    const events: StreamEvent[] = [];
+
+    if (chunk.usageMetadata) {
+      this.usage = chunk.usageMetadata;
+    }
+    if (chunk.promptFeedback?.blockReason) {
+      this.blockReason = chunk.promptFeedback.blockReason;
+    }
+
+    const candidate = chunk.candidates?.[0];
+    if (!candidate) {
+      return events;
+    }
+
+    for (const part of candidate.content?.parts ?? []) {
+      if (part.thought) {
+        if (part.text) {
+          this.reasoning += part.text;
+          events.push({ type: 'reasoning', text: part.text });
+        }
+        continue;
+      }
+      if (part.text) {
+        this.content += part.text;
+        events.push({ type: 'text', text: part.text });
+      }
+      if (part.functionCall) {
+        // Gemini sends each call whole and, on most models, without an ID.
+        // Generated IDs must not repeat across turns of the same session.
+        const index = this.toolCalls.length;
+        const id = part.functionCall.id ?? `call_${randomUUID()}`;
+        const args = part.functionCall.args ?? {};
+        this.toolCalls.push({ id, name: part.functionCall.name, arguments: args });
+        if (part.thoughtSignature) {
+          this.reasoningBlocks.push({ text: '', signature: part.thoughtSignature, toolCallId: id });
+        }
+        events.push({
+          type: 'tool_call',
+          index,
+          id,
+          name: part.functionCall.name,
+          argumentsDelta: JSON.stringify(args),
+        });
+      }
+    }
+
+    if (candidate.finishReason) {
+      this.finishReason = candidate.finishReason;
+    }
+
+    return events;
+  }
+
+  /**
+   * Build the final response from everything received so far.
+   */
+  toResponse(): LLMResponse {
+    if (this.blockReason && !this.content && this.toolCalls.length === 0) {
+      return createEmptyResponse(
+        `Gemini blocked the request (${this.blockReason}).`,
+        'blocked'
+      );
+    }
+
+    const promptTokens = this.usage?.promptTokenCount ?? 0;
+    const completionTokens =
+      (this.usage?.candidatesTokenCount ?? 0) + (this.usage?.thoughtsTokenCount ?? 0);
+    const response: LLMResponse = {
+      content: this.content || null,
+      toolCalls: this.toolCalls,
+      finishReason:
+        this.toolCalls.length > 0 ? 'tool_calls' : (this.finishReason ?? 'stop').toLowerCase(),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: this.usage?.totalTokenCount ?? promptTokens + completionTokens,
+      },
+    };
+    if (this.usage?.cachedContentTokenCount) {
+      response.usage.cachedTokens = this.usage.cachedContentTokenCount;
+    }
+    if (this.reasoning) {
+      response.reasoning = this.reasoning;
+    }
+    if (this.reasoningBlocks.length > 0) {
+      response.reasoningBlocks = this.reasoningBlocks;
+    }
+    return response;
+  }
+}
+
+/**
+ * Parse a generateContent response into our standard format.
+ */
+export function parseGeminiResponse(response: GeminiResponse): LLMResponse {
+  const accumulator = new GeminiStreamAccumulator();
+  accumulator.push(response);
+  return accumulator.toResponse();
+}
+
+/**
+ * Read the JSON payloads of a server-sent event stream.
+ */
+async function* readSseData(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let boundary = buffer.indexOf('\n');
+    while (boundary !== -1) {
+      const line = buffer.slice(0, boundary).trim();
+      buffer = buffer.slice(boundary + 1);
+      if (line.startsWith('data:')) {
+        yield line.slice(5).trim();
+      }
+      boundary = buffer.indexOf('\n');
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest.startsWith('data:')) {
+    yield rest.slice(5).trim();
+  }
+}
+
+/**
+ * Options for the Gemini provider.
+ */
+export interface GeminiProviderOptions extends ProviderOptions {
+  /** Blocking thresholds by harm category; API defaults if not set */
+  safetySettings?: GeminiSafetySetting[];
+}
+
+/**
+ * Gemini LLM provider calling the generateContent REST API.
+ */
+export class GeminiProvider implements LLMProvider {
+  private apiKey: string;
+  private apiBase: string;
+  private safetySettings: GeminiSafetySetting[];
+  private defaultModel: string;
+
+  constructor(options: GeminiProviderOptions = {}) {
+    this.apiKey = options.apiKey ?? '';
+    this.apiBase = (options.apiBase ?? GEMINI_BASE_URL).replace(/\/+$/, '');
+    this.safetySettings = options.safetySettings ?? [];
+    this.defaultModel = DEFAULT_MODEL;
+  }
+
+  async chat(options: ChatOptions): Promise<LLMResponse> {
+    try {
+      const response = await this.request(options, 'generateContent');
+      return parseGeminiResponse((await response.json()) as GeminiResponse);
+    } catch (error) {
+      return createErrorResponse('Gemini', error);
+    }
+  }
+
+  async *chatStream(options: ChatOptions): AsyncIterable<StreamEvent> {
+    try {
+      const response = await this.request(options, 'streamGenerateContent?alt=sse');
+      const accumulator = new GeminiStreamAccumulator();
+
+      if (response.body) {
+        for await (const data of readSseData(response.body)) {
+          for (const event of accumulator.push(JSON.parse(data) as GeminiResponse)) {
+            yield event;
+          }
+        }
+      }
+
+      yield { type: 'done', response: accumulator.toResponse() };
+    } catch (error) {
+      yield { type: 'done', response: createErrorResponse('Gemini', error) };
+    }
+  }
+
+  /**
+   * Send a request, throwing a GeminiApiError for error responses.
+   */
+  private async request(options: ChatOptions, method: string): Promise<Response> {
+    const model = (options.model ?? this.defaultModel).replace(/^gemini\//, '');
+    const response = await fetch(`${this.apiBase}/models/${model}:${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify(this.buildBody(options)),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        const body = JSON.parse(text) as { error?: { message?: string } };
+        message = body.error?.message ?? text;
+      } catch {
+        // Not JSON; use the raw body
+      }
+      throw new GeminiApiError(`${response.status} ${message}`, response.status, response.headers);
+    }
+    return response;
+  }
+
+  /**
+   * Build the request body shared by chat and chatStream.
+   */
+  private buildBody(options: ChatOptions): Record<string, unknown> {
+    const { systemInstruction, contents } = convertMessagesToGemini(options.messages);
+
+    const generationConfig: Record<string, unknown> = {
+      maxOutputTokens: options.maxTokens ?? 4096,
+      temperature: options.temperature ?? 0.7,
+    };
+    if (options.output) {
+      generationConfig['responseMimeType'] = 'application/json';
+      generationConfig['responseSchema'] = convertSchemaToGemini(getOutputJsonSchema(options.output));
+    }
+    if (options.reasoning) {
+      generationConfig['thinkingConfig'] = {
+        thinkingBudget: getReasoningBudget(options.reasoning),
+        includeThoughts: true,
+      };
+    }
+
+    const body: Record<string, unknown> = { contents, generationConfig };
+
+    if (systemInstruction) {
+      body['systemInstruction'] = { parts: [{ text: systemInstruction }] };
+    }
+
+    if (options.tools && options.tools.length > 0) {
+      body['tools'] = [{ functionDeclarations: convertToolsToGemini(options.tools) }];
+    }
+
+    if (this.safetySettings.length > 0) {
+      body['safetySettings'] = this.safetySettings;
+    }
+
+    return body;
+  }
+
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+}
@@ -5,5 +5,9 @@
 export * from './base.js';
 export * from './anthropic.js';
 export * from './openai.js';
+export * from './gemini.js';
+export * from './ollama.js';
+export * from './fallback.js';
+export * from './structured.js';
 export * from './factory.js';
 export * from './transcription.js';
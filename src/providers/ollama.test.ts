@@ -0,0 +1,378 @@
+/**
+ * Tests for the Ollama provider.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import type { ToolDefinition } from './base.js';
+import {
+  OllamaProvider,
+  OllamaStreamAccumulator,
+  convertMessagesToOllama,
+  parseTextToolCalls,
+} from './ollama.js';
+
+const readFileTool: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'read_file',
+    description: 'Read a file',
+    parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+  },
+};
+
+const anyCallId = expect.stringMatching(/^call_/);
+
+/**
+ * Stub fetch with handlers keyed by API path.
+ */
+function stubOllama(handlers: Record<string, (body: Record<string, unknown>) => Response>) {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const path = new URL(url).pathname;
+    const handler = handlers[path];
+    if (!handler) {
+      return Response.json({ error: `no handler for ${path}` }, { status: 404 });
+    }
+    return handler(init?.body ? (JSON.parse(init.body as string) as Record<string, unknown>) : {});
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('parseTextToolCalls', () => {
+  it('should parse a tool_calls object', () => {
+    const result = parseTextToolCalls(
+      '{"tool_calls": [{"name": "read_file", "arguments": {"path": "a.txt"}}]}'
+    );
+
+    expect(result).toEqual({
+      content: null,
+      toolCalls: [{ id: anyCallId, name: 'read_file', arguments: { path: 'a.txt' } }],
+    });
+  });
+
+  it('should parse a single call in a code block and keep the text around it', () => {
+    const result = parseTextToolCalls(
+      'Let me look.\n```json\n{"name": "list_dir", "arguments": {"path": "."}}\n```'
+    );
+
+    expect(result).toEqual({
+      content: 'Let me look.',
+      toolCalls: [{ id: anyCallId, name: 'list_dir', arguments: { path: '.' } }],
+    });
+  });
+
+  it('should not reuse tool call IDs across replies', () => {
+    const reply = '{"name": "list_dir", "arguments": {"path": "."}}';
+
+    const first = parseTextToolCalls(reply).toolCalls[0]?.id;
+    const second = parseTextToolCalls(reply).toolCalls[0]?.id;
+
+    expect(first).toMatch(/^call_/);
+    expect(second).not.toBe(first);
+  });
+
+  it('should leave ordinary replies alone', () => {
+    expect(parseTextToolCalls('The answer is {42}.')).toEqual({
+      content: 'The answer is {42}.',
+      toolCalls: [],
+    });
+    expect(parseTextToolCalls('Config: {"debug": true}').toolCalls).toEqual([]);
+  });
+});
+
+describe('convertMessagesToOllama', () => {
+  it('should convert native tool calls, results and images', () => {
+    const messages = convertMessagesToOllama([
+      { role: 'user', content: 'Look', attachments: [{ mimeType: 'image/png', data: 'iVBOR' }] },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_0', name: 'read_file', arguments: { path: 'a.txt' } }],
+      },
+      { role: 'tool', content: 'A', toolCallId: 'call_0', name: 'read_file' },
+    ]);
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'Look', images: ['iVBOR'] },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ function: { name: 'read_file', arguments: { path: 'a.txt' } } }],
+      },
+      { role: 'tool', content: 'A', tool_name: 'read_file' },
+    ]);
+  });
+
+  it('should write tools, calls and results as text for the text protocol', () => {
+    const messages = convertMessagesToOllama(
+      [
+        { role: 'system', content: 'You are helpful' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [
+            { id: 'call_0', name: 'read_file', arguments: { path: 'a.txt' } },
+            { id: 'call_1', name: 'read_file', arguments: { path: 'b.txt' } },
+          ],
+        },
+        { role: 'tool', content: 'A', toolCallId: 'call_0', name: 'read_file' },
+        { role: 'tool', content: 'B', toolCallId: 'call_1', name: 'read_file' },
+      ],
+      [readFileTool]
+    );
+
+    expect(messages).toHaveLength(3);
+    expect(messages[0]?.content).toContain('You are helpful\n\n# Tools');
+    expect(messages[0]?.content).toContain('- read_file: Read a file');
+    expect(messages[1]).toEqual({
+      role: 'assistant',
+      content:
+        '{"tool_calls":[{"name":"read_file","arguments":{"path":"a.txt"}},{"name":"read_file","arguments":{"path":"b.txt"}}]}',
+    });
+    expect(messages[2]).toEqual({
+      role: 'user',
+      content: 'Tool results:\n\n[read_file call_0]\nA\n\n[read_file call_1]\nB',
+    });
+  });
+});
+
+describe('OllamaStreamAccumulator', () => {
+  it('should assemble streamed text, tool calls and usage', () => {
+    const acc = new OllamaStreamAccumulator();
+
+    expect(acc.push({ message: { role: 'assistant', content: 'Hi' } })).toEqual([
+      { type: 'text', text: 'Hi' },
+    ]);
+    const events = acc.push({
+      message: {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ function: { name: 'read_file', arguments: { path: 'a.txt' } } }],
+      },
+      done: true,
+      done_reason: 'stop',
+      prompt_eval_count: 12,
+      eval_count: 8,
+    });
+
+    expect(events).toEqual([
+      {
+        type: 'tool_call',
+        index: 0,
+        id: anyCallId,
+        name: 'read_file',
+        argumentsDelta: '{"path":"a.txt"}',
+      },
+    ]);
+    expect(acc.toResponse()).toEqual({
+      content: 'Hi',
+      toolCalls: [{ id: anyCallId, name: 'read_file', arguments: { path: 'a.txt' } }],
+      finishReason: 'tool_calls',
+      usage: { promptTokens: 12, completionTokens: 8, totalTokens: 20 },
+    });
+  });
+
+  it('should not reuse tool call IDs across turns', () => {
+    const chunk = {
+      message: {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ function: { name: 'read_file', arguments: { path: 'a.txt' } } }],
+      },
+      done: true,
+    };
+    const first = new OllamaStreamAccumulator();
+    const second = new OllamaStreamAccumulator();
+    first.push(chunk);
+    second.push(chunk);
+
+    const firstId = first.toResponse().toolCalls[0]?.id;
+    expect(firstId).toMatch(/^call_/);
+    expect(second.toResponse().toolCalls[0]?.id).not.toBe(firstId);
+  });
+});
+
+describe('OllamaProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should use native tools for models that support them', async () => {
+    const chatBodies: Array<Record<string, unknown>> = [];
+    stubOllama({
+      '/api/show': () => Response.json({ capabilities: ['completion', 'tools'] }),
+      '/api/chat': (body) => {
+        chatBodies.push(body);
+        return Response.json({
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ function: { name: 'read_file', arguments: { path: 'a.txt' } } }],
+          },
+          done: true,
+        });
+      },
+    });
+
+    const response = await new OllamaProvider().chat({
+      model: 'ollama/qwen3:8b',
+      messages: [{ role: 'user', content: 'Read a.txt' }],
+      tools: [readFileTool],
+    });
+
+    expect(response.toolCalls).toEqual([
+      { id: anyCallId, name: 'read_file', arguments: { path: 'a.txt' } },
+    ]);
+    expect(chatBodies[0]?.['model']).toBe('qwen3:8b');
+    expect(chatBodies[0]?.['tools']).toEqual([readFileTool]);
+  });
+
+  it('should request thinking and return it as reasoning', async () => {
+    const chatBodies: Array<Record<string, unknown>> = [];
+    stubOllama({
+      '/api/chat': (body) => {
+        chatBodies.push(body);
+        return Response.json({
+          message: { role: 'assistant', content: 'Four', thinking: 'Two plus two' },
+          done: true,
+        });
+      },
+    });
+
+    const response = await new OllamaProvider().chat({
+      model: 'ollama/qwen3:8b',
+      messages: [{ role: 'user', content: 'What is 2+2?' }],
+      reasoning: { effort: 'medium' },
+    });
+
+    expect(response.content).toBe('Four');
+    expect(response.reasoning).toBe('Two plus two');
+    expect(chatBodies[0]?.['think']).toBe(true);
+  });
+
+  it('should pass the output schema as the format', async () => {
+    const chatBodies: Array<Record<string, unknown>> = [];
+    stubOllama({
+      '/api/chat': (body) => {
+        chatBodies.push(body);
+        return Response.json({ message: { role: 'assistant', content: '{"ok":true}' }, done: true });
+      },
+    });
+
+    await new OllamaProvider().chat({
+      model: 'ollama/qwen3:8b',
+      messages: [{ role: 'user', content: 'Status?' }],
+      output: { name: 'status', schema: z.object({ ok: z.boolean() }) },
+    });
+
+    expect(chatBodies[0]?.['format']).toEqual({
+      type: 'object',
+      properties: { ok: { type: 'boolean' } },
+      required: ['ok'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should fall back to the text protocol for models without tools', async () => {
+    const chatBodies: Array<Record<string, unknown>> = [];
+    stubOllama({
+      '/api/show': () => Response.json({ capabilities: ['completion'] }),
+      '/api/chat': (body) => {
+        chatBodies.push(body);
+        return Response.json({
+          message: {
+            role: 'assistant',
+            content: '{"tool_calls": [{"name": "read_file", "arguments": {"path": "a.txt"}}]}',
+          },
+          done: true,
+          done_reason: 'stop',
+        });
+      },
+    });
+
+    const response = await new OllamaProvider().chat({
+      model: 'ollama/gemma2',
+      messages: [
+        { role: 'system', content: 'You are helpful' },
+        { role: 'user', content: 'Read a.txt' },
+      ],
+      tools: [readFileTool],
+    });
+
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.content).toBeNull();
+    expect(response.toolCalls).toEqual([
+      { id: anyCallId, name: 'read_file', arguments: { path: 'a.txt' } },
+    ]);
+    expect(chatBodies[0]?.['tools']).toBeUndefined();
+    const messages = chatBodies[0]?.['messages'] as Array<{ content: string }>;
+    expect(messages[0]?.content).toContain('# Tools');
+  });
+
+  it('should detect tool support from the template on older servers and cache it', async () => {
+    const fetchMock = stubOllama({
+      '/api/show': () => Response.json({ template: '{{ if .Tools }}...{{ end }}' }),
+    });
+    const provider = new OllamaProvider();
+
+    expect(await provider.getCapabilities('ollama/llama3.1')).toEqual({
+      tools: true,
+      vision: false,
+    });
+    await provider.getCapabilities('llama3.1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should list installed models', async () => {
+    stubOllama({
+      '/api/tags': () =>
+        Response.json({
+          models: [{ name: 'llama3.2:latest', size: 2019393189, details: { parameter_size: '3.2B' } }],
+        }),
+    });
+
+    expect(await new OllamaProvider().listModels()).toEqual([
+      { name: 'llama3.2:latest', size: 2019393189, parameterSize: '3.2B' },
+    ]);
+  });
+
+  it('should stream newline-delimited responses', async () => {
+    stubOllama({
+      '/api/chat': () =>
+        new Response(
+          '{"message":{"role":"assistant","content":"Hel"},"done":false}\n' +
+            '{"message":{"role":"assistant","content":"lo"},"done":true,"done_reason":"stop","prompt_eval_count":3,"eval_count":2}\n'
+        ),
+    });
+
+    const events = [];
+    for await (const event of new OllamaProvider().chatStream({
+      messages: [{ role: 'user', content: 'Hello' }],
+    })) {
+      events.push(event);
+    }
+
+    expect(events.slice(0, 2)).toEqual([
+      { type: 'text', text: 'Hel' },
+      { type: 'text', text: 'lo' },
+    ]);
+    const done = events[2];
+    expect(done?.type === 'done' && done.response.usage.totalTokens).toBe(5);
+  });
+
+  it('should return server errors as error responses', async () => {
+    stubOllama({
+      '/api/chat': () => Response.json({ error: "model 'missing' not found" }, { status: 404 }),
+    });
+
+    const response = await new OllamaProvider().chat({
+      model: 'ollama/missing',
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+
+    expect(response.finishReason).toBe('error');
+    expect(response.content).toBe("Error calling Ollama: 404 model 'missing' not found");
+    expect(response.error?.transient).toBe(false);
+  });
+});
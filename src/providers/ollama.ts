@@ -0,0 +1,591 @@
+/**
+ * Ollama provider for local models.
+ *
+ * Models that support tool calling use Ollama's native tools. For other
+ * models, tools are described in the system prompt and calls are parsed
+ * from JSON in the reply, so the agent's tool loop works with any model.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  LLMProvider,
+  LLMResponse,
+  ChatOptions,
+  ProviderOptions,
+  ToolCallRequest,
+  Message,
+  ToolDefinition,
+  StreamEvent,
+} from './base.js';
+import { createErrorResponse, getOutputJsonSchema } from './base.js';
+
+/**
+ * Default Ollama model.
+ */
+const DEFAULT_MODEL = 'llama3.2';
+
+/**
+ * Default Ollama server URL.
+ */
+export const OLLAMA_BASE_URL = 'http://localhost:11434';
+
+/**
+ * Request timeout in milliseconds. Local models can be slow to load.
+ */
+const REQUEST_TIMEOUT_MS = 300000;
+
+/**
+ * How tool calls are sent to the model.
+ *
+ * - `auto`: native tools if the model supports them, otherwise text
+ * - `native`: always use Ollama's tools parameter
+ * - `text`: always describe tools in the prompt and parse JSON replies
+ */
+export type OllamaToolMode = 'auto' | 'native' | 'text';
+
+/**
+ * A message in Ollama's chat format.
+ */
+export interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Reasoning of thinking models, when requested with `think` */
+  thinking?: string;
+  images?: string[];
+  tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+  tool_name?: string;
+}
+
+/**
+ * Response body of /api/chat, and of each streamed line.
+ */
+export interface OllamaChatResponse {
+  message?: OllamaMessage;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * A model installed on the Ollama server.
+ */
+export interface OllamaModel {
+  name: string;
+  /** Size on disk in bytes */
+  size: number;
+  /** e.g. '8.0B' */
+  parameterSize?: string;
+}
+
+/**
+ * What a model can do.
+ */
+export interface OllamaModelCapabilities {
+  tools: boolean;
+  vision: boolean;
+}
+
+/**
+ * Error returned by the Ollama server, shaped like SDK errors so that
+ * toProviderError can classify it.
+ */
+class OllamaApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'OllamaApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Describe tools in a system prompt section for models without native
+ * tool calling.
+ */
+export function buildTextToolPrompt(tools: ToolDefinition[]): string {
+  const lines = tools.map(
+    (tool) =>
+      `- ${tool.function.name}: ${tool.function.description}\n  Parameters: ${JSON.stringify(tool.function.parameters)}`
+  );
+
+  return `# Tools
+
+To use tools, reply with only a JSON object in this form and nothing else:
+{"tool_calls": [{"name": "<tool name>", "arguments": {<parameters>}}]}
+
+The results are sent back in a message starting with "Tool results:". Once you have what you need, reply to the user normally, without JSON.
+
+Available tools:
+${lines.join('\n')}`;
+}
+
+/**
+ * Create an ID for a tool call. Ollama sends calls without IDs, and IDs
+ * must not repeat across the turns of a session.
+ */
+function createToolCallId(): string {
+  return `call_${randomUUID()}`;
+}
+
+/**
+ * Find tool calls written as JSON in a reply.
+ *
+ * Accepts {"tool_calls": [...]} or a single {"name": ..., "arguments": ...},
+ * either as the whole reply or in a ```json code block.
+ *
+ * @returns The calls and the text around them; no calls if the reply has none.
+ */
+export function parseTextToolCalls(text: string): {
+  content: string | null;
+  toolCalls: ToolCallRequest[];
+} {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  const start = text.indexOf('{');
+  const candidates: Array<{ json: string; rest: string }> = [];
+  if (fenced?.[1]) {
+    candidates.push({ json: fenced[1], rest: text.replace(fenced[0], '') });
+  }
+  if (start !== -1) {
+    const end = text.lastIndexOf('}');
+    candidates.push({
+      json: text.slice(start, end + 1),
+      rest: text.slice(0, start) + text.slice(end + 1),
+    });
+  }
+
+  for (const { json, rest } of candidates) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      continue;
+    }
+    if (!parsed || typeof parsed !== 'object') {
+      continue;
+    }
+
+    const record = parsed as Record<string, unknown>;
+    const calls = Array.isArray(record['tool_calls']) ? record['tool_calls'] : [record];
+    const toolCalls: ToolCallRequest[] = [];
+    for (const call of calls as Array<Record<string, unknown>>) {
+      if (!call || typeof call['name'] !== 'string') {
+        continue;
+      }
+      const args = call['arguments'];
+      toolCalls.push({
+        id: createToolCallId(),
+        name: call['name'],
+        arguments: args && typeof args === 'object' ? (args as Record<string, unknown>) : {},
+      });
+    }
+
+    if (toolCalls.length > 0) {
+      return { content: rest.trim() || null, toolCalls };
+    }
+  }
+
+  return { content: text, toolCalls: [] };
+}
+
+/**
+ * Convert our messages to Ollama format.
+ *
+ * @param textTools - Tools to describe in the system prompt; when given,
+ *   tool calls and results are written as text.
+ */
+export function convertMessagesToOllama(
+  messages: Message[],
+  textTools?: ToolDefinition[]
+): OllamaMessage[] {
+  const converted: OllamaMessage[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      const content = textTools
+        ? `${msg.content}\n\n${buildTextToolPrompt(textTools)}`
+        : msg.content;
+      converted.push({ role: 'system', content });
+    } else if (msg.role === 'tool') {
+      if (!textTools) {
+        const result: OllamaMessage = { role: 'tool', content: msg.content };
+        if (msg.name) {
+          result.tool_name = msg.name;
+        }
+        converted.push(result);
+        continue;
+      }
+
+      // Results of parallel tool calls belong in a single message
+      const entry = `[${msg.name ?? 'tool'} ${msg.toolCallId ?? ''}]\n${msg.content}`;
+      const previous = converted[converted.length - 1];
+      if (previous?.role === 'user' && previous.content.startsWith('Tool results:')) {
+        previous.content += `\n\n${entry}`;
+      } else {
+        converted.push({ role: 'user', content: `Tool results:\n\n${entry}` });
+      }
+    } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      if (textTools) {
+        const calls = msg.toolCalls.map((tc) => ({ name: tc.name, arguments: tc.arguments }));
+        const json = JSON.stringify({ tool_calls: calls });
+        converted.push({
+          role: 'assistant',
+          content: msg.content ? `${msg.content}\n${json}` : json,
+        });
+      } else {
+        converted.push({
+          role: 'assistant',
+          content: msg.content,
+          tool_calls: msg.toolCalls.map((tc) => ({
+            function: { name: tc.name, arguments: tc.arguments },
+          })),
+        });
+      }
+    } else {
+      const result: OllamaMessage = { role: msg.role, content: msg.content };
+      const images = (msg.attachments ?? []).filter((a) => a.mimeType.startsWith('image/'));
+      if (images.length > 0) {
+        result.images = images.map((a) => a.data);
+      }
+      converted.push(result);
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Assembles /api/chat responses into stream events and a final response.
+ * A non-streaming response is handled as a single chunk.
+ */
+export class OllamaStreamAccumulator {
+  private content = '';
+  private reasoning = '';
+  private finishReason: string | null = null;
+  private toolCalls: ToolCallRequest[] = [];
+  private promptTokens = 0;
+  private completionTokens = 0;
+
+  /**
+   * Add a chunk and return the events it produces.
+   */
+  push(chunk: OllamaChatResponse): StreamEvent[] {
+    const events: StreamEvent[] = [];
+
+    if (chunk.message?.thinking) {
+      this.reasoning += chunk.message.thinking;
+      events.push({ type: 'reasoning', text: chunk.message.thinking });
+    }
+
+    if (chunk.message?.content) {
+      this.content += chunk.message.content;
+      events.push({ type: 'text', text: chunk.message.content });
+    }
+
+    for (const tc of chunk.message?.tool_calls ?? []) {
+      // Ollama sends each call whole
+      const index = this.toolCalls.length;
+      const id = createToolCallId();
+      const args = tc.function.arguments ?? {};
+      this.toolCalls.push({ id, name: tc.function.name, arguments: args });
+      events.push({
+        type: 'tool_call',
+        index,
+        id,
+        name: tc.function.name,
+        argumentsDelta: JSON.stringify(args),
+      });
+    }
+
+    if (chunk.done) {
+      this.finishReason = chunk.done_reason ?? 'stop';
+      this.promptTokens = chunk.prompt_eval_count ?? 0;
+      this.completionTokens = chunk.eval_count ?? 0;
+    }
+
+    return events;
+  }
+
+  /**
+   * Build the final response from everything received so far.
+   */
+  toResponse(): LLMResponse {
+    const response: LLMResponse = {
+      content: this.content || null,
+      toolCalls: this.toolCalls,
+      finishReason: this.toolCalls.length > 0 ? 'tool_calls' : (this.finishReason ?? 'stop'),
+      usage: {
+        promptTokens: this.promptTokens,
+        completionTokens: this.completionTokens,
+        totalTokens: this.promptTokens + this.completionTokens,
+      },
+    };
+    if (this.reasoning) {
+      response.reasoning = this.reasoning;
+    }
+    return response;
+  }
+}
+
+/**
+ * Options for the Ollama provider.
+ */
+export interface OllamaProviderOptions extends ProviderOptions {
+  toolMode?: OllamaToolMode;
+  /** Default model; llama3.2 if not set */
+  defaultModel?: string;
+}
+
+/**
+ * Ollama LLM provider calling the server's REST API.
+ */
+export class OllamaProvider implements LLMProvider {
+  private apiKey: string;
+  private apiBase: string;
+  private toolMode: OllamaToolMode;
+  private defaultModel: string;
+  private capabilities = new Map<string, Promise<OllamaModelCapabilities>>();
+
+  constructor(options: OllamaProviderOptions = {}) {
+    this.apiKey = options.apiKey ?? '';
+    this.apiBase = (options.apiBase ?? OLLAMA_BASE_URL).replace(/\/+$/, '');
+    this.toolMode = options.toolMode ?? 'auto';
+    this.defaultModel = options.defaultModel ?? DEFAULT_MODEL;
+  }
+
+  async chat(options: ChatOptions): Promise<LLMResponse> {
+    try {
+      const textTools = await this.getTextTools(options);
+      const response = await this.request('/api/chat', this.buildBody(options, textTools, false));
+      const accumulator = new OllamaStreamAccumulator();
+      accumulator.push((await response.json()) as OllamaChatResponse);
+      return finishResponse(accumulator.toResponse(), textTools);
+    } catch (error) {
+      return createErrorResponse('Ollama', error);
+    }
+  }
+
+  async *chatStream(options: ChatOptions): AsyncIterable<StreamEvent> {
+    try {
+      const textTools = await this.getTextTools(options);
+      if (textTools) {
+        // The reply may be a tool call, so it can't be shown as it arrives
+        const response = await this.chat(options);
+        if (response.content && response.finishReason !== 'error') {
+          yield { type: 'text', text: response.content };
+        }
+        yield { type: 'done', response };
+        return;
+      }
+
+      const response = await this.request('/api/chat', this.buildBody(options, undefined, true));
+      const accumulator = new OllamaStreamAccumulator();
+
+      if (response.body) {
+        for await (const line of readLines(response.body)) {
+          for (const event of accumulator.push(JSON.parse(line) as OllamaChatResponse)) {
+            yield event;
+          }
+        }
+      }
+
+      yield { type: 'done', response: accumulator.toResponse() };
+    } catch (error) {
+      yield { type: 'done', response: createErrorResponse('Ollama', error) };
+    }
+  }
+
+  /**
+   * List the models installed on the server.
+   */
+  async listModels(): Promise<OllamaModel[]> {
+    const response = await this.request('/api/tags');
+    const body = (await response.json()) as {
+      models?: Array<{ name: string; size?: number; details?: { parameter_size?: string } }>;
+    };
+
+    return (body.models ?? []).map((m) => {
+      const model: OllamaModel = { name: m.name, size: m.size ?? 0 };
+      if (m.details?.parameter_size) {
+        model.parameterSize = m.details.parameter_size;
+      }
+      return model;
+    });
+  }
+
+  /**
+   * Find out what a model supports. Results are cached per model.
+   *
+   * Uses the capabilities reported by /api/show, or for older servers,
+   * whether the model's prompt template renders tools.
+   */
+  getCapabilities(model: string): Promise<OllamaModelCapabilities> {
+    const name = stripPrefix(model);
+    let capabilities = this.capabilities.get(name);
+    if (!capabilities) {
+      capabilities = this.fetchCapabilities(name);
+      this.capabilities.set(name, capabilities);
+      // Retry on a later call if the server could not be reached
+      capabilities.catch(() => this.capabilities.delete(name));
+    }
+    return capabilities;
+  }
+
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+
+  /**
+   * Query /api/show for a model's capabilities.
+   */
+  private async fetchCapabilities(model: string): Promise<OllamaModelCapabilities> {
+    const response = await this.request('/api/show', { model });
+    const body = (await response.json()) as { capabilities?: string[]; template?: string };
+
+    if (body.capabilities) {
+      return {
+        tools: body.capabilities.includes('tools'),
+        vision: body.capabilities.includes('vision'),
+      };
+    }
+    return { tools: body.template?.includes('.Tools') ?? false, vision: false };
+  }
+
+  /**
+   * Get the tools to describe in the prompt, or undefined to use native tools.
+   */
+  private async getTextTools(options: ChatOptions): Promise<ToolDefinition[] | undefined> {
+    if (!options.tools || options.tools.length === 0 || this.toolMode === 'native') {
+      return undefined;
+    }
+    if (this.toolMode === 'text') {
+      return options.tools;
+    }
+
+    const model = options.model ?? this.defaultModel;
+    try {
+      const { tools } = await this.getCapabilities(model);
+      return tools ? undefined : options.tools;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[Ollama] Could not detect capabilities of ${model}: ${message}`);
+      return options.tools;
+    }
+  }
+
+  /**
+   * Send a request, throwing an OllamaApiError for error responses.
+   *
+   * @param body - JSON body to POST; a GET is sent if not given.
+   */
+  private async request(path: string, body?: Record<string, unknown>): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const init: RequestInit = {
+      method: body ? 'POST' : 'GET',
+      headers,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    };
+    if (body) {
+      init.body = JSON.stringify(body);
+    }
+    const response = await fetch(`${this.apiBase}${path}`, init);
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        message = (JSON.parse(text) as { error?: string }).error ?? text;
+      } catch {
+        // Not JSON; use the raw body
+      }
+      throw new OllamaApiError(`${response.status} ${message}`, response.status);
+    }
+    return response;
+  }
+
+  /**
+   * Build the /api/chat request body.
+   */
+  private buildBody(
+    options: ChatOptions,
+    textTools: ToolDefinition[] | undefined,
+    stream: boolean
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: stripPrefix(options.model ?? this.defaultModel),
+      messages: convertMessagesToOllama(options.messages, textTools),
+      stream,
+      options: {
+        num_predict: options.maxTokens ?? 4096,
+        temperature: options.temperature ?? 0.7,
+      },
+    };
+
+    if (!textTools && options.tools && options.tools.length > 0) {
+      body['tools'] = options.tools;
+    }
+
+    if (options.reasoning) {
+      // Ollama has no thinking budget, only an on/off switch
+      body['think'] = true;
+    }
+
+    if (options.output) {
+      body['format'] = getOutputJsonSchema(options.output);
+    }
+
+    return body;
+  }
+}
+
+/**
+ * Remove the 'ollama/' routing prefix from a model name.
+ */
+function stripPrefix(model: string): string {
+  return model.replace(/^ollama\//, '');
+}
+
+/**
+ * Parse tool calls out of a text-protocol reply.
+ */
+function finishResponse(response: LLMResponse, textTools?: ToolDefinition[]): LLMResponse {
+  if (!textTools || !response.content) {
+    return response;
+  }
+
+  const { content, toolCalls } = parseTextToolCalls(response.content);
+  if (toolCalls.length === 0) {
+    return response;
+  }
+  return { ...response, content, toolCalls, finishReason: 'tool_calls' };
+}
+
+/**
+ * Read the lines of a newline-delimited JSON stream.
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let boundary = buffer.indexOf('\n');
+    while (boundary !== -1) {
+      const line = buffer.slice(0, boundary).trim();
+      buffer = buffer.slice(boundary + 1);
+      if (line) {
+        yield line;
+      }
+      boundary = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
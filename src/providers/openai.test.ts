@@ -0,0 +1,208 @@
+/**
+ * Tests for the OpenAI-compatible provider.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type OpenAI from 'openai';
+import { z } from 'zod';
+import { OpenAIProvider, StreamAccumulator, convertMessagesToOpenAI } from './openai.js';
+
+function chunk(
+  delta: OpenAI.ChatCompletionChunk.Choice.Delta,
+  finishReason: OpenAI.ChatCompletionChunk.Choice['finish_reason'] = null
+): OpenAI.ChatCompletionChunk {
+  return {
+    id: 'chunk',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'gpt-4o',
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+describe('StreamAccumulator', () => {
+  it('should emit text events and assemble content', () => {
+    const acc = new StreamAccumulator();
+
+    expect(acc.push(chunk({ content: 'Hel' }))).toEqual([{ type: 'text', text: 'Hel' }]);
+    acc.push(chunk({ content: 'lo' }, 'stop'));
+
+    const response = acc.toResponse();
+    expect(response.content).toBe('Hello');
+    expect(response.finishReason).toBe('stop');
+    expect(response.toolCalls).toEqual([]);
+  });
+
+  it('should assemble tool calls from fragments', () => {
+    const acc = new StreamAccumulator();
+
+    const events = acc.push(
+      chunk({
+        tool_calls: [
+          { index: 0, id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"pa' } },
+        ],
+      })
+    );
+    expect(events).toEqual([
+      { type: 'tool_call', index: 0, id: 'call_1', name: 'read_file', argumentsDelta: '{"pa' },
+    ]);
+
+    acc.push(chunk({ tool_calls: [{ index: 0, function: { arguments: 'th":"/tmp"}' } }] }, 'tool_calls'));
+
+    const response = acc.toResponse();
+    expect(response.content).toBeNull();
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([
+      { id: 'call_1', name: 'read_file', arguments: { path: '/tmp' } },
+    ]);
+  });
+
+  it('should keep raw arguments when JSON is invalid', () => {
+    const acc = new StreamAccumulator();
+    acc.push(
+      chunk({
+        tool_calls: [{ index: 0, id: 'call_1', function: { name: 'exec', arguments: '{bad' } }],
+      })
+    );
+
+    expect(acc.toResponse().toolCalls[0]?.arguments).toEqual({ raw: '{bad' });
+  });
+
+  it('should collect reasoning deltas separately from content', () => {
+    const acc = new StreamAccumulator();
+
+    const delta = { reasoning_content: 'Thinking' } as OpenAI.ChatCompletionChunk.Choice.Delta;
+    expect(acc.push(chunk(delta))).toEqual([{ type: 'reasoning', text: 'Thinking' }]);
+    acc.push(chunk({ content: 'Answer' }, 'stop'));
+
+    const response = acc.toResponse();
+    expect(response.content).toBe('Answer');
+    expect(response.reasoning).toBe('Thinking');
+  });
+
+  it('should record usage from the final chunk', () => {
+    const acc = new StreamAccumulator();
+    acc.push({
+      ...chunk({ content: 'Hi' }),
+      usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+    });
+
+    expect(acc.toResponse().usage).toEqual({
+      promptTokens: 10,
+      completionTokens: 2,
+      totalTokens: 12,
+    });
+  });
+
+  it('should report prompt tokens served from the cache', () => {
+    const acc = new StreamAccumulator();
+    acc.push({
+      ...chunk({ content: 'Hi' }),
+      usage: {
+        prompt_tokens: 2048,
+        completion_tokens: 2,
+        total_tokens: 2050,
+        prompt_tokens_details: { cached_tokens: 1920 },
+      },
+    });
+
+    expect(acc.toResponse().usage.cachedTokens).toBe(1920);
+  });
+});
+
+describe('convertMessagesToOpenAI', () => {
+  it('should convert assistant tool calls', () => {
+    const messages = convertMessagesToOpenAI([
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'a.txt' } }],
+      },
+      { role: 'tool', content: 'A', toolCallId: 'call_1' },
+    ]);
+
+    expect(messages).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'read_file', arguments: '{"path":"a.txt"}' },
+          },
+        ],
+      },
+      { role: 'tool', content: 'A', tool_call_id: 'call_1' },
+    ]);
+  });
+
+  it('should send image attachments as image parts', () => {
+    const messages = convertMessagesToOpenAI([
+      {
+        role: 'user',
+        content: 'What is this?',
+        attachments: [{ mimeType: 'image/png', data: 'iVBOR' }],
+      },
+    ]);
+
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBOR' } },
+          { type: 'text', text: 'What is this?' },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('OpenAIProvider structured output', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the schema as a json_schema response format', async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-4o',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: '{"ok":true}' },
+            finish_reason: 'stop',
+          },
+        ],
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OpenAIProvider({ apiKey: 'sk-test' });
+    const response = await provider.chat({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Status?' }],
+      output: { name: 'status', schema: z.object({ ok: z.boolean() }) },
+    });
+
+    expect(response.content).toBe('{"ok":true}');
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string) as Record<string, unknown>;
+    expect(body['response_format']).toEqual({
+      type: 'json_schema',
+      json_schema: {
+        name: 'status',
+        schema: {
+          type: 'object',
+          properties: { ok: { type: 'boolean' } },
+          required: ['ok'],
+          additionalProperties: false,
+        },
+        strict: false,
+      },
+    });
+  });
+});
@@ -12,8 +12,9 @@ import type {
   ToolCallRequest,
   Message,
   ToolDefinition,
+  StreamEvent,
 } from './base.js';
-import { createEmptyResponse } from './base.js';
+import { createEmptyResponse, createErrorResponse, getOutputJsonSchema } from './base.js';
 
 /**
  * Default OpenAI model.
@@ -33,7 +34,7 @@ const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
 /**
  * Convert our messages to OpenAI format.
  */
-function convertMessagesToOpenAI(
+export function convertMessagesToOpenAI(
   messages: Message[]
 ): OpenAI.ChatCompletionMessageParam[] {
   return messages.map((msg): OpenAI.ChatCompletionMessageParam => {
@@ -45,6 +46,20 @@ function convertMessagesToOpenAI(
       };
     }
     if (msg.role === 'assistant') {
+      if (msg.toolCalls && msg.toolCalls.length > 0) {
+        return {
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map((tc) => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: {
+              name: tc.name,
+              arguments: JSON.stringify(tc.arguments),
+            },
+          })),
+        };
+      }
       return {
         role: 'assistant',
         content: msg.content,
@@ -56,6 +71,19 @@ function convertMessagesToOpenAI(
         content: msg.content,
       };
     }
+    const images = (msg.attachments ?? []).filter((a) => a.mimeType.startsWith('image/'));
+    if (images.length > 0) {
+      return {
+        role: 'user',
+        content: [
+          ...images.map((a) => ({
+            type: 'image_url' as const,
+            image_url: { url: `data:${a.mimeType};base64,${a.data}` },
+          })),
+          { type: 'text' as const, text: msg.content },
+        ],
+      };
+    }
     return {
       role: 'user',
       content: msg.content,
@@ -66,7 +94,7 @@ function convertMessagesToOpenAI(
 /**
  * Convert our tool definitions to OpenAI format.
  */
-function convertToolsToOpenAI(
+export function convertToolsToOpenAI(
   tools: ToolDefinition[]
 ): OpenAI.ChatCompletionTool[] {
   return tools.map((tool) => ({
@@ -79,6 +107,39 @@ function convertToolsToOpenAI(
   }));
 }
 
+/**
+ * Get reasoning text from a message or delta.
+ *
+ * OpenAI does not return reasoning in chat completions, but compatible
+ * APIs do: vLLM and DeepSeek as `reasoning_content`, OpenRouter as `reasoning`.
+ */
+function getReasoningText(message: object): string | null {
+  const { reasoning_content: content, reasoning } = message as {
+    reasoning_content?: unknown;
+    reasoning?: unknown;
+  };
+  if (typeof content === 'string' && content) {
+    return content;
+  }
+  return typeof reasoning === 'string' && reasoning ? reasoning : null;
+}
+
+/**
+ * Convert OpenAI token usage, including prompt tokens served from the cache.
+ */
+function convertUsage(usage: OpenAI.CompletionUsage | null | undefined): LLMResponse['usage'] {
+  const converted: LLMResponse['usage'] = {
+    promptTokens: usage?.prompt_tokens ?? 0,
+    completionTokens: usage?.completion_tokens ?? 0,
+    totalTokens: usage?.total_tokens ?? 0,
+  };
+  const cachedTokens = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  if (cachedTokens > 0) {
+    converted.cachedTokens = cachedTokens;
+  }
+  return converted;
+}
+
 /**
  * Parse OpenAI response into our standard format.
  */
@@ -112,16 +173,114 @@ function parseOpenAIResponse(
     }
   }
 
-  return {
+  const parsed: LLMResponse = {
     content: message.content,
     toolCalls,
     finishReason: choice.finish_reason ?? 'stop',
-    usage: {
-      promptTokens: response.usage?.prompt_tokens ?? 0,
-      completionTokens: response.usage?.completion_tokens ?? 0,
-      totalTokens: response.usage?.total_tokens ?? 0,
-    },
+    usage: convertUsage(response.usage),
   };
+  const reasoning = getReasoningText(message);
+  if (reasoning) {
+    parsed.reasoning = reasoning;
+  }
+  return parsed;
+}
+
+/**
+ * Assembles streamed chat completion chunks into stream events and a
+ * final response.
+ */
+export class StreamAccumulator {
+  private content = '';
+  private reasoning = '';
+  private finishReason: string | null = null;
+  private toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+  private usage: OpenAI.CompletionUsage | null = null;
+
+  /**
+   * Add a chunk and return the events it produces.
+   */
+  push(chunk: OpenAI.ChatCompletionChunk): StreamEvent[] {
+    const events: StreamEvent[] = [];
+
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+
+    const choice = chunk.choices[0];
+    if (!choice) {
+      return events;
+    }
+
+    const reasoning = getReasoningText(choice.delta);
+    if (reasoning) {
+      this.reasoning += reasoning;
+      events.push({ type: 'reasoning', text: reasoning });
+    }
+
+    if (choice.delta.content) {
+      this.content += choice.delta.content;
+      events.push({ type: 'text', text: choice.delta.content });
+    }
+
+    for (const tc of choice.delta.tool_calls ?? []) {
+      let entry = this.toolCalls[tc.index];
+      if (!entry) {
+        entry = { id: '', name: '', arguments: '' };
+        this.toolCalls[tc.index] = entry;
+      }
+
+      const event: StreamEvent = {
+        type: 'tool_call',
+        index: tc.index,
+        argumentsDelta: tc.function?.arguments ?? '',
+      };
+      if (tc.id) {
+        entry.id = tc.id;
+        event.id = tc.id;
+      }
+      if (tc.function?.name) {
+        entry.name += tc.function.name;
+        event.name = tc.function.name;
+      }
+      entry.arguments += event.argumentsDelta;
+      events.push(event);
+    }
+
+    if (choice.finish_reason) {
+      this.finishReason = choice.finish_reason;
+    }
+
+    return events;
+  }
+
+  /**
+   * Build the final response from everything received so far.
+   */
+  toResponse(): LLMResponse {
+    const toolCalls: ToolCallRequest[] = [];
+    for (const tc of this.toolCalls) {
+      if (!tc) continue;
+      let args: Record<string, unknown> = {};
+      try {
+        args = tc.arguments ? (JSON.parse(tc.arguments) as Record<string, unknown>) : {};
+      } catch {
+        args = { raw: tc.arguments };
+      }
+      toolCalls.push({ id: tc.id, name: tc.name, arguments: args });
+    }
+
+    const response: LLMResponse = {
+      content: this.content || null,
+      toolCalls,
+      finishReason: this.finishReason ?? 'stop',
+      usage: convertUsage(this.usage),
+    };
+    if (this.reasoning) {
+      response.reasoning = this.reasoning;
+    }
+    return response;
+  }
 }
 
 /**
@@ -151,39 +310,85 @@ export class OpenAIProvider implements LLMProvider {
     this.client = new OpenAI({
       apiKey: options.apiKey,
       baseURL: options.apiBase ?? (isOpenRouter ? OPENROUTER_BASE_URL : undefined),
+      maxRetries: options.maxRetries,
     });
 
     this.defaultModel = isOpenRouter ? DEFAULT_OPENROUTER_MODEL : DEFAULT_MODEL;
   }
 
   async chat(options: ChatOptions): Promise<LLMResponse> {
-    const model = options.model ?? this.defaultModel;
-    const maxTokens = options.maxTokens ?? 4096;
-    const temperature = options.temperature ?? 0.7;
+    const params = this.buildParams(options);
+
+    try {
+      const response = await this.client.chat.completions.create(params);
+      return parseOpenAIResponse(response);
+    } catch (error) {
+      return createErrorResponse('OpenAI', error);
+    }
+  }
 
-    const messages = convertMessagesToOpenAI(options.messages);
+  async *chatStream(options: ChatOptions): AsyncIterable<StreamEvent> {
+    const params = this.buildParams(options);
 
     try {
-      const params: OpenAI.ChatCompletionCreateParams = {
-        model,
-        messages,
-        max_tokens: maxTokens,
-        temperature,
-      };
+      const stream = await this.client.chat.completions.create({
+        ...params,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
 
-      if (options.tools && options.tools.length > 0) {
-        params.tools = convertToolsToOpenAI(options.tools);
-        params.tool_choice = 'auto';
+      const accumulator = new StreamAccumulator();
+      for await (const chunk of stream) {
+        for (const event of accumulator.push(chunk)) {
+          yield event;
+        }
       }
 
-      const response = await this.client.chat.completions.create(params);
-      return parseOpenAIResponse(response);
+      yield { type: 'done', response: accumulator.toResponse() };
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return createEmptyResponse(`Error calling OpenAI: ${message}`, 'error');
+      yield { type: 'done', response: createErrorResponse('OpenAI', error) };
     }
   }
 
+  /**
+   * Build request parameters shared by chat and chatStream.
+   */
+  private buildParams(options: ChatOptions): OpenAI.ChatCompletionCreateParamsNonStreaming {
+    const params: OpenAI.ChatCompletionCreateParamsNonStreaming = {
+      model: options.model ?? this.defaultModel,
+      messages: convertMessagesToOpenAI(options.messages),
+      max_tokens: options.maxTokens ?? 4096,
+      temperature: options.temperature ?? 0.7,
+    };
+
+    if (options.tools && options.tools.length > 0) {
+      params.tools = convertToolsToOpenAI(options.tools);
+      params.tool_choice = 'auto';
+    }
+
+    if (options.output) {
+      // Not strict: strict mode rejects optional properties, and replies are validated anyway
+      params.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: options.output.name,
+          schema: getOutputJsonSchema(options.output),
+          strict: false,
+        },
+      };
+    }
+
+    if (options.reasoning) {
+      // Reasoning models take max_completion_tokens and only the default temperature
+      params.reasoning_effort = options.reasoning.effort;
+      params.max_completion_tokens = params.max_tokens ?? null;
+      delete params.max_tokens;
+      delete params.temperature;
+    }
+
+    return params;
+  }
+
   getDefaultModel(): string {
     return this.defaultModel;
   }
@@ -192,8 +397,12 @@ export class OpenAIProvider implements LLMProvider {
 /**
  * Create an OpenRouter provider.
  */
-export function createOpenRouterProvider(apiKey: string): OpenAIProvider {
+export function createOpenRouterProvider(
+  apiKey: string,
+  options: Pick<ProviderOptions, 'maxRetries'> = {}
+): OpenAIProvider {
   return new OpenAIProvider({
+    ...options,
     apiKey,
     apiBase: OPENROUTER_BASE_URL,
     isOpenRouter: true,
@@ -0,0 +1,121 @@
+/**
+ * Tests for structured output.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import type { ChatOptions, LLMProvider, LLMResponse } from './base.js';
+import { createEmptyResponse, getOutputJsonSchema } from './base.js';
+import { chatStructured, parseStructuredContent } from './structured.js';
+
+const TaskSchema = z.object({
+  done: z.boolean(),
+  summary: z.string(),
+  followUp: z.string().optional(),
+});
+
+function createProvider(replies: LLMResponse[]): LLMProvider {
+  let index = 0;
+  return {
+    getDefaultModel: () => 'test-model',
+    chat: vi.fn(async (_options: ChatOptions) => replies[index++] ?? createEmptyResponse()),
+  };
+}
+
+describe('getOutputJsonSchema', () => {
+  it('should convert the Zod schema to a JSON schema', () => {
+    expect(getOutputJsonSchema({ name: 'task', schema: TaskSchema })).toEqual({
+      type: 'object',
+      properties: {
+        done: { type: 'boolean' },
+        summary: { type: 'string' },
+        followUp: { type: 'string' },
+      },
+      required: ['done', 'summary'],
+      additionalProperties: false,
+    });
+  });
+});
+
+describe('parseStructuredContent', () => {
+  it('should parse JSON, ignoring code fences', () => {
+    expect(parseStructuredContent('```json\n{"done":true,"summary":"ok"}\n```', TaskSchema)).toEqual(
+      { value: { done: true, summary: 'ok' } }
+    );
+  });
+
+  it('should describe invalid JSON and schema mismatches', () => {
+    expect(parseStructuredContent('HEARTBEAT_OK', TaskSchema)).toEqual({
+      error: expect.stringContaining('not valid JSON'),
+    });
+    expect(parseStructuredContent('{"done":"yes"}', TaskSchema)).toEqual({
+      error: expect.stringMatching(/does not match the schema:\n[\s\S]*done/),
+    });
+    expect(parseStructuredContent(null, TaskSchema)).toEqual({ error: 'The reply was empty.' });
+  });
+});
+
+describe('chatStructured', () => {
+  it('should request the schema and return the typed value', async () => {
+    const provider = createProvider([createEmptyResponse('{"done":true,"summary":"All clear"}')]);
+
+    const result = await chatStructured(provider, {
+      messages: [{ role: 'user', content: 'Check the tasks' }],
+      schema: TaskSchema,
+      name: 'task_status',
+    });
+
+    expect(result.value).toEqual({ done: true, summary: 'All clear' });
+    expect(result.attempts).toBe(1);
+    expect(vi.mocked(provider.chat).mock.calls[0]?.[0].output).toEqual({
+      name: 'task_status',
+      schema: TaskSchema,
+    });
+  });
+
+  it('should ask again with the validation errors', async () => {
+    const provider = createProvider([
+      createEmptyResponse('{"done":true}'),
+      createEmptyResponse('{"done":true,"summary":"Fixed"}'),
+    ]);
+
+    const result = await chatStructured(provider, {
+      messages: [{ role: 'user', content: 'Check the tasks' }],
+      schema: TaskSchema,
+    });
+
+    expect(result.value).toEqual({ done: true, summary: 'Fixed' });
+    expect(result.attempts).toBe(2);
+    const retry = vi.mocked(provider.chat).mock.calls[1]?.[0].messages;
+    expect(retry?.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(retry?.[1]?.content).toBe('{"done":true}');
+    expect(retry?.[2]?.content).toContain('summary');
+  });
+
+  it('should give up after the maximum attempts', async () => {
+    const provider = createProvider([createEmptyResponse('nope'), createEmptyResponse('still no')]);
+
+    const result = await chatStructured(provider, {
+      messages: [{ role: 'user', content: 'Check the tasks' }],
+      schema: TaskSchema,
+      maxAttempts: 2,
+    });
+
+    expect(result.value).toBeNull();
+    expect(result.attempts).toBe(2);
+    expect(result.error).toContain('not valid JSON');
+  });
+
+  it('should not retry provider errors', async () => {
+    const provider = createProvider([createEmptyResponse('Error calling OpenAI: 401', 'error')]);
+
+    const result = await chatStructured(provider, {
+      messages: [{ role: 'user', content: 'Check the tasks' }],
+      schema: TaskSchema,
+    });
+
+    expect(result.value).toBeNull();
+    expect(result.error).toBe('Error calling OpenAI: 401');
+    expect(provider.chat).toHaveBeenCalledTimes(1);
+  });
+});
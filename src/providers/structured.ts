@@ -0,0 +1,115 @@
+/**
+ * Typed structured output on top of any provider.
+ */
+
+import { z } from 'zod';
+import type { ChatOptions, LLMProvider, LLMResponse, Message } from './base.js';
+
+/**
+ * Default number of calls before giving up on a valid reply.
+ */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Options for chatStructured.
+ */
+export interface StructuredChatOptions<T extends z.ZodObject>
+  extends Omit<ChatOptions, 'output' | 'tools'> {
+  /** Schema the reply must match */
+  schema: T;
+  /** Name of the schema shown to the model (default 'result') */
+  name?: string;
+  /** Calls to make, counting the first, before giving up (default 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * Result of chatStructured.
+ */
+export interface StructuredResult<T> {
+  /** The validated reply, or null if none was produced */
+  value: T | null;
+  /** The last response from the provider */
+  response: LLMResponse;
+  /** Number of calls made */
+  attempts: number;
+  /** Why there is no value */
+  error?: string;
+}
+
+/**
+ * Parse and validate a reply against a schema.
+ *
+ * Code fences around the JSON are ignored, since some models add them
+ * even when asked for JSON only.
+ *
+ * @returns The value, or an error describing what is wrong with the reply.
+ */
+export function parseStructuredContent<T extends z.ZodObject>(
+  content: string | null,
+  schema: T
+): { value: z.infer<T> } | { error: string } {
+  const text = (content ?? '')
+    .trim()
+    .replace(/^```(?:json)?\s*\n?/, '')
+    .replace(/\n?```$/, '');
+  if (!text) {
+    return { error: 'The reply was empty.' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { error: `The reply is not valid JSON: ${reason}` };
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    return { error: `The reply does not match the schema:\n${z.prettifyError(result.error)}` };
+  }
+  return { value: result.data };
+}
+
+/**
+ * Ask for a reply matching a Zod schema and return it typed.
+ *
+ * Uses the provider's native structured output. Replies that still fail
+ * validation are sent back with the errors and the model is asked again,
+ * up to `maxAttempts` calls. Provider errors are not retried.
+ */
+export async function chatStructured<T extends z.ZodObject>(
+  provider: LLMProvider,
+  options: StructuredChatOptions<T>
+): Promise<StructuredResult<z.infer<T>>> {
+  const { schema, name = 'result', maxAttempts = DEFAULT_MAX_ATTEMPTS, ...chatOptions } = options;
+  const messages: Message[] = [...chatOptions.messages];
+
+  let attempts = 0;
+  let response: LLMResponse;
+  let error: string;
+  do {
+    attempts++;
+    response = await provider.chat({ ...chatOptions, messages, output: { name, schema } });
+    if (response.finishReason === 'error') {
+      return { value: null, response, attempts, error: response.content ?? 'Provider error' };
+    }
+
+    const parsed = parseStructuredContent(response.content, schema);
+    if ('value' in parsed) {
+      return { value: parsed.value, response, attempts };
+    }
+    error = parsed.error;
+
+    messages.push(
+      { role: 'assistant', content: response.content ?? '' },
+      {
+        role: 'user',
+        content: `${error}\n\nReply again with only a JSON object that matches the schema.`,
+      }
+    );
+  } while (attempts < maxAttempts);
+
+  return { value: null, response, attempts, error };
+}
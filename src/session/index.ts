@@ -9,4 +9,6 @@ export {
   type SessionMessage,
   type SessionMetadata,
   type SessionInfo,
+  type SessionToolCall,
+  type HistoryMessage,
 } from './manager.js';
@@ -84,6 +84,56 @@ describe('Session', () => {
     expect(history[4]).toEqual({ role: 'user', content: 'Message 99' });
   });
 
+  it('should include tool calls and results in history', () => {
+    const session = new Session({ key: 'test:1' });
+    const toolCalls = [
+      { id: 'call-1', type: 'function', function: { name: 'exec', arguments: '{"command":"ls"}' } },
+    ];
+
+    session.addMessage('user', 'List files');
+    session.addMessage('assistant', '', { tool_calls: toolCalls });
+    session.addMessage('tool', 'a.txt', { tool_call_id: 'call-1', name: 'exec' });
+    session.addMessage('assistant', 'One file');
+
+    const history = session.getHistory();
+    expect(history[1]).toEqual({ role: 'assistant', content: '', tool_calls: toolCalls });
+    expect(history[2]).toEqual({
+      role: 'tool',
+      content: 'a.txt',
+      tool_call_id: 'call-1',
+      name: 'exec',
+    });
+  });
+
+  it('should not start truncated history inside a tool exchange', () => {
+    const session = new Session({ key: 'test:1' });
+
+    session.addMessage('user', 'First');
+    session.addMessage('assistant', '', {
+      tool_calls: [{ id: 'c1', type: 'function', function: { name: 'exec', arguments: '{}' } }],
+    });
+    session.addMessage('tool', 'output', { tool_call_id: 'c1', name: 'exec' });
+    session.addMessage('assistant', 'Done');
+    session.addMessage('user', 'Second');
+    session.addMessage('assistant', 'Ok');
+
+    const history = session.getHistory(4);
+    expect(history.map((m) => m.role)).toEqual(['user', 'assistant']);
+    expect(history[0]?.content).toBe('Second');
+  });
+
+  it('should get history from an index', () => {
+    const session = new Session({ key: 'test:1' });
+
+    for (let i = 0; i < 10; i++) {
+      session.addMessage('user', `Message ${i}`);
+    }
+
+    const history = session.getHistoryFrom(7);
+    expect(history).toHaveLength(3);
+    expect(history[0]).toEqual({ role: 'user', content: 'Message 7' });
+  });
+
   it('should clear messages', () => {
     const session = new Session({ key: 'test:1' });
     session.addMessage('user', 'Hello');
@@ -128,6 +178,18 @@ describe('SessionManager', () => {
     expect(session.messages).toEqual([]);
   });
 
+  it('should get existing sessions only', async () => {
+    expect(await manager.get('telegram:missing')).toBeNull();
+
+    const session = await manager.getOrCreate('telegram:789');
+    session.addMessage('user', 'Hello');
+    await manager.save(session);
+    manager.clearCache();
+
+    const loaded = await manager.get('telegram:789');
+    expect(loaded?.messages).toHaveLength(1);
+  });
+
   it('should return cached session', async () => {
     const session1 = await manager.getOrCreate('telegram:123');
     session1.addMessage('user', 'Hello');
@@ -6,6 +6,7 @@ import { readFile, writeFile, unlink, readdir } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { ensureDir, getSessionsPath, safeFilename } from '../utils/helpers.js';
+import type { ReasoningBlock } from '../providers/base.js';
 
 /**
  * A message in the session.
@@ -17,6 +18,54 @@ export interface SessionMessage {
   [key: string]: unknown;
 }
 
+/**
+ * A tool call recorded on an assistant message.
+ */
+export interface SessionToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * A message as replayed to the LLM.
+ *
+ * Assistant messages may carry the tool calls they made and the
+ * reasoning behind them, and tool messages carry the id and name of the
+ * call they answer.
+ */
+export interface HistoryMessage {
+  role: string;
+  content: string;
+  tool_calls?: SessionToolCall[];
+  reasoning_blocks?: ReasoningBlock[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+/**
+ * Convert a stored message to LLM format.
+ */
+function toHistoryMessage(m: SessionMessage): HistoryMessage {
+  const msg: HistoryMessage = { role: m.role, content: m.content };
+  if (Array.isArray(m['tool_calls']) && m['tool_calls'].length > 0) {
+    msg.tool_calls = m['tool_calls'] as SessionToolCall[];
+  }
+  if (Array.isArray(m['reasoning_blocks']) && m['reasoning_blocks'].length > 0) {
+    msg.reasoning_blocks = m['reasoning_blocks'] as ReasoningBlock[];
+  }
+  if (typeof m['tool_call_id'] === 'string') {
+    msg.tool_call_id = m['tool_call_id'];
+  }
+  if (typeof m['name'] === 'string') {
+    msg.name = m['name'];
+  }
+  return msg;
+}
+
 /**
  * Session metadata stored in JSONL file.
  */
@@ -80,16 +129,35 @@ export class Session {
   /**
    * Get message history for LLM context.
    *
+   * The window never starts in the middle of a tool exchange: leading
+   * messages before the first user message are dropped so every tool
+   * result is preceded by the assistant call that produced it.
+   *
    * @param maxMessages - Maximum messages to return (default 50)
-   * @returns List of messages in LLM format (just role and content)
+   * @returns List of messages in LLM format, including tool calls and results
    */
-  getHistory(maxMessages: number = 50): Array<{ role: string; content: string }> {
-    const recent =
+  getHistory(maxMessages: number = 50): HistoryMessage[] {
+    let recent =
       this.messages.length > maxMessages
         ? this.messages.slice(-maxMessages)
         : this.messages;
 
-    return recent.map((m) => ({ role: m.role, content: m.content }));
+    if (recent.length < this.messages.length) {
+      const firstUser = recent.findIndex((m) => m.role === 'user');
+      recent = firstUser === -1 ? [] : recent.slice(firstUser);
+    }
+
+    return recent.map(toHistoryMessage);
+  }
+
+  /**
+   * Get all messages from an index onward in LLM format.
+   *
+   * @param start - Index of the first message to include
+   * @returns List of messages in LLM format, including tool calls and results
+   */
+  getHistoryFrom(start: number): HistoryMessage[] {
+    return this.messages.slice(start).map(toHistoryMessage);
   }
 
   /**
@@ -112,9 +180,13 @@ export class SessionManager {
   private cache: Map<string, Session> = new Map();
   private initialized: boolean = false;
 
-  constructor(workspace: string) {
+  /**
+   * @param workspace - Agent workspace.
+   * @param sessionsDir - Where sessions are stored (default ~/.ingenium/sessions).
+   */
+  constructor(workspace: string, sessionsDir: string = getSessionsPath()) {
     this.workspace = workspace;
-    this.sessionsDir = getSessionsPath();
+    this.sessionsDir = sessionsDir;
   }
 
   /**
@@ -163,6 +235,27 @@ export class SessionManager {
     return newSession;
   }
 
+  /**
+   * Get an existing session without creating one.
+   *
+   * @param key - Session key
+   * @returns The session, or null if it does not exist
+   */
+  async get(key: string): Promise<Session | null> {
+    await this.ensureInitialized();
+
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const session = await this.load(key);
+    if (session) {
+      this.cache.set(key, session);
+    }
+    return session;
+  }
+
   /**
    * Load a session from disk.
    */
@@ -0,0 +1,7 @@
+/**
+ * Usage and cost accounting module.
+ */
+
+export * from './pricing.js';
+export * from './ledger.js';
+export * from './tracker.js';
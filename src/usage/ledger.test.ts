@@ -0,0 +1,158 @@
+/**
+ * Tests for the usage ledger and tracker.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, appendFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { UsageLedger, getUsageChannel, summarizeUsage, type UsageRecord } from './ledger.js';
+import { UsageTracker } from './tracker.js';
+
+function record(partial: Partial<UsageRecord>): UsageRecord {
+  return {
+    timestamp: '2026-03-10T12:00:00.000Z',
+    model: 'gpt-4o',
+    sessionKey: 'telegram:1',
+    source: 'user',
+    promptTokens: 100,
+    completionTokens: 10,
+    cost: 0.01,
+    ...partial,
+  };
+}
+
+describe('summarizeUsage', () => {
+  it('should total records per group', () => {
+    const rows = summarizeUsage(
+      [
+        record({}),
+        record({ sessionKey: 'telegram:2', cost: 0.02 }),
+        record({ sessionKey: 'cron:abc', cost: null }),
+      ],
+      getUsageChannel
+    );
+
+    expect(rows).toEqual([
+      { key: 'cron', calls: 1, promptTokens: 100, completionTokens: 10, cost: 0, unpricedCalls: 1 },
+      {
+        key: 'telegram',
+        calls: 2,
+        promptTokens: 200,
+        completionTokens: 20,
+        cost: expect.closeTo(0.03) as number,
+        unpricedCalls: 0,
+      },
+    ]);
+  });
+});
+
+describe('UsageLedger', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ingenium-usage-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append and read records', async () => {
+    const ledger = new UsageLedger(join(dir, 'usage', 'ledger.jsonl'));
+    expect(await ledger.read()).toEqual([]);
+
+    await ledger.append(record({ timestamp: '2026-03-01T00:00:00.000Z' }));
+    await ledger.append(record({ timestamp: '2026-03-05T00:00:00.000Z' }));
+    await appendFile(ledger.path, '{"timestamp": "2026-03-0', 'utf-8');
+
+    expect(await ledger.read()).toHaveLength(2);
+    expect(await ledger.read(new Date('2026-03-02T00:00:00.000Z'))).toHaveLength(1);
+  });
+});
+
+describe('UsageTracker', () => {
+  let dir: string;
+  let ledger: UsageLedger;
+  let now: Date;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ingenium-usage-'));
+    ledger = new UsageLedger(join(dir, 'ledger.jsonl'));
+    now = new Date(2026, 2, 10, 12);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function tracker(budget = {}): UsageTracker {
+    return new UsageTracker({ ledger, budget, now: () => now });
+  }
+
+  it('should record calls with their cost', async () => {
+    const result = await tracker().record({
+      model: 'anthropic/claude-sonnet-4-5',
+      sessionKey: 'cron:job1',
+      source: 'cron',
+      usage: { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 },
+    });
+
+    expect(result?.cost).toBeCloseTo(3);
+    expect(await ledger.read()).toEqual([result]);
+  });
+
+  it('should skip calls that used no tokens', async () => {
+    const result = await tracker().record({
+      model: 'gpt-4o',
+      sessionKey: 'cli:direct',
+      source: 'user',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    });
+
+    expect(result).toBeNull();
+    expect(await ledger.read()).toEqual([]);
+  });
+
+  it('should total spending for today and this month', async () => {
+    await ledger.append(record({ timestamp: new Date(2026, 2, 1).toISOString(), cost: 2 }));
+    await ledger.append(record({ timestamp: new Date(2026, 1, 28).toISOString(), cost: 50 }));
+    const t = tracker({ daily: 1 });
+    await t.record({
+      model: 'gpt-4o',
+      sessionKey: 'telegram:1',
+      source: 'user',
+      usage: { promptTokens: 100_000, completionTokens: 0, totalTokens: 100_000 },
+    });
+
+    const status = await t.getBudgetStatus();
+    expect(status.spentToday).toBeCloseTo(0.25);
+    expect(status.spentThisMonth).toBeCloseTo(2.25);
+    expect(status.exceeded).toBeNull();
+  });
+
+  it('should refuse once a limit is reached', async () => {
+    await ledger.append(record({ timestamp: now.toISOString(), cost: 5 }));
+
+    const selection = await tracker({ daily: 5 }).selectModel('gpt-4o');
+
+    expect(selection.model).toBeNull();
+    expect(selection.reason).toContain('daily usage budget of $5.00 has been reached');
+  });
+
+  it('should downgrade once a limit is reached', async () => {
+    await ledger.append(record({ timestamp: now.toISOString(), cost: 30 }));
+
+    const selection = await tracker({
+      monthly: 20,
+      action: 'downgrade',
+      downgradeModel: 'gpt-4o-mini',
+    }).selectModel('gpt-4o');
+
+    expect(selection.model).toBe('gpt-4o-mini');
+  });
+
+  it('should use the requested model within budget', async () => {
+    expect(await tracker({ daily: 5 }).selectModel('gpt-4o')).toEqual({ model: 'gpt-4o' });
+  });
+});
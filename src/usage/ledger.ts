@@ -0,0 +1,143 @@
+/**
+ * Local ledger of LLM token usage.
+ */
+
+import { appendFile, readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { ensureDir } from '../utils/helpers.js';
+
+/**
+ * What triggered an LLM call.
+ */
+export type UsageSource = 'user' | 'cron' | 'heartbeat' | 'subagent';
+
+/**
+ * One LLM call recorded in the ledger.
+ */
+export interface UsageRecord {
+  /** ISO timestamp of the call */
+  timestamp: string;
+  model: string;
+  /** Session the call belongs to (e.g. 'telegram:12345') */
+  sessionKey: string;
+  source: UsageSource;
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost in USD, or null if the model has no known price */
+  cost: number | null;
+}
+
+/**
+ * Usage totals for one group of records.
+ */
+export interface UsageSummaryRow {
+  key: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost in USD of the priced calls */
+  cost: number;
+  /** Calls whose model had no known price */
+  unpricedCalls: number;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time.
+ */
+export function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Get the channel of a record from its session key (e.g. 'telegram').
+ */
+export function getUsageChannel(record: UsageRecord): string {
+  const index = record.sessionKey.indexOf(':');
+  return index === -1 ? record.sessionKey : record.sessionKey.slice(0, index);
+}
+
+/**
+ * Group records and total their tokens and cost.
+ *
+ * @param groupBy - Returns the group key of a record.
+ * @returns One row per group, sorted by key.
+ */
+export function summarizeUsage(
+  records: UsageRecord[],
+  groupBy: (record: UsageRecord) => string
+): UsageSummaryRow[] {
+  const rows = new Map<string, UsageSummaryRow>();
+
+  for (const record of records) {
+    const key = groupBy(record);
+    let row = rows.get(key);
+    if (!row) {
+      row = { key, calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedCalls: 0 };
+      rows.set(key, row);
+    }
+    row.calls++;
+    row.promptTokens += record.promptTokens;
+    row.completionTokens += record.completionTokens;
+    if (record.cost === null) {
+      row.unpricedCalls++;
+    } else {
+      row.cost += record.cost;
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Append-only ledger of usage records, stored as JSONL.
+ */
+export class UsageLedger {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Append a record to the ledger.
+   */
+  async append(record: UsageRecord): Promise<void> {
+    await ensureDir(dirname(this.path));
+    await appendFile(this.path, JSON.stringify(record) + '\n', 'utf-8');
+  }
+
+  /**
+   * Read records, oldest first.
+   *
+   * @param since - Only return records at or after this time.
+   */
+  async read(since?: Date): Promise<UsageRecord[]> {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    const content = await readFile(this.path, 'utf-8');
+    const sinceMs = since?.getTime() ?? -Infinity;
+    const records: UsageRecord[] = [];
+
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        const record = JSON.parse(line) as UsageRecord;
+        if (Date.parse(record.timestamp) >= sinceMs) {
+          records.push(record);
+        }
+      } catch {
+        // Skip lines cut short by a crash mid-write
+      }
+    }
+
+    return records;
+  }
+}
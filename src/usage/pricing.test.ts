@@ -0,0 +1,33 @@
+/**
+ * Tests for the model price table.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeCost, findModelPrice } from './pricing.js';
+
+describe('findModelPrice', () => {
+  it('should ignore the provider prefix', () => {
+    expect(findModelPrice('anthropic/claude-opus-4-5')).toEqual({ input: 5, output: 25 });
+    expect(findModelPrice('gpt-4o')).toEqual({ input: 2.5, output: 10 });
+  });
+
+  it('should use the longest matching prefix', () => {
+    expect(findModelPrice('claude-sonnet-4-20250514')).toEqual({ input: 3, output: 15 });
+    expect(findModelPrice('openai/gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+  });
+
+  it('should return null for unknown models', () => {
+    expect(findModelPrice('hosted_vllm/mistral-7b')).toBeNull();
+  });
+
+  it('should look up custom tables', () => {
+    const prices = { 'openrouter/my-model': { input: 1, output: 2 } };
+    expect(findModelPrice('openrouter/my-model', prices)).toEqual({ input: 1, output: 2 });
+  });
+});
+
+describe('computeCost', () => {
+  it('should price tokens per million', () => {
+    expect(computeCost({ input: 3, output: 15 }, 1_000_000, 200_000)).toBeCloseTo(6);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Model price table for usage cost accounting.
+ */
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+  /** Price per million prompt tokens */
+  input: number;
+  /** Price per million completion tokens */
+  output: number;
+}
+
+/**
+ * Built-in prices, keyed by model name without the provider prefix.
+ *
+ * A key also matches longer names that start with it, so
+ * 'claude-sonnet-4' covers dated releases such as 'claude-sonnet-4-20250514'.
+ * Prices can be overridden or extended with `usage.prices` in config.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'llama-3.3-70b': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b': { input: 0.05, output: 0.08 },
+  'glm-4.5': { input: 0.6, output: 2.2 },
+};
+
+/**
+ * Find the price of a model.
+ *
+ * The provider prefix (e.g. 'anthropic/') is ignored. An exact match
+ * wins; otherwise the longest key the model name starts with is used.
+ *
+ * @returns The price, or null if the model is not in the table.
+ */
+export function findModelPrice(
+  model: string,
+  prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES
+): ModelPrice | null {
+  const name = model.toLowerCase();
+  const bare = name.slice(name.lastIndexOf('/') + 1);
+
+  for (const candidate of [name, bare]) {
+    const exact = prices[candidate];
+    if (exact) {
+      return exact;
+    }
+  }
+
+  let best: string | null = null;
+  for (const key of Object.keys(prices)) {
+    if (bare.startsWith(key.toLowerCase()) && (best === null || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best === null ? null : (prices[best] ?? null);
+}
+
+/**
+ * Compute the cost in USD of a call.
+ */
+export function computeCost(
+  price: ModelPrice,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,206 @@
+/**
+ * Usage tracking and budget enforcement.
+ */
+
+import type { LLMResponse } from '../providers/base.js';
+import {
+  UsageLedger,
+  formatLocalDate,
+  type UsageRecord,
+  type UsageSource,
+} from './ledger.js';
+import { DEFAULT_MODEL_PRICES, computeCost, findModelPrice, type ModelPrice } from './pricing.js';
+
+/**
+ * Spending limits in USD.
+ */
+export interface UsageBudget {
+  /** Limit per calendar day (local time); null for none */
+  daily?: number | null;
+  /** Limit per calendar month (local time); null for none */
+  monthly?: number | null;
+  /** What to do once a limit is reached */
+  action?: 'refuse' | 'downgrade';
+  /** Model used instead when the action is 'downgrade' */
+  downgradeModel?: string;
+}
+
+/**
+ * Options for creating a UsageTracker.
+ */
+export interface UsageTrackerOptions {
+  ledger: UsageLedger;
+  /** Prices added to or replacing the built-in table */
+  prices?: Record<string, ModelPrice>;
+  budget?: UsageBudget;
+  /** Current time (replaceable in tests) */
+  now?: () => Date;
+}
+
+/**
+ * An LLM call to record.
+ */
+export interface UsageCall {
+  model: string;
+  sessionKey: string;
+  source: UsageSource;
+  usage: LLMResponse['usage'];
+}
+
+/**
+ * Spending so far against the budget.
+ */
+export interface BudgetStatus {
+  spentToday: number;
+  spentThisMonth: number;
+  /** The limit that has been reached, if any */
+  exceeded: 'daily' | 'monthly' | null;
+}
+
+/**
+ * Model to use for a turn, after applying the budget.
+ */
+export interface ModelSelection {
+  /** Model to call, or null if the call is refused */
+  model: string | null;
+  /** Why the model was downgraded or the call refused */
+  reason?: string;
+}
+
+/**
+ * Records LLM usage to the ledger and enforces spending limits.
+ *
+ * Spending for the current month is read from the ledger once and then
+ * kept up to date in memory as calls are recorded.
+ */
+export class UsageTracker {
+  readonly ledger: UsageLedger;
+  private readonly prices: Record<string, ModelPrice>;
+  private readonly budget: UsageBudget;
+  private readonly now: () => Date;
+  private spending: { month: string; costs: Array<{ date: string; cost: number }> } | null =
+    null;
+
+  constructor(options: UsageTrackerOptions) {
+    this.ledger = options.ledger;
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...options.prices };
+    this.budget = options.budget ?? {};
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Compute the cost of a call in USD, or null if the model has no price.
+   */
+  costOf(model: string, promptTokens: number, completionTokens: number): number | null {
+    const price = findModelPrice(model, this.prices);
+    return price ? computeCost(price, promptTokens, completionTokens) : null;
+  }
+
+  /**
+   * Record a call in the ledger. Calls that used no tokens are skipped.
+   */
+  async record(call: UsageCall): Promise<UsageRecord | null> {
+    const { promptTokens, completionTokens } = call.usage;
+    if (promptTokens === 0 && completionTokens === 0) {
+      return null;
+    }
+
+    const now = this.now();
+    const record: UsageRecord = {
+      timestamp: now.toISOString(),
+      model: call.model,
+      sessionKey: call.sessionKey,
+      source: call.source,
+      promptTokens,
+      completionTokens,
+      cost: this.costOf(call.model, promptTokens, completionTokens),
+    };
+
+    await this.loadSpending();
+    const date = formatLocalDate(now);
+    if (this.spending?.month === date.slice(0, 7) && record.cost !== null) {
+      this.spending.costs.push({ date, cost: record.cost });
+    }
+
+    try {
+      await this.ledger.append(record);
+    } catch (error) {
+      console.error('[UsageTracker] Failed to write usage record:', error);
+    }
+    return record;
+  }
+
+  /**
+   * Get spending today and this month, and whether a limit is reached.
+   */
+  async getBudgetStatus(): Promise<BudgetStatus> {
+    await this.loadSpending();
+    const today = formatLocalDate(this.now());
+
+    let spentToday = 0;
+    let spentThisMonth = 0;
+    for (const { date, cost } of this.spending?.costs ?? []) {
+      spentThisMonth += cost;
+      if (date === today) {
+        spentToday += cost;
+      }
+    }
+
+    const daily = this.budget.daily ?? null;
+    const monthly = this.budget.monthly ?? null;
+    let exceeded: BudgetStatus['exceeded'] = null;
+    if (daily !== null && spentToday >= daily) {
+      exceeded = 'daily';
+    } else if (monthly !== null && spentThisMonth >= monthly) {
+      exceeded = 'monthly';
+    }
+
+    return { spentToday, spentThisMonth, exceeded };
+  }
+
+  /**
+   * Choose the model for a turn.
+   *
+   * Within budget the requested model is used. Once a limit is reached,
+   * the downgrade model is used if configured, otherwise the call is refused.
+   */
+  async selectModel(model: string): Promise<ModelSelection> {
+    const status = await this.getBudgetStatus();
+    if (status.exceeded === null) {
+      return { model };
+    }
+
+    const limit = status.exceeded === 'daily' ? this.budget.daily : this.budget.monthly;
+    const spent = status.exceeded === 'daily' ? status.spentToday : status.spentThisMonth;
+    const period = status.exceeded === 'daily' ? 'daily' : 'monthly';
+    const summary = `The ${period} usage budget of $${(limit ?? 0).toFixed(2)} has been reached ($${spent.toFixed(2)} spent)`;
+
+    if (this.budget.action === 'downgrade' && this.budget.downgradeModel) {
+      return {
+        model: this.budget.downgradeModel,
+        reason: `${summary}; using ${this.budget.downgradeModel}`,
+      };
+    }
+    return { model: null, reason: `${summary}. Try again when the budget resets.` };
+  }
+
+  /**
+   * Load this month's spending from the ledger, reloading when the month changes.
+   */
+  private async loadSpending(): Promise<void> {
+    const now = this.now();
+    const month = formatLocalDate(now).slice(0, 7);
+    if (this.spending?.month === month) {
+      return;
+    }
+
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const records = await this.ledger.read(monthStart);
+    this.spending = {
+      month,
+      costs: records
+        .filter((r) => r.cost !== null)
+        .map((r) => ({ date: formatLocalDate(new Date(r.timestamp)), cost: r.cost as number })),
+    };
+  }
+}
@@ -46,6 +46,14 @@ export function getSessionsPath(): string {
   return join(getDataPath(), 'sessions');
 }
 
+/**
+ * Get the usage ledger path.
+ * @returns Path to the usage ledger file
+ */
+export function getUsageLedgerPath(): string {
+  return join(getDataPath(), 'usage', 'ledger.jsonl');
+}
+
 /**
  * Get the memory directory within the workspace.
  * @param workspace - Optional workspace path